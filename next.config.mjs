@@ -4,6 +4,8 @@ const nextConfig = {
     serverActions: {
       bodySizeLimit: "250mb",
     },
+    // Attachment uploads go through the middleware (25MB files)
+    middlewareClientMaxBodySize: "30mb",
   },
   compiler: {
     // Supprimer les console.log en production
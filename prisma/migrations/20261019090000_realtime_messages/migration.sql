@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "realtime_messages" (
+    "id" BIGSERIAL NOT NULL,
+    "payload" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "realtime_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_realtime_messages_created_at" ON "realtime_messages"("created_at");
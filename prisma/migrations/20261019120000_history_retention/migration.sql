@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "document_history" ADD COLUMN     "label" TEXT,
+ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateIndex
+CREATE INDEX "idx_document_history_created_at" ON "document_history"("created_at");
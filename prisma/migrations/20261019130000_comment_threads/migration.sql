@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "comments" ADD COLUMN     "parent_id" INTEGER,
+ADD COLUMN     "anchor" JSONB,
+ADD COLUMN     "resolved_at" TIMESTAMP(3),
+ADD COLUMN     "resolved_by" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "idx_comments_parent_id" ON "comments"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "comments" ADD CONSTRAINT "comments_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "comments" ADD CONSTRAINT "comments_resolved_by_fkey" FOREIGN KEY ("resolved_by") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
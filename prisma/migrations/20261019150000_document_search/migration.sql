@@ -0,0 +1,134 @@
+-- Full-text search over notes: title, tags, text and comments, with trigram matching for typos.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- CreateTable
+CREATE TABLE "document_search" (
+    "document_id" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "tags_text" TEXT NOT NULL DEFAULT '',
+    "body" TEXT NOT NULL DEFAULT '',
+    "comments_text" TEXT NOT NULL DEFAULT '',
+    "search_vector" tsvector,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "document_search_pkey" PRIMARY KEY ("document_id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_document_search_vector" ON "document_search" USING GIN ("search_vector");
+
+-- CreateIndex
+CREATE INDEX "idx_document_search_title_trgm" ON "document_search" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "idx_document_search_body_trgm" ON "document_search" USING GIN ("body" gin_trgm_ops);
+
+-- AddForeignKey
+ALTER TABLE "document_search" ADD CONSTRAINT "document_search_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Text search configuration chosen in the admin settings ("simple" when unset or unknown)
+CREATE OR REPLACE FUNCTION notus_search_config() RETURNS regconfig
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  configured TEXT;
+BEGIN
+  SELECT value INTO configured FROM app_settings WHERE key = 'search_language';
+  IF configured IS NULL OR configured = '' THEN
+    RETURN 'simple'::regconfig;
+  END IF;
+  RETURN configured::regconfig;
+EXCEPTION WHEN others THEN
+  RETURN 'simple'::regconfig;
+END;
+$$;
+
+-- Plain text of a note's stored content: JSON snapshots are unwrapped, markup, drawings and
+-- inline files are dropped. Control characters are removed, as they mark matches in snippets.
+CREATE OR REPLACE FUNCTION notus_note_text(content TEXT) RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  body TEXT := COALESCE(content, '');
+BEGIN
+  IF body LIKE '{%}' THEN
+    BEGIN
+      body := COALESCE(body::jsonb ->> 'text', body);
+    EXCEPTION WHEN others THEN
+      -- Not JSON: the content is the text itself
+    END;
+  END IF;
+  body := regexp_replace(body, '```drawing\n.*?\n```', ' ', 'g');
+  body := regexp_replace(body, 'data:[^\s"'')]+', ' ', 'g');
+  body := regexp_replace(body, '<[^>]*>', ' ', 'g');
+  body := regexp_replace(body, '&(nbsp|amp|lt|gt|quot|#39);', ' ', 'g');
+  body := regexp_replace(body, '[#*_`>~|\[\]]+', ' ', 'g');
+  body := regexp_replace(body, '[\x01-\x08\x0b\x0c\x0e-\x1f]', ' ', 'g');
+  body := regexp_replace(body, '\s+', ' ', 'g');
+  -- A tsvector is limited to 1MB
+  RETURN left(btrim(body), 200000);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notus_refresh_document_search(doc_id INTEGER) RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  config regconfig := notus_search_config();
+BEGIN
+  INSERT INTO document_search (document_id, title, tags_text, body, comments_text, search_vector, updated_at)
+  SELECT source.id, source.title, source.tags_text, source.body, source.comments_text,
+         setweight(to_tsvector(config, source.title), 'A')
+         || setweight(to_tsvector(config, source.tags_text), 'B')
+         || setweight(to_tsvector(config, source.body), 'C')
+         || setweight(to_tsvector(config, source.comments_text), 'D'),
+         CURRENT_TIMESTAMP
+  FROM (
+    SELECT d.id,
+           d.title,
+           array_to_string(d.tags, ' ') AS tags_text,
+           notus_note_text(d.content) AS body,
+           left(COALESCE((SELECT string_agg(c.content, ' ' ORDER BY c.id) FROM comments c WHERE c.document_id = d.id), ''), 100000) AS comments_text
+    FROM documents d
+    WHERE d.id = doc_id
+  ) AS source
+  ON CONFLICT (document_id) DO UPDATE SET
+    title = EXCLUDED.title,
+    tags_text = EXCLUDED.tags_text,
+    body = EXCLUDED.body,
+    comments_text = EXCLUDED.comments_text,
+    search_vector = EXCLUDED.search_vector,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notus_documents_search_trigger() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  PERFORM notus_refresh_document_search(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER documents_search_refresh
+  AFTER INSERT OR UPDATE OF title, content, tags ON documents
+  FOR EACH ROW
+  EXECUTE FUNCTION notus_documents_search_trigger();
+
+CREATE OR REPLACE FUNCTION notus_comments_search_trigger() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM notus_refresh_document_search(OLD.document_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.document_id <> OLD.document_id) THEN
+    PERFORM notus_refresh_document_search(NEW.document_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER comments_search_refresh
+  AFTER INSERT OR UPDATE OF content, document_id OR DELETE ON comments
+  FOR EACH ROW
+  EXECUTE FUNCTION notus_comments_search_trigger();
+
+-- Index the existing notes
+SELECT notus_refresh_document_search(id) FROM documents;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "folders" ADD COLUMN "parent_id" INTEGER;
+
+-- A folder can't be its own parent; longer cycles are refused when moving a folder
+ALTER TABLE "folders" ADD CONSTRAINT "folders_parent_not_self" CHECK ("parent_id" IS NULL OR "parent_id" <> "id");
+
+-- CreateIndex
+CREATE INDEX "idx_folders_parent_id" ON "folders"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "folders" ADD CONSTRAINT "folders_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "folders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "attachment_links" (
+    "attachment_id" TEXT NOT NULL,
+    "document_id" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachment_links_pkey" PRIMARY KEY ("attachment_id","document_id")
+);
+
+-- CreateIndex
+CREATE INDEX "idx_attachment_links_document_id" ON "attachment_links"("document_id");
+
+-- AddForeignKey
+ALTER TABLE "attachment_links" ADD CONSTRAINT "attachment_links_attachment_id_fkey" FOREIGN KEY ("attachment_id") REFERENCES "attachments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachment_links" ADD CONSTRAINT "attachment_links_document_id_fkey" FOREIGN KEY ("document_id") REFERENCES "documents"("id") ON DELETE CASCADE ON UPDATE CASCADE;
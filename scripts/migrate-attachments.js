@@ -0,0 +1,196 @@
+// Moves the base64 data URLs of existing notes (and of their history) to attachments.
+// Run once the attachments table exists, with the app stopped: open notes keep their content in
+// memory and would write the data URLs back.
+//
+//   npm run migrate-attachments
+//
+// Mirrors AttachmentService.extractDataUrls and LocalBlobStore, which can't be loaded from plain
+// Node: keep them in sync.
+require("dotenv").config({ path: [".env.local", ".env"], quiet: true });
+
+const { createHash, randomUUID } = require("crypto");
+const { promises: fs } = require("fs");
+const path = require("path");
+const { PrismaClient } = require("@prisma/client");
+
+const prisma = new PrismaClient();
+
+const BATCH_SIZE = 20;
+const DATA_URL_MARKER = ";base64,";
+const MIN_EXTRACTED_DATA_URL_LENGTH = 1024;
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+// Only this trigger is left out: the search index triggers must still see the new content
+const UPDATED_AT_TRIGGER = "update_documents_updated_at";
+
+function createBase64DataUrlPattern() {
+  return /data:([\w.+-]+\/[\w.+-]+)((?:;[\w.+-]+=[^;,"'\s)]+)*);base64,([A-Za-z0-9+/]+={0,2})/g;
+}
+
+function normalizeMimeType(type) {
+  const cleaned = type.toLowerCase().trim();
+  return MIME_TYPE_PATTERN.test(cleaned) ? cleaned : "application/octet-stream";
+}
+
+function extensionFor(mimeType) {
+  const subtype = mimeType.split("/")[1] ?? "";
+  const known = { jpeg: "jpg", "svg+xml": "svg", mpeg: "mp3", "octet-stream": "bin" };
+  return known[subtype] ?? (subtype.replace(/[^a-z0-9]/g, "") || "bin");
+}
+
+function getStorageRoot() {
+  const backend = (process.env.ATTACHMENT_STORAGE || "local").toLowerCase();
+  if (backend !== "local") {
+    throw new Error(`Only the local attachment storage can be migrated to, not ${backend}`);
+  }
+  return path.resolve(process.env.ATTACHMENT_STORAGE_DIR || "storage/attachments");
+}
+
+async function putBlob(root, sha256, data) {
+  const target = path.join(root, sha256.slice(0, 2), sha256.slice(2, 4), sha256);
+  try {
+    await fs.access(target);
+    return;
+  } catch {
+    // Not stored yet
+  }
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const temporary = `${target}.${randomUUID()}.tmp`;
+  await fs.writeFile(temporary, data);
+  await fs.rename(temporary, target);
+}
+
+async function createAttachment(root, { data, mimeType, userId, documentId }) {
+  const sha256 = createHash("sha256").update(data).digest("hex");
+  await putBlob(root, sha256, data);
+
+  const existing = await prisma.attachment.findFirst({
+    where: { sha256, document_id: documentId },
+    orderBy: { created_at: "asc" },
+  });
+  if (existing) return existing;
+
+  return prisma.attachment.create({
+    data: {
+      sha256,
+      size: data.length,
+      mime_type: mimeType,
+      file_name: `attachment.${extensionFor(mimeType)}`,
+      user_id: userId,
+      document_id: documentId,
+    },
+  });
+}
+
+async function extractDataUrls(root, content, documentId, userId) {
+  const urls = new Map();
+  for (const match of content.matchAll(createBase64DataUrlPattern())) {
+    const [dataUrl, mimeType, , base64] = match;
+    if (dataUrl.length < MIN_EXTRACTED_DATA_URL_LENGTH || urls.has(dataUrl)) continue;
+
+    const attachment = await createAttachment(root, {
+      data: Buffer.from(base64, "base64"),
+      mimeType: normalizeMimeType(mimeType),
+      userId,
+      documentId,
+    });
+    urls.set(dataUrl, `/api/attachments/${attachment.id}`);
+  }
+
+  if (urls.size === 0) return { content, extractedCount: 0 };
+  const replaced = content.replace(createBase64DataUrlPattern(), (dataUrl) => urls.get(dataUrl) ?? dataUrl);
+  return { content: replaced, extractedCount: urls.size };
+}
+
+async function migrateDocuments(root) {
+  let migrated = 0;
+  let cursor = 0;
+
+  for (;;) {
+    const documents = await prisma.document.findMany({
+      where: { id: { gt: cursor }, content: { contains: DATA_URL_MARKER } },
+      select: { id: true, user_id: true, content: true },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (documents.length === 0) break;
+
+    for (const document of documents) {
+      cursor = document.id;
+      const result = await extractDataUrls(root, document.content, document.id, document.user_id);
+      if (result.extractedCount === 0) continue;
+
+      // The content changes, not the note: updated_at is kept by leaving its trigger out
+      await prisma.$transaction([
+        prisma.$executeRawUnsafe(`ALTER TABLE documents DISABLE TRIGGER ${UPDATED_AT_TRIGGER}`),
+        prisma.$executeRawUnsafe(`UPDATE documents SET content = $1 WHERE id = $2`, result.content, document.id),
+        prisma.$executeRawUnsafe(`ALTER TABLE documents ENABLE TRIGGER ${UPDATED_AT_TRIGGER}`),
+      ]);
+      migrated++;
+      console.log(`📎 Document ${document.id}: ${result.extractedCount} attachment(s)`);
+    }
+  }
+
+  return migrated;
+}
+
+async function migrateHistory(root) {
+  let migrated = 0;
+  let cursor = 0;
+
+  for (;;) {
+    const entries = await prisma.documentHistory.findMany({
+      where: {
+        id: { gt: cursor },
+        OR: [
+          { snapshot_before: { contains: DATA_URL_MARKER } },
+          { snapshot_after: { contains: DATA_URL_MARKER } },
+        ],
+      },
+      select: { id: true, document_id: true, snapshot_before: true, snapshot_after: true, document: { select: { user_id: true } } },
+      orderBy: { id: "asc" },
+      take: BATCH_SIZE,
+    });
+    if (entries.length === 0) break;
+
+    for (const entry of entries) {
+      cursor = entry.id;
+      const ownerId = entry.document.user_id;
+      const after = await extractDataUrls(root, entry.snapshot_after, entry.document_id, ownerId);
+      const before = entry.snapshot_before
+        ? await extractDataUrls(root, entry.snapshot_before, entry.document_id, ownerId)
+        : null;
+      if (after.extractedCount === 0 && !before?.extractedCount) continue;
+
+      await prisma.documentHistory.update({
+        where: { id: entry.id },
+        data: {
+          snapshot_after: after.content,
+          ...(before ? { snapshot_before: before.content } : {}),
+        },
+      });
+      migrated++;
+    }
+  }
+
+  return migrated;
+}
+
+async function main() {
+  try {
+    console.log("🔄 Moving data URLs to attachments...");
+    const root = getStorageRoot();
+
+    const documentCount = await migrateDocuments(root);
+    const historyCount = await migrateHistory(root);
+
+    console.log(`✅ ${documentCount} document(s) and ${historyCount} history entry(ies) migrated`);
+    await prisma.$disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error("❌ Error while migrating attachments:", error);
+    await prisma.$disconnect();
+    process.exit(1);
+  }
+}
+
+main();
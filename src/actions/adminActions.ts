@@ -4,6 +4,8 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import { EmailService } from "@/lib/services/EmailService";
+import { compactDocumentHistory } from "@/lib/historyRetention";
+import { SEARCH_LANGUAGE_SETTING_KEY, isSearchLanguage } from "@/lib/noteSearch";
 
 const emailService = new EmailService();
 
@@ -436,6 +438,54 @@ export async function updateAdminSettingsAction(key: string, value: string, desc
   }
 }
 
+/**
+ * Applies the history retention policy now instead of waiting for the hourly job.
+ */
+export async function runHistoryCompactionAction(): Promise<{ success: boolean; removedCount?: number; error?: string }> {
+  try {
+    const isAdmin = await checkAdminAccess();
+    if (!isAdmin) return { success: false, error: "Access denied" };
+
+    const removedCount = await compactDocumentHistory();
+    return { success: true, removedCount };
+  } catch (error) {
+    console.error("❌ Error compacting history:", error);
+    return { success: false, error: "Error compacting history" };
+  }
+}
+
+/**
+ * Changes the language used to stem the words of notes and queries, and reindexes every note
+ * with it.
+ */
+export async function updateSearchLanguageAction(language: string): Promise<{ success: boolean; indexedCount?: number; error?: string }> {
+  try {
+    const isAdmin = await checkAdminAccess();
+    if (!isAdmin) return { success: false, error: "Access denied" };
+    if (!isSearchLanguage(language)) return { success: false, error: "Unsupported language" };
+
+    if (!process.env.DATABASE_URL) return { success: true, indexedCount: 0 };
+
+    await prisma.appSetting.upsert({
+      where: { key: SEARCH_LANGUAGE_SETTING_KEY },
+      update: { value: language },
+      create: {
+        key: SEARCH_LANGUAGE_SETTING_KEY,
+        value: language,
+        description: "Language used to stem words in note search",
+      },
+    });
+
+    const indexedCount = await prisma.$executeRawUnsafe(
+      `SELECT notus_refresh_document_search(id) FROM documents`
+    );
+    return { success: true, indexedCount };
+  } catch (error) {
+    console.error("❌ Error updating search language:", error);
+    return { success: false, error: "Error updating search language" };
+  }
+}
+
 export async function promoteSelfAction(): Promise<{ success: boolean; error?: string }> {
   try {
     const session = await getServerSession(authOptions);
@@ -4,9 +4,33 @@ import { prisma } from "@/lib/prisma";
 import { auth } from "@/../auth";
 import { DocumentService } from "@/lib/services/DocumentService";
 import { revalidatePath } from "next/cache";
+import { isTextAnchor, type TextAnchor } from "@/lib/commentAnchors";
+import { extractMentions } from "@/lib/mentions";
+import { sendMentionNotifications, type MentionNotificationResult } from "@/lib/mentionNotifications";
 
 const documentService = new DocumentService();
 
+const COMMENT_USER_SELECT = {
+  id: true,
+  username: true,
+  first_name: true,
+  last_name: true,
+  email: true,
+  profile_image: true,
+};
+
+const COMMENT_INCLUDE = {
+  user: { select: COMMENT_USER_SELECT },
+  resolver: { select: COMMENT_USER_SELECT },
+};
+
+interface CreateCommentOptions {
+  // Comment being replied to: the reply joins its thread
+  parentId?: number | null;
+  // Text range the new thread is attached to
+  anchor?: TextAnchor | null;
+}
+
 /**
  * Helper to ensure the user is authenticated and return their credentials.
  */
@@ -46,18 +70,7 @@ export async function getComments(documentId: number) {
     const comments = await (prisma as any).comment.findMany({
       where: { document_id: documentId },
       orderBy: { created_at: "asc" },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            first_name: true,
-            last_name: true,
-            email: true,
-            profile_image: true,
-          },
-        },
-      },
+      include: COMMENT_INCLUDE,
     });
 
     return {
@@ -71,9 +84,10 @@ export async function getComments(documentId: number) {
 }
 
 /**
- * Creates a new comment on a document.
+ * Creates a new comment on a document, either starting a thread (optionally anchored to a
+ * text range) or replying to an existing one.
  */
-export async function createComment(documentId: number, content: string) {
+export async function createComment(documentId: number, content: string, options: CreateCommentOptions = {}) {
   try {
     const { userId, email } = await getAuthenticatedUser();
 
@@ -101,34 +115,117 @@ export async function createComment(documentId: number, content: string) {
       return { success: false, error: "Access denied" };
     }
 
+    let parentId: number | null = null;
+    if (options.parentId) {
+      const parent = await (prisma as any).comment.findFirst({
+        where: { id: options.parentId, document_id: documentId },
+        select: { id: true, parent_id: true },
+      });
+      if (!parent) {
+        return { success: false, error: "Comment thread not found" };
+      }
+      // Threads are one level deep: replying to a reply answers its thread
+      parentId = parent.parent_id ?? parent.id;
+    }
+
+    if (options.anchor && (parentId !== null || !isTextAnchor(options.anchor))) {
+      return { success: false, error: "Invalid comment anchor" };
+    }
+
     const comment = await (prisma as any).comment.create({
       data: {
         document_id: documentId,
         user_id: userId,
         content: trimmed,
+        parent_id: parentId,
+        anchor: options.anchor
+          ? {
+              quote: options.anchor.quote,
+              prefix: options.anchor.prefix,
+              suffix: options.anchor.suffix,
+              start: options.anchor.start,
+              end: options.anchor.end,
+            }
+          : undefined,
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            username: true,
-            first_name: true,
-            last_name: true,
-            email: true,
-            profile_image: true,
-          },
-        },
-      },
+      include: COMMENT_INCLUDE,
     });
 
+    // A new reply reopens a resolved thread
+    if (parentId !== null) {
+      await (prisma as any).comment.updateMany({
+        where: { id: parentId, resolved_at: { not: null } },
+        data: { resolved_at: null, resolved_by: null },
+      });
+    }
+
+    // A failed notification must not fail the comment itself
+    let mentions: MentionNotificationResult = { notified: [], withoutAccess: [] };
+    try {
+      mentions = await sendMentionNotifications(documentId, userId, extractMentions(trimmed), {
+        source: "comment",
+        commentThreadId: parentId ?? comment.id,
+      });
+    } catch (mentionError) {
+      console.error("❌ Error notifying comment mentions:", mentionError);
+    }
+
     revalidatePath(`/documents/${documentId}`); // Assuming this is where comments are shown
 
     return {
       success: true,
       comment,
+      mentions,
     };
   } catch (error) {
     console.error("❌ Error creating comment:", error);
     return { success: false, error: "Failed to create comment" };
   }
 }
+
+/**
+ * Resolves or reopens a comment thread.
+ */
+export async function setCommentThreadResolved(commentId: number, resolved: boolean) {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (!commentId || commentId <= 0) {
+      return { success: false, error: "Invalid comment ID" };
+    }
+
+    const comment = await (prisma as any).comment.findUnique({
+      where: { id: commentId },
+      select: { id: true, document_id: true, parent_id: true },
+    });
+    if (!comment) {
+      return { success: false, error: "Comment not found" };
+    }
+
+    const hasAccess = await documentService.userHasAccessToDocument(
+      comment.document_id,
+      userId,
+      email
+    );
+
+    if (!hasAccess) {
+      return { success: false, error: "Access denied" };
+    }
+
+    // The state of a thread is kept on its first comment
+    const thread = await (prisma as any).comment.update({
+      where: { id: comment.parent_id ?? comment.id },
+      data: resolved
+        ? { resolved_at: new Date(), resolved_by: userId }
+        : { resolved_at: null, resolved_by: null },
+      include: COMMENT_INCLUDE,
+    });
+
+    revalidatePath(`/documents/${comment.document_id}`);
+
+    return { success: true, comment: thread };
+  } catch (error) {
+    console.error("❌ Error updating comment thread:", error);
+    return { success: false, error: "Failed to update comment thread" };
+  }
+}
@@ -3,10 +3,13 @@
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
 import { DocumentValidator } from "@/lib/validators/DocumentValidator";
-import { ActionResult } from "@/lib/types";
-import { recordDocumentHistoryImmediate } from "@/lib/documentHistory";
+import { ActionResult, DocumentHistorySummary, DocumentRemoteChange, DocumentSyncState } from "@/lib/types";
+import { extractTextFromStoredContent, recordDocumentHistoryImmediate } from "@/lib/documentHistory";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
+import { AttachmentService } from "@/lib/services/AttachmentService";
+
+const attachmentService = new AttachmentService();
 
 // --- Helper Functions ---
 
@@ -81,6 +84,10 @@ export async function createDocumentAction(prevState: unknown, formData: FormDat
       },
     });
 
+    // Files uploaded while the note was being written belong to it from now on
+    await attachmentService.claimAttachmentsForDocument(document.id, userIdNumber, document.content);
+    await attachmentService.recordAttachmentLinks(document.id, document.content, { userId: userIdNumber, email: null, isAdmin: false });
+
     revalidatePath("/documents");
     return {
       success: true,
@@ -365,6 +372,7 @@ export async function updateDocumentAction(prevState: unknown, formDataOrObj: Fo
         tags,
       }
     });
+    await attachmentService.recordAttachmentLinks(idNum, contentStr, { userId: userIdToUse, email: userEmail ?? null, isAdmin: false });
 
     revalidatePath(`/documents/${idNum}`);
     revalidatePath("/documents");
@@ -808,9 +816,11 @@ export async function getDocumentHistoryAction(documentId: number) {
 
          if (!hasAccess) return { success: false, error: "Unauthorized" };
 
-         const history = await prisma.documentHistory.findMany({
+         const history: DocumentHistorySummary[] = await prisma.documentHistory.findMany({
              where: { document_id: documentId },
              orderBy: { created_at: "asc" },
+             // Snapshots are loaded one version at a time (preview, comparison)
+             omit: { snapshot_before: true, snapshot_after: true },
              include: {
                  user: {
                      select: {
@@ -831,6 +841,201 @@ export async function getDocumentHistoryAction(documentId: number) {
     }
 }
 
+async function findHistoryEntryForUser(documentId: number, historyId: number, requireEdit: boolean) {
+    const { id: userId, email } = await getAuthenticatedUser();
+
+    const doc = await prisma.document.findUnique({ where: { id: documentId } });
+    if (!doc) return { error: "Not found" } as const;
+
+    let hasAccess = doc.user_id === userId;
+    if (!hasAccess && email) {
+        const share = await prisma.share.findFirst({
+            where: {
+                id_doc: documentId,
+                email: { equals: email, mode: 'insensitive' },
+                ...(requireEdit ? { permission: true } : {})
+            }
+        });
+        if (share) hasAccess = true;
+    }
+
+    if (!hasAccess) return { error: "Unauthorized" } as const;
+
+    const entry = await prisma.documentHistory.findFirst({
+        where: { id: historyId, document_id: documentId }
+    });
+    if (!entry) return { error: "Version not found" } as const;
+
+    return { doc, entry, userId, email } as const;
+}
+
+/**
+ * Text of the document right after the given history entry.
+ */
+export async function getDocumentVersionAction(documentId: number, historyId: number) {
+    try {
+         const found = await findHistoryEntryForUser(documentId, historyId, false);
+         if ("error" in found) return { success: false, error: found.error };
+
+         return {
+             success: true,
+             version: {
+                 id: found.entry.id,
+                 text: extractTextFromStoredContent(found.entry.snapshot_after),
+                 createdAt: found.entry.created_at.toISOString(),
+             }
+         };
+    } catch (e) {
+         return { success: false, error: "Error fetching version" };
+    }
+}
+
+/**
+ * Text of a version for a user allowed to restore it. Clients connected to the collaboration room
+ * restore it through the room, which saves it: nothing is written here.
+ */
+export async function getRestorableVersionAction(documentId: number, historyId: number) {
+    try {
+         const found = await findHistoryEntryForUser(documentId, historyId, true);
+         if ("error" in found) return { success: false, error: found.error };
+
+         return {
+             success: true,
+             text: extractTextFromStoredContent(found.entry.snapshot_after),
+         };
+    } catch (e) {
+         return { success: false, error: "Error loading version" };
+    }
+}
+
+/**
+ * Brings the document content back to the given history entry, for clients that are not
+ * connected to the collaboration room. The restore is recorded as a new history entry, so it can
+ * itself be undone.
+ */
+export async function restoreDocumentVersionAction(documentId: number, historyId: number) {
+    try {
+         const found = await findHistoryEntryForUser(documentId, historyId, true);
+         if ("error" in found) return { success: false, error: found.error };
+         const { doc, entry, userId, email } = found;
+
+         await recordDocumentHistoryImmediate({
+             documentId,
+             userId,
+             userEmail: email,
+             previousContent: doc.content,
+             nextContent: entry.snapshot_after,
+         });
+
+         await prisma.document.update({
+             where: { id: documentId },
+             data: { content: entry.snapshot_after }
+         });
+
+         revalidatePath(`/documents/${documentId}`);
+         revalidatePath("/documents");
+
+         return {
+             success: true,
+             text: extractTextFromStoredContent(entry.snapshot_after),
+         };
+    } catch (e) {
+         return { success: false, error: "Error restoring version" };
+    }
+}
+
+const VERSION_LABEL_MAX_LENGTH = 100;
+
+/**
+ * Names a version, which pins it so the history retention policy keeps it.
+ * An empty name removes the name and unpins the version.
+ */
+export async function nameDocumentVersionAction(documentId: number, historyId: number, label: string | null) {
+    try {
+         const found = await findHistoryEntryForUser(documentId, historyId, true);
+         if ("error" in found) return { success: false, error: found.error };
+
+         const name = (label ?? "").trim();
+         if (name.length > VERSION_LABEL_MAX_LENGTH) {
+             return { success: false, error: `Version name must be at most ${VERSION_LABEL_MAX_LENGTH} characters` };
+         }
+
+         const entry = await prisma.documentHistory.update({
+             where: { id: historyId },
+             data: { label: name || null, pinned: name.length > 0 }
+         });
+
+         return { success: true, version: { id: entry.id, label: entry.label, pinned: entry.pinned } };
+    } catch (e) {
+         return { success: false, error: "Error naming version" };
+    }
+}
+
+/**
+ * Current server state of a document, plus the history entries recorded by other users
+ * after `sinceHistoryId`. Used to replay edits made offline.
+ */
+export async function getDocumentSyncStateAction(
+    documentId: number,
+    sinceHistoryId: number | null = null
+): Promise<{ success: boolean; state?: DocumentSyncState; error?: string }> {
+    try {
+         const { id: userId, email } = await getAuthenticatedUser();
+
+         const doc = await prisma.document.findUnique({ where: { id: documentId } });
+         if (!doc) return { success: false, error: "Not found" };
+
+         let hasAccess = doc.user_id === userId;
+         if (!hasAccess && email) {
+             const share = await prisma.share.findFirst({
+                 where: { id_doc: documentId, email: { equals: email, mode: 'insensitive' } }
+             });
+             if (share) hasAccess = true;
+         }
+
+         if (!hasAccess) return { success: false, error: "Unauthorized" };
+
+         const latest = await prisma.documentHistory.findFirst({
+             where: { document_id: documentId },
+             orderBy: { id: "desc" },
+             select: { id: true }
+         });
+
+         const remoteChanges = sinceHistoryId === null ? [] : await prisma.documentHistory.findMany({
+             where: {
+                 document_id: documentId,
+                 id: { gt: sinceHistoryId },
+                 NOT: { user_id: userId }
+             },
+             orderBy: { id: "asc" },
+             select: {
+                 id: true,
+                 user_email: true,
+                 created_at: true,
+                 user: { select: { username: true } }
+             }
+         });
+
+         return {
+             success: true,
+             state: {
+                 text: extractTextFromStoredContent(doc.content),
+                 title: doc.title,
+                 tags: doc.tags,
+                 updatedAt: doc.updated_at.toISOString(),
+                 latestHistoryId: latest?.id ?? null,
+                 remoteChanges: remoteChanges.map((entry: { id: number; user_email: string | null; created_at: Date; user: { username: string | null } | null }): DocumentRemoteChange => ({
+                     id: entry.id,
+                     author: entry.user?.username || entry.user_email || "Unknown user",
+                     createdAt: entry.created_at.toISOString(),
+                 })),
+             }
+         };
+    } catch (e) {
+         return { success: false, error: "Error fetching document state" };
+    }
+}
+
 export async function getUserTrashDocumentsAction(userId: number, limit: number = 20, offset: number = 0) {
     try {
         const paginationValidation = DocumentValidator.validatePaginationParams(limit, offset);
@@ -3,6 +3,10 @@
 import { prisma } from "@/lib/prisma";
 import { auth } from "@/../auth";
 import { revalidatePath } from "next/cache";
+import { FolderService } from "@/lib/services/FolderService";
+import { MAX_FOLDER_DEPTH, MAX_FOLDER_NAME_LENGTH } from "@/lib/folderTree";
+
+const folderService = new FolderService();
 
 /**
  * Helper to ensure the user is authenticated and return their ID.
@@ -19,6 +23,16 @@ async function getAuthenticatedUserId() {
   return userId;
 }
 
+function validateFolderName(name: unknown): string | null {
+  if (!name || typeof name !== "string" || name.trim().length === 0) {
+    return "Invalid name";
+  }
+  if (name.trim().length > MAX_FOLDER_NAME_LENGTH) {
+    return `Name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
 /**
  * Retrieves all folders for the current user.
  */
@@ -43,6 +57,7 @@ export async function getFolders() {
       folders: folders.map((f) => ({
         id: f.id,
         name: f.name,
+        parent_id: f.parent_id ?? null,
         created_at: f.created_at,
         updated_at: f.updated_at,
         documentCount: f.documents.length,
@@ -55,19 +70,31 @@ export async function getFolders() {
 }
 
 /**
- * Creates a new folder for the current user.
+ * Creates a new folder for the current user, at the root or inside one of their folders.
  */
-export async function createFolder(name: string) {
+export async function createFolder(name: string, parentId: number | null = null) {
   try {
     const userId = await getAuthenticatedUserId();
 
-    if (!name || typeof name !== "string" || name.trim().length === 0) {
-      return { success: false, error: "Invalid name" };
+    const invalidName = validateFolderName(name);
+    if (invalidName) {
+      return { success: false, error: invalidName };
+    }
+
+    if (parentId !== null) {
+      if (!(await folderService.isFolderOwnedBy(parentId, userId))) {
+        return { success: false, error: "Parent folder not found or access denied" };
+      }
+      const ancestry = await folderService.getFolderAncestry(parentId);
+      if ((ancestry.data?.length ?? 0) >= MAX_FOLDER_DEPTH) {
+        return { success: false, error: "Folders are nested too deeply" };
+      }
     }
 
     const folder = await prisma.folder.create({
       data: {
         user_id: userId,
+        parent_id: parentId,
         name: name.trim(),
       },
     });
@@ -79,6 +106,7 @@ export async function createFolder(name: string) {
       folder: {
         id: folder.id,
         name: folder.name,
+        parent_id: folder.parent_id ?? null,
         created_at: folder.created_at,
         updated_at: folder.updated_at,
       },
@@ -90,12 +118,17 @@ export async function createFolder(name: string) {
 }
 
 /**
- * Retrieves a specific folder by ID, ensuring ownership.
+ * Retrieves a specific folder by ID with its subfolders and its path from the root,
+ * ensuring ownership.
  */
 export async function getFolderById(id: number) {
   try {
     const userId = await getAuthenticatedUserId();
 
+    if (!(await folderService.isFolderOwnedBy(id, userId))) {
+      return { success: false, error: "Folder not found or access denied" };
+    }
+
     const folder = await prisma.folder.findFirst({
       where: { id: id, user_id: userId },
       include: {
@@ -107,6 +140,12 @@ export async function getFolderById(id: number) {
             created_at: "desc",
           },
         },
+        children: {
+          include: {
+            _count: { select: { documents: true } },
+          },
+          orderBy: { name: "asc" },
+        },
       },
     });
 
@@ -114,13 +153,25 @@ export async function getFolderById(id: number) {
       return { success: false, error: "Folder not found or access denied" };
     }
 
+    const ancestry = await folderService.getFolderAncestry(id);
+
     return {
       success: true,
       folder: {
         id: folder.id,
         name: folder.name,
+        parent_id: folder.parent_id ?? null,
         created_at: folder.created_at,
         updated_at: folder.updated_at,
+        path: (ancestry.data ?? []).map((f) => ({ id: f.id, name: f.name })),
+        subfolders: folder.children.map((child) => ({
+          id: child.id,
+          name: child.name,
+          parent_id: child.parent_id ?? null,
+          created_at: child.created_at,
+          updated_at: child.updated_at,
+          documentCount: child._count.documents,
+        })),
         documents: folder.documents.map((dd) => ({
           id: dd.document.id,
           title: dd.document.title,
@@ -139,29 +190,74 @@ export async function getFolderById(id: number) {
 }
 
 /**
- * Deletes a folder, ensuring ownership.
+ * Renames a folder, ensuring ownership.
  */
-export async function deleteFolder(id: number) {
+export async function renameFolder(id: number, name: string) {
   try {
     const userId = await getAuthenticatedUserId();
 
-    // Verify ownership first (Prisma delete requires where with unique input,
-    // but the API had requireFolderOwnership which used findFirst)
-    const folder = await prisma.folder.findFirst({
-      where: { id, user_id: userId },
-    });
+    const invalidName = validateFolderName(name);
+    if (invalidName) {
+      return { success: false, error: invalidName };
+    }
 
-    if (!folder) {
+    if (!(await folderService.isFolderOwnedBy(id, userId))) {
       return { success: false, error: "Folder not found or access denied" };
     }
 
-    await prisma.folder.delete({
+    await prisma.folder.update({
       where: { id },
+      data: { name: name.trim() },
     });
 
+    revalidatePath("/folders");
+    revalidatePath(`/folders/${id}`);
+
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error renaming folder:", error);
+    return { success: false, error: "Failed to rename folder" };
+  }
+}
+
+/**
+ * Moves a folder into another folder of the user, or to the root when `parentId` is null.
+ */
+export async function moveFolder(id: number, parentId: number | null) {
+  try {
+    const userId = await getAuthenticatedUserId();
+
+    const result = await folderService.moveFolder(id, parentId, userId);
+    if (!result.success) {
+      return { success: false, error: result.error || "Failed to move folder" };
+    }
+
     revalidatePath("/folders");
 
     return { success: true };
+  } catch (error) {
+    console.error("❌ Error moving folder:", error);
+    return { success: false, error: "Failed to move folder" };
+  }
+}
+
+/**
+ * Deletes a folder and its subfolders, ensuring ownership. The notes filed in them are moved
+ * to the trash unless they are also filed in another folder.
+ */
+export async function deleteFolder(id: number) {
+  try {
+    const userId = await getAuthenticatedUserId();
+
+    const result = await folderService.deleteFolderToTrash(id, userId);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || "Failed to delete folder" };
+    }
+
+    revalidatePath("/folders");
+    revalidatePath("/trash");
+
+    return { success: true, trashedCount: result.data.trashedCount };
   } catch (error) {
     console.error("❌ Error deleting folder:", error);
     return { success: false, error: "Failed to delete folder" };
@@ -179,11 +275,7 @@ export async function addDocumentsToFolder(
     const userId = await getAuthenticatedUserId();
 
     // Verify folder ownership
-    const folder = await prisma.folder.findFirst({
-      where: { id: folderId, user_id: userId },
-    });
-
-    if (!folder) {
+    if (!(await folderService.isFolderOwnedBy(folderId, userId))) {
       return { success: false, error: "Folder access denied" };
     }
 
@@ -247,11 +339,7 @@ export async function removeDocumentsFromFolder(
     const userId = await getAuthenticatedUserId();
 
     // Verify folder ownership
-    const folder = await prisma.folder.findFirst({
-      where: { id: folderId, user_id: userId },
-    });
-
-    if (!folder) {
+    if (!(await folderService.isFolderOwnedBy(folderId, userId))) {
       return { success: false, error: "Folder access denied" };
     }
 
@@ -274,3 +362,34 @@ export async function removeDocumentsFromFolder(
     return { success: false, error: "Failed to remove documents" };
   }
 }
+
+/**
+ * Files documents in a folder and takes them out of `sourceFolderId` when given, as when
+ * dragging notes from one folder to another.
+ */
+export async function moveDocumentsToFolder(
+  folderId: number,
+  documentIds: number[],
+  sourceFolderId: number | null = null
+) {
+  try {
+    if (sourceFolderId === folderId) {
+      return { success: true, added: 0 };
+    }
+
+    const added = await addDocumentsToFolder(folderId, documentIds);
+    if (!added.success || sourceFolderId === null) {
+      return added;
+    }
+
+    const removed = await removeDocumentsFromFolder(sourceFolderId, documentIds);
+    if (!removed.success) {
+      return { success: false, error: removed.error };
+    }
+
+    return added;
+  } catch (error) {
+    console.error("❌ Error moving documents to folder:", error);
+    return { success: false, error: "Failed to move documents" };
+  }
+}
@@ -0,0 +1,245 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/../auth";
+import { DocumentService } from "@/lib/services/DocumentService";
+import { extractTextFromStoredContent } from "@/lib/documentHistory";
+import { extractMentions, type MentionCandidate } from "@/lib/mentions";
+import { MAX_MENTIONS_PER_MESSAGE, sendMentionNotifications, type MentionSource } from "@/lib/mentionNotifications";
+
+const documentService = new DocumentService();
+
+/**
+ * Helper to ensure the user is authenticated and return their credentials.
+ */
+async function getAuthenticatedUser() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error("Unauthorized");
+  }
+  return {
+    userId: Number.parseInt(session.user.id),
+    email: session.user.email as string | undefined,
+  };
+}
+
+/**
+ * People who can be mentioned in a document: its owner and the registered users it is shared with.
+ */
+export async function getMentionCandidatesAction(documentId: number) {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (!documentId || documentId <= 0) {
+      return { success: false, error: "Invalid document ID" };
+    }
+
+    const hasAccess = await documentService.userHasAccessToDocument(documentId, userId, email);
+    if (!hasAccess) {
+      return { success: false, error: "Access denied" };
+    }
+
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { user_id: true, Share: { select: { email: true } } },
+    });
+    if (!document) {
+      return { success: false, error: "Document not found" };
+    }
+
+    const sharedEmails = document.Share.map((share: { email: string }) => share.email);
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [{ id: document.user_id }, { email: { in: sharedEmails, mode: "insensitive" } }],
+        username: { not: null },
+        is_banned: false,
+      },
+      select: { id: true, username: true, first_name: true, last_name: true, profile_image: true },
+      orderBy: { username: "asc" },
+    });
+
+    const candidates: MentionCandidate[] = users
+      .filter((user: { id: number; username: string | null }) => user.id !== userId && user.username)
+      .map((user: { id: number; username: string | null; first_name: string | null; last_name: string | null; profile_image: string | null }) => ({
+        id: user.id,
+        username: user.username as string,
+        first_name: user.first_name,
+        last_name: user.last_name,
+        profile_image: user.profile_image,
+      }));
+
+    return { success: true, candidates };
+  } catch (error) {
+    console.error("❌ Error retrieving mention candidates:", error);
+    return { success: false, error: "Failed to retrieve mention candidates" };
+  }
+}
+
+/**
+ * Whether the user owns the document or has a share allowing them to edit it.
+ */
+async function getDocumentEditAccess(documentId: number, userId: number, email?: string) {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { id: true, user_id: true, content: true },
+  });
+  if (!document) return { document: null, isOwner: false, canEdit: false };
+
+  const isOwner = document.user_id === userId;
+  if (isOwner || !email) return { document, isOwner, canEdit: isOwner };
+
+  const share = await prisma.share.findFirst({
+    where: { id_doc: documentId, email: { equals: email, mode: "insensitive" }, permission: true },
+    select: { id: true },
+  });
+  return { document, isOwner, canEdit: Boolean(share) };
+}
+
+/**
+ * Usernames mentioned by the user in what is saved: the text of the note, or their comments in a
+ * thread. Only these can be notified, whatever the client asks for.
+ */
+async function getSavedMentions(
+  document: { id: number; content: string | null },
+  userId: number,
+  source: MentionSource,
+  commentThreadId: number | null
+): Promise<Set<string> | null> {
+  if (source === "note") {
+    const mentions = extractMentions(extractTextFromStoredContent(document.content ?? ""));
+    return new Set(mentions.map((username) => username.toLowerCase()));
+  }
+
+  if (commentThreadId === null) return null;
+  const thread = await (prisma as any).comment.findFirst({
+    where: { id: commentThreadId, document_id: document.id, parent_id: null },
+    select: { id: true },
+  });
+  if (!thread) return null;
+
+  const comments: Array<{ content: string }> = await (prisma as any).comment.findMany({
+    where: { document_id: document.id, user_id: userId, OR: [{ id: commentThreadId }, { parent_id: commentThreadId }] },
+    select: { content: true },
+  });
+  return new Set(comments.flatMap((comment) => extractMentions(comment.content)).map((username) => username.toLowerCase()));
+}
+
+function isUsernameList(usernames: unknown): usernames is string[] {
+  return Array.isArray(usernames) && usernames.every((username) => typeof username === "string");
+}
+
+/**
+ * Notifies the users newly mentioned in a document or a comment thread. Only the mentions saved
+ * by the user are notified, and only once per place.
+ */
+export async function notifyMentionsAction(
+  documentId: number,
+  usernames: string[],
+  source: MentionSource,
+  commentThreadId: number | null = null
+) {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (!documentId || documentId <= 0) {
+      return { success: false, error: "Invalid document ID" };
+    }
+    if (!isUsernameList(usernames)) {
+      return { success: false, error: "Invalid mentions" };
+    }
+
+    const { document, canEdit } = await getDocumentEditAccess(documentId, userId, email);
+    if (!document || !canEdit) {
+      return { success: false, error: "Access denied" };
+    }
+
+    const saved = await getSavedMentions(document, userId, source, commentThreadId);
+    if (!saved) {
+      return { success: false, error: "Comment thread not found" };
+    }
+
+    const result = await sendMentionNotifications(
+      documentId,
+      userId,
+      usernames.filter((username) => saved.has(username.toLowerCase())),
+      { source, commentThreadId: source === "comment" ? commentThreadId : null },
+      { skipNotified: true }
+    );
+
+    return { success: true, ...result };
+  } catch (error) {
+    console.error("❌ Error notifying mentions:", error);
+    return { success: false, error: "Failed to notify mentions" };
+  }
+}
+
+/**
+ * Shares a document (read only) with users the owner mentioned but who cannot open it, then
+ * notifies them. Their email addresses are looked up here and never sent to the client.
+ */
+export async function shareWithMentionedUsersAction(
+  documentId: number,
+  usernames: string[],
+  source: MentionSource,
+  commentThreadId: number | null = null
+) {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (!documentId || documentId <= 0) {
+      return { success: false, error: "Invalid document ID" };
+    }
+    if (!isUsernameList(usernames) || usernames.length > MAX_MENTIONS_PER_MESSAGE) {
+      return { success: false, error: "Invalid mentions" };
+    }
+
+    const { document, isOwner } = await getDocumentEditAccess(documentId, userId, email);
+    if (!document || !isOwner) {
+      return { success: false, error: "Only the owner can share this document" };
+    }
+
+    const saved = await getSavedMentions(document, userId, source, commentThreadId);
+    if (!saved) {
+      return { success: false, error: "Comment thread not found" };
+    }
+    const mentioned = usernames.filter((username) => saved.has(username.toLowerCase()));
+    if (mentioned.length === 0) {
+      return { success: true, shared: [], notified: [] };
+    }
+
+    const users: Array<{ username: string; email: string }> = await prisma.user.findMany({
+      where: {
+        OR: mentioned.map((username) => ({ username: { equals: username, mode: "insensitive" as const } })),
+        is_banned: false,
+      },
+      select: { username: true, email: true },
+    });
+
+    const shared: string[] = [];
+    for (const user of users) {
+      const existingShare = await prisma.share.findFirst({
+        where: { id_doc: documentId, email: { equals: user.email, mode: "insensitive" } },
+        select: { id: true },
+      });
+      if (!existingShare) {
+        await prisma.share.create({ data: { id_doc: documentId, email: user.email, permission: false } });
+      }
+      shared.push(user.username);
+    }
+
+    const { notified } = await sendMentionNotifications(
+      documentId,
+      userId,
+      shared,
+      { source, commentThreadId: source === "comment" ? commentThreadId : null },
+      { skipNotified: true }
+    );
+
+    revalidatePath(`/documents/${documentId}`);
+    return { success: true, shared, notified };
+  } catch (error) {
+    console.error("❌ Error sharing with mentioned users:", error);
+    return { success: false, error: "Failed to share with mentioned users" };
+  }
+}
@@ -0,0 +1,139 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/../auth";
+import { DocumentService } from "@/lib/services/DocumentService";
+import {
+  NOTE_LINK_SUGGESTION_LIMIT,
+  extractNoteLinks,
+  getNoteLinkSnippet,
+  type NoteLinkCandidate,
+} from "@/lib/noteLinks";
+
+const documentService = new DocumentService();
+
+// Notes scanned for links to a document
+const BACKLINK_SCAN_LIMIT = 200;
+
+/**
+ * Helper to ensure the user is authenticated and return their credentials.
+ */
+async function getAuthenticatedUser() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error("Unauthorized");
+  }
+  return {
+    userId: Number.parseInt(session.user.id),
+    email: session.user.email as string | undefined,
+  };
+}
+
+// Documents the user owns or that are shared with them
+function accessibleDocumentsWhere(userId: number, email: string | undefined) {
+  return {
+    OR: [
+      { user_id: userId },
+      ...(email ? [{ Share: { some: { email: { equals: email, mode: "insensitive" as const } } } }] : []),
+    ],
+  };
+}
+
+/**
+ * Notes that can be linked to from a document, matching a partial title. Titles starting with
+ * the query come first, then the most recently updated notes.
+ */
+export async function searchNoteLinkCandidatesAction(query: string, excludeDocumentId?: number) {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (typeof query !== "string" || query.length > 100) {
+      return { success: false, error: "Invalid query" };
+    }
+    const normalized = query.trim();
+
+    const documents = await prisma.document.findMany({
+      where: {
+        AND: [
+          accessibleDocumentsWhere(userId, email),
+          normalized ? { title: { contains: normalized, mode: "insensitive" } } : {},
+          excludeDocumentId ? { id: { not: excludeDocumentId } } : {},
+        ],
+      },
+      select: { id: true, title: true, user_id: true },
+      orderBy: { updated_at: "desc" },
+      take: NOTE_LINK_SUGGESTION_LIMIT * 3,
+    });
+
+    const lowerQuery = normalized.toLowerCase();
+    const candidates: NoteLinkCandidate[] = documents
+      .map((document: { id: number; title: string; user_id: number }, index: number) => ({
+        candidate: { id: document.id, title: document.title, shared: document.user_id !== userId },
+        rank: (lowerQuery && document.title.toLowerCase().startsWith(lowerQuery) ? 0 : 1) * documents.length + index,
+      }))
+      .sort((a: { rank: number }, b: { rank: number }) => a.rank - b.rank)
+      .slice(0, NOTE_LINK_SUGGESTION_LIMIT)
+      .map((item: { candidate: NoteLinkCandidate }) => item.candidate);
+
+    return { success: true, candidates };
+  } catch (error) {
+    console.error("❌ Error searching notes to link:", error);
+    return { success: false, error: "Failed to search notes" };
+  }
+}
+
+/**
+ * Notes linking to a document ("Linked from"), among those the user can access.
+ */
+export async function getBacklinksAction(documentId: number) {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (!documentId || documentId <= 0) {
+      return { success: false, error: "Invalid document ID" };
+    }
+
+    const hasAccess = await documentService.userHasAccessToDocument(documentId, userId, email);
+    if (!hasAccess) {
+      return { success: false, error: "Access denied" };
+    }
+
+    // Narrowed in the database, then checked exactly ("/documents/1" is a prefix of "/documents/12")
+    const linkPrefix = `](/documents/${documentId}`;
+    const documents = await prisma.document.findMany({
+      where: {
+        AND: [
+          accessibleDocumentsWhere(userId, email),
+          { id: { not: documentId } },
+          {
+            OR: [
+              { content: { contains: `${linkPrefix})` } },
+              { content: { contains: `${linkPrefix}#` } },
+              { content: { contains: `${linkPrefix} ` } },
+            ],
+          },
+        ],
+      },
+      select: { id: true, title: true, content: true, updated_at: true, user_id: true },
+      orderBy: { updated_at: "desc" },
+      take: BACKLINK_SCAN_LIMIT,
+    });
+
+    const backlinks = documents
+      .filter((document: { content: string }) =>
+        extractNoteLinks(document.content).some((link) => link.documentId === documentId)
+      )
+      .map((document: { id: number; title: string; content: string; updated_at: Date; user_id: number }) => ({
+        id: document.id,
+        title: document.title,
+        updated_at: document.updated_at,
+        shared: document.user_id !== userId,
+        snippet: getNoteLinkSnippet(document.content, documentId),
+      }));
+
+    return { success: true, backlinks };
+  } catch (error) {
+    console.error("❌ Error retrieving backlinks:", error);
+    return { success: false, error: "Failed to retrieve backlinks" };
+  }
+}
@@ -0,0 +1,180 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/../auth";
+import { revalidatePath } from "next/cache";
+import type { Document } from "@/lib/types";
+import type { NoteFilters } from "@/lib/searchQuery";
+import { SavedSearchService, type SavedSearchRecord } from "@/lib/services/SavedSearchService";
+
+const savedSearchService = new SavedSearchService();
+
+export interface SmartFolder {
+  id: number;
+  name: string;
+  query: string;
+  filters: NoteFilters;
+  pinned: boolean;
+  documentCount: number;
+  updated_at: Date;
+}
+
+/**
+ * Helper to ensure the user is authenticated and return their credentials.
+ */
+async function getAuthenticatedUser() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error("Unauthorized");
+  }
+  const userId = Number.parseInt(session.user.id);
+  if (Number.isNaN(userId)) {
+    throw new TypeError("Invalid user ID");
+  }
+  return { userId, email: (session.user.email as string | undefined) ?? null };
+}
+
+async function toSmartFolder(search: SavedSearchRecord, viewer: { userId: number; email: string | null }): Promise<SmartFolder> {
+  const matches = await savedSearchService.findMatchingDocumentIds(search, viewer);
+  return {
+    id: search.id,
+    name: search.name,
+    query: search.query,
+    filters: search.filters as NoteFilters,
+    pinned: search.pinned,
+    documentCount: matches.data?.length ?? 0,
+    updated_at: search.updated_at,
+  };
+}
+
+/**
+ * Smart folders of the current user with the number of notes they currently match.
+ */
+export async function getSavedSearches(options: { pinnedOnly?: boolean } = {}) {
+  try {
+    const viewer = await getAuthenticatedUser();
+    const result = await savedSearchService.listSavedSearches(viewer.userId, options);
+    if (!result.success || !result.data) {
+      return { success: false, error: "Failed to retrieve smart folders" };
+    }
+    const smartFolders = await Promise.all(result.data.map((search) => toSmartFolder(search, viewer)));
+    return { success: true, smartFolders };
+  } catch (error) {
+    console.error("❌ Error retrieving smart folders:", error);
+    return { success: false, error: "Failed to retrieve smart folders" };
+  }
+}
+
+/**
+ * Saves a search query and filters as a smart folder.
+ */
+export async function createSavedSearch(name: string, query: string, filters: NoteFilters) {
+  try {
+    const viewer = await getAuthenticatedUser();
+    const result = await savedSearchService.createSavedSearch(viewer.userId, { name, query, filters });
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || "Failed to create smart folder" };
+    }
+    revalidatePath("/folders");
+    return { success: true, smartFolder: await toSmartFolder(result.data, viewer) };
+  } catch (error) {
+    console.error("❌ Error creating smart folder:", error);
+    return { success: false, error: "Failed to create smart folder" };
+  }
+}
+
+/**
+ * Renames, changes the search of, or pins/unpins a smart folder, ensuring ownership.
+ */
+export async function updateSavedSearch(
+  id: number,
+  changes: { name?: string; query?: string; filters?: NoteFilters; pinned?: boolean }
+) {
+  try {
+    const viewer = await getAuthenticatedUser();
+    const result = await savedSearchService.updateSavedSearch(id, viewer.userId, changes);
+    if (!result.success || !result.data) {
+      return { success: false, error: result.error || "Failed to update smart folder" };
+    }
+    revalidatePath("/folders");
+    return { success: true, smartFolder: await toSmartFolder(result.data, viewer) };
+  } catch (error) {
+    console.error("❌ Error updating smart folder:", error);
+    return { success: false, error: "Failed to update smart folder" };
+  }
+}
+
+/**
+ * Deletes a smart folder, ensuring ownership. Its notes are left untouched.
+ */
+export async function deleteSavedSearch(id: number) {
+  try {
+    const viewer = await getAuthenticatedUser();
+    const result = await savedSearchService.deleteSavedSearch(id, viewer.userId);
+    if (!result.success) {
+      return { success: false, error: result.error || "Failed to delete smart folder" };
+    }
+    revalidatePath("/folders");
+    return { success: true };
+  } catch (error) {
+    console.error("❌ Error deleting smart folder:", error);
+    return { success: false, error: "Failed to delete smart folder" };
+  }
+}
+
+/**
+ * A smart folder with the notes it matches, evaluated now.
+ */
+export async function getSavedSearchById(id: number) {
+  try {
+    const viewer = await getAuthenticatedUser();
+    const found = await savedSearchService.getSavedSearch(id, viewer.userId);
+    if (!found.success || !found.data) {
+      return { success: false, error: "Smart folder not found or access denied" };
+    }
+    const matches = await savedSearchService.findMatchingDocumentIds(found.data, viewer);
+    if (!matches.success || !matches.data) {
+      return { success: false, error: "Failed to evaluate smart folder" };
+    }
+
+    const documents = matches.data.length > 0
+      ? await prisma.document.findMany({
+          where: { id: { in: matches.data } },
+          include: {
+            user: { select: { username: true, first_name: true, last_name: true } },
+            Share: { select: { email: true, permission: true } },
+            folder_documents: { select: { folder_id: true } },
+          },
+          orderBy: { updated_at: "desc" },
+        })
+      : [];
+
+    return {
+      success: true,
+      smartFolder: {
+        id: found.data.id,
+        name: found.data.name,
+        query: found.data.query,
+        filters: found.data.filters as NoteFilters,
+        pinned: found.data.pinned,
+        documentCount: documents.length,
+        updated_at: found.data.updated_at,
+      } satisfies SmartFolder,
+      documents: documents.map((doc: any): Document => ({
+        ...doc,
+        username: doc.user.username ?? undefined,
+        first_name: doc.user.first_name ?? undefined,
+        last_name: doc.user.last_name ?? undefined,
+        sharedWith: doc.Share,
+        folderIds: doc.folder_documents.map((fd: { folder_id: number }) => fd.folder_id),
+        shared: doc.Share.length > 0,
+        user: undefined,
+        Share: undefined,
+        folder_documents: undefined,
+      })),
+    };
+  } catch (error) {
+    console.error("❌ Error retrieving smart folder:", error);
+    return { success: false, error: "Failed to retrieve smart folder" };
+  }
+}
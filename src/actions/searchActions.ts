@@ -0,0 +1,175 @@
+"use server";
+
+import { prisma } from "@/lib/prisma";
+import { auth } from "@/../auth";
+import type { Document } from "@/lib/types";
+import {
+  MAX_SEARCH_QUERY_LENGTH,
+  SEARCH_PAGE_SIZE,
+  parseSnippet,
+  type NoteSearchHit,
+} from "@/lib/noteSearch";
+
+interface SearchRow {
+  id: number;
+  rank: number;
+  snippet: string | null;
+}
+
+/**
+ * Helper to ensure the user is authenticated and return their credentials.
+ */
+async function getAuthenticatedUser() {
+  const session = await auth();
+  if (!session?.user?.id) {
+    throw new Error("Unauthorized");
+  }
+  return {
+    userId: Number.parseInt(session.user.id),
+    email: session.user.email as string | undefined,
+  };
+}
+
+// Notes the user owns or that are shared with them, matching the words of the query (with
+// stemming) or close to it (typos). Snippets are only built for the returned page.
+const SEARCH_QUERY = `
+  WITH search AS (
+    SELECT notus_search_config() AS config, websearch_to_tsquery(notus_search_config(), $1) AS query
+  ),
+  hits AS (
+    SELECT ds.document_id AS id,
+           ds.body,
+           ds.comments_text,
+           ts_rank_cd(ds.search_vector, search.query, 32)
+             + 0.5 * GREATEST(similarity(ds.title, $1), word_similarity($1, ds.body)) AS rank,
+           d.updated_at
+    FROM document_search ds
+    JOIN documents d ON d.id = ds.document_id
+    CROSS JOIN search
+    WHERE (
+        d.user_id = $2
+        OR EXISTS (SELECT 1 FROM shares s WHERE s.id_doc = d.id AND lower(s.email) = lower($3))
+      )
+      AND (ds.search_vector @@ search.query OR ds.title % $1 OR $1 <% ds.body)
+    ORDER BY rank DESC, d.updated_at DESC
+    LIMIT $4 OFFSET $5
+  )
+  SELECT hits.id,
+         hits.rank::float8 AS rank,
+         ts_headline(
+           search.config,
+           concat_ws(' ... ', NULLIF(hits.body, ''), NULLIF(hits.comments_text, '')),
+           search.query,
+           'StartSel=' || chr(1) || ', StopSel=' || chr(2)
+             || ', MaxFragments=2, MaxWords=18, MinWords=5, FragmentDelimiter=" ... "'
+         ) AS snippet
+  FROM hits CROSS JOIN search
+  ORDER BY hits.rank DESC, hits.updated_at DESC
+`;
+
+/**
+ * Searches the titles, text, tags and comments of the notes the user can open, best matches
+ * first, with the matched words highlighted in a snippet of each note.
+ */
+export async function searchNotesAction(
+  query: string,
+  options: { limit?: number; offset?: number } = {}
+): Promise<{ success: boolean; hits: NoteSearchHit[]; hasMore?: boolean; error?: string }> {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    if (typeof query !== "string" || query.length > MAX_SEARCH_QUERY_LENGTH) {
+      return { success: false, hits: [], error: "Invalid query" };
+    }
+    const normalized = query.trim();
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? SEARCH_PAGE_SIZE), 1), 100);
+    const offset = Math.max(Math.floor(options.offset ?? 0), 0);
+    if (!normalized || Number.isNaN(limit) || Number.isNaN(offset)) {
+      return { success: true, hits: [], hasMore: false };
+    }
+
+    const rows: SearchRow[] = await prisma.$queryRawUnsafe(
+      SEARCH_QUERY,
+      normalized,
+      userId,
+      email ?? null,
+      limit + 1,
+      offset
+    );
+    const pageRows = rows.slice(0, limit);
+    if (pageRows.length === 0) {
+      return { success: true, hits: [], hasMore: false };
+    }
+
+    const documents = await prisma.document.findMany({
+      where: { id: { in: pageRows.map((row) => row.id) } },
+      include: {
+        user: { select: { username: true, first_name: true, last_name: true } },
+        Share: { select: { email: true, permission: true } },
+        folder_documents: { select: { folder_id: true } },
+      },
+    });
+    const documentsById = new Map<number, Document>(
+      documents.map((doc: any) => [
+        doc.id,
+        {
+          ...doc,
+          username: doc.user.username ?? undefined,
+          first_name: doc.user.first_name ?? undefined,
+          last_name: doc.user.last_name ?? undefined,
+          sharedWith: doc.Share,
+          folderIds: doc.folder_documents.map((fd: { folder_id: number }) => fd.folder_id),
+          shared: doc.Share.length > 0,
+          user: undefined,
+          Share: undefined,
+          folder_documents: undefined,
+        },
+      ])
+    );
+
+    const hits: NoteSearchHit[] = [];
+    for (const row of pageRows) {
+      const document = documentsById.get(row.id);
+      if (!document) continue;
+      hits.push({ document, rank: Number(row.rank), snippet: parseSnippet(row.snippet) });
+    }
+
+    return { success: true, hits, hasMore: rows.length > limit };
+  } catch (error) {
+    console.error("❌ Error searching notes:", error);
+    return { success: false, hits: [], error: "Error searching notes." };
+  }
+}
+
+/**
+ * Authors of the notes the user can open, offered as values of the author: search operator.
+ */
+export async function getSearchAuthorsAction(): Promise<{ success: boolean; authors: string[]; error?: string }> {
+  try {
+    const { userId, email } = await getAuthenticatedUser();
+
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { id: userId },
+          ...(email
+            ? [{ documents: { some: { Share: { some: { email: { equals: email, mode: "insensitive" } } } } } }]
+            : []),
+        ],
+      },
+      select: { username: true, first_name: true, last_name: true },
+      take: 200,
+    });
+
+    const authors = new Set<string>();
+    for (const user of users as Array<{ username: string | null; first_name: string | null; last_name: string | null }>) {
+      const name = user.username || `${user.first_name ?? ""} ${user.last_name ?? ""}`.trim();
+      if (name) authors.add(name);
+    }
+
+    return { success: true, authors: Array.from(authors).sort((a, b) => a.localeCompare(b, "en")) };
+  } catch (error) {
+    console.error("❌ Error retrieving search authors:", error);
+    return { success: false, authors: [], error: "Failed to retrieve authors" };
+  }
+}
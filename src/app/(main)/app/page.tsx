@@ -85,6 +85,7 @@ export default async function AppHome() {
             }
             currentUserId={session?.user?.id ? String(session.user.id) : undefined}
             error={!documentsResult.success ? documentsResult.error : undefined}
+            searchAllNotes
           />
         </section>
       </ContentWrapper>
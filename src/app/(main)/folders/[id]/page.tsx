@@ -5,13 +5,35 @@ import { useRouter, useParams } from "next/navigation";
 import NavBar from "@/components/navigation/NavBar";
 import ContentWrapper from "@/components/common/ContentWrapper";
 import { Button } from "@/components/ui/button";
-import { Card, Alert, BackHeader, Modal, Input } from "@/components/ui";
+import {
+  Card,
+  Alert,
+  Modal,
+  Input,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from "@/components/ui";
 import Icon from "@/components/Icon";
 import { useSession } from "next-auth/react";
 import { SearchableDocumentsList } from "@/components/documents/SearchableDocumentsList";
 import Link from "next/link";
 import { createDocumentAction } from "@/actions/documentActions";
-import { getFolderById, addDocumentsToFolder, removeDocumentsFromFolder } from "@/actions/folderActions";
+import {
+  getFolders,
+  getFolderById,
+  createFolder,
+  renameFolder,
+  deleteFolder,
+  addDocumentsToFolder,
+  removeDocumentsFromFolder,
+} from "@/actions/folderActions";
+import FolderGrid from "@/components/documents/FolderGrid";
+import FolderBreadcrumbs from "@/components/documents/FolderBreadcrumbs";
+import FolderNameModal from "@/components/documents/FolderNameModal";
+import FolderMoveModal from "@/components/documents/FolderMoveModal";
+import { FOLDERS_CHANGED_EVENT, type FolderTreeItem } from "@/lib/folderTree";
 
 interface Document {
   id: number;
@@ -23,11 +45,24 @@ interface Document {
   updated_at: string;
 }
 
+interface Subfolder {
+  id: number;
+  name: string;
+  parent_id: number | null;
+  created_at: string;
+  updated_at: string;
+  documentCount: number;
+}
+
 interface FolderData {
   id: number;
   name: string;
+  parent_id: number | null;
   created_at: string;
   updated_at: string;
+  // From the root folder down to this one
+  path: Array<{ id: number; name: string }>;
+  subfolders: Subfolder[];
   documents: Document[];
 }
 
@@ -48,6 +83,12 @@ export default function FolderDetailPage() {
   const [showCreateNoteModal, setShowCreateNoteModal] = useState(false);
   const [noteTitle, setNoteTitle] = useState("");
   const [isAddingToFolder, setIsAddingToFolder] = useState(false);
+  const [allFolders, setAllFolders] = useState<FolderTreeItem[]>([]);
+  const [showSubfolderModal, setShowSubfolderModal] = useState(false);
+  const [isCreatingSubfolder, setIsCreatingSubfolder] = useState(false);
+  const [showRenameModal, setShowRenameModal] = useState(false);
+  const [isRenamingFolder, setIsRenamingFolder] = useState(false);
+  const [showMoveModal, setShowMoveModal] = useState(false);
 
   const folderId = params?.id ? Number.parseInt(String(params.id)) : null;
 
@@ -59,12 +100,15 @@ export default function FolderDetailPage() {
     null
   );
 
-  const loadFolder = useCallback(async () => {
+  const loadFolder = useCallback(async (silent = false) => {
     if (!folderId) return;
-    setIsLoading(true);
+    if (!silent) setIsLoading(true);
     setError(null);
     try {
-      const result = await getFolderById(folderId);
+      const [result, foldersResult] = await Promise.all([getFolderById(folderId), getFolders()]);
+      if (foldersResult.success) {
+        setAllFolders(foldersResult.folders || []);
+      }
       if (result.success) {
         setFolder(result.folder as unknown as FolderData);
       } else {
@@ -104,6 +148,12 @@ export default function FolderDetailPage() {
     }
   }, [session, folderId, loadFolder]);
 
+  useEffect(() => {
+    const reload = () => loadFolder(true);
+    window.addEventListener(FOLDERS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(FOLDERS_CHANGED_EVENT, reload);
+  }, [loadFolder]);
+
   useEffect(() => {
     if (createNoteState?.documentId) {
       const documentId = createNoteState.documentId;
@@ -146,6 +196,65 @@ export default function FolderDetailPage() {
     }
   };
 
+  const notifyFoldersChanged = () => {
+    window.dispatchEvent(new CustomEvent(FOLDERS_CHANGED_EVENT));
+  };
+
+  const handleCreateSubfolder = async (name: string) => {
+    if (!folderId) return;
+    setIsCreatingSubfolder(true);
+    try {
+      const result = await createFolder(name, folderId);
+      if (result.success) {
+        setShowSubfolderModal(false);
+        notifyFoldersChanged();
+      } else {
+        alert(result.error || "Error creating folder");
+      }
+    } catch (err: any) {
+      console.error("Error creating folder:", err);
+      alert("Error creating folder");
+    } finally {
+      setIsCreatingSubfolder(false);
+    }
+  };
+
+  const handleRenameFolder = async (name: string) => {
+    if (!folderId) return;
+    setIsRenamingFolder(true);
+    try {
+      const result = await renameFolder(folderId, name);
+      if (result.success) {
+        setShowRenameModal(false);
+        notifyFoldersChanged();
+      } else {
+        alert(result.error || "Error renaming folder");
+      }
+    } catch (err: any) {
+      console.error("Error renaming folder:", err);
+      alert("Error renaming folder");
+    } finally {
+      setIsRenamingFolder(false);
+    }
+  };
+
+  const handleDeleteFolder = async () => {
+    if (!folder) return;
+    if (!confirm(`Delete "${folder.name}" and its subfolders? Their notes will be moved to the trash.`)) return;
+    try {
+      const result = await deleteFolder(folder.id);
+      if (result.success) {
+        notifyFoldersChanged();
+        router.push(folder.parent_id ? `/folders/${folder.parent_id}` : "/folders");
+      } else {
+        alert(result.error || "Error deleting folder");
+      }
+    } catch (err: any) {
+      console.error("Error deleting folder:", err);
+      alert("Error deleting folder");
+    }
+  };
+
   if (!session?.user) {
     return (
       <main className="min-h-screen bg-background">
@@ -197,28 +306,78 @@ export default function FolderDetailPage() {
     is_favorite: doc.is_favorite ?? null,
   }));
 
+  const parentHref = folder.parent_id ? `/folders/${folder.parent_id}` : "/folders";
+
+  const folderMenu = (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Folder options">
+          <Icon name="dotsVertical" className="w-5 h-5" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => setShowSubfolderModal(true)}>
+          <Icon name="plus" className="w-4 h-4" />
+          New subfolder
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setShowRenameModal(true)}>
+          <Icon name="pencil" className="w-4 h-4" />
+          Rename
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => setShowMoveModal(true)}>
+          <Icon name="folder" className="w-4 h-4" />
+          Move to...
+        </DropdownMenuItem>
+        <DropdownMenuItem variant="destructive" onClick={handleDeleteFolder}>
+          <Icon name="trash" className="w-4 h-4" />
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
   return (
     <main className="min-h-screen bg-background">
       <NavBar />
       <ContentWrapper maxWidth="lg">
         <section className="space-y-6">
           <div className="hidden md:flex md:items-center md:justify-between mb-4">
-            <BackHeader href="/folders" title={folder.name} />
-            <Button
-              onClick={() => setShowCreateNoteModal(true)}
-              variant="primary"
-              className="flex items-center gap-2"
-            >
-              <Icon name="note" className="w-5 h-5" />
-              <span>Create note</span>
-            </Button>
+            <header className="flex flex-col gap-1">
+              <FolderBreadcrumbs path={folder.path} />
+              <div className="flex items-center gap-4">
+                <Link href={parentHref} className="text-foreground font-semibold flex items-center" aria-label="Back">
+                  <Icon name="arrowLeft" className="h-6 w-6 mr-2" />
+                </Link>
+                <h2 className="font-title text-4xl font-regular">{folder.name}</h2>
+              </div>
+            </header>
+            <div className="flex items-center gap-2">
+              <Button
+                onClick={() => setShowSubfolderModal(true)}
+                variant="ghost"
+                className="flex items-center gap-2"
+              >
+                <Icon name="folder" className="w-5 h-5" />
+                <span>New subfolder</span>
+              </Button>
+              <Button
+                onClick={() => setShowCreateNoteModal(true)}
+                variant="primary"
+                className="flex items-center gap-2"
+              >
+                <Icon name="note" className="w-5 h-5" />
+                <span>Create note</span>
+              </Button>
+              {folderMenu}
+            </div>
           </div>
           <header className="md:hidden flex items-center gap-3 mb-4">
-            <Link href="/folders" className="text-foreground font-semibold flex items-center" aria-label="Back">
+            <Link href={parentHref} className="text-foreground font-semibold flex items-center" aria-label="Back">
               <Icon name="arrowLeft" className="h-6 w-6 mr-2" />
             </Link>
-            <div className="flex-1">
-              <h1 className="font-title text-2xl font-regular text-foreground">
+            <div className="flex-1 min-w-0">
+              <FolderBreadcrumbs path={folder.path.slice(0, -1)} className="text-xs" />
+              <h1 className="font-title text-2xl font-regular text-foreground truncate">
                 {folder.name}
               </h1>
             </div>
@@ -231,11 +390,19 @@ export default function FolderDetailPage() {
               <Icon name="note" className="w-4 h-4" />
               <span className="hidden sm:inline">Create</span>
             </Button>
+            {folderMenu}
           </header>
           <p className="text-sm text-muted-foreground -mt-2 md:mt-0">
             {folder.documents.length} note{folder.documents.length > 1 ? "s" : ""} in this folder
+            {folder.subfolders.length > 0 && (
+              <>, {folder.subfolders.length} subfolder{folder.subfolders.length > 1 ? "s" : ""}</>
+            )}
           </p>
 
+          {folder.subfolders.length > 0 && (
+            <FolderGrid folders={folder.subfolders} allFolders={allFolders} />
+          )}
+
           {folder.documents.length === 0 ? (
             <Card className="text-center py-12">
               <Card.Content>
@@ -244,7 +411,9 @@ export default function FolderDetailPage() {
                 </div>
                 <Card.Title className="text-lg mb-2">No documents</Card.Title>
                 <Card.Description className="mb-4">
-                  This folder is empty. Create your first note.
+                  {folder.subfolders.length > 0
+                    ? "No note in this folder yet."
+                    : "This folder is empty. Create your first note."}
                 </Card.Description>
                 <Button
                   onClick={() => setShowCreateNoteModal(true)}
@@ -261,11 +430,38 @@ export default function FolderDetailPage() {
               documents={documents}
               currentUserId={session.user.id ? String(session.user.id) : undefined}
               onRemoveFromFolder={handleRemoveDocuments}
+              folderId={folder.id}
             />
           )}
         </section>
       </ContentWrapper>
 
+      <FolderNameModal
+        isOpen={showSubfolderModal}
+        onClose={() => setShowSubfolderModal(false)}
+        title={`New folder in "${folder.name}"`}
+        submitLabel="Create"
+        isSubmitting={isCreatingSubfolder}
+        onSubmit={handleCreateSubfolder}
+      />
+
+      <FolderNameModal
+        isOpen={showRenameModal}
+        onClose={() => setShowRenameModal(false)}
+        title="Rename folder"
+        submitLabel="Rename"
+        initialName={folder.name}
+        isSubmitting={isRenamingFolder}
+        onSubmit={handleRenameFolder}
+      />
+
+      <FolderMoveModal
+        isOpen={showMoveModal}
+        onClose={() => setShowMoveModal(false)}
+        folders={allFolders}
+        folderId={folder.id}
+      />
+
       <Modal
         isOpen={showCreateNoteModal}
         onClose={() => {
@@ -7,8 +7,6 @@ import ContentWrapper from "@/components/common/ContentWrapper";
 import { Button } from "@/components/ui/button";
 import {
   Card,
-  Modal,
-  Input,
   DropdownMenu,
   DropdownMenuTrigger,
   DropdownMenuContent,
@@ -18,11 +16,18 @@ import Icon from "@/components/Icon";
 import { useSession } from "next-auth/react";
 import { cn } from "@/lib/utils";
 
-import { getFolders, createFolder, deleteFolder } from "@/actions/folderActions";
+import { getFolders, createFolder } from "@/actions/folderActions";
+import { getSavedSearches, updateSavedSearch, deleteSavedSearch, type SmartFolder } from "@/actions/savedSearchActions";
+import SmartFolderModal from "@/components/documents/SmartFolderModal";
+import FolderGrid from "@/components/documents/FolderGrid";
+import FolderNameModal from "@/components/documents/FolderNameModal";
+import { FOLDERS_CHANGED_EVENT } from "@/lib/folderTree";
+import { SMART_FOLDERS_CHANGED_EVENT, describeNoteFilters } from "@/lib/searchQuery";
 
 interface Folder {
   id: number;
   name: string;
+  parent_id: number | null;
   created_at: Date;
   updated_at: Date;
   documentCount: number;
@@ -34,18 +39,77 @@ export default function FoldersPage() {
   const [folders, setFolders] = useState<Folder[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [newFolderName, setNewFolderName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
-  const [deletingId, setDeletingId] = useState<number | null>(null);
+  const [smartFolders, setSmartFolders] = useState<SmartFolder[]>([]);
+  const [showSmartFolderModal, setShowSmartFolderModal] = useState(false);
+  const [editingSmartFolder, setEditingSmartFolder] = useState<SmartFolder | null>(null);
 
   useEffect(() => {
     if (session?.user?.id) {
       loadFolders();
+      loadSmartFolders();
     }
   }, [session]);
 
+  useEffect(() => {
+    const reload = () => {
+      loadFolders();
+      loadSmartFolders();
+    };
+    window.addEventListener(FOLDERS_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(FOLDERS_CHANGED_EVENT, reload);
+  }, []);
+
+  const loadSmartFolders = async () => {
+    try {
+      const result = await getSavedSearches();
+      if (result.success) {
+        setSmartFolders(result.smartFolders || []);
+      }
+    } catch (error) {
+      console.error("Error loading smart folders:", error);
+    }
+  };
+
+  const notifySmartFoldersChanged = () => {
+    window.dispatchEvent(new CustomEvent(SMART_FOLDERS_CHANGED_EVENT));
+  };
+
+  const handleTogglePin = async (smartFolder: SmartFolder) => {
+    try {
+      const result = await updateSavedSearch(smartFolder.id, { pinned: !smartFolder.pinned });
+      if (result.success) {
+        loadSmartFolders();
+        notifySmartFoldersChanged();
+      } else {
+        alert(result.error || "Error updating smart folder");
+      }
+    } catch (error) {
+      console.error("Error updating smart folder:", error);
+      alert("Error updating smart folder");
+    }
+  };
+
+  const handleDeleteSmartFolder = async (id: number) => {
+    if (!confirm("Delete this smart folder? Its notes are kept.")) return;
+    try {
+      const result = await deleteSavedSearch(id);
+      if (result.success) {
+        loadSmartFolders();
+        notifySmartFoldersChanged();
+      } else {
+        alert(result.error || "Error deleting smart folder");
+      }
+    } catch (error) {
+      console.error("Error deleting smart folder:", error);
+      alert("Error deleting smart folder");
+    }
+  };
+
+  const folderNames = new Map(folders.map((folder) => [folder.id, folder.name]));
+  const rootFolders = folders.filter((folder) => folder.parent_id === null);
+
   const loadFolders = async () => {
-    setIsLoading(true);
     try {
       const result = await getFolders();
       if (result.success) {
@@ -58,15 +122,13 @@ export default function FoldersPage() {
     }
   };
 
-  const handleCreateFolder = async () => {
-    if (!newFolderName.trim()) return;
+  const handleCreateFolder = async (name: string) => {
     setIsCreating(true);
     try {
-      const result = await createFolder(newFolderName.trim());
+      const result = await createFolder(name);
       if (result.success) {
         setShowCreateModal(false);
-        setNewFolderName("");
-        loadFolders();
+        window.dispatchEvent(new CustomEvent(FOLDERS_CHANGED_EVENT));
       } else {
         alert(result.error || "Error creating folder");
       }
@@ -78,24 +140,6 @@ export default function FoldersPage() {
     }
   };
 
-  const handleDeleteFolder = async (id: number) => {
-    if (!confirm("Are you sure you want to delete this folder?")) return;
-    setDeletingId(id);
-    try {
-      const result = await deleteFolder(id);
-      if (result.success) {
-        loadFolders();
-      } else {
-        alert(result.error || "Error deleting folder");
-      }
-    } catch (error) {
-      console.error("Error deleting folder:", error);
-      alert("Error deleting folder");
-    } finally {
-      setDeletingId(null);
-    }
-  };
-
   if (!session?.user) {
     return (
       <main className="min-h-screen bg-background">
@@ -121,16 +165,136 @@ export default function FoldersPage() {
                 Organize your documents in folders
               </p>
             </div>
-            <Button
-              onClick={() => setShowCreateModal(true)}
-              variant="primary"
-              className="flex items-center gap-2"
-            >
-              <Icon name="plus" className="w-5 h-5" />
-              <span className="">Create a folder</span>
-            </Button>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Button
+                onClick={() => {
+                  setEditingSmartFolder(null);
+                  setShowSmartFolderModal(true);
+                }}
+                variant="ghost"
+                className="flex items-center gap-2"
+              >
+                <Icon name="search" className="w-5 h-5" />
+                <span className="">Create a smart folder</span>
+              </Button>
+              <Button
+                onClick={() => setShowCreateModal(true)}
+                variant="primary"
+                className="flex items-center gap-2"
+              >
+                <Icon name="plus" className="w-5 h-5" />
+                <span className="">Create a folder</span>
+              </Button>
+            </div>
           </header>
 
+          {smartFolders.length > 0 && (
+            <section className="space-y-3">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">Smart folders</h2>
+              <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+                {smartFolders.map((smartFolder) => {
+                  const summary = [
+                    smartFolder.query,
+                    ...describeNoteFilters({ ...smartFolder.filters, tags: smartFolder.filters.tags ?? [] }, folderNames).map((chip) => chip.label),
+                  ].filter(Boolean).join(" · ");
+
+                  return (
+                    <Card
+                      key={smartFolder.id}
+                      className={cn(
+                        "group cursor-pointer overflow-hidden",
+                        "bg-[var(--card)] border border-dashed border-[var(--border)]",
+                        "hover:shadow-lg",
+                        "transition-all duration-200 ease-in-out"
+                      )}
+                      onClick={() => router.push(`/folders/smart/${smartFolder.id}`)}
+                    >
+                      <Card.Content className="">
+                        <div className="flex items-start justify-between mb-6">
+                          <div className={cn(
+                            "flex items-center justify-center",
+                            "w-14 h-14 rounded-xl",
+                            "bg-[var(--primary)]/10 text-[var(--primary)]",
+                            "shrink-0"
+                          )}>
+                            <Icon name="search" className="w-8 h-8 block" />
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <button
+                                onClick={(e) => e.stopPropagation()}
+                                className={cn(
+                                  "p-2 rounded-md shrink-0",
+                                  "text-[var(--muted-foreground)]",
+                                  "hover:bg-[var(--muted)]",
+                                  "transition-colors duration-200",
+                                )}
+                                aria-label="Smart folder options"
+                              >
+                                <Icon name="dotsVertical" className="w-5 h-5" />
+                              </button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                              <DropdownMenuItem
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleTogglePin(smartFolder);
+                                }}
+                              >
+                                <Icon name={smartFolder.pinned ? "favoriteSolid" : "favorite"} className="w-4 h-4" />
+                                {smartFolder.pinned ? "Unpin from menu" : "Pin to menu"}
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingSmartFolder(smartFolder);
+                                  setShowSmartFolderModal(true);
+                                }}
+                              >
+                                <Icon name="pencil" className="w-4 h-4" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                variant="destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDeleteSmartFolder(smartFolder.id);
+                                }}
+                              >
+                                <Icon name="trash" className="w-4 h-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+
+                        <h3 className="font-bold text-[var(--foreground)] text-xl mb-2 line-clamp-2">
+                          {smartFolder.name}
+                        </h3>
+                        <p className="text-sm text-[var(--muted-foreground)] mb-6 line-clamp-1" title={summary}>
+                          {summary}
+                        </p>
+
+                        <div className="flex items-center justify-between text-sm text-[var(--muted-foreground)]">
+                          <span>
+                            {smartFolder.documentCount} note{smartFolder.documentCount > 1 ? "s" : ""}
+                          </span>
+                          {smartFolder.pinned && (
+                            <span className="flex items-center gap-1">
+                              <Icon name="favoriteSolid" className="w-4 h-4" />
+                              Pinned
+                            </span>
+                          )}
+                        </div>
+                      </Card.Content>
+                    </Card>
+                  );
+                })}
+              </div>
+              <h2 className="text-lg font-semibold text-[var(--foreground)] pt-4">Folders</h2>
+            </section>
+          )}
+
           {isLoading && (
             <div className="text-center py-16">
               <Icon name="spinner" className="w-10 h-10 mx-auto animate-spin text-[var(--primary)]" />
@@ -160,152 +324,30 @@ export default function FoldersPage() {
           )}
 
           {!isLoading && folders.length > 0 && (
-            <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
-              {folders.map((folder) => {
-                const formatDate = (dateInput: string | Date | undefined) => {
-                  if (!dateInput) return "";
-                  const date = new Date(dateInput);
-                  const day = String(date.getDate()).padStart(2, "0");
-                  const month = String(date.getMonth() + 1).padStart(2, "0");
-                  const year = date.getFullYear();
-                  return `${day}/${month}/${year}`;
-                };
-
-                return (
-                  <Card
-                    key={folder.id}
-                    className={cn(
-                      "group cursor-pointer overflow-hidden",
-                      "bg-[var(--card)] border border-[var(--border)]",
-                      "hover:shadow-lg",
-                      "transition-all duration-200 ease-in-out"
-                    )}
-                    onClick={() => router.push(`/folders/${folder.id}`)}
-                  >
-                    <Card.Content className="">
-                      {/* Header with icon and menu */}
-                      <div className="flex items-start justify-between mb-6">
-                        {/* Folder icon top left */}
-                        <div className={cn(
-                          "flex items-center justify-center",
-                          "w-14 h-14 rounded-xl",
-                          "bg-[var(--primary)]/10 text-[var(--primary)]",
-                          "shrink-0"
-                        )}>
-                          <Icon name="folder" className="w-8 h-8 block" />
-                        </div>
-                        {/* Three dots menu top right */}
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild>
-                            <button
-                              onClick={(e) => e.stopPropagation()}
-                              className={cn(
-                                "p-2 rounded-md shrink-0",
-                                "text-[var(--muted-foreground)]",
-                                "hover:bg-[var(--muted)]",
-                                "transition-colors duration-200",
-                                )}
-                              aria-label="Folder options"
-                            >
-                              <Icon name="dotsVertical" className="w-5 h-5" />
-                            </button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
-                            <DropdownMenuItem
-                              variant="destructive"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                handleDeleteFolder(folder.id);
-                              }}
-                              disabled={deletingId === folder.id}
-                            >
-                              {deletingId === folder.id ? (
-                                <>
-                                  <Icon name="spinner" className="w-4 h-4 animate-spin" />
-                                  Deleting...
-                                </>
-                              ) : (
-                                <>
-                                  <Icon name="trash" className="w-4 h-4" />
-                                  Delete
-                                </>
-                              )}
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
-
-                      {/* Folder name center */}
-                      <h3 className="font-bold text-[var(--foreground)] text-xl mb-6 line-clamp-2">
-                        {folder.name}
-                      </h3>
-
-                      {/* Footer with note count and date */}
-                      <div className="flex items-center justify-between text-sm text-[var(--muted-foreground)]">
-                        <span>
-                          {folder.documentCount} note{folder.documentCount > 1 ? "s" : ""}
-                        </span>
-                        <span>
-                          {formatDate(folder.updated_at)}
-                        </span>
-                      </div>
-                    </Card.Content>
-                  </Card>
-                );
-              })}
-            </div>
+            <FolderGrid folders={rootFolders} allFolders={folders} />
           )}
         </section>
       </ContentWrapper>
 
-      <Modal
-        isOpen={showCreateModal}
+      <SmartFolderModal
+        isOpen={showSmartFolderModal}
         onClose={() => {
-          setShowCreateModal(false);
-          setNewFolderName("");
+          setShowSmartFolderModal(false);
+          setEditingSmartFolder(null);
         }}
+        smartFolder={editingSmartFolder}
+        folderNames={folderNames}
+        onSaved={() => loadSmartFolders()}
+      />
+
+      <FolderNameModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
         title="Create a folder"
-        size="md"
-      >
-        <Modal.Content>
-          <div className="space-y-4">
-            <Input
-              label="Folder name"
-              type="text"
-              value={newFolderName}
-              onChange={(e) => setNewFolderName(e.target.value)}
-              placeholder="Ex: Projects, Personal Notes..."
-              onKeyDown={(e) => {
-                if (e.key === "Enter" && newFolderName.trim() && !isCreating) {
-                  handleCreateFolder();
-                }
-              }}
-              autoFocus
-            />
-          </div>
-        </Modal.Content>
-        <Modal.Footer>
-          <div className="flex gap-2 justify-end w-full">
-            <Button
-              variant="ghost"
-              onClick={() => {
-                setShowCreateModal(false);
-                setNewFolderName("");
-              }}
-            >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleCreateFolder}
-              disabled={!newFolderName.trim() || isCreating}
-              variant="primary"
-            >
-              <Icon name="plus" className="w-4 h-4" />
-              Create
-            </Button>
-          </div>
-        </Modal.Footer>
-      </Modal>
+        submitLabel="Create"
+        isSubmitting={isCreating}
+        onSubmit={handleCreateFolder}
+      />
     </main>
   );
 }
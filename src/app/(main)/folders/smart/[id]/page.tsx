@@ -0,0 +1,172 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "next/navigation";
+import NavBar from "@/components/navigation/NavBar";
+import ContentWrapper from "@/components/common/ContentWrapper";
+import { Button } from "@/components/ui/button";
+import { Card, Alert, BackHeader } from "@/components/ui";
+import Icon from "@/components/Icon";
+import { useSession } from "next-auth/react";
+import { SearchableDocumentsList } from "@/components/documents/SearchableDocumentsList";
+import SmartFolderModal from "@/components/documents/SmartFolderModal";
+import Link from "next/link";
+import { getSavedSearchById, type SmartFolder } from "@/actions/savedSearchActions";
+import type { Document } from "@/lib/types";
+
+export default function SmartFolderPage() {
+  const params = useParams();
+  const { data: session } = useSession();
+  const [smartFolder, setSmartFolder] = useState<SmartFolder | null>(null);
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showEditModal, setShowEditModal] = useState(false);
+
+  const smartFolderId = params?.id ? Number.parseInt(String(params.id)) : null;
+
+  const loadSmartFolder = useCallback(async () => {
+    if (!smartFolderId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getSavedSearchById(smartFolderId);
+      if (result.success && result.smartFolder) {
+        setSmartFolder(result.smartFolder);
+        setDocuments(result.documents ?? []);
+      } else {
+        setError(result.error || "Error loading smart folder");
+      }
+    } catch (err: any) {
+      console.error("Error loading smart folder:", err);
+      setError("Error loading smart folder");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [smartFolderId]);
+
+  useEffect(() => {
+    if (session?.user?.id && smartFolderId) {
+      loadSmartFolder();
+    }
+  }, [session, smartFolderId, loadSmartFolder]);
+
+  if (!session?.user) {
+    return (
+      <main className="min-h-screen bg-background">
+        <NavBar />
+        <ContentWrapper maxWidth="lg">
+          <p>You must be logged in to access folders.</p>
+        </ContentWrapper>
+      </main>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <main className="min-h-screen bg-background">
+        <NavBar />
+        <ContentWrapper maxWidth="lg">
+          <div className="text-center py-12">
+            <Icon name="spinner" className="w-8 h-8 mx-auto animate-spin" />
+            <p className="mt-4 text-muted-foreground">Loading...</p>
+          </div>
+        </ContentWrapper>
+      </main>
+    );
+  }
+
+  if (error || !smartFolder) {
+    return (
+      <main className="min-h-screen bg-background">
+        <NavBar />
+        <ContentWrapper maxWidth="lg">
+          <Alert variant="error">
+            <Alert.Description>{error || "Smart folder not found"}</Alert.Description>
+          </Alert>
+          <div className="mt-4">
+            <Link href="/folders">
+              <Button variant="ghost">Back to folders</Button>
+            </Link>
+          </div>
+        </ContentWrapper>
+      </main>
+    );
+  }
+
+  const listDocuments = documents.map((doc: any) => ({
+    ...doc,
+    id: String(doc.id),
+    user_id: doc.user_id != null ? String(doc.user_id) : undefined,
+  }));
+
+  return (
+    <main className="min-h-screen bg-background">
+      <NavBar />
+      <ContentWrapper maxWidth="lg">
+        <section className="space-y-6">
+          <div className="hidden md:flex md:items-center md:justify-between mb-4">
+            <BackHeader href="/folders" title={smartFolder.name} />
+            <Button
+              onClick={() => setShowEditModal(true)}
+              variant="ghost"
+              className="flex items-center gap-2"
+            >
+              <Icon name="pencil" className="w-5 h-5" />
+              <span>Edit search</span>
+            </Button>
+          </div>
+          <header className="md:hidden flex items-center gap-3 mb-4">
+            <Link href="/folders" className="text-foreground font-semibold flex items-center" aria-label="Back">
+              <Icon name="arrowLeft" className="h-6 w-6 mr-2" />
+            </Link>
+            <div className="flex-1">
+              <h1 className="font-title text-2xl font-regular text-foreground">
+                {smartFolder.name}
+              </h1>
+            </div>
+            <Button
+              onClick={() => setShowEditModal(true)}
+              variant="ghost"
+              size="sm"
+              className="flex items-center gap-2"
+              aria-label="Edit search"
+            >
+              <Icon name="pencil" className="w-4 h-4" />
+            </Button>
+          </header>
+          <p className="text-sm text-muted-foreground -mt-2 md:mt-0">
+            {documents.length} note{documents.length > 1 ? "s" : ""} match this smart folder
+            {smartFolder.query && <> · <code className="font-mono">{smartFolder.query}</code></>}
+          </p>
+
+          {documents.length === 0 ? (
+            <Card className="text-center py-12">
+              <Card.Content>
+                <div className="text-muted-foreground mb-4">
+                  <Icon name="search" className="w-16 h-16 mx-auto" />
+                </div>
+                <Card.Title className="text-lg mb-2">No matching notes</Card.Title>
+                <Card.Description>
+                  No note matches this search yet. Notes appear here as soon as they do.
+                </Card.Description>
+              </Card.Content>
+            </Card>
+          ) : (
+            <SearchableDocumentsList
+              documents={listDocuments}
+              currentUserId={session.user.id ? String(session.user.id) : undefined}
+            />
+          )}
+        </section>
+      </ContentWrapper>
+
+      <SmartFolderModal
+        isOpen={showEditModal}
+        onClose={() => setShowEditModal(false)}
+        smartFolder={smartFolder}
+        onSaved={() => loadSmartFolder()}
+      />
+    </main>
+  );
+}
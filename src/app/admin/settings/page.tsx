@@ -6,7 +6,8 @@ import Icon from "@/components/Icon";
 import { cn } from "@/lib/utils";
 import ColorPicker from "@/components/common/ColorPicker";
 import { useState, useEffect } from "react";
-import { getAdminSettingsAction, updateAdminSettingsAction } from "@/actions/adminActions";
+import { getAdminSettingsAction, runHistoryCompactionAction, updateAdminSettingsAction, updateSearchLanguageAction } from "@/actions/adminActions";
+import { SEARCH_LANGUAGES, SEARCH_LANGUAGE_SETTING_KEY } from "@/lib/noteSearch";
 
 export default function AdminSettingsPage() {
   const { isDark, toggleTheme, primaryColor, setPrimaryColor } = useTheme();
@@ -20,6 +21,15 @@ export default function AdminSettingsPage() {
   const [saving, setSaving] = useState(false);
   const [savingTokenLimit, setSavingTokenLimit] = useState(false);
   const [savingOllama, setSavingOllama] = useState(false);
+  const [retentionEnabled, setRetentionEnabled] = useState(false);
+  const [keepAllHours, setKeepAllHours] = useState("24");
+  const [keepHourlyDays, setKeepHourlyDays] = useState("7");
+  const [savingRetention, setSavingRetention] = useState(false);
+  const [compacting, setCompacting] = useState(false);
+  const [compactionResult, setCompactionResult] = useState<string | null>(null);
+  const [searchLanguage, setSearchLanguage] = useState("simple");
+  const [savingSearchLanguage, setSavingSearchLanguage] = useState(false);
+  const [searchIndexResult, setSearchIndexResult] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Load settings on mount
@@ -37,6 +47,10 @@ export default function AdminSettingsPage() {
           setOllamaUrl(url);
           const model = result.settings["ollama_model"] || "llama3.2";
           setOllamaModel(model);
+          setRetentionEnabled(result.settings["history_retention_enabled"] === "true");
+          setKeepAllHours(result.settings["history_keep_all_hours"] || "24");
+          setKeepHourlyDays(result.settings["history_keep_hourly_days"] || "7");
+          setSearchLanguage(result.settings[SEARCH_LANGUAGE_SETTING_KEY] || "simple");
           // Token is never sent back for security reasons
           // Field is left empty and user can modify if wanted
         } else {
@@ -157,6 +171,83 @@ export default function AdminSettingsPage() {
     }
   };
 
+  const handleSaveRetention = async () => {
+    const hours = Number.parseInt(keepAllHours, 10);
+    const days = Number.parseInt(keepHourlyDays, 10);
+    if (Number.isNaN(hours) || hours < 0 || Number.isNaN(days) || days < 0) {
+      setError("Retention periods must be positive numbers");
+      return;
+    }
+    if (days * 24 < hours) {
+      setError("The hourly period must be at least as long as the period keeping every version");
+      return;
+    }
+    setSavingRetention(true);
+    setError(null);
+    try {
+      const results = await Promise.all([
+        updateAdminSettingsAction(
+          "history_retention_enabled",
+          String(retentionEnabled),
+          "Enables the compaction of old document history"
+        ),
+        updateAdminSettingsAction(
+          "history_keep_all_hours",
+          String(hours),
+          "Hours during which every history version is kept"
+        ),
+        updateAdminSettingsAction(
+          "history_keep_hourly_days",
+          String(days),
+          "Days during which one history version per hour is kept (one per day afterwards)"
+        ),
+      ]);
+      if (!results.every((res: { success: boolean }) => res.success)) {
+        setError("Error during update of the retention policy");
+      }
+    } catch {
+      setError("Error during update");
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  const handleCompactNow = async () => {
+    setCompacting(true);
+    setError(null);
+    setCompactionResult(null);
+    try {
+      const result = await runHistoryCompactionAction();
+      if (result.success) {
+        setCompactionResult(`${result.removedCount ?? 0} history entries removed`);
+      } else {
+        setError(result.error || "Error during compaction");
+      }
+    } catch {
+      setError("Error during compaction");
+    } finally {
+      setCompacting(false);
+    }
+  };
+
+  const handleSaveSearchLanguage = async () => {
+    setSavingSearchLanguage(true);
+    setError(null);
+    setSearchIndexResult(null);
+    try {
+      const result = await updateSearchLanguageAction(searchLanguage);
+      if (result.success) {
+        setSearchIndexResult(`${result.indexedCount ?? 0} notes reindexed`);
+      } else {
+        setError(result.error || "Error during update of the search language");
+      }
+    } catch {
+      setError("Error during update");
+    } finally {
+      setSavingSearchLanguage(false);
+    }
+  };
+
   return (
     <main className="space-y-6">
       <header className="text-center pt-10">
@@ -445,6 +536,177 @@ export default function AdminSettingsPage() {
           </Card.Content>
         </Card>
       </section>
+
+      <section className="max-w-4xl mx-auto">
+        <Card className="bg-background">
+          <Card.Header>
+            <Card.Title className="text-foreground text-2xl font-semibold">
+              History Retention
+            </Card.Title>
+          </Card.Header>
+          <Card.Content className="p-6 space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex-1">
+                <div className="flex items-center gap-2 mb-2">
+                  <Icon name="clock" className="w-5 h-5 text-foreground" />
+                  <p className="text-foreground font-medium">Compact old history</p>
+                </div>
+                <p className="text-muted-foreground text-sm">
+                  Thins out old versions of notes every hour. Named versions are always kept.
+                </p>
+              </div>
+              <button
+                type="button"
+                role="switch"
+                aria-checked={retentionEnabled}
+                aria-label={retentionEnabled ? "Disable history compaction" : "Enable history compaction"}
+                onClick={() => setRetentionEnabled(!retentionEnabled)}
+                disabled={loading || savingRetention}
+                className={cn(
+                  "relative inline-flex h-10 w-20 items-center rounded-full transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2",
+                  retentionEnabled ? "bg-primary" : "bg-muted",
+                  (loading || savingRetention) && "opacity-50 cursor-not-allowed"
+                )}
+              >
+                <span className="sr-only">Toggle history compaction</span>
+                <span
+                  className={cn(
+                    "absolute left-1 h-8 w-8 rounded-full bg-background shadow-sm ring-1 ring-border transition-transform duration-300 ease-out flex items-center justify-center",
+                    retentionEnabled ? "translate-x-10" : "translate-x-0"
+                  )}
+                >
+                  <Icon name={retentionEnabled ? "check" : "x"} className="h-5 w-5 text-foreground/80" />
+                </span>
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label htmlFor="history-keep-all" className="text-sm text-foreground">
+                Keep every version for
+              </label>
+              <input
+                id="history-keep-all"
+                type="number"
+                min="0"
+                value={keepAllHours}
+                onChange={(e) => setKeepAllHours(e.target.value)}
+                disabled={savingRetention}
+                className="px-3 py-2 border border-border rounded-md bg-background text-foreground w-24 focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <span className="text-muted-foreground text-sm">hours</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label htmlFor="history-keep-hourly" className="text-sm text-foreground">
+                Then one version per hour for
+              </label>
+              <input
+                id="history-keep-hourly"
+                type="number"
+                min="0"
+                value={keepHourlyDays}
+                onChange={(e) => setKeepHourlyDays(e.target.value)}
+                disabled={savingRetention}
+                className="px-3 py-2 border border-border rounded-md bg-background text-foreground w-24 focus:outline-none focus:ring-2 focus:ring-ring"
+              />
+              <span className="text-muted-foreground text-sm">days, and one per day afterwards</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 pt-2">
+              <Button
+                onClick={handleSaveRetention}
+                disabled={savingRetention}
+                size="sm"
+                className="px-4 py-2"
+              >
+                {savingRetention ? (
+                  <>
+                    <Icon name="spinner" className="w-4 h-4 mr-2 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save policy"
+                )}
+              </Button>
+              <Button
+                onClick={handleCompactNow}
+                disabled={compacting || !retentionEnabled}
+                variant="ghost"
+                size="sm"
+                className="px-4 py-2"
+              >
+                {compacting ? "Compacting..." : "Compact now"}
+              </Button>
+              {compactionResult && (
+                <span className="text-muted-foreground text-sm">{compactionResult}</span>
+              )}
+            </div>
+
+            {error && (
+              <p className="text-red-500 text-sm mt-2">{error}</p>
+            )}
+          </Card.Content>
+        </Card>
+      </section>
+
+      <section className="max-w-4xl mx-auto">
+        <Card className="bg-background">
+          <Card.Header>
+            <Card.Title className="text-foreground text-2xl font-semibold">
+              Search
+            </Card.Title>
+          </Card.Header>
+          <Card.Content className="p-6 space-y-4">
+            <div className="flex-1">
+              <div className="flex items-center gap-2 mb-2">
+                <Icon name="search" className="w-5 h-5 text-foreground" />
+                <p className="text-foreground font-medium">Search language</p>
+              </div>
+              <p className="text-muted-foreground text-sm">
+                Words are matched by their stem in this language, so &quot;running&quot; also finds &quot;run&quot;.
+                Changing it reindexes every note.
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label htmlFor="search-language" className="text-sm text-foreground">
+                Language
+              </label>
+              <select
+                id="search-language"
+                value={searchLanguage}
+                onChange={(e) => setSearchLanguage(e.target.value)}
+                disabled={loading || savingSearchLanguage}
+                className="px-3 py-2 border border-border rounded-md bg-background text-foreground focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                {SEARCH_LANGUAGES.map((language) => (
+                  <option key={language.value} value={language.value}>
+                    {language.label}
+                  </option>
+                ))}
+              </select>
+              <Button
+                onClick={handleSaveSearchLanguage}
+                disabled={loading || savingSearchLanguage}
+                size="sm"
+                className="px-4 py-2"
+              >
+                {savingSearchLanguage ? (
+                  <>
+                    <Icon name="spinner" className="w-4 h-4 mr-2 animate-spin" />
+                    Reindexing...
+                  </>
+                ) : (
+                  "Save and reindex"
+                )}
+              </Button>
+              {searchIndexResult && (
+                <span className="text-muted-foreground text-sm">{searchIndexResult}</span>
+              )}
+            </div>
+          </Card.Content>
+        </Card>
+      </section>
     </main>
   );
 }
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { isAttachmentId } from "@/lib/attachments";
+import { AttachmentService } from "@/lib/services/AttachmentService";
+
+const attachmentService = new AttachmentService();
+
+// Types shown in the page; anything else (including SVG, which can hold scripts) is downloaded
+const INLINE_TYPE_PATTERN = /^(image\/(png|jpeg|gif|webp|avif|bmp)|video\/[\w.+-]+|audio\/[\w.+-]+|application\/pdf)$/;
+
+function contentDisposition(type: string, fileName: string): string {
+  const disposition = INLINE_TYPE_PATTERN.test(type) ? "inline" : "attachment";
+  const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+// Content of an attachment; access is checked by apiPolicies
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!isAttachmentId(id)) {
+    return NextResponse.json({ success: false, error: "Attachment not found" }, { status: 404 });
+  }
+
+  const result = await attachmentService.readAttachment(id.toLowerCase());
+  if (!result.success || !result.data) {
+    return NextResponse.json({ success: false, error: "Attachment not found" }, { status: 404 });
+  }
+
+  const { attachment, data } = result.data;
+  const etag = `"${attachment.sha256}"`;
+  const headers = {
+    "Content-Type": attachment.mime_type,
+    "Content-Disposition": contentDisposition(attachment.mime_type, attachment.file_name),
+    // An attachment never changes: a new upload gets a new id
+    "Cache-Control": "private, max-age=31536000, immutable",
+    ETag: etag,
+    "X-Content-Type-Options": "nosniff",
+    "Content-Security-Policy": "default-src 'none'; img-src 'self'; media-src 'self'; style-src 'unsafe-inline'; sandbox",
+  };
+
+  if (request.headers.get("if-none-match") === etag) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(new Uint8Array(data), {
+    status: 200,
+    headers: { ...headers, "Content-Length": String(data.length) },
+  });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { MAX_ATTACHMENT_SIZE } from "@/lib/attachments";
+import { AttachmentService, toUploadedAttachment } from "@/lib/services/AttachmentService";
+
+const attachmentService = new AttachmentService();
+
+// Upload of a file (multipart field "file") for the note ?documentId=, checked by apiPolicies
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const userId = Number(session?.user?.id);
+    if (!session || !Number.isFinite(userId) || userId <= 0) {
+      return NextResponse.json({ success: false, error: "Access denied" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const documentId = Number(searchParams.get("documentId")) || null;
+
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof Blob) || file.size === 0) {
+      return NextResponse.json({ success: false, error: "No file was sent" }, { status: 400 });
+    }
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      return NextResponse.json({ success: false, error: "The file is too large. Maximum size: 25MB" }, { status: 413 });
+    }
+
+    const created = await attachmentService.createAttachment({
+      data: Buffer.from(await file.arrayBuffer()),
+      fileName: file instanceof File ? file.name : "file",
+      mimeType: file.type || "application/octet-stream",
+      userId,
+      documentId,
+    });
+    if (!created.success || !created.data) {
+      return NextResponse.json({ success: false, error: "Unable to store the file" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, attachment: toUploadedAttachment(created.data) }, { status: 201 });
+  } catch (error) {
+    console.error("❌ Error uploading attachment:", error);
+    return NextResponse.json({ success: false, error: "Unable to store the file" }, { status: 500 });
+  }
+}
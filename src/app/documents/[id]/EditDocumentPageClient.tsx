@@ -1,5 +1,5 @@
 "use client";
-import { startTransition, useActionState, useState, useEffect, useCallback, useRef } from "react";
+import { startTransition, useActionState, useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Button, Modal } from "@/components/ui";
 import MenuItem from "@/components/ui/overlay/overlay-menu-item";
 import { Input } from "@/components/ui/input";
@@ -9,6 +9,7 @@ import {
   deleteDocumentAction,
   createDocumentAction,
   getDocumentByIdAction,
+  getDocumentSyncStateAction,
   fetchDocumentAccessListAction
 } from "@/actions/documentActions";
 import {
@@ -20,15 +21,31 @@ import {
 import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import { useLocalSession } from "@/hooks/useLocalSession";
+import { useDocumentComments } from "@/hooks/useDocumentComments";
+import { useDocumentMentions } from "@/hooks/useDocumentMentions";
+import type { TextAnchor } from "@/lib/commentAnchors";
 import WysiwygNotepad from "@/components/Paper.js/WysiwygNotepad";
 import { Document, ActionResult } from "@/lib/types";
 import TagsManager from "@/components/documents/TagsManager";
 import CommentsSidebar from "@/components/documents/CommentsSidebar";
 import HistorySidebar from "@/components/documents/HistorySidebar";
+import OfflineConflictModal, { type OfflineConflict } from "@/components/documents/OfflineConflictModal";
 import SynthesisSidebar from "@/components/documents/SynthesisSidebar";
+import OutlineSidebar from "@/components/documents/OutlineSidebar";
+import BacklinksPanel from "@/components/documents/BacklinksPanel";
+import { searchNoteLinkCandidatesAction } from "@/actions/noteLinkActions";
 import UserListButton from "@/components/ui/UserList/UserListButton";
 import { useGuardedNavigate } from "@/hooks/useGuardedNavigate";
 import { useCollaborativeTitle } from "@/lib/paper.js/useCollaborativeTitle";
+import { useSocket } from "@/lib/paper.js/socket-client";
+import type { RoomParticipant, SocketAckResponse } from "@/lib/paper.js/types";
+import {
+  clearOfflineEntry,
+  getOfflineEntry,
+  queueOfflineEdit,
+  type OfflineBase,
+} from "@/lib/paper.js/offlineOutbox";
+import { mergeThreeWay, resolveMerge } from "@/lib/paper.js/threeWayMerge";
 import sanitizeLinks from "@/lib/sanitizeLinks";
 import Icon from "@/components/Icon";
 import { cn } from "@/lib/utils";
@@ -75,6 +92,11 @@ const toPositiveNumber = (raw: unknown): number | undefined => {
   return undefined;
 };
 
+// Comment thread ids are positive: this one marks the mention highlighted from a notification
+const MENTION_HIGHLIGHT_ID = -1;
+// A restore saved through the room is acknowledged once sequenced; past this, it is saved directly
+const RESTORE_ACK_TIMEOUT_MS = 10000;
+
 export default function EditDocumentPageClient(props: Readonly<EditDocumentPageClientProps>) {
   // -------- All Hooks must be called unconditionally first --------
 
@@ -136,11 +158,92 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
   const [hasEditAccess, setHasEditAccess] = useState<boolean | null>(null);
   const [hasReadAccess, setHasReadAccess] = useState<boolean | null>(null);
   const [users, setUsers] = useState([]);
+  const [activeUserIds, setActiveUserIds] = useState<number[]>([]);
   const [isOffline, setIsOffline] = useState(false);
   const [isCommentsOpen, setIsCommentsOpen] = useState(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isSynthesisOpen, setIsSynthesisOpen] = useState(false);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const loadedDocumentText = useMemo(() => {
+    if (!document) return null;
+    try {
+      const parsed = JSON.parse(document.content);
+      return typeof parsed?.text === "string" ? parsed.text : "";
+    } catch {
+      return document.content;
+    }
+  }, [document]);
+  const mentions = useDocumentMentions({
+    documentId: document?.id ?? null,
+    loadedText: loadedDocumentText,
+    enabled: !isOffline,
+    canShare: document ? Number(document.user_id) === Number(userId) : false,
+  });
+  const { handleLocalTextChange: handleLocalMentionText } = mentions;
+  const comments = useDocumentComments(document?.id ?? null, {
+    onMentionsWithoutAccess: (mentionedUsers, threadId) => {
+      void mentions.handleMentionsWithoutAccess(mentionedUsers, "comment", threadId);
+    },
+  });
+  const [pendingCommentAnchor, setPendingCommentAnchor] = useState<TextAnchor | null>(null);
+  const [activeCommentThreadId, setActiveCommentThreadId] = useState<number | null>(null);
+  // Mention the user was sent to from a notification
+  const [focusedMention, setFocusedMention] = useState<string | null>(() => searchParams?.get("mention") ?? null);
+  const commentHighlights = useMemo(() => {
+    const highlights = comments.threads
+      .filter((thread) => thread.anchor && !thread.resolved)
+      .map((thread) => ({ id: thread.root.id, anchor: thread.anchor as TextAnchor }));
+    if (focusedMention) {
+      const quote = `@${focusedMention}`;
+      highlights.push({
+        id: MENTION_HIGHLIGHT_ID,
+        anchor: { quote, prefix: "", suffix: "", start: 0, end: quote.length },
+      });
+    }
+    return highlights;
+  }, [comments.threads, focusedMention]);
+
+  // Threads linked from a mention notification are opened once they are loaded
+  const linkedCommentThreadId = Number(searchParams?.get("comment")) || null;
+  const openedLinkedThreadRef = useRef(false);
+  useEffect(() => {
+    if (!linkedCommentThreadId || openedLinkedThreadRef.current) return;
+    if (!comments.threads.some((thread) => thread.root.id === linkedCommentThreadId)) return;
+    openedLinkedThreadRef.current = true;
+    setActiveCommentThreadId(linkedCommentThreadId);
+    setIsCommentsOpen(true);
+    setIsHistoryOpen(false);
+    setIsSynthesisOpen(false);
+    setIsOutlineOpen(false);
+  }, [linkedCommentThreadId, comments.threads]);
+
+  const openCommentsSidebar = useCallback(() => {
+    setIsCommentsOpen(true);
+    setIsHistoryOpen(false);
+    setIsSynthesisOpen(false);
+    setIsOutlineOpen(false);
+  }, []);
+
+  const handleAddSelectionComment = useCallback((anchor: TextAnchor) => {
+    setPendingCommentAnchor(anchor);
+    setActiveCommentThreadId(null);
+    openCommentsSidebar();
+  }, [openCommentsSidebar]);
+
+  const handleCommentHighlightSelect = useCallback((threadId: number) => {
+    if (threadId === MENTION_HIGHLIGHT_ID) {
+      setFocusedMention(null);
+      return;
+    }
+    setActiveCommentThreadId(threadId);
+    openCommentsSidebar();
+  }, [openCommentsSidebar]);
   
+  const searchNoteLinks = useCallback(async (query: string) => {
+    const result = await searchNoteLinkCandidatesAction(query, document?.id);
+    return result.success && result.candidates ? result.candidates : [];
+  }, [document?.id]);
+
   // Load access list for this document and update `users` state
   const loadAccessList = async () => {
     if (!document?.id) return;
@@ -169,7 +272,13 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
       setUsers([]);
     }
   };
-  const [offlineBaseline, setOfflineBaseline] = useState<string>("");
+  const [offlineReplay, setOfflineReplay] = useState<{ conflict: OfflineConflict; title: string; tags: string[] } | null>(null);
+  const [isConflictModalOpen, setIsConflictModalOpen] = useState(false);
+  // Bumped to remount the editor with content replaced outside of it (offline replay)
+  const [editorRevision, setEditorRevision] = useState(0);
+  const offlineBaseRef = useRef<OfflineBase | null>(null);
+  const knownHistoryIdRef = useRef<number | null>(null);
+  const replayCheckedForRef = useRef<number | null>(null);
 
   // Save status: 'synchronized' | 'saving' | 'unsynchronized'
   const [saveStatus, setSaveStatus] = useState<SaveStatus>("synchronized");
@@ -255,6 +364,10 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
     setIsRealtimeConnected(connected);
   }, []);
 
+  const handleParticipantsChange = useCallback((participants: RoomParticipant[]) => {
+    setActiveUserIds(Array.from(new Set(participants.map((participant) => participant.userId))));
+  }, []);
+
   const flushTitleRealtime = useCallback(
     (nextTitle: string) => {
       if (!shouldUseRealtime) return;
@@ -308,6 +421,8 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
     };
   }, []);
 
+  const { socket: roomSocket } = useSocket();
+
   // Collaborative title synchronization
   const { emitTitleChange, isConnected: isTitleConnected } = useCollaborativeTitle({
     roomId: document ? String(document.id) : undefined,
@@ -672,13 +787,13 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
     setContent(normalized);
     updateLocalStorage(normalized);
     triggerAutoSave();
-  }, [normalizeContent, updateLocalStorage, triggerAutoSave]);
+    handleLocalMentionText(normalized.text);
+  }, [normalizeContent, updateLocalStorage, triggerAutoSave, handleLocalMentionText]);
 
 
-  const handleSubmit = useCallback(
-    async (e?: React.FormEvent) => {
-      e?.preventDefault?.();
-
+  // Saves the given state through the realtime room when connected, otherwise through the API
+  const persistDocument = useCallback(
+    async (contentToSave: NotepadContent, titleToSave: string, tagsToSave: string[]) => {
       const submittingUserId = String(
         userId ?? (localSession as { id?: number } | null)?.id ?? (props.session?.user?.id ?? "")
       );
@@ -687,18 +802,13 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
         return;
       }
 
-      const contentToSave: NotepadContent = {
-        text: sanitizeLinks(content.text || ""),
-        timestamp: Date.now(),
-      };
-
       if (shouldUseRealtime) {
         setIsManualSaving(true);
         try {
           await flushRealtimeRef.current({
             content: contentToSave,
-            title,
-            tags,
+            title: titleToSave,
+            tags: tagsToSave,
           });
         } catch (error) {
           setSaveStatus('unsynchronized');
@@ -717,9 +827,9 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
           const payload = {
             ...(cached || {}),
             id: Number(props.params.id),
-            title: title || "",
+            title: titleToSave || "",
             content: contentToSave,
-            tags: tags,
+            tags: tagsToSave,
             updated_at: new Date().toISOString(),
             user_id: cached?.user_id ?? Number(userId ?? (props.session as any)?.user?.id ?? 0),
             cachedAt: Date.now(),
@@ -738,9 +848,9 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
       const formData = new FormData();
       formData.append("documentId", String(props.params?.id || ""));
       formData.append("userId", String(submittingUserId));
-      formData.append("title", title || "");
+      formData.append("title", titleToSave || "");
       formData.append("content", JSON.stringify(contentToSave));
-      formData.append("tags", JSON.stringify(tags));
+      formData.append("tags", JSON.stringify(tagsToSave));
       const submittingUserEmail = userEmail || props.session?.user?.email || "";
       formData.append("email", submittingUserEmail);
 
@@ -757,13 +867,10 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
       }
     },
     [
-      content,
       userId,
       localSession,
       props.session,
       props.params.id,
-      title,
-      tags,
       triggerPersistIndicators,
       checkConnectivity,
       flushRealtimeRef,
@@ -773,6 +880,21 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
     ]
   );
 
+  const handleSubmit = useCallback(
+    async (e?: React.FormEvent) => {
+      e?.preventDefault?.();
+      await persistDocument(
+        {
+          text: sanitizeLinks(content.text || ""),
+          timestamp: Date.now(),
+        },
+        title,
+        tags
+      );
+    },
+    [persistDocument, content, title, tags]
+  );
+
   // Assign handleSubmit to the ref for auto-save
   useEffect(() => {
     handleSubmitRef.current = handleSubmit;
@@ -788,16 +910,159 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
     };
   }, []);
 
-  // -------- Offline/Online conflict resolution --------
+  // -------- Offline outbox replay --------
+  // Applies content replaced outside of the editor (offline replay, restored version) to the page
+  // and the editor, which is remounted with it
+  const replaceDocumentState = useCallback(
+    async (nextText: string, nextTitle: string, nextTags: string[], persist: boolean) => {
+      const replayed: NotepadContent = { text: nextText, timestamp: Date.now() };
+      setContent(replayed);
+      setTitle(nextTitle);
+      setTags(nextTags);
+      updateLocalStorage(replayed, nextTitle);
+      if (persist) {
+        await persistDocument(replayed, nextTitle, nextTags);
+      } else {
+        lastSavedContentRef.current = JSON.stringify(replayed);
+        lastSavedTitleRef.current = nextTitle;
+        lastSavedTagsRef.current = [...nextTags];
+        setSaveStatus('synchronized');
+      }
+      setEditorRevision((revision) => revision + 1);
+    },
+    [persistDocument, updateLocalStorage]
+  );
+
+  // Last state known to be on the server: offline edits are replayed against it
+  const lastSavedState = useCallback((): OfflineBase => ({
+    baseText: normalizeContent(lastSavedContentRef.current).text,
+    baseTitle: lastSavedTitleRef.current,
+    baseTags: [...lastSavedTagsRef.current],
+    baseHistoryId: knownHistoryIdRef.current,
+  }), [normalizeContent]);
+
+  const replayOfflineEdits = useCallback(async () => {
+    if (!document || hasEditAccess === false) return;
+    const documentId = Number(document.id);
+
+    try {
+      const entry = await getOfflineEntry(documentId);
+      const result = await getDocumentSyncStateAction(documentId, entry?.baseHistoryId ?? null);
+      if (!result.success || !result.state) {
+        console.log('❌ Failed to fetch the document state:', result.error);
+        return;
+      }
+      const { state } = result;
+      knownHistoryIdRef.current = state.latestHistoryId;
+      offlineBaseRef.current = null;
+      if (!entry) return;
+
+      const mine = entry.text;
+      const theirs = state.text;
+      const nextTitle = entry.title !== entry.baseTitle ? entry.title : state.title;
+      const tagsChanged = JSON.stringify(entry.tags) !== JSON.stringify(entry.baseTags);
+      const nextTags = tagsChanged ? entry.tags : state.tags;
+      const serverMoved = state.remoteChanges.length > 0 || theirs !== entry.baseText;
+
+      if (!serverMoved || mine === entry.baseText || theirs === entry.baseText || theirs === mine) {
+        const nextText = mine === entry.baseText ? theirs : mine;
+        await replaceDocumentState(nextText, nextTitle, nextTags, true);
+        await clearOfflineEntry(documentId);
+        return;
+      }
+
+      const merge = mergeThreeWay(entry.baseText, mine, theirs);
+      if (merge.conflictCount === 0) {
+        await replaceDocumentState(resolveMerge(merge.chunks, []), nextTitle, nextTags, true);
+        await clearOfflineEntry(documentId);
+        return;
+      }
+
+      // Show the server version until the user resolves the conflict, so nothing gets overwritten
+      await replaceDocumentState(theirs, state.title, state.tags, false);
+      setOfflineReplay({
+        conflict: {
+          base: entry.baseText,
+          mine,
+          theirs,
+          authors: Array.from(new Set(state.remoteChanges.map((change) => change.author))),
+        },
+        title: nextTitle,
+        tags: nextTags,
+      });
+      setIsConflictModalOpen(true);
+    } catch (err) {
+      console.error('❌ Error replaying offline edits:', err);
+    }
+  }, [document, hasEditAccess, replaceDocumentState]);
+
+  const handleResolveOfflineConflict = useCallback(
+    async (mergedText: string) => {
+      if (!document || !offlineReplay) return;
+      setIsConflictModalOpen(false);
+      setOfflineReplay(null);
+      await replaceDocumentState(mergedText, offlineReplay.title, offlineReplay.tags, true);
+      await clearOfflineEntry(Number(document.id));
+    },
+    [document, offlineReplay, replaceDocumentState]
+  );
+
+  const handleKeepOfflineCopy = useCallback(async () => {
+    if (!document || !offlineReplay) return;
+    setIsConflictModalOpen(false);
+    setOfflineReplay(null);
+    await createPersonalCopyFromOffline({ text: offlineReplay.conflict.mine, timestamp: Date.now() });
+    await clearOfflineEntry(Number(document.id));
+  }, [document, offlineReplay, createPersonalCopyFromOffline]);
+
+  const handleVersionRestored = useCallback(
+    async (restoredText: string): Promise<boolean> => {
+      if (!document) return false;
+      await replaceDocumentState(restoredText, title, tags, false);
+      if (!roomSocket?.connected) return false;
+
+      // Saved and sent to connected collaborators through the room
+      const ack: SocketAckResponse | undefined = await roomSocket
+        .timeout(RESTORE_ACK_TIMEOUT_MS)
+        .emitWithAck('document-restored', String(document.id), { content: restoredText, title, tags })
+        .catch(() => undefined);
+      if (!ack?.ok) {
+        console.error('❌ Unable to restore the version through the room:', ack?.error);
+        return false;
+      }
+      return true;
+    },
+    [document, title, tags, replaceDocumentState, roomSocket]
+  );
+
+  // Edits pending from a previous session (tab closed or reloaded while offline)
+  useEffect(() => {
+    if (!document || hasEditAccess === null || isOffline) return;
+    if (replayCheckedForRef.current === document.id) return;
+    replayCheckedForRef.current = document.id;
+    void replayOfflineEdits();
+  }, [document, hasEditAccess, isOffline, replayOfflineEdits]);
+
+  // Queue every offline change in the outbox, against the state the document had when going offline
+  useEffect(() => {
+    if (!document || !isOffline || hasEditAccess === false) return;
+    offlineBaseRef.current ??= lastSavedState();
+    const base = offlineBaseRef.current;
+    const text = content.text || "";
+    const unchanged =
+      text === base.baseText &&
+      title === base.baseTitle &&
+      JSON.stringify(tags) === JSON.stringify(base.baseTags);
+    if (unchanged) return;
+    void queueOfflineEdit({ documentId: Number(document.id), text, title, tags }, base);
+  }, [document, isOffline, hasEditAccess, content, title, tags, lastSavedState]);
+
   useEffect(() => {
     if (!document) return;
 
     const handleOffline = () => {
       setIsOffline(true);
-      // Store baseline when going offline
-      const baseline = content.text || "";
-      setOfflineBaseline(baseline);
-      localStorage.setItem(`notus:offline-baseline:${document.id}`, baseline);
+      offlineBaseRef.current ??= lastSavedState();
 
       // Save the complete document in localStorage with the full state
       try {
@@ -832,97 +1097,8 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
 
     const handleOnline = async () => {
       setIsOffline(false);
-      console.log('🌐 Reconnection detected - Starting conflict resolution');
-
-      try {
-        // Fetch current state from database using server action
-        const actionResult = await getDocumentByIdAction(Number(document.id));
-        
-        if (actionResult.success && actionResult.document) {
-          const { document: result } = actionResult;
-          const remoteContent = normalizeContent(result.content);
-          const remoteText = remoteContent.text || "";
-          const storedBaseline = localStorage.getItem(`notus:offline-baseline:${document.id}`) || "";
-          const currentText = content.text || "";
-
-          console.log('📊 Data retrieved from database:', {
-            documentId: document.id,
-            title: result.title,
-            updatedAt: result.updated_at,
-            contentLength: remoteText.length,
-            contentPreview: remoteText.substring(0, 100) + '...',
-            tags: result.tags,
-            hasContent: !!result.content,
-            contentType: typeof result.content
-          });
-
-          console.log('🔍 Conflict analysis:', {
-            documentId: document.id,
-            baselineLength: storedBaseline.length,
-            remoteLength: remoteText.length,
-            currentLength: currentText.length,
-            baselinePreview: storedBaseline.substring(0, 50) + '...',
-            remotePreview: remoteText.substring(0, 50) + '...',
-            currentPreview: currentText.substring(0, 50) + '...'
-          });
-
-          // Compare remote content with stored baseline
-          if (remoteText !== storedBaseline) {
-            // Remote changes occurred while offline - create a copy
-            console.log('⚠️ Conflict detected - Remote changes found during disconnection');
-            console.log('📄 Creating a copy with local modifications');
-
-            const offlineSnapshot = buildContentSnapshot();
-
-            // Create a copy with "name - copy"
-            if (realtimeUserId) {
-              try {
-                const copyForm = new FormData();
-                copyForm.append("userId", String(realtimeUserId));
-                const baseTitle = title || result.title || "Untitled";
-                copyForm.append("title", `${baseTitle} - copy`);
-                copyForm.append("content", JSON.stringify(offlineSnapshot));
-                copyForm.append("tags", JSON.stringify(tags));
-                await createDocumentAction(undefined as unknown as never, copyForm);
-                console.log("📄 Copy created with offline modifications.");
-              } catch (error) {
-                console.error("❌ Unable to create copy:", error);
-              }
-            }
-
-            // Update document state with remote data
-            setDocument({
-              ...document,
-              content: JSON.stringify(remoteContent),
-              updated_at: new Date(result.updated_at)
-            });
-
-            // Update all local states with remote data
-            setContent(remoteContent);
-            setTitle(result.title);
-            setTags(Array.isArray(result.tags) ? result.tags : []);
-
-            // Update localStorage with remote data
-            updateLocalStorage(remoteContent, result.title);
-
-            setOfflineBaseline("");
-            localStorage.removeItem(`notus:offline-baseline:${document.id}`);
-            console.log('✅ Resolution complete - Copy created and remote data applied');
-          } else {
-            // No remote changes - our offline changes are safe to persist
-            console.log('✅ No conflict - No remote changes detected');
-            console.log('💾 Saving offline modifications');
-            await handleSubmit();
-            setOfflineBaseline("");
-            localStorage.removeItem(`notus:offline-baseline:${document.id}`);
-            console.log('✅ Offline modifications saved successfully');
-          }
-        } else {
-          console.log('❌ Failed to fetch remote content:', actionResult.error);
-        }
-      } catch (err) {
-        console.error('❌ Error resolving conflicts:', err);
-      }
+      console.log('🌐 Reconnection detected - Replaying offline edits');
+      await replayOfflineEdits();
     };
 
     // Check initial state
@@ -939,7 +1115,7 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, [document, content, handleSubmit, normalizeContent, updateLocalStorage, buildContentSnapshot, createPersonalCopyFromOffline, userId, realtimeUserId, title, tags]);
+  }, [document, content, buildContentSnapshot, replayOfflineEdits, lastSavedState, userId, title, tags]);
 
   const persistTags = (nextTags: string[]) => {
     if (!userId) return;
@@ -1278,7 +1454,7 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
                 {renderSaveStatusMarker()}
               </div>
             )}
-            <UserListButton users={users} className="self-center" documentId={document.id} onAccessListRefresh={loadAccessList} isOwner={isOwner} currentUserId={userId} />
+            <UserListButton users={users} className="self-center" documentId={document.id} onAccessListRefresh={loadAccessList} isOwner={isOwner} currentUserId={userId} activeUserIds={activeUserIds} />
             {hasEditAccess === false && (
               <div className="px-3 py-1 bg-[var(--muted)] text-foreground text-sm font-medium rounded-full border border-[var(--border)]">
                 Read-only mode
@@ -1325,6 +1501,7 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
                     <MenuItem
                       onClick={() => {
                         setIsHistoryOpen(true);
+                        setIsOutlineOpen(false);
                         setIsMenuOpen(false);
                       }}
                       icon={<Icon name="clock" className="w-4 h-4 text-primary" />}
@@ -1332,6 +1509,19 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
                       History
                     </MenuItem>
 
+                    <MenuItem
+                      onClick={() => {
+                        setIsOutlineOpen(true);
+                        setIsCommentsOpen(false);
+                        setIsHistoryOpen(false);
+                        setIsSynthesisOpen(false);
+                        setIsMenuOpen(false);
+                      }}
+                      icon={<Icon name="list" className="w-4 h-4 text-primary" />}
+                    >
+                      Outline
+                    </MenuItem>
+
                     <MenuItem
                       onClick={() => {
                         if (hasEditAccess !== false) {
@@ -1453,6 +1643,21 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
           </Modal.Footer>
         </Modal>
 
+        <OfflineConflictModal
+          conflict={isConflictModalOpen ? offlineReplay?.conflict ?? null : null}
+          onResolve={handleResolveOfflineConflict}
+          onKeepCopy={handleKeepOfflineCopy}
+          onClose={() => setIsConflictModalOpen(false)}
+        />
+
+        {/* Offline edits waiting for a conflict resolution */}
+        {offlineReplay && !isConflictModalOpen && (
+          <div className="mb-4 rounded-lg p-3 bg-muted flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Your offline changes conflict with the server version</span>
+            <Button variant="ghost" onClick={() => setIsConflictModalOpen(true)}>Review</Button>
+          </div>
+        )}
+
         {/* New doc banner/cancel */}
         {isNew && hasEditAccess !== false && (
           <div className="mb-4 rounded-lg p-3 bg-muted flex items-center justify-between">
@@ -1503,12 +1708,13 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
             <div>
               <div className="border border-border rounded-lg overflow-hidden bg-card">
                 <WysiwygNotepad
-                  key={`doc-${document.id}`}
+                  key={`doc-${document.id}-${editorRevision}`}
                   initialData={content}
                   onContentChange={handleContentChange}
                   onRemoteContentChange={(remoteContent) => {
                     // Keep React state in sync so autosave submits the latest content
                     setContent(remoteContent);
+                    mentions.handleRemoteTextChange(remoteContent.text);
                     // Persist to localStorage like local edits do
                     updateLocalStorage(remoteContent);
                     // Update refs because it's a remote change (synchronized)
@@ -1531,15 +1737,26 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
                   onPersisted={handleRealtimePersisted}
                   onRegisterFlush={handleRegisterFlush}
                   onRealtimeConnectionChange={handleRealtimeConnectionChange}
+                  onParticipantsChange={handleParticipantsChange}
                   onOpenSynthesis={() => {
                     setIsSynthesisOpen(true);
                     setIsCommentsOpen(false);
                     setIsHistoryOpen(false);
+                    setIsOutlineOpen(false);
                   }}
+                  commentHighlights={commentHighlights}
+                  activeCommentId={isCommentsOpen ? activeCommentThreadId : focusedMention ? MENTION_HIGHLIGHT_ID : null}
+                  onCommentHighlightSelect={handleCommentHighlightSelect}
+                  onAddComment={isOffline ? undefined : handleAddSelectionComment}
+                  mentionCandidates={isOffline ? [] : mentions.candidates}
+                  searchNoteLinks={isOffline ? undefined : searchNoteLinks}
                 />
               </div>
             </div>
 
+            {/* Notes linking to this one */}
+            <BacklinksPanel documentId={document?.id ?? null} enabled={!isOffline} />
+
 
           </form>
         </div>
@@ -1564,12 +1781,29 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
       <CommentsSidebar
         documentId={document?.id ?? null}
         isOpen={isCommentsOpen}
-        onClose={() => setIsCommentsOpen(false)}
+        onClose={() => {
+          setIsCommentsOpen(false);
+          setActiveCommentThreadId(null);
+        }}
+        threads={comments.threads}
+        loading={comments.loading}
+        error={comments.error}
+        onRefresh={comments.refresh}
+        onAddComment={comments.addComment}
+        onReply={comments.reply}
+        onSetResolved={comments.setResolved}
+        pendingAnchor={pendingCommentAnchor}
+        onCancelAnchor={() => setPendingCommentAnchor(null)}
+        activeThreadId={activeCommentThreadId}
+        onSelectThread={setActiveCommentThreadId}
+        mentionCandidates={mentions.candidates}
       />
       <HistorySidebar
         documentId={document?.id ?? null}
         isOpen={isHistoryOpen}
         onClose={() => setIsHistoryOpen(false)}
+        canRestore={hasEditAccess === true && !isOffline}
+        onRestored={handleVersionRestored}
       />
       <SynthesisSidebar
         documentId={document?.id ?? null}
@@ -1577,12 +1811,20 @@ export default function EditDocumentPageClient(props: Readonly<EditDocumentPageC
         onClose={() => setIsSynthesisOpen(false)}
         documentContent={content?.text || ""}
       />
+      <OutlineSidebar
+        documentId={document?.id ?? null}
+        isOpen={isOutlineOpen}
+        onClose={() => setIsOutlineOpen(false)}
+        documentContent={content?.text || ""}
+        canReorder={hasEditAccess === true}
+      />
       {/* Floating button for comments */}
       <button
         onClick={() => {
           setIsCommentsOpen((open) => !open);
           setIsHistoryOpen(false);
           setIsSynthesisOpen(false);
+          setIsOutlineOpen(false);
         }}
         disabled={!document?.id}
         title="Show comments"
@@ -347,6 +347,7 @@ export default function EditLocalDocumentPageClient({ params }: Readonly<EditLoc
                   placeholder="Start writing your document..."
                   className=""
                   showDebug={false}
+                  inlineAttachments
                 />
               </div>
             </div>
@@ -1,4 +1,5 @@
 import "./globals.css";
+import "katex/dist/katex.min.css";
 import FloatingCreateButton from "@/components/documents/FloatingCreateButton";
 import AuthSessionProvider from "@/components/auth/SessionProvider";
 import { ThemeProvider } from "@/contexts/ThemeContext";
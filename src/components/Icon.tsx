@@ -237,6 +237,15 @@ const ListNumbered: React.FC<SvgProps> = (props) => (
   </svg>
 );
 
+const ListChecklist: React.FC<SvgProps> = (props) => (
+  <svg viewBox="0 0 16 16" fill="none" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <rect x="1" y="1.5" width="4" height="4" rx="0.75" />
+    <path d="M1.9 3.5l.9.9 1.4-1.6" />
+    <rect x="1" y="9.5" width="4" height="4" rx="0.75" />
+    <path d="M7.5 3.5h7m-7 8h7" />
+  </svg>
+);
+
 const Heading: React.FC<SvgProps> = (props) => (
   <svg viewBox="0 0 24 24" fill="currentColor" {...props}>
     <path d="M10.5 20V7H5V4h14v3h-5.5v13z" />
@@ -506,6 +515,44 @@ const TagPlus: React.FC<SvgProps> = (props) => (
     </svg>
 );
 
+const TableIcon: React.FC<SvgProps> = (props) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <rect x="3" y="4" width="18" height="16" rx="2" />
+    <path d="M3 10h18" />
+    <path d="M3 15h18" />
+    <path d="M9 4v16" />
+    <path d="M15 4v16" />
+  </svg>
+);
+
+const CodeIcon: React.FC<SvgProps> = (props) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <path d="M16 18l6-6-6-6" />
+    <path d="M8 6l-6 6 6 6" />
+  </svg>
+);
+
+const CodeBlockIcon: React.FC<SvgProps> = (props) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <rect x="3" y="3" width="18" height="18" rx="2" />
+    <path d="M10 9l-3 3 3 3" />
+    <path d="M14 9l3 3-3 3" />
+  </svg>
+);
+
+const SigmaIcon: React.FC<SvgProps> = (props) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <path d="M18 7V4H6l6 8-6 8h12v-3" />
+  </svg>
+);
+
+const CopyIcon: React.FC<SvgProps> = (props) => (
+  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
+    <rect x="9" y="9" width="13" height="13" rx="2" />
+    <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1" />
+  </svg>
+);
+
 export const ICONS = {
   menu: Menu,
   filter: Filter,
@@ -538,6 +585,7 @@ export const ICONS = {
   list: List,
   listBulleted: ListBulleted,
   listNumbered: ListNumbered,
+  listChecklist: ListChecklist,
   heading: Heading,
   quote: Quote,
   minus: Minus,
@@ -583,6 +631,11 @@ export const ICONS = {
   inbox: Inbox,
   comment: Comment,
   tagPlus: TagPlus,
+  table: TableIcon,
+  code: CodeIcon,
+  codeBlock: CodeBlockIcon,
+  copy: CopyIcon,
+  sigma: SigmaIcon,
   sparkles: (props: SvgProps) => (
     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2} strokeLinecap="round" strokeLinejoin="round" {...props}>
       <path d="M12 2L13.5 8.5L20 10L13.5 11.5L12 18L10.5 11.5L4 10L10.5 8.5L12 2Z" />
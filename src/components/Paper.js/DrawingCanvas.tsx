@@ -1,19 +1,16 @@
 "use client";
 import { useEffect, useRef, useState, useCallback, useLayoutEffect } from "react";
-import { useSocket } from "@/lib/paper.js/socket-client";
-import { useLocalSession } from "@/hooks/useLocalSession";
-
-interface Drawing {
-  segments: Array<{
-    point: [number, number];
-    handleIn?: [number, number] | null;
-    handleOut?: [number, number] | null;
-  }>;
-  color: string;
-  size: number;
-  opacity: number;
-  closed?: boolean;
-}
+import type { DrawingTool, SerializedPath } from "@/lib/paper.js/types";
+import {
+  createPathId,
+  getArrowHead,
+  getPathsBounds,
+  getShapeBox,
+  reorderPaths,
+  scalePath,
+  translatePath,
+  type DrawingBounds,
+} from "@/lib/paper.js/drawingBlocks";
 
 interface DrawingState {
   color: string;
@@ -21,70 +18,102 @@ interface DrawingState {
   opacity: number;
 }
 
-// Global variable to hold current drawing state for Paper.js event handlers
-let globalDrawingState: DrawingState = { color: "#000000", size: 3, opacity: 1 };
+export type ReorderDirection = "front" | "back" | "forward" | "backward";
 
-interface CanvasController {
-  saveDrawings: () => Promise<Drawing[]>;
-  saveAndClear: () => Promise<Drawing[]>;
+export interface CanvasController {
+  saveDrawings: () => Promise<SerializedPath[]>;
+  saveAndClear: () => Promise<SerializedPath[]>;
   clearCanvas: () => void;
   clearAndSync?: () => Promise<void>;
   setDrawingState: (state: Partial<DrawingState>) => void;
   exportAsDataURL: () => string | null;
+  undo: () => void;
+  redo: () => void;
+  deleteSelection: () => void;
+  reorderSelection: (direction: ReorderDirection) => void;
+}
+
+export interface CanvasStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+  selectionCount: number;
 }
 
 interface DrawingCanvasProps {
-  drawings?: Drawing[];
-  setDrawings: (drawings: Drawing[] | ((prev: Drawing[]) => Drawing[])) => void;
-  onDrawingData?: (drawing: Drawing) => void;
+  drawings?: SerializedPath[];
+  setDrawings: (drawings: SerializedPath[] | ((prev: SerializedPath[]) => SerializedPath[])) => void;
+  // An item was added
+  onDrawingData?: (drawing: SerializedPath) => void;
+  // Items were changed, removed or reordered, or the history was used
+  onDrawingsReplaced?: (drawings: SerializedPath[]) => void;
   onCanvasReady?: (canvasCtrl: CanvasController) => void;
+  onStatusChange?: (status: CanvasStatus) => void;
   className?: string;
-  hasLoadedInitialDrawingsRef?: React.MutableRefObject<boolean>;
   mode?: string;
+  tool?: DrawingTool;
+  // The undo history starts over when it changes (another drawing is loaded)
+  historyKey?: string | null;
   drawingState?: DrawingState;
   setDrawingState?: (state: DrawingState | ((prev: DrawingState) => DrawingState) | Partial<DrawingState>) => void;
-  startFresh?: boolean;
   [key: string]: any;
 }
 
+interface TextDraft {
+  x: number;
+  y: number;
+  value: string;
+  size: number;
+}
+
+type DragState =
+  | { kind: "freehand"; path: any }
+  | { kind: "shape"; start: [number, number]; preview: SerializedPath | null }
+  | { kind: "lasso"; lasso: any }
+  | { kind: "move"; start: [number, number]; preview: SerializedPath[] | null }
+  | { kind: "scale"; bounds: DrawingBounds; preview: SerializedPath[] | null };
+
+// Minimum distance (in px) between sampled points to avoid too-dense vertices
+const MIN_POINT_DISTANCE = 1.5;
+// Font size of text labels, in brush sizes
+const TEXT_SIZE_RATIO = 4;
+const MIN_TEXT_SIZE = 12;
+// Size of the scale handle at the bottom right of the selection
+const HANDLE_SIZE = 10;
+const MAX_HISTORY = 100;
+const SELECTION_COLOR = "#3b82f6";
+
 export default function DrawingCanvas({
   drawings = [],
   setDrawings,
   onDrawingData,
+  onDrawingsReplaced,
   onCanvasReady,
+  onStatusChange,
   className = "",
-  hasLoadedInitialDrawingsRef,
   mode = "draw",
+  tool = "pen",
+  historyKey = null,
   drawingState: propDrawingState,
   setDrawingState: propSetDrawingState,
   ...props
 }: DrawingCanvasProps) {
-  // -------- State management --------
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [currentPath, setCurrentPath] = useState<any>(null);
   const [paperScope, setPaperScope] = useState<any>(null);
-  const [isInitialized, setIsInitialized] = useState(false);
+  const [textDraft, setTextDraft] = useState<TextDraft | null>(null);
 
-  // Refs
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const paperRef = useRef<any>(null);
-  const clientIdRef = useRef<string | null>(null);
-  const pathsRef = useRef(new Map());
-  const isDrawingRef = useRef(false);
-  const currentPathRef = useRef<any>(null);
-  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
   const modeRef = useRef(mode);
+  const toolRef = useRef<DrawingTool>(tool);
+  const drawingsRef = useRef<SerializedPath[]>(drawings);
+  const selectionRef = useRef<Set<string>>(new Set());
+  const historyRef = useRef<{ past: SerializedPath[][]; future: SerializedPath[][] }>({ past: [], future: [] });
+  const dragRef = useRef<DragState | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const textDraftRef = useRef<TextDraft | null>(null);
+  textDraftRef.current = textDraft;
 
-  // Minimum distance (in px) between sampled points to avoid too-dense vertices
-  // Lower distance captures more points and allows smoother, curvier results
-  const MIN_POINT_DISTANCE = 1.5; // tweak this to taste (1-3 px)
-
-  // Session
-  const { session, isLoggedIn } = useLocalSession();
-
-  // Socket
-  const { socket } = useSocket();
-  const localMode = true; // Force local mode for now
+  // Callbacks are read at event time: the Paper.js tool is set up once
+  const callbacksRef = useRef({ setDrawings, onDrawingData, onDrawingsReplaced, onStatusChange });
+  callbacksRef.current = { setDrawings, onDrawingData, onDrawingsReplaced, onStatusChange };
 
   // -------- Drawing state --------
   const [localDrawingState, setLocalDrawingState] = useState<DrawingState>({
@@ -96,642 +125,577 @@ export default function DrawingCanvas({
   // Use prop drawing state if available, otherwise use local state
   const drawingState = propDrawingState || localDrawingState;
   const setDrawingState = propSetDrawingState || setLocalDrawingState;
+  const drawingStateRef = useRef<DrawingState>(drawingState);
 
-  console.log("DrawingCanvas - drawingState:", drawingState, "propDrawingState:", propDrawingState);
-
-  // Update global drawing state for event handlers
   useLayoutEffect(() => {
-    globalDrawingState = drawingState;
-    console.log("useLayoutEffect - updated globalDrawingState to:", drawingState);
+    drawingStateRef.current = drawingState;
   }, [drawingState]);
 
-  // When controls (color/size/opacity) change while drawing, apply to the current path immediately
-  useEffect(() => {
-    if (!paperScope) return;
-    const current = currentPathRef.current;
-    if (current) {
-      try {
-        const ds = globalDrawingState;
-        console.log("useEffect - updating current path with:", ds);
-        current.strokeColor = new paperScope.Color(ds.color);
-        console.log("useEffect - setting strokeColor to:", ds.color);
-        current.strokeWidth = ds.size;
-        current.opacity = ds.opacity;
-        paperScope.view.update();
-      } catch (e) {
-        // no-op
-      }
-    }
-  }, [drawingState.color, drawingState.size, drawingState.opacity, paperScope]);
-
-  // Canvas dimensions state
-  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0 });
-
-  // Update refs when state changes
-  useEffect(() => {
-    isDrawingRef.current = isDrawing;
-  }, [isDrawing]);
-
-  useEffect(() => {
-    currentPathRef.current = currentPath;
-  }, [currentPath]);
-
   useEffect(() => {
     modeRef.current = mode;
   }, [mode]);
 
-  // Handle canvas resize
-  useEffect(() => {
-    const updateCanvasSize = () => {
-      if (canvasRef.current) {
-        const rect = canvasRef.current.getBoundingClientRect();
-        setCanvasSize({ width: rect.width, height: rect.height });
-      }
-    };
-
-    updateCanvasSize();
-    window.addEventListener("resize", updateCanvasSize);
+  // -------- Scene --------
+  const getSelectedPaths = useCallback((paths: SerializedPath[]) => {
+    return paths.filter((path) => selectionRef.current.has(path.id as string));
+  }, []);
 
-    return () => {
-      window.removeEventListener("resize", updateCanvasSize);
+  const createItem = useCallback((paper: any, path: SerializedPath) => {
+    const point = (value: [number, number]) => new paper.Point(value[0], value[1]);
+    const strokeStyle = (item: any) => {
+      item.strokeColor = new paper.Color(path.color);
+      item.strokeWidth = path.size;
+      item.strokeCap = "round";
+      item.strokeJoin = "round";
     };
-  }, []);
+    let item: any;
+
+    switch (path.type) {
+      case "text":
+        item = new paper.PointText({
+          point: point(path.segments[0].point),
+          content: path.text ?? "",
+          fillColor: new paper.Color(path.color),
+          fontFamily: "sans-serif",
+          fontSize: path.size,
+        });
+        break;
+      case "rectangle":
+      case "ellipse": {
+        const box = getShapeBox(path);
+        const rectangle = new paper.Rectangle(box.x, box.y, box.width, box.height);
+        item = path.type === "rectangle" ? new paper.Path.Rectangle(rectangle) : new paper.Path.Ellipse(rectangle);
+        strokeStyle(item);
+        if (path.fill) item.fillColor = new paper.Color(path.fill);
+        break;
+      }
+      case "line":
+      case "arrow": {
+        const start = path.segments[0].point;
+        const end = path.segments[path.segments.length - 1].point;
+        const line = new paper.Path([point(start), point(end)]);
+        strokeStyle(line);
+        if (path.type === "line") {
+          item = line;
+          break;
+        }
+        const [left, right] = getArrowHead(start, end, path.size);
+        const head = new paper.Path([point(left), point(end), point(right)]);
+        strokeStyle(head);
+        item = new paper.Group([line, head]);
+        break;
+      }
+      default: {
+        item = new paper.Path();
+        // Curves are kept through their handles
+        path.segments.forEach((segment) => {
+          item.add(
+            new paper.Segment(
+              point(segment.point),
+              segment.handleIn ? point(segment.handleIn) : null,
+              segment.handleOut ? point(segment.handleOut) : null
+            )
+          );
+        });
+        if (path.closed) item.closed = true;
+        strokeStyle(item);
+        // The eraser removes what was drawn below it
+        if (path.type === "eraser") item.blendMode = "destination-out";
+      }
+    }
 
-  // Sync drawings from canvas to state when they change
-  const syncDrawingsToState = useCallback(() => {
-    if (!paperScope) return;
+    if (path.opacity !== undefined && path.type !== "eraser") item.opacity = path.opacity;
+    item.data = { id: path.id };
+    return item;
+  }, []);
 
-    const allPaths: Drawing[] = [];
-    paperScope.project.activeLayer.children.forEach((item: any) => {
-      if (item.className === "Path") {
-        const serializedPath: Drawing = {
-          segments: item.segments.map((segment: any) => ({
-            point: [segment.point.x, segment.point.y] as [number, number],
-            handleIn: segment.handleIn
-              ? ([segment.handleIn.x, segment.handleIn.y] as [number, number])
-              : null,
-            handleOut: segment.handleOut
-              ? ([segment.handleOut.x, segment.handleOut.y] as [number, number])
-              : null,
-          })),
-          color: item.strokeColor?.toCSS() || "#000000",
-          size: item.strokeWidth || 3,
-          opacity: item.opacity || 1,
-          closed: item.closed || false,
-        };
-        allPaths.push(serializedPath);
+  const renderScene = useCallback((paths: SerializedPath[] = drawingsRef.current) => {
+    const paper = paperScope;
+    if (!paper) return;
+    paper.project.clear();
+    const content = new paper.Layer();
+    paths.forEach((path) => {
+      try {
+        createItem(paper, path);
+      } catch (error) {
+        console.error("Error loading drawing:", error);
       }
     });
 
-    // Always update the state with current canvas drawings
-    setDrawings(allPaths);
-  }, [paperScope, setDrawings]);
-
-  // Mode is now passed as prop
-
-  // -------- Paper.js setup --------
-  const initializePaper = useCallback(async () => {
-    if (!canvasRef.current || isInitialized || typeof window === "undefined")
-      return;
-    try {
-      const paper = (await import("paper")).default;
-      paperRef.current = paper;
+    const bounds = getPathsBounds(getSelectedPaths(paths));
+    if (bounds) {
+      new paper.Layer();
+      const box = new paper.Path.Rectangle(new paper.Rectangle(bounds.x - 4, bounds.y - 4, bounds.width + 8, bounds.height + 8));
+      box.strokeColor = new paper.Color(SELECTION_COLOR);
+      box.strokeWidth = 1;
+      box.dashArray = [4, 4];
+      const handle = new paper.Path.Rectangle(new paper.Rectangle(
+        bounds.x + bounds.width + 4 - HANDLE_SIZE / 2,
+        bounds.y + bounds.height + 4 - HANDLE_SIZE / 2,
+        HANDLE_SIZE,
+        HANDLE_SIZE
+      ));
+      handle.fillColor = new paper.Color("#ffffff");
+      handle.strokeColor = new paper.Color(SELECTION_COLOR);
+    }
+    content.activate();
+    paper.view.update();
+  }, [paperScope, createItem, getSelectedPaths]);
+
+  // -------- History --------
+  const emitStatus = useCallback(() => {
+    callbacksRef.current.onStatusChange?.({
+      canUndo: historyRef.current.past.length > 0,
+      canRedo: historyRef.current.future.length > 0,
+      selectionCount: selectionRef.current.size,
+    });
+  }, []);
 
-      const canvas = canvasRef.current;
+  const setSelection = useCallback((ids: Iterable<string>) => {
+    selectionRef.current = new Set(ids);
+    emitStatus();
+  }, [emitStatus]);
+
+  const applyDrawings = useCallback((next: SerializedPath[]) => {
+    drawingsRef.current = next;
+    const ids = new Set(next.map((path) => path.id));
+    selectionRef.current = new Set([...selectionRef.current].filter((id) => ids.has(id)));
+    callbacksRef.current.setDrawings(next);
+    renderScene(next);
+  }, [renderScene]);
+
+  // Every change made on this canvas goes through here, as one undo step
+  const commit = useCallback((next: SerializedPath[], added?: SerializedPath) => {
+    const history = historyRef.current;
+    history.past = [...history.past, drawingsRef.current].slice(-MAX_HISTORY);
+    history.future = [];
+    applyDrawings(next);
+    if (added) callbacksRef.current.onDrawingData?.(added);
+    else callbacksRef.current.onDrawingsReplaced?.(next);
+    emitStatus();
+  }, [applyDrawings, emitStatus]);
+
+  const undo = useCallback(() => {
+    const history = historyRef.current;
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return;
+    history.past = history.past.slice(0, -1);
+    history.future = [drawingsRef.current, ...history.future];
+    applyDrawings(previous);
+    callbacksRef.current.onDrawingsReplaced?.(previous);
+    emitStatus();
+  }, [applyDrawings, emitStatus]);
+
+  const redo = useCallback(() => {
+    const history = historyRef.current;
+    const [next] = history.future;
+    if (!next) return;
+    history.future = history.future.slice(1);
+    history.past = [...history.past, drawingsRef.current];
+    applyDrawings(next);
+    callbacksRef.current.onDrawingsReplaced?.(next);
+    emitStatus();
+  }, [applyDrawings, emitStatus]);
+
+  const deleteSelection = useCallback(() => {
+    if (selectionRef.current.size === 0) return;
+    const selected = selectionRef.current;
+    selectionRef.current = new Set();
+    commit(drawingsRef.current.filter((path) => !selected.has(path.id as string)));
+  }, [commit]);
+
+  const reorderSelection = useCallback((direction: ReorderDirection) => {
+    if (selectionRef.current.size === 0) return;
+    commit(reorderPaths(drawingsRef.current, selectionRef.current, direction));
+  }, [commit]);
+
+  // Cleared without an undo step: the drawing was saved into the note
+  const resetCanvas = useCallback(() => {
+    historyRef.current = { past: [], future: [] };
+    selectionRef.current = new Set();
+    applyDrawings([]);
+    emitStatus();
+  }, [applyDrawings, emitStatus]);
+
+  const commitText = useCallback((draft: TextDraft | null) => {
+    setTextDraft(null);
+    if (!draft || !draft.value.trim()) return;
+    const ds = drawingStateRef.current;
+    const path: SerializedPath = {
+      id: createPathId(),
+      type: "text",
+      segments: [{ point: [draft.x, draft.y] }],
+      text: draft.value,
+      color: ds.color,
+      size: draft.size,
+      ...(ds.opacity < 1 ? { opacity: ds.opacity } : {}),
+    };
+    commit([...drawingsRef.current, path], path);
+  }, [commit]);
 
-      // Set canvas size based on container
-      const rect = canvas.getBoundingClientRect();
-      canvas.width = rect.width;
-      canvas.height = rect.height;
+  // The drawings changed from outside (loaded drawing, collaborator) or through a commit
+  useEffect(() => {
+    drawingsRef.current = drawings;
+    const ids = new Set(drawings.map((path) => path.id));
+    if ([...selectionRef.current].some((id) => !ids.has(id))) {
+      selectionRef.current = new Set([...selectionRef.current].filter((id) => ids.has(id)));
+      emitStatus();
+    }
+    if (!dragRef.current) renderScene(drawings);
+  }, [drawings, renderScene, emitStatus]);
 
-      paper.setup(canvas);
+  useEffect(() => {
+    historyRef.current = { past: [], future: [] };
+    selectionRef.current = new Set();
+    emitStatus();
+  }, [historyKey, emitStatus]);
 
-      // Set view size to match canvas size
-      paper.view.viewSize = new paper.Size(rect.width, rect.height);
+  // Switching tools drops the selection and an unfinished text
+  useEffect(() => {
+    toolRef.current = tool;
+    if (textDraftRef.current) commitText(textDraftRef.current);
+    if (tool !== "select" && selectionRef.current.size > 0) {
+      setSelection([]);
+      renderScene();
+    }
+  }, [tool, commitText, setSelection, renderScene]);
+
+  // -------- Pointer tools --------
+  const handleMouseDown = useCallback((event: any) => {
+    const paper = paperScope;
+    if (!paper || modeRef.current !== "draw") return;
+    const currentTool = toolRef.current;
+    const ds = drawingStateRef.current;
+    const at: [number, number] = [event.point.x, event.point.y];
+
+    if (textDraftRef.current) {
+      commitText(textDraftRef.current);
+      return;
+    }
 
-      // Set up drawing tools
-      const tool = new paper.Tool();
+    if (currentTool === "text") {
+      setTextDraft({ x: at[0], y: at[1], value: "", size: Math.max(MIN_TEXT_SIZE, ds.size * TEXT_SIZE_RATIO) });
+      return;
+    }
 
-      tool.onMouseDown = (event: any) => {
-        if (modeRef.current !== "draw") {
+    if (currentTool === "select") {
+      const bounds = getPathsBounds(getSelectedPaths(drawingsRef.current));
+      if (bounds) {
+        const handleX = bounds.x + bounds.width + 4;
+        const handleY = bounds.y + bounds.height + 4;
+        if (Math.abs(at[0] - handleX) <= HANDLE_SIZE && Math.abs(at[1] - handleY) <= HANDLE_SIZE) {
+          dragRef.current = { kind: "scale", bounds, preview: null };
           return;
         }
-        setIsDrawing(true);
-        isDrawingRef.current = true;
-
-        const path = new paper.Path();
-        const ds = globalDrawingState;
-        console.log("onMouseDown - globalDrawingState:", ds);
-        path.strokeColor = new paper.Color(ds.color);
-        console.log("onMouseDown - setting strokeColor to:", ds.color);
-        path.strokeWidth = ds.size;
-        path.strokeCap = "round";
-        path.strokeJoin = "round";
-        path.opacity = ds.opacity;
-
-        path.add(event.point);
-        lastPointRef.current = { x: event.point.x, y: event.point.y };
-        setCurrentPath(path);
-        currentPathRef.current = path;
-
-        // Store in paths map
-        const pathId = `path-${Date.now()}-${Math.random()}`;
-        pathsRef.current.set(pathId, path);
-      };
-
-      tool.onMouseDrag = (event: any) => {
-        if (
-          !isDrawingRef.current ||
-          !currentPathRef.current ||
-          modeRef.current !== "draw"
-        ) {
+        if (at[0] >= bounds.x - 4 && at[0] <= bounds.x + bounds.width + 4 && at[1] >= bounds.y - 4 && at[1] <= bounds.y + bounds.height + 4) {
+          dragRef.current = { kind: "move", start: at, preview: null };
           return;
         }
+      }
 
-        // Sample points to avoid many tiny segments which later simplify to corners
-        const last = lastPointRef.current;
-        const px = event.point.x;
-        const py = event.point.y;
-        if (!last) {
-          currentPathRef.current.add(event.point);
-          lastPointRef.current = { x: px, y: py };
-        } else {
-          const dx = px - last.x;
-          const dy = py - last.y;
-          const dist2 = dx * dx + dy * dy;
-          if (dist2 >= MIN_POINT_DISTANCE * MIN_POINT_DISTANCE) {
-            currentPathRef.current.add(event.point);
-            lastPointRef.current = { x: px, y: py };
-          }
-        }
-        // Live update current path style in case controls changed mid-stroke
-        const ds = globalDrawingState;
-        console.log("onMouseDrag - updating path style with:", ds);
-        currentPathRef.current.strokeColor = new paper.Color(ds.color);
-        console.log("onMouseDrag - setting strokeColor to:", ds.color);
-        currentPathRef.current.strokeWidth = ds.size;
-        currentPathRef.current.opacity = ds.opacity;
-        paper.view.update();
-      };
-
-      // Also update style if drawingState changes mid-stroke (external prop/local)
-      const observer = new MutationObserver(() => {
-        if (currentPathRef.current) {
-          const ds = globalDrawingState;
-          console.log("MutationObserver - updating path style with:", ds);
-          currentPathRef.current.strokeColor = new paper.Color(ds.color);
-          console.log("MutationObserver - setting strokeColor to:", ds.color);
-          currentPathRef.current.strokeWidth = ds.size;
-          currentPathRef.current.opacity = ds.opacity;
-        }
-      });
-      // Observe attribute changes on canvas element as a simple hook to trigger updates
-      if (canvasRef.current) {
-        observer.observe(canvasRef.current, { attributes: true });
+      // A click on an item selects it, and it can be dragged right away
+      const hit = paper.project.activeLayer.hitTest(event.point, { stroke: true, fill: true, tolerance: 6 });
+      let hitItem = hit?.item;
+      while (hitItem && !hitItem.data?.id && hitItem.parent) hitItem = hitItem.parent;
+      const hitPath = hitItem?.data?.id ? drawingsRef.current.find((path) => path.id === hitItem.data.id) : null;
+      if (hitPath && hitPath.type !== "eraser") {
+        setSelection([hitPath.id as string]);
+        renderScene();
+        dragRef.current = { kind: "move", start: at, preview: null };
+        return;
       }
 
-      tool.onMouseUp = (event: any) => {
-        if (
-          !isDrawingRef.current ||
-          !currentPathRef.current ||
-          modeRef.current !== "draw"
-        ) {
-          return;
-        }
+      setSelection([]);
+      renderScene();
+      const lasso = new paper.Path();
+      lasso.strokeColor = new paper.Color(SELECTION_COLOR);
+      lasso.strokeWidth = 1;
+      lasso.dashArray = [4, 4];
+      lasso.add(event.point);
+      dragRef.current = { kind: "lasso", lasso };
+      return;
+    }
+
+    if (currentTool === "pen" || currentTool === "eraser") {
+      const path = new paper.Path();
+      path.strokeColor = new paper.Color(ds.color);
+      path.strokeWidth = ds.size;
+      path.strokeCap = "round";
+      path.strokeJoin = "round";
+      if (currentTool === "eraser") path.blendMode = "destination-out";
+      else path.opacity = ds.opacity;
+      path.add(event.point);
+      lastPointRef.current = { x: at[0], y: at[1] };
+      dragRef.current = { kind: "freehand", path };
+      return;
+    }
 
-        setIsDrawing(false);
-        isDrawingRef.current = false;
+    dragRef.current = { kind: "shape", start: at, preview: null };
+  }, [paperScope, commitText, getSelectedPaths, setSelection, renderScene]);
 
+  const handleMouseDrag = useCallback((event: any) => {
+    const paper = paperScope;
+    const drag = dragRef.current;
+    if (!paper || !drag) return;
+    const at: [number, number] = [event.point.x, event.point.y];
+    const ds = drawingStateRef.current;
+
+    switch (drag.kind) {
+      case "freehand": {
+        // Sample points to avoid many tiny segments which later simplify to corners
+        const last = lastPointRef.current;
+        const dx = last ? at[0] - last.x : Infinity;
+        const dy = last ? at[1] - last.y : Infinity;
+        if (!last || dx * dx + dy * dy >= MIN_POINT_DISTANCE * MIN_POINT_DISTANCE) {
+          drag.path.add(event.point);
+          lastPointRef.current = { x: at[0], y: at[1] };
+        }
+        break;
+      }
+      case "shape": {
+        drag.preview = {
+          id: createPathId(),
+          type: toolRef.current as SerializedPath["type"],
+          segments: [{ point: drag.start }, { point: at }],
+          color: ds.color,
+          size: ds.size,
+          ...(ds.opacity < 1 ? { opacity: ds.opacity } : {}),
+        };
+        renderScene([...drawingsRef.current, drag.preview]);
+        break;
+      }
+      case "lasso":
+        drag.lasso.add(event.point);
+        break;
+      case "move": {
+        const dx = at[0] - drag.start[0];
+        const dy = at[1] - drag.start[1];
+        drag.preview = drawingsRef.current.map((path) =>
+          selectionRef.current.has(path.id as string) ? translatePath(path, dx, dy) : path
+        );
+        renderScene(drag.preview);
+        break;
+      }
+      case "scale": {
+        const { bounds } = drag;
+        let sx = Math.max(0.05, (at[0] - bounds.x) / Math.max(1, bounds.width));
+        let sy = Math.max(0.05, (at[1] - bounds.y) / Math.max(1, bounds.height));
+        // Shift keeps the proportions
+        if (event.modifiers?.shift) sx = sy = Math.max(sx, sy);
+        drag.preview = drawingsRef.current.map((path) =>
+          selectionRef.current.has(path.id as string) ? scalePath(path, [bounds.x, bounds.y], sx, sy) : path
+        );
+        renderScene(drag.preview);
+        break;
+      }
+    }
+    paper.view.update();
+  }, [paperScope, renderScene]);
+
+  const handleMouseUp = useCallback(() => {
+    const paper = paperScope;
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!paper || !drag) return;
+    const ds = drawingStateRef.current;
+
+    switch (drag.kind) {
+      case "freehand": {
+        lastPointRef.current = null;
         // Finalize path: apply a curvier smoothing algorithm (Catmull-Rom)
         try {
-          // Catmull-Rom produces nice rounded curves through the points.
-          // Factor controls tension; higher => tighter curves. 0.6 is a good starting point.
-          currentPathRef.current.smooth({ type: 'catmull-rom', factor: 0.6 });
+          drag.path.smooth({ type: "catmull-rom", factor: 0.6 });
         } catch (_e) {
-          // Fallback to continuous smoothing if catmull-rom isn't available
           try {
-            currentPathRef.current.smooth({ type: 'continuous' });
+            drag.path.smooth({ type: "continuous" });
           } catch (_e) {
             // If smoothing fails entirely, keep the raw path as-is
           }
         }
-        // reset last point
-        lastPointRef.current = null;
-
-        // Convert to serializable format
-        const dsFinal = globalDrawingState;
-        const serializedPath: Drawing = {
-          segments: currentPathRef.current.segments.map((segment: any) => ({
+        const eraser = toolRef.current === "eraser";
+        const path: SerializedPath = {
+          id: createPathId(),
+          type: eraser ? "eraser" : "pen",
+          segments: drag.path.segments.map((segment: any) => ({
             point: [segment.point.x, segment.point.y] as [number, number],
-            handleIn: segment.handleIn
-              ? ([segment.handleIn.x, segment.handleIn.y] as [number, number])
-              : null,
-            handleOut: segment.handleOut
-              ? ([segment.handleOut.x, segment.handleOut.y] as [number, number])
-              : null,
+            ...(segment.handleIn && !segment.handleIn.isZero() ? { handleIn: [segment.handleIn.x, segment.handleIn.y] as [number, number] } : {}),
+            ...(segment.handleOut && !segment.handleOut.isZero() ? { handleOut: [segment.handleOut.x, segment.handleOut.y] as [number, number] } : {}),
           })),
-          color: dsFinal.color,
-          size: dsFinal.size,
-          opacity: dsFinal.opacity,
-          closed: currentPathRef.current.closed,
+          color: ds.color,
+          size: ds.size,
+          ...(!eraser && ds.opacity < 1 ? { opacity: ds.opacity } : {}),
         };
-
-        // Add to drawings
-        setDrawings((prev) => {
-          const newDrawings = [...prev, serializedPath];
-
-          // Notify parent
-          if (onDrawingData) {
-            onDrawingData(serializedPath);
-          }
-
-          return newDrawings;
-        });
-
-        setCurrentPath(null);
-        currentPathRef.current = null;
-        paper.view.update();
-
-        // Sync drawings to state
-        setTimeout(() => {
-          syncDrawingsToState();
-        }, 100);
-      };
-
-      setPaperScope(paper);
-      setIsInitialized(true);
-
-      // Notify parent that canvas is ready
-      if (onCanvasReady) {
-        onCanvasReady({
-          saveDrawings: async () => {
-            syncDrawingsToState();
-            const allPaths: Drawing[] = [];
-            paper.project.activeLayer.children.forEach((item: any) => {
-              if (item.className === "Path") {
-                const serializedPath: Drawing = {
-                  segments: item.segments.map((segment: any) => ({
-                    point: [segment.point.x, segment.point.y] as [number, number],
-                    handleIn: segment.handleIn
-                      ? ([segment.handleIn.x, segment.handleIn.y] as [number, number])
-                      : null,
-                    handleOut: segment.handleOut
-                      ? ([segment.handleOut.x, segment.handleOut.y] as [number, number])
-                      : null,
-                  })),
-                  color: item.strokeColor?.toCSS() || "#000000",
-                  size: item.strokeWidth || 3,
-                  opacity: item.opacity || 1,
-                  closed: item.closed || false,
-                };
-                allPaths.push(serializedPath);
-              }
-            });
-            return allPaths;
-          },
-          saveAndClear: async () => {
-            syncDrawingsToState();
-            const allPaths: Drawing[] = [];
-            paper.project.activeLayer.children.forEach((item: any) => {
-              if (item.className === "Path") {
-                const serializedPath: Drawing = {
-                  segments: item.segments.map((segment: any) => ({
-                    point: [segment.point.x, segment.point.y] as [number, number],
-                    handleIn: segment.handleIn
-                      ? ([segment.handleIn.x, segment.handleIn.y] as [number, number])
-                      : null,
-                    handleOut: segment.handleOut
-                      ? ([segment.handleOut.x, segment.handleOut.y] as [number, number])
-                      : null,
-                  })),
-                  color: item.strokeColor?.toCSS() || "#000000",
-                  size: item.strokeWidth || 3,
-                  opacity: item.opacity || 1,
-                  closed: item.closed || false,
-                };
-                allPaths.push(serializedPath);
-              }
-            });
-            // clear canvas and state
-            try { paper.project.clear(); } catch (e) { }
-            pathsRef.current.clear();
-            setDrawings([]);
-            try { paper.view.update(); } catch (e) { }
-            await new Promise((res) => setTimeout(res, 0));
-            return allPaths;
-          },
-          clearCanvas: () => {
-            paper.project.clear();
-            pathsRef.current.clear();
-            setDrawings([]);
-          },
-          clearAndSync: async () => {
-            try {
-              paper.project.clear();
-              pathsRef.current.clear();
-              setDrawings([]);
-              try { paper.view.update(); } catch (e) { }
-              await new Promise((res) => setTimeout(res, 0));
-            } catch (e) { /* no-op */ }
-          },
-          setDrawingState: (newState: Partial<DrawingState>) => {
-            setDrawingState((prev) => ({ ...prev, ...newState }));
-          },
-          exportAsDataURL: () => {
-            try {
-              return canvasRef.current ? canvasRef.current.toDataURL("image/png") : null;
-            } catch (e) {
-              return null;
-            }
-          }
-        });
+        commit([...drawingsRef.current, path], path);
+        break;
       }
-    } catch (error) {
-      console.error("Error initializing Paper.js:", error);
-    }
-  }, [
-    isInitialized,
-    onDrawingData,
-    onCanvasReady,
-    setDrawings,
-    syncDrawingsToState,
-    setDrawingState,
-  ]);
-
-  // -------- Load initial drawings --------
-  useEffect(() => {
-    if (!paperScope || !isInitialized) return;
-
-    // If parent requested a fresh canvas, clear existing project and state
-    if (props.startFresh) {
-      try {
-        paperScope.project.clear();
-      } catch (e) { /* no-op */ }
-      pathsRef.current.clear();
-      setDrawings([]);
-      // Ensure we don't immediately reload the old `drawings` value
-      return; // <-- added: exit to avoid reloading old drawings
-    }
-
-    // Clear existing paths
-    paperScope.project.clear();
-    pathsRef.current.clear();
-
-    // Load drawings
-    if (Array.isArray(drawings) && drawings.length > 0) {
-      drawings.forEach((drawing, index) => {
-        if (!drawing || !drawing.segments) return;
-
-        try {
-          const path = new paperScope.Path();
-          const color = drawing.color || globalDrawingState.color || "#000000";
-          const size = drawing.size || globalDrawingState.size || 3;
-          const opacity = drawing.opacity ?? globalDrawingState.opacity ?? 1;
-          path.strokeColor = new paperScope.Color(color);
-          path.strokeWidth = size;
-          path.strokeCap = "round";
-          path.strokeJoin = "round";
-          path.opacity = opacity;
-
-          drawing.segments.forEach((segment) => {
-            if (segment.point && Array.isArray(segment.point)) {
-              path.add(
-                new paperScope.Point(segment.point[0], segment.point[1])
-              );
-            }
+      case "shape": {
+        const preview = drag.preview;
+        const [start, end] = preview ? [preview.segments[0].point, preview.segments[1].point] : [null, null];
+        // A click without a drag draws nothing
+        if (!preview || !start || !end || Math.hypot(end[0] - start[0], end[1] - start[1]) < 3) {
+          renderScene();
+          break;
+        }
+        commit([...drawingsRef.current, preview], preview);
+        break;
+      }
+      case "lasso": {
+        const lasso = drag.lasso;
+        lasso.closed = true;
+        const selected: string[] = [];
+        if (lasso.segments.length > 2) {
+          paper.project.activeLayer.children.forEach((item: any) => {
+            const id = item.data?.id;
+            const path = id ? drawingsRef.current.find((candidate) => candidate.id === id) : null;
+            if (!path || path.type === "eraser" || item === lasso) return;
+            const touches = lasso.contains(item.bounds.center)
+              || (item.className === "Path" && lasso.intersects(item));
+            if (touches) selected.push(id);
           });
-
-          if (drawing.closed) {
-            path.closePath();
-          }
-
-          const pathId = `path-${index}-${Date.now()}`;
-          pathsRef.current.set(pathId, path);
-        } catch (error) {
-          console.error("Error loading drawing:", error);
         }
-      });
-
-      paperScope.view.draw();
+        lasso.remove();
+        setSelection(selected);
+        renderScene();
+        break;
+      }
+      case "move":
+      case "scale":
+        if (drag.preview) commit(drag.preview);
+        else renderScene();
+        break;
     }
-  }, [paperScope, isInitialized, drawings, props.startFresh, setDrawings]);
+  }, [paperScope, commit, setSelection, renderScene]);
 
-  // -------- Canvas setup --------
-  useEffect(() => {
-    if (typeof window !== "undefined") {
-      initializePaper();
-    }
-  }, [initializePaper]);
+  const pointerHandlersRef = useRef({ handleMouseDown, handleMouseDrag, handleMouseUp });
+  pointerHandlersRef.current = { handleMouseDown, handleMouseDrag, handleMouseUp };
 
-  // Handle canvas resize after initialization
+  // -------- Paper.js setup --------
   useEffect(() => {
-    if (!paperScope || !isInitialized) return;
+    if (!canvasRef.current || typeof window === "undefined") return;
+    let cancelled = false;
+    let paperInstance: any = null;
 
-    const handleResize = () => {
-      if (canvasRef.current && paperScope) {
-        // Save current drawings
-        const currentDrawings: Drawing[] = [];
-        paperScope.project.activeLayer.children.forEach((item: any) => {
-          if (item.className === "Path") {
-            const serializedPath: Drawing = {
-              segments: item.segments.map((segment: any) => ({
-                point: [segment.point.x, segment.point.y] as [number, number],
-                handleIn: segment.handleIn
-                  ? ([segment.handleIn.x, segment.handleIn.y] as [number, number])
-                  : null,
-                handleOut: segment.handleOut
-                  ? ([segment.handleOut.x, segment.handleOut.y] as [number, number])
-                  : null,
-              })),
-              color: item.strokeColor?.toCSS() || "#000000",
-              size: item.strokeWidth || 3,
-              opacity: item.opacity || 1,
-              closed: item.closed || false,
-            };
-            currentDrawings.push(serializedPath);
-          }
-        });
-
-        // Resize canvas
-        const rect = canvasRef.current.getBoundingClientRect();
-        canvasRef.current.width = rect.width;
-        canvasRef.current.height = rect.height;
-        paperScope.view.viewSize = new paperScope.Size(rect.width, rect.height);
-
-        // Restore drawings
-        currentDrawings.forEach((drawing) => {
-          if (drawing && drawing.segments) {
-            try {
-              const path = new paperScope.Path();
-              path.strokeColor = new paperScope.Color(drawing.color || "#000000");
-              path.strokeWidth = drawing.size || 3;
-              path.strokeCap = "round";
-              path.strokeJoin = "round";
-              path.opacity = drawing.opacity || 1;
-
-              drawing.segments.forEach((segment) => {
-                if (segment.point && Array.isArray(segment.point)) {
-                  path.add(
-                    new paperScope.Point(segment.point[0], segment.point[1])
-                  );
-                }
-              });
-
-              if (drawing.closed) {
-                path.closePath();
-              }
-            } catch (error) {
-              console.error("Error restoring drawing after resize:", error);
-            }
-          }
-        });
-
-        paperScope.view.update();
+    (async () => {
+      try {
+        const paper = (await import("paper")).default;
+        if (cancelled || !canvasRef.current) return;
+        paperInstance = paper;
+
+        const canvas = canvasRef.current;
+        // Set canvas size based on container
+        const rect = canvas.getBoundingClientRect();
+        canvas.width = rect.width;
+        canvas.height = rect.height;
+        paper.setup(canvas);
+        paper.view.viewSize = new paper.Size(rect.width, rect.height);
+
+        const paperTool = new paper.Tool();
+        paperTool.onMouseDown = (event: any) => pointerHandlersRef.current.handleMouseDown(event);
+        paperTool.onMouseDrag = (event: any) => pointerHandlersRef.current.handleMouseDrag(event);
+        paperTool.onMouseUp = () => pointerHandlersRef.current.handleMouseUp();
+
+        setPaperScope(paper);
+      } catch (error) {
+        console.error("Error initializing Paper.js:", error);
       }
-    };
+    })();
 
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, [paperScope, isInitialized]);
+    return () => {
+      cancelled = true;
+      try {
+        paperInstance?.project?.clear();
+      } catch (e) { /* no-op */ }
+    };
+  }, []);
 
-  // Handle mode change - resize canvas when mode changes
+  // Notify parent that canvas is ready
   useEffect(() => {
-    if (!paperScope || !isInitialized) return;
-
-    const resizeCanvas = () => {
-      if (canvasRef.current && paperScope) {
-        const rect = canvasRef.current.getBoundingClientRect();
-
-        // Calculate new dimensions based on container
-        const newWidth = rect.width;
-        const newHeight = rect.height;
-
-        // Only resize if dimensions actually changed
-        if (
-          canvasRef.current.width !== newWidth ||
-          canvasRef.current.height !== newHeight
-        ) {
-          // Save current drawings before resize
-          const currentDrawings: Drawing[] = [];
-          paperScope.project.activeLayer.children.forEach((item: any) => {
-            if (item.className === "Path") {
-              const serializedPath: Drawing = {
-                segments: item.segments.map((segment: any) => ({
-                  point: [segment.point.x, segment.point.y] as [number, number],
-                  handleIn: segment.handleIn
-                    ? ([segment.handleIn.x, segment.handleIn.y] as [number, number])
-                    : null,
-                  handleOut: segment.handleOut
-                    ? ([segment.handleOut.x, segment.handleOut.y] as [number, number])
-                    : null,
-                })),
-                color: item.strokeColor?.toCSS() || "#000000",
-                size: item.strokeWidth || 3,
-                opacity: item.opacity || 1,
-                closed: item.closed || false,
-              };
-              currentDrawings.push(serializedPath);
-            }
-          });
-
-          // Clear canvas
-          paperScope.project.clear();
-
-          // Resize canvas
-          canvasRef.current.width = newWidth;
-          canvasRef.current.height = newHeight;
-          paperScope.view.viewSize = new paperScope.Size(newWidth, newHeight);
-
-          // Restore drawings with scaling
-          currentDrawings.forEach((drawing) => {
-            if (drawing && drawing.segments) {
-              try {
-                const path = new paperScope.Path();
-                path.strokeColor = new paperScope.Color(drawing.color || "#000000");
-                path.strokeWidth = drawing.size || 3;
-                path.strokeCap = "round";
-                path.strokeJoin = "round";
-                path.opacity = drawing.opacity || 1;
-
-                drawing.segments.forEach((segment) => {
-                  if (segment.point && Array.isArray(segment.point)) {
-                    path.add(
-                      new paperScope.Point(segment.point[0], segment.point[1])
-                    );
-                  }
-                });
-
-                if (drawing.closed) {
-                  path.closePath();
-                }
-              } catch (error) {
-                console.error(
-                  "Error restoring drawing after mode change:",
-                  error
-                );
-              }
-            }
-          });
-
-          paperScope.view.update();
+    if (!paperScope || !onCanvasReady) return;
+    onCanvasReady({
+      saveDrawings: async () => drawingsRef.current,
+      saveAndClear: async () => {
+        const saved = drawingsRef.current;
+        resetCanvas();
+        await new Promise((res) => setTimeout(res, 0));
+        return saved;
+      },
+      clearCanvas: () => {
+        if (drawingsRef.current.length > 0) commit([]);
+      },
+      clearAndSync: async () => {
+        resetCanvas();
+        await new Promise((res) => setTimeout(res, 0));
+      },
+      setDrawingState: (newState: Partial<DrawingState>) => {
+        setDrawingState((prev) => ({ ...prev, ...newState }));
+      },
+      exportAsDataURL: () => {
+        try {
+          return canvasRef.current ? canvasRef.current.toDataURL("image/png") : null;
+        } catch (e) {
+          return null;
         }
-      }
-    };
-
-    // Small delay to ensure DOM has updated
-    const timeoutId = setTimeout(resizeCanvas, 50);
-    return () => clearTimeout(timeoutId);
-  }, [paperScope, isInitialized, mode]);
-
-  // -------- Socket event handlers --------
-  const sessionUserId = (session as any)?.user?.id;
-  const handleDrawingUpdate = useCallback(
-    (data: any) => {
-      if (data.userId === sessionUserId || localMode) return;
-
-      if (data.drawings && Array.isArray(data.drawings)) {
-        setDrawings(data.drawings);
-      }
-    },
-    [sessionUserId, localMode, setDrawings]
-  );
-
-  const handleClearCanvas = useCallback(() => {
-    if (paperScope) {
-      paperScope.project.clear();
-      pathsRef.current.clear();
-      setDrawings([]);
-    }
-  }, [paperScope, setDrawings]);
+      },
+      undo,
+      redo,
+      deleteSelection,
+      reorderSelection,
+    });
+  }, [paperScope, onCanvasReady, resetCanvas, commit, setDrawingState, undo, redo, deleteSelection, reorderSelection]);
 
-  // -------- Socket setup --------
+  // Handle canvas resize: the scene is drawn again from the drawings
   useEffect(() => {
-    if (!socket || localMode || !isLoggedIn) return;
-
-    socket.on("drawing-update", handleDrawingUpdate);
-    socket.on("clear-canvas", handleClearCanvas);
-
+    if (!paperScope) return;
+    const handleResize = () => {
+      if (!canvasRef.current) return;
+      const rect = canvasRef.current.getBoundingClientRect();
+      if (canvasRef.current.width === rect.width && canvasRef.current.height === rect.height) return;
+      canvasRef.current.width = rect.width;
+      canvasRef.current.height = rect.height;
+      paperScope.view.viewSize = new paperScope.Size(rect.width, rect.height);
+      renderScene();
+    };
+    // Small delay to ensure DOM has updated
+    const timeoutId = setTimeout(handleResize, 50);
+    window.addEventListener("resize", handleResize);
     return () => {
-      socket.off("drawing-update", handleDrawingUpdate);
-      socket.off("clear-canvas", handleClearCanvas);
+      clearTimeout(timeoutId);
+      window.removeEventListener("resize", handleResize);
     };
-  }, [socket, localMode, isLoggedIn, handleDrawingUpdate, handleClearCanvas]);
+  }, [paperScope, renderScene, mode]);
 
-  // -------- Cleanup --------
+  // -------- Keyboard --------
   useEffect(() => {
-    return () => {
-      if (paperScope) {
-        paperScope.project.clear();
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+      const modifier = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+
+      if (modifier && key === "z") {
+        if (event.shiftKey) redo();
+        else undo();
+      } else if (modifier && key === "y") {
+        redo();
+      } else if ((event.key === "Delete" || event.key === "Backspace") && selectionRef.current.size > 0) {
+        deleteSelection();
+      } else {
+        return;
       }
+      event.preventDefault();
     };
-  }, [paperScope]);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, deleteSelection]);
 
   // -------- Render --------
+  const cursor = tool === "select" ? "default" : tool === "text" ? "text" : "crosshair";
+
   return (
     <div className={`relative ${className}`} {...props}>
       <canvas
         ref={canvasRef}
-        className="w-full h-full cursor-crosshair"
+        className="w-full h-full"
         style={{
           touchAction: "none",
           position: "absolute",
@@ -741,9 +705,41 @@ export default function DrawingCanvas({
           height: "100%",
           display: "block",
           objectFit: "contain",
+          cursor,
         }}
       />
+      {textDraft && (
+        <input
+          autoFocus
+          type="text"
+          value={textDraft.value}
+          maxLength={500}
+          placeholder="Text"
+          onChange={(e) => setTextDraft({ ...textDraft, value: e.target.value })}
+          onBlur={() => commitText(textDraftRef.current)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              commitText(textDraft);
+            } else if (e.key === "Escape") {
+              // Only the text is cancelled, not the whole drawing
+              e.preventDefault();
+              e.stopPropagation();
+              setTextDraft(null);
+            }
+          }}
+          className="absolute bg-transparent border border-dashed border-primary outline-none px-0 py-0"
+          style={{
+            left: `${textDraft.x}px`,
+            top: `${textDraft.y - textDraft.size * 0.8}px`,
+            fontSize: `${textDraft.size}px`,
+            lineHeight: 1,
+            fontFamily: "sans-serif",
+            color: drawingState.color,
+            minWidth: "4rem",
+          }}
+        />
+      )}
     </div>
   );
 }
-
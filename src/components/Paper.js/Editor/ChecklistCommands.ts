@@ -0,0 +1,60 @@
+// Checklist helpers for the WYSIWYG editor.
+// A checklist item is a <li data-checked="true|false">; its checkbox is drawn in the item's
+// left padding by the editor styles, so the item text stays plain editable content.
+
+// Width of the checkbox area at the start of an item (matches the editor styles)
+const CHECKBOX_HIT_WIDTH = 24;
+
+export function getChecklistItem(node: Node | null, root: HTMLElement | null): HTMLLIElement | null {
+  const element = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+  const item = element?.closest?.('li[data-checked]') as HTMLLIElement | null;
+  return item && root?.contains(item) ? item : null;
+}
+
+export function isChecklist(list: Element): boolean {
+  const items = Array.from(list.children).filter((child) => child.tagName === 'LI');
+  return items.length > 0 && items.every((item) => item.hasAttribute('data-checked'));
+}
+
+/**
+ * Whether a click at `clientX` landed on the checkbox of `item` rather than on its text.
+ */
+export function isChecklistCheckboxHit(item: HTMLLIElement, clientX: number): boolean {
+  const rect = item.getBoundingClientRect();
+  return clientX >= rect.left && clientX <= rect.left + CHECKBOX_HIT_WIDTH;
+}
+
+export function toggleChecklistItem(item: HTMLLIElement): void {
+  item.setAttribute('data-checked', item.getAttribute('data-checked') === 'true' ? 'false' : 'true');
+}
+
+/**
+ * Turns every item of `list` into an unchecked checklist item, keeping items already checked.
+ */
+export function setChecklist(list: HTMLElement): void {
+  Array.from(list.children).forEach((child) => {
+    if (child.tagName === 'LI' && child.getAttribute('data-checked') !== 'true') {
+      child.setAttribute('data-checked', 'false');
+    }
+  });
+}
+
+/**
+ * Turns a checklist back into a bulleted list.
+ */
+export function unsetChecklist(list: HTMLElement): void {
+  Array.from(list.children).forEach((child) => child.removeAttribute('data-checked'));
+}
+
+/**
+ * Items created by pressing Enter copy the attributes of the item they were split from:
+ * a new item always starts unchecked.
+ */
+export function resetNewChecklistItem(previousItem: HTMLLIElement, root: HTMLElement | null): HTMLLIElement | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const item = getChecklistItem(selection.getRangeAt(0).startContainer, root);
+  if (!item || item === previousItem) return null;
+  item.setAttribute('data-checked', 'false');
+  return item;
+}
@@ -0,0 +1,252 @@
+// Code block helpers for the WYSIWYG editor.
+// A code block is <pre><code class="language-xxx">…</code></pre>, as rendered by marked for a
+// fenced block. Info strings longer than the language ("js title=app.js") are kept in `data-info`.
+// Highlighting wraps tokens in hljs spans; the text of the block is never changed by it.
+import rehypeHighlight from "rehype-highlight";
+
+export interface CodeLanguage {
+  id: string;
+  label: string;
+}
+
+// Languages offered by the picker (all part of the common highlight.js set)
+export const CODE_LANGUAGES: CodeLanguage[] = [
+  { id: "", label: "Plain text" },
+  { id: "bash", label: "Bash" },
+  { id: "c", label: "C" },
+  { id: "cpp", label: "C++" },
+  { id: "csharp", label: "C#" },
+  { id: "css", label: "CSS" },
+  { id: "diff", label: "Diff" },
+  { id: "go", label: "Go" },
+  { id: "graphql", label: "GraphQL" },
+  { id: "xml", label: "HTML / XML" },
+  { id: "java", label: "Java" },
+  { id: "javascript", label: "JavaScript" },
+  { id: "json", label: "JSON" },
+  { id: "kotlin", label: "Kotlin" },
+  { id: "lua", label: "Lua" },
+  { id: "markdown", label: "Markdown" },
+  { id: "php", label: "PHP" },
+  { id: "python", label: "Python" },
+  { id: "ruby", label: "Ruby" },
+  { id: "rust", label: "Rust" },
+  { id: "sql", label: "SQL" },
+  { id: "swift", label: "Swift" },
+  { id: "typescript", label: "TypeScript" },
+  { id: "yaml", label: "YAML" },
+];
+
+interface HastText {
+  type: "text";
+  value: string;
+}
+
+interface HastElement {
+  type: "element";
+  tagName: string;
+  properties: { className?: string[] };
+  children: HastNode[];
+}
+
+type HastNode = HastText | HastElement;
+
+let highlightTree: ((tree: unknown, file: unknown) => void) | null = null;
+
+// Unknown languages are reported through the file and left unhighlighted
+const IGNORED_MESSAGES = { message: () => undefined };
+
+function getHighlighter() {
+  if (!highlightTree) {
+    highlightTree = rehypeHighlight({ plainText: ["text", "plaintext", "txt"] }) as unknown as (tree: unknown, file: unknown) => void;
+  }
+  return highlightTree;
+}
+
+function hastToDom(node: HastNode, doc: Document): Node {
+  if (node.type === "text") return doc.createTextNode(node.value);
+  const element = doc.createElement(node.tagName);
+  const className = node.properties?.className;
+  if (className && className.length > 0) element.className = className.join(" ");
+  node.children.forEach((child) => element.appendChild(hastToDom(child, doc)));
+  return element;
+}
+
+export function getCodeBlock(node: Node | null, root: HTMLElement | null): HTMLPreElement | null {
+  const element = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+  const pre = element?.closest?.("pre") as HTMLPreElement | null;
+  return pre && root?.contains(pre) ? pre : null;
+}
+
+function getCodeElement(pre: HTMLPreElement): HTMLElement {
+  const code = pre.querySelector(":scope > code") as HTMLElement | null;
+  if (code) return code;
+  // A <pre> typed or pasted without <code> still gets one, so that the language can be stored
+  const created = pre.ownerDocument.createElement("code");
+  while (pre.firstChild) created.appendChild(pre.firstChild);
+  pre.appendChild(created);
+  return created;
+}
+
+export function getCodeBlockLanguage(pre: HTMLPreElement): string {
+  const code = pre.querySelector(":scope > code");
+  const match = /(?:^|\s)language-(\S+)/.exec(code?.className ?? "");
+  return match ? match[1] : "";
+}
+
+/**
+ * Full info string of a code block: the language followed by any other words of the fence line.
+ */
+export function getCodeBlockInfo(pre: HTMLPreElement): string {
+  const code = pre.querySelector(":scope > code");
+  return (code?.getAttribute("data-info") || getCodeBlockLanguage(pre)).trim();
+}
+
+export function getCodeBlockText(pre: HTMLPreElement): string {
+  return (pre.textContent ?? "").replace(/\u200B/g, "");
+}
+
+/**
+ * Creates an empty code block (the trailing newline keeps the last line visible while editing).
+ */
+export function createCodeBlock(language: string, text: string = ""): HTMLPreElement {
+  const pre = document.createElement("pre");
+  const code = document.createElement("code");
+  if (language) code.className = `language-${language}`;
+  code.textContent = text.endsWith("\n") ? text : `${text}\n`;
+  pre.appendChild(code);
+  return pre;
+}
+
+export function setCodeBlockLanguage(pre: HTMLPreElement, language: string): void {
+  const code = getCodeElement(pre);
+  const classes = code.className.split(/\s+/).filter((name) => name && !name.startsWith("language-") && name !== "hljs");
+  if (language) classes.push(`language-${language}`);
+  code.className = classes.join(" ");
+  if (!code.className) code.removeAttribute("class");
+
+  // Keep whatever followed the language in the info string
+  const info = code.getAttribute("data-info");
+  if (info) {
+    const rest = info.trim().split(/\s+/).slice(1).join(" ");
+    if (language && rest) code.setAttribute("data-info", `${language} ${rest}`);
+    else code.removeAttribute("data-info");
+  }
+  highlightCodeBlock(pre);
+}
+
+function getCaretOffset(code: HTMLElement): number | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!code.contains(range.startContainer)) return null;
+  const before = document.createRange();
+  before.selectNodeContents(code);
+  before.setEnd(range.startContainer, range.startOffset);
+  return before.toString().length;
+}
+
+function setCaretOffset(code: HTMLElement, offset: number): void {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const walker = document.createTreeWalker(code, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let node: Node | null;
+  let last: Text | null = null;
+  while ((node = walker.nextNode())) {
+    const text = node as Text;
+    last = text;
+    if (remaining <= text.length) break;
+    remaining -= text.length;
+  }
+  const range = document.createRange();
+  if (last) range.setStart(last, Math.min(remaining, last.length));
+  else range.setStart(code, 0);
+  range.collapse(true);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+/**
+ * Re-highlights a code block from its text, keeping the caret where it was.
+ */
+export function highlightCodeBlock(pre: HTMLPreElement): void {
+  const code = getCodeElement(pre);
+  const language = getCodeBlockLanguage(pre);
+  // Line breaks inserted by the browser (pasted or typed before the block existed)
+  code.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  const caretOffset = getCaretOffset(code);
+  const text = code.textContent ?? "";
+
+  const codeNode: HastElement = {
+    type: "element",
+    tagName: "code",
+    properties: { className: language ? [`language-${language}`] : ["no-highlight"] },
+    children: [{ type: "text", value: text }],
+  };
+  const tree = {
+    type: "root",
+    children: [{ type: "element", tagName: "pre", properties: {}, children: [codeNode] }],
+  };
+
+  try {
+    getHighlighter()(tree, IGNORED_MESSAGES);
+  } catch (error) {
+    console.warn("[CodeBlockCommands] highlighting failed", error);
+    return;
+  }
+
+  const fragment = code.ownerDocument.createDocumentFragment();
+  codeNode.children.forEach((child) => fragment.appendChild(hastToDom(child, code.ownerDocument)));
+  code.replaceChildren(fragment);
+  if (caretOffset !== null) setCaretOffset(code, caretOffset);
+}
+
+export function highlightCodeBlocks(root: ParentNode): void {
+  root.querySelectorAll("pre").forEach((pre) => highlightCodeBlock(pre as HTMLPreElement));
+}
+
+/**
+ * Highlights the code blocks of an HTML string (used when rendering markdown).
+ */
+export function highlightCodeBlocksInHtml(html: string): string {
+  if (typeof document === "undefined" || !/<pre[\s>]/i.test(html)) return html;
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  highlightCodeBlocks(template.content);
+  return template.innerHTML;
+}
+
+/**
+ * Inserts text at the caret inside a code block. Line breaks are kept as "\n" rather than
+ * the <div>/<br> the browser would insert, so that the block text stays the code.
+ */
+export function insertCodeText(pre: HTMLPreElement, text: string): void {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return;
+  const range = selection.getRangeAt(0);
+  range.deleteContents();
+  const node = document.createTextNode(text);
+  range.insertNode(node);
+
+  // A trailing newline is not displayed: keep one after the last line
+  const code = getCodeElement(pre);
+  if (!(code.textContent ?? "").endsWith("\n")) code.appendChild(document.createTextNode("\n"));
+
+  const caret = document.createRange();
+  caret.setStartAfter(node);
+  caret.collapse(true);
+  selection.removeAllRanges();
+  selection.addRange(caret);
+}
+
+export async function copyCodeBlock(pre: HTMLPreElement): Promise<boolean> {
+  const text = getCodeBlockText(pre).replace(/\n$/, "");
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch (error) {
+    console.error("❌ Error copying code block:", error);
+    return false;
+  }
+}
@@ -0,0 +1,135 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import Icon from "@/components/Icon";
+import {
+  CODE_LANGUAGES,
+  copyCodeBlock,
+  getCodeBlock,
+  getCodeBlockLanguage,
+  setCodeBlockLanguage,
+} from "./CodeBlockCommands";
+
+interface CodeBlockToolbarProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  readOnly?: boolean;
+  onChange: () => void;
+}
+
+/**
+ * Language picker and copy button shown over the code block holding the caret (or hovered).
+ */
+export default function CodeBlockToolbar({ editorRef, readOnly = false, onChange }: Readonly<CodeBlockToolbarProps>) {
+  const [caretBlock, setCaretBlock] = useState<HTMLPreElement | null>(null);
+  const [hoveredBlock, setHoveredBlock] = useState<HTMLPreElement | null>(null);
+  const [position, setPosition] = useState<{ top: number; right: number } | null>(null);
+  const [copied, setCopied] = useState(false);
+  // Bumped to re-render with the language read back from the block
+  const [, setRevision] = useState(0);
+
+  const activeBlock = [hoveredBlock, caretBlock].find((block) => block?.isConnected) ?? null;
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // Selections outside the editor (e.g. in the language picker) keep the current block
+    const handleSelectionChange = () => {
+      const selection = globalThis.window.getSelection();
+      if (!selection || selection.rangeCount === 0) return;
+      const node = selection.getRangeAt(0).startContainer;
+      if (!editor.contains(node)) return;
+      setCaretBlock(getCodeBlock(node, editor));
+    };
+    const handleMouseOver = (event: MouseEvent) => {
+      setHoveredBlock(getCodeBlock(event.target as Node, editor));
+    };
+
+    document.addEventListener("selectionchange", handleSelectionChange);
+    editor.addEventListener("mouseover", handleMouseOver);
+    return () => {
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      editor.removeEventListener("mouseover", handleMouseOver);
+    };
+  }, [editorRef]);
+
+  const updatePosition = useCallback(() => {
+    const container = editorRef.current?.parentElement;
+    if (!activeBlock || !container) {
+      setPosition(null);
+      return;
+    }
+    const blockRect = activeBlock.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setPosition({ top: blockRect.top - containerRect.top + 4, right: containerRect.right - blockRect.right + 4 });
+  }, [activeBlock, editorRef]);
+
+  useEffect(() => {
+    updatePosition();
+    const editor = editorRef.current;
+    if (!editor || !activeBlock) return;
+    editor.addEventListener("input", updatePosition);
+    globalThis.window.addEventListener("resize", updatePosition);
+    return () => {
+      editor.removeEventListener("input", updatePosition);
+      globalThis.window.removeEventListener("resize", updatePosition);
+    };
+  }, [activeBlock, editorRef, updatePosition]);
+
+  useEffect(() => {
+    setCopied(false);
+  }, [activeBlock]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  if (!activeBlock || !position) return null;
+
+  const language = getCodeBlockLanguage(activeBlock);
+  const knownLanguage = CODE_LANGUAGES.some((option) => option.id === language);
+  const label = CODE_LANGUAGES.find((option) => option.id === language)?.label ?? language;
+
+  const handleLanguageChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    setCodeBlockLanguage(activeBlock, event.target.value);
+    setRevision((current) => current + 1);
+    onChange();
+  };
+
+  const handleCopy = async () => {
+    setCopied(await copyCodeBlock(activeBlock));
+  };
+
+  return (
+    <div
+      className="absolute z-10 flex items-center gap-1 rounded-md border border-border bg-card/90 px-1 py-0.5 shadow-sm"
+      style={{ top: `${position.top}px`, right: `${position.right}px` }}
+    >
+      {readOnly ? (
+        label && <span className="px-1 text-xs text-muted-foreground">{label}</span>
+      ) : (
+        <select
+          value={language}
+          onChange={handleLanguageChange}
+          className="bg-transparent text-xs text-muted-foreground focus:outline-none cursor-pointer"
+          title="Language"
+        >
+          {!knownLanguage && <option value={language}>{language}</option>}
+          {CODE_LANGUAGES.map((option) => (
+            <option key={option.id || "plain"} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+      )}
+      <button
+        type="button"
+        onMouseDown={(event) => event.preventDefault()}
+        onClick={handleCopy}
+        className="p-1 rounded hover:bg-muted text-muted-foreground"
+        title={copied ? "Copied" : "Copy code"}
+      >
+        <Icon name={copied ? "check" : "copy"} className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+"use client";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createTextAnchor, resolveTextAnchor, type TextAnchor, type TextRange } from "@/lib/commentAnchors";
+
+export interface CommentHighlight {
+  id: number;
+  anchor: TextAnchor;
+}
+
+interface CommentHighlightOverlayProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  highlights: CommentHighlight[];
+  activeId?: number | null;
+  onSelectHighlight?: (id: number) => void;
+  onAddComment?: (anchor: TextAnchor) => void;
+}
+
+interface HighlightBox {
+  id: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface SelectionAnchor {
+  anchor: TextAnchor;
+  x: number;
+  y: number;
+}
+
+// Offset of a DOM position in the plain text of the editor
+function getTextOffset(editor: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(editor);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+function createRangeFromOffsets(editor: HTMLElement, { start, end }: TextRange): Range | null {
+  const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT, null);
+  const range = document.createRange();
+  let position = 0;
+  let started = false;
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    const length = node.textContent?.length ?? 0;
+    if (!started && position + length > start) {
+      range.setStart(node, start - position);
+      started = true;
+    }
+    if (started && position + length >= end) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position += length;
+  }
+  return null;
+}
+
+/**
+ * Highlights the text ranges of comment threads without touching the editor content,
+ * and offers to comment on the current selection.
+ */
+export default function CommentHighlightOverlay({
+  editorRef,
+  highlights,
+  activeId = null,
+  onSelectHighlight,
+  onAddComment,
+}: Readonly<CommentHighlightOverlayProps>) {
+  const [contentVersion, setContentVersion] = useState(0);
+  const [selectionAnchor, setSelectionAnchor] = useState<SelectionAnchor | null>(null);
+  const mutationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const activeBoxRef = useRef<HTMLDivElement | null>(null);
+
+  const scheduleUpdate = useCallback(() => {
+    if (mutationTimeoutRef.current) clearTimeout(mutationTimeoutRef.current);
+    mutationTimeoutRef.current = setTimeout(() => {
+      setContentVersion((previous) => previous + 1);
+    }, 50);
+  }, []);
+
+  // Ranges move with edits and layout changes
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const observer = new MutationObserver(scheduleUpdate);
+    observer.observe(editor, { childList: true, subtree: true, characterData: true });
+    const resizeObserver = new ResizeObserver(scheduleUpdate);
+    resizeObserver.observe(editor);
+
+    return () => {
+      observer.disconnect();
+      resizeObserver.disconnect();
+      if (mutationTimeoutRef.current) clearTimeout(mutationTimeoutRef.current);
+    };
+  }, [editorRef, scheduleUpdate]);
+
+  const resolvedRanges = useMemo(() => {
+    const editor = editorRef.current;
+    if (!editor || highlights.length === 0) return [];
+    const text = editor.textContent ?? "";
+    return highlights
+      .map((highlight) => ({ id: highlight.id, range: resolveTextAnchor(text, highlight.anchor) }))
+      .filter((item): item is { id: number; range: TextRange } => item.range !== null);
+    // contentVersion changes whenever the editor text does
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editorRef, highlights, contentVersion]);
+
+  const boxes = useMemo(() => {
+    const editor = editorRef.current;
+    if (!editor) return [];
+    const editorRect = editor.getBoundingClientRect();
+    const result: HighlightBox[] = [];
+    for (const { id, range } of resolvedRanges) {
+      const domRange = createRangeFromOffsets(editor, range);
+      if (!domRange) continue;
+      for (const rect of Array.from(domRange.getClientRects())) {
+        if (rect.width === 0 || rect.height === 0) continue;
+        result.push({
+          id,
+          left: rect.left - editorRect.left,
+          top: rect.top - editorRect.top,
+          width: rect.width,
+          height: rect.height,
+        });
+      }
+    }
+    return result;
+  }, [editorRef, resolvedRanges]);
+
+  // Clicking inside a highlighted range opens its thread
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !onSelectHighlight) return;
+
+    const handleClick = () => {
+      const selection = globalThis.window.getSelection();
+      if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return;
+      const range = selection.getRangeAt(0);
+      if (!editor.contains(range.startContainer)) return;
+      const offset = getTextOffset(editor, range.startContainer, range.startOffset);
+      const hit = resolvedRanges.find(({ range: textRange }) => offset >= textRange.start && offset <= textRange.end);
+      if (hit) onSelectHighlight(hit.id);
+    };
+
+    editor.addEventListener("click", handleClick);
+    return () => editor.removeEventListener("click", handleClick);
+  }, [editorRef, onSelectHighlight, resolvedRanges]);
+
+  // Offer to comment on a non-empty selection inside the editor
+  useEffect(() => {
+    if (!onAddComment) return;
+
+    const handleSelectionChange = () => {
+      const editor = editorRef.current;
+      const selection = globalThis.window.getSelection();
+      if (!editor || !selection || selection.rangeCount === 0 || selection.isCollapsed) {
+        setSelectionAnchor(null);
+        return;
+      }
+      const range = selection.getRangeAt(0);
+      if (!editor.contains(range.startContainer) || !editor.contains(range.endContainer)) {
+        setSelectionAnchor(null);
+        return;
+      }
+      const text = editor.textContent ?? "";
+      const start = getTextOffset(editor, range.startContainer, range.startOffset);
+      const end = getTextOffset(editor, range.endContainer, range.endOffset);
+      const anchor = createTextAnchor(text, start, end);
+      if (!anchor) {
+        setSelectionAnchor(null);
+        return;
+      }
+      const rects = range.getClientRects();
+      const lastRect = rects.length > 0 ? rects[rects.length - 1] : range.getBoundingClientRect();
+      const editorRect = editor.getBoundingClientRect();
+      setSelectionAnchor({
+        anchor,
+        x: lastRect.right - editorRect.left,
+        y: lastRect.bottom - editorRect.top,
+      });
+    };
+
+    document.addEventListener("selectionchange", handleSelectionChange);
+    return () => document.removeEventListener("selectionchange", handleSelectionChange);
+  }, [editorRef, onAddComment]);
+
+  useEffect(() => {
+    activeBoxRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [activeId]);
+
+  if (!editorRef.current) return null;
+
+  let activeBoxAssigned = false;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-30">
+      {boxes.map((box, index) => {
+        const isActive = box.id === activeId;
+        const assignRef = isActive && !activeBoxAssigned;
+        if (assignRef) activeBoxAssigned = true;
+        return (
+          <div
+            key={`${box.id}-${index}`}
+            ref={assignRef ? activeBoxRef : undefined}
+            className="absolute rounded-sm"
+            style={{
+              left: `${box.left}px`,
+              top: `${box.top}px`,
+              width: `${box.width}px`,
+              height: `${box.height}px`,
+              backgroundColor: isActive ? "rgb(250 204 21 / 0.45)" : "rgb(250 204 21 / 0.22)",
+              borderBottom: "2px solid rgb(234 179 8 / 0.8)",
+            }}
+          />
+        );
+      })}
+
+      {selectionAnchor && onAddComment && (
+        <button
+          type="button"
+          className="absolute pointer-events-auto rounded-md bg-primary text-primary-foreground text-xs font-medium px-2 py-1 shadow-lg"
+          style={{ left: `${selectionAnchor.x}px`, top: `${selectionAnchor.y + 4}px` }}
+          // Keep the selection while clicking the button
+          onMouseDown={(event) => event.preventDefault()}
+          onClick={() => {
+            onAddComment(selectionAnchor.anchor);
+            setSelectionAnchor(null);
+          }}
+        >
+          Comment
+        </button>
+      )}
+    </div>
+  );
+}
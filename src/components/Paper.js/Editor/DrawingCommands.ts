@@ -0,0 +1,100 @@
+// Drawing helpers for the WYSIWYG editor.
+// A drawing is a non-editable <div class="drawing-block"> holding its vector data as JSON in
+// `data-drawing` and an SVG rendering of it as content. In markdown it is a fenced block with
+// the `drawing` info string, so that other markdown readers show its data as code:
+//
+//   ```drawing
+//   {"id":"...","width":800,"height":480,"paths":[...]}
+//   ```
+import { parseDrawingJson, renderDrawingSvg, serializeDrawing } from "@/lib/paper.js/drawingBlocks";
+import type { DrawingBlockData } from "@/lib/paper.js/types";
+
+const DRAWING_FENCE_PATTERN = /(^|\n)[ \t]*```drawing[ \t]*\n([\s\S]*?)\n[ \t]*```[ \t]*(?=\n|$)/g;
+const DRAWING_PLACEHOLDER_PATTERN = /%%DRAWING:(\d+)%%/g;
+
+function escapeDrawingAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function renderDrawingElementHtml(data: DrawingBlockData): string {
+  return `<div class="drawing-block" data-drawing="${escapeDrawingAttribute(serializeDrawing(data))}" contenteditable="false" title="Double-click to edit the drawing">${renderDrawingSvg(data)}</div>`;
+}
+
+/**
+ * Replaces the drawing blocks of `markdown` with placeholders, adding their data to `segments`
+ * in placeholder order. Blocks whose data can't be read are left as code.
+ */
+export function extractDrawings(markdown: string, segments: DrawingBlockData[]): string {
+  return markdown.replace(DRAWING_FENCE_PATTERN, (match, lineStart: string, json: string) => {
+    const data = parseDrawingJson(json.trim());
+    if (!data) return match;
+    segments.push(data);
+    return `${lineStart}\n%%DRAWING:${segments.length - 1}%%\n`;
+  });
+}
+
+/**
+ * Puts the rendered drawings back in place of the placeholders left by extractDrawings. Runs on
+ * sanitized HTML: the rendering is built from validated numbers and colors only.
+ */
+export function restoreDrawings(html: string, segments: DrawingBlockData[]): string {
+  if (segments.length === 0) return html;
+  const render = (match: string, index: string) => {
+    const segment = segments[Number(index)];
+    return segment ? renderDrawingElementHtml(segment) : match;
+  };
+  return html
+    .replace(/<p>\s*%%DRAWING:(\d+)%%\s*<\/p>/g, render)
+    .replace(DRAWING_PLACEHOLDER_PATTERN, render);
+}
+
+export function getDrawingElement(node: Node | null, root: HTMLElement | null): HTMLElement | null {
+  const element = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+  const drawing = element?.closest?.("[data-drawing]") as HTMLElement | null;
+  return drawing && root?.contains(drawing) ? drawing : null;
+}
+
+export function findDrawingElement(root: HTMLElement | null, id: string): HTMLElement | null {
+  if (!root) return null;
+  return Array.from(root.querySelectorAll<HTMLElement>("[data-drawing]"))
+    .find((element) => getDrawingData(element)?.id === id) ?? null;
+}
+
+export function getDrawingData(element: HTMLElement): DrawingBlockData | null {
+  return parseDrawingJson(element.getAttribute("data-drawing") || "");
+}
+
+export function createDrawingElement(data: DrawingBlockData): HTMLElement {
+  const template = document.createElement("template");
+  template.innerHTML = renderDrawingElementHtml(data);
+  return template.content.firstElementChild as HTMLElement;
+}
+
+export function setDrawingData(element: HTMLElement, data: DrawingBlockData): void {
+  element.setAttribute("data-drawing", serializeDrawing(data));
+  element.innerHTML = renderDrawingSvg(data);
+}
+
+/**
+ * Renders the drawings of sanitized editor HTML again from their data. The editor sanitizer keeps
+ * the `data-drawing` attribute but not the shapes and paint attributes of the SVG rendering.
+ */
+export function renderDrawingsInHtml(html: string): string {
+  if (!html.includes("data-drawing")) return html;
+  const template = document.createElement("template");
+  template.innerHTML = html;
+  template.content.querySelectorAll<HTMLElement>("[data-drawing]").forEach((element) => {
+    const data = getDrawingData(element);
+    if (data) setDrawingData(element, data);
+  });
+  return template.innerHTML;
+}
+
+/**
+ * Markdown source of a drawing element.
+ */
+export function drawingToMarkdown(element: HTMLElement): string {
+  const data = getDrawingData(element);
+  if (!data) return "";
+  return `\n\n\`\`\`drawing\n${serializeDrawing(data)}\n\`\`\`\n\n`;
+}
@@ -3,6 +3,8 @@ import { MarkdownConverter } from "./MarkdownConverter";
 import { FormattingHandler } from "./FormattingHandler";
 import { adjustCursorPositionForTextChange } from "../../../lib/paper.js/cursorUtils";
 import { sanitizeHtml, EDITOR_SANITIZE_CONFIG } from "@/lib/sanitizeHtml";
+import { isAttachmentUrl } from "@/lib/attachments";
+import { renderDrawingsInHtml } from "./DrawingCommands";
 
 export interface EditorEffectsProps {
   editorRef: React.RefObject<HTMLDivElement | null>;
@@ -182,7 +184,7 @@ export function useEditorEffects({
         console.error('[MarkdownConverter] markdownToHtml failed', error);
         return;
       }
-      const safeHtml = sanitizeHtml(currentHtml, EDITOR_SANITIZE_CONFIG);
+      const safeHtml = renderDrawingsInHtml(sanitizeHtml(currentHtml, EDITOR_SANITIZE_CONFIG));
 
       if (cancelled) return;
       const activeRoot = editorRef.current;
@@ -410,7 +412,7 @@ export function useEditorEffects({
         sourceElement.getAttribute('data-file-data') ||
         fileContainer?.getAttribute('data-file-data');
 
-      if (!fileData || !fileData.startsWith('data:')) {
+      if (!fileData || !(fileData.startsWith('data:') || isAttachmentUrl(fileData))) {
         console.warn('No valid file data for download');
         return;
       }
@@ -2,6 +2,10 @@ import { useCallback, useEffect, useRef } from "react";
 import DOMPurify from "dompurify";
 import { MarkdownConverter } from "./MarkdownConverter";
 import { FormattingHandler } from "./FormattingHandler";
+import { getAdjacentCell, getCellTable, getTableCell, placeCaretInCell } from "./TableCommands";
+import { getCodeBlock, highlightCodeBlock, insertCodeText } from "./CodeBlockCommands";
+import { getChecklistItem, isChecklistCheckboxHit, resetNewChecklistItem, toggleChecklistItem } from "./ChecklistCommands";
+import { applyInputRule } from "./InputRules";
 
 export interface EditorEventHandlersProps {
   editorRef: React.RefObject<HTMLDivElement | null>;
@@ -43,11 +47,26 @@ export function useEditorEventHandlers({
     if (debounceTimeout.current) {
       clearTimeout(debounceTimeout.current);
     }
+
+    // Markdown typed as such (`# `, `- `, `**bold**`...) is turned into formatting right away
+    const inputEvent = e?.nativeEvent as InputEvent | undefined;
+    if (inputEvent?.inputType === 'insertText' && formattingHandler.current
+      && applyInputRule(editorRef.current, formattingHandler.current, inputEvent.data)) {
+      return;
+    }
+
+    const selection = globalThis.window.getSelection();
+    const activeCodeBlock = selection && selection.rangeCount > 0
+      ? getCodeBlock(selection.getRangeAt(0).startContainer, editorRef.current)
+      : null;
     
     // Convert to markdown when user stops typing (debounced)
     debounceTimeout.current = setTimeout(() => {
       // Double check that we're not in the middle of an update
       if (isUpdatingFromMarkdown.current) return;
+
+      // Typing inside a code block breaks its highlighting: redo it once typing pauses
+      if (activeCodeBlock?.isConnected) highlightCodeBlock(activeCodeBlock);
       
       const newHtml = editorRef.current?.innerHTML;
       if (newHtml) {
@@ -60,7 +79,7 @@ export function useEditorEventHandlers({
         }
       }
     }, 150);
-  }, [onContentChange, markdown, editorRef, markdownConverter, isUpdatingFromMarkdown, debounceTimeout]);
+  }, [onContentChange, markdown, editorRef, markdownConverter, isUpdatingFromMarkdown, debounceTimeout, formattingHandler]);
 
   const sanitizeHref = useCallback((href: string | null | undefined) => {
     if (!href) return "";
@@ -159,6 +178,16 @@ export function useEditorEventHandlers({
 
   const handleEditorClick = useCallback((e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
+
+    // Clicking the checkbox of a checklist item toggles it (not in read-only mode)
+    const checklistItem = getChecklistItem(target, editorRef.current);
+    if (checklistItem && target === checklistItem && editorRef.current?.isContentEditable
+      && isChecklistCheckboxHit(checklistItem, e.clientX)) {
+      e.preventDefault();
+      toggleChecklistItem(checklistItem);
+      handleEditorChangeCallback();
+      return;
+    }
     const img = target?.closest('img');
     const video = target?.closest('video');
     const attachment = target?.closest('.wysiwyg-file-attachment');
@@ -200,11 +229,17 @@ export function useEditorEventHandlers({
         }
       } catch (error_) {}
     }
-  }, [selectedImage, editorRef, setSelectedImage, setImageOverlayRect, updateOverlayForElement]);
+  }, [selectedImage, editorRef, setSelectedImage, setImageOverlayRect, updateOverlayForElement, handleEditorChangeCallback]);
 
-  // Handle dblclick to open image crop modal
+  // Handle dblclick to open image crop modal, or the drawing canvas for drawings
   const handleEditorDoubleClick = useCallback((e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
+    const drawing = target?.closest('[data-drawing]') as HTMLElement | null;
+    if (drawing && editorRef.current?.contains(drawing)) {
+      window.dispatchEvent(new CustomEvent('wysiwyg:edit-drawing', { detail: drawing }));
+      return;
+    }
+
     const img = target?.closest('img');
     const video = target?.closest('video');
     
@@ -305,6 +340,40 @@ export function useEditorEventHandlers({
     if (!sel || sel.rangeCount !== 1) return;
     const range = sel.getRangeAt(0);
 
+    // In code blocks, Enter adds a line (keeping the indentation) and Tab indents,
+    // instead of splitting the block or leaving the editor
+    const codeBlock = getCodeBlock(range.startContainer, editorRef.current);
+    if (codeBlock && !e.ctrlKey && !e.metaKey && !e.altKey
+      && ((e.key === 'Enter' && !e.shiftKey) || (e.key === 'Tab' && !e.shiftKey))) {
+      e.preventDefault();
+      if (e.key === 'Enter') {
+        const beforeCaret = document.createRange();
+        beforeCaret.selectNodeContents(codeBlock);
+        beforeCaret.setEnd(range.startContainer, range.startOffset);
+        const currentLine = beforeCaret.toString().split('\n').pop() ?? '';
+        insertCodeText(codeBlock, `\n${/^[ \t]*/.exec(currentLine)?.[0] ?? ''}`);
+      } else {
+        insertCodeText(codeBlock, '  ');
+      }
+      handleEditorChangeCallback();
+      return;
+    }
+
+    // Tab moves between table cells; Tab from the last cell adds a row
+    if (e.key === 'Tab' && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      const cell = getTableCell(range.startContainer, editorRef.current);
+      if (cell) {
+        e.preventDefault();
+        const rowCount = getCellTable(cell)?.rows.length;
+        const target = getAdjacentCell(cell, e.shiftKey);
+        if (target) placeCaretInCell(target, true);
+        if (getCellTable(cell)?.rows.length !== rowCount) {
+          handleEditorChangeCallback();
+        }
+        return;
+      }
+    }
+
     // Handle Deletion (Backspace or Delete)
     if (e.key === 'Backspace' || e.key === 'Delete') {
       // 1. Handle selected media
@@ -407,8 +476,10 @@ export function useEditorEventHandlers({
     }
     // Handle Enter to preserve empty lines
     else if (e.key === 'Enter' && !e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      const checklistItem = getChecklistItem(range.startContainer, editorRef.current);
       setTimeout(() => {
         try {
+          if (checklistItem) resetNewChecklistItem(checklistItem, editorRef.current);
           const sel_ = globalThis.window.getSelection();
           if (!sel_ || sel_.rangeCount === 0) return;
           const range_ = sel_.getRangeAt(0);
@@ -446,9 +517,15 @@ export function useEditorEventHandlers({
       } else if (e.shiftKey && e.key === '-') {
         e.preventDefault();
         formattingHandler.current.applyFormatting('insertHorizontalRule');
+      } else if (e.shiftKey && (e.key === 'E' || e.key === 'e')) {
+        e.preventDefault();
+        formattingHandler.current.applyFormatting('insertCodeBlock');
+      } else if (e.key === 'e') {
+        e.preventDefault();
+        formattingHandler.current.applyFormatting('inlineCode');
       }
     }
-  }, [formattingHandler, handleEditorChange, editorRef, markdownConverter, onContentChange, setSelectedImage, setImageOverlayRect]);
+  }, [formattingHandler, handleEditorChange, handleEditorChangeCallback, editorRef, markdownConverter, onContentChange, setSelectedImage, setImageOverlayRect]);
 
   return {
     handleEditorChange: handleEditorChangeCallback,
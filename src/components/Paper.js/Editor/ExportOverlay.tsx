@@ -25,6 +25,10 @@ import {
   waitForImages,
 } from "@/lib/export-utils";
 import { copyComputedStyles, normalizeInlineDeclarations } from "@/lib/dom-utils";
+import { getCodeBlockInfo } from "./CodeBlockCommands";
+import { isDisplayMath, renderMathHtml } from "./MathCommands";
+import { getDrawingData } from "./DrawingCommands";
+import { getDrawingBounds, renderDrawingSvg } from "@/lib/paper.js/drawingBlocks";
 
 const md = new MarkdownIt({ html: true, linkify: true, breaks: true });
 
@@ -397,8 +401,9 @@ const createImageRun = async (img: HTMLImageElement): Promise<ImageRun | null> =
   if (!bytes) return null;
   const type = dataUrlToDocxImageType(dataUrl);
   const maxWidth = 600;
-  const width = img.naturalWidth || img.width || maxWidth;
-  const height = img.naturalHeight || img.height || maxWidth;
+  // Rasterized formulas are drawn at twice their displayed size
+  const width = Number(img.dataset.exportWidth) || img.naturalWidth || img.width || maxWidth;
+  const height = Number(img.dataset.exportHeight) || img.naturalHeight || img.height || maxWidth;
   const scale = width > maxWidth ? maxWidth / width : 1;
   const imageOptions: IImageOptions = {
     type,
@@ -412,6 +417,49 @@ const createImageRun = async (img: HTMLImageElement): Promise<ImageRun | null> =
   return new ImageRun(imageOptions);
 };
 
+// Word renders drawings from their SVG; the PNG is for the readers that can't
+const createDrawingRun = async (element: HTMLElement): Promise<ImageRun | null> => {
+  const data = getDrawingData(element);
+  if (!data || data.paths.length === 0) return null;
+  const svg = renderDrawingSvg(data);
+  const bounds = getDrawingBounds(data);
+  const maxWidth = 600;
+  const scale = bounds.width > maxWidth ? maxWidth / bounds.width : 1;
+  const width = Math.round(bounds.width * scale);
+  const height = Math.round(bounds.height * scale);
+
+  const svgUrl = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml" }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error("Unable to load the drawing"));
+      image.src = svgUrl;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = width * 2;
+    canvas.height = height * 2;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return null;
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const png = dataUrlToUint8Array(canvas.toDataURL("image/png"));
+    if (!png) return null;
+    return new ImageRun({
+      type: "svg",
+      data: new TextEncoder().encode(svg),
+      transformation: { width, height },
+      fallback: { type: "png", data: png },
+    });
+  } catch (err) {
+    console.error("Drawing export failed:", err);
+    return null;
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+};
+
 const buildRunsFromChildren = async (element: HTMLElement, baseStyle: DocxTextStyle): Promise<ParagraphChild[]> => {
   const runs: ParagraphChild[] = [];
   for (const child of Array.from(element.childNodes)) {
@@ -539,6 +587,48 @@ const processListElement = async (listEl: HTMLElement, depth = 0): Promise<Parag
   return paragraphs;
 };
 
+// A code block becomes a shaded monospace paragraph, preceded by its info string
+const processCodeBlock = async (pre: HTMLPreElement): Promise<Paragraph[]> => {
+  const paragraphs: Paragraph[] = [];
+  const info = getCodeBlockInfo(pre);
+  if (info) {
+    paragraphs.push(
+      new Paragraph({
+        children: [new TextRun({ text: info, font: "Consolas", size: 16, color: "6B7280" })],
+        spacing: { before: 120 },
+      })
+    );
+  }
+
+  // The trailing newline of the block is not a line of code
+  const codeClone = pre.cloneNode(true) as HTMLElement;
+  const walker = document.createTreeWalker(codeClone, NodeFilter.SHOW_TEXT);
+  let lastText: Text | null = null;
+  while (walker.nextNode()) lastText = walker.currentNode as Text;
+  if (lastText) lastText.textContent = (lastText.textContent || "").replace(/\n$/, "");
+  // Browser monospace stacks (copied from the editor) are unknown to Word
+  [codeClone, ...Array.from(codeClone.querySelectorAll<HTMLElement>("*"))].forEach((el) => {
+    el.style.fontFamily = "";
+  });
+
+  const baseStyle = deriveTextStyle(codeClone, {});
+  const runs = await buildRunsFromChildren(codeClone, { ...baseStyle, fontFamily: "Consolas" });
+  paragraphs.push(
+    new Paragraph({
+      children: runs.length ? runs : [new TextRun(" ")],
+      shading: { type: ShadingType.CLEAR, color: "auto", fill: "F6F8FA" },
+      border: {
+        top: { style: "single", size: 4, color: "E5E7EB", space: 4 },
+        bottom: { style: "single", size: 4, color: "E5E7EB", space: 4 },
+        left: { style: "single", size: 4, color: "E5E7EB", space: 4 },
+        right: { style: "single", size: 4, color: "E5E7EB", space: 4 },
+      },
+      spacing: { after: 120 },
+    })
+  );
+  return paragraphs;
+};
+
 const convertNodeToParagraphs = async (node: Node): Promise<Paragraph[]> => {
   if (node.nodeType === Node.TEXT_NODE) {
     const text = (node.textContent || "").trim();
@@ -557,6 +647,15 @@ const convertNodeToParagraphs = async (node: Node): Promise<Paragraph[]> => {
     return await processListElement(node);
   }
 
+  if (tag === "pre") {
+    return await processCodeBlock(node as HTMLPreElement);
+  }
+
+  if (node.hasAttribute("data-drawing")) {
+    const drawingRun = await createDrawingRun(node);
+    return drawingRun ? [new Paragraph({ children: [drawingRun] })] : [];
+  }
+
   if (tag === "img") {
     const imgRun = await createImageRun(node as HTMLImageElement);
     if (!imgRun) return [];
@@ -768,6 +867,76 @@ const normalizeListStructure = (root: HTMLElement) => {
   });
 };
 
+// The info string of a code block is shown above it, as in the editor
+const labelCodeBlocks = (root: HTMLElement) => {
+  Array.from(root.querySelectorAll("pre")).forEach((pre) => {
+    if (pre.dataset.exportCodeLabeled === "true") return;
+    pre.dataset.exportCodeLabeled = "true";
+    const info = getCodeBlockInfo(pre as HTMLPreElement);
+    if (!info) return;
+    const label = pre.ownerDocument.createElement("div");
+    label.textContent = info;
+    label.style.fontFamily = "Consolas, 'Courier New', monospace";
+    label.style.fontSize = "11px";
+    label.style.color = "#6b7280";
+    label.style.margin = "0.5rem 0 0.25rem 0";
+    pre.parentNode?.insertBefore(label, pre);
+  });
+};
+
+// KaTeX output depends on its stylesheet and fonts, which neither the export iframe nor Word
+// have: formulas are rendered in the page and replaced by images of the result
+const rasterizeMath = async (root: HTMLElement) => {
+  const formulas = Array.from(root.querySelectorAll<HTMLElement>("[data-latex]"));
+  for (const formula of formulas) {
+    const latex = formula.getAttribute("data-latex") || "";
+    const display = isDisplayMath(formula);
+    if (!latex.trim()) {
+      formula.remove();
+      continue;
+    }
+
+    const stage = document.createElement("div");
+    stage.style.position = "fixed";
+    stage.style.left = "-9999px";
+    stage.style.top = "0";
+    stage.style.display = "inline-block";
+    stage.style.padding = "2px";
+    stage.style.color = "#000000";
+    stage.style.fontSize = formula.style.fontSize || "16px";
+    stage.innerHTML = renderMathHtml(latex, display);
+    document.body.appendChild(stage);
+    try {
+      const canvas = await html2canvas(stage, { backgroundColor: null, scale: 2, logging: false });
+      const width = Math.ceil(stage.offsetWidth);
+      const height = Math.ceil(stage.offsetHeight);
+      const img = root.ownerDocument.createElement("img");
+      img.src = canvas.toDataURL("image/png");
+      img.alt = latex;
+      img.style.width = `${width}px`;
+      img.style.height = `${height}px`;
+      img.dataset.exportWidth = String(width);
+      img.dataset.exportHeight = String(height);
+      if (display) {
+        const wrapper = root.ownerDocument.createElement("div");
+        wrapper.style.textAlign = "center";
+        wrapper.style.margin = "0.75rem 0";
+        wrapper.appendChild(img);
+        formula.replaceWith(wrapper);
+      } else {
+        img.style.display = "inline";
+        img.style.verticalAlign = "middle";
+        formula.replaceWith(img);
+      }
+    } catch (err) {
+      console.error("Formula export failed:", err);
+      formula.replaceWith(root.ownerDocument.createTextNode(display ? `$$${latex}$$` : `$${latex}$`));
+    } finally {
+      stage.remove();
+    }
+  }
+};
+
 const shiftHighlightsDown = (root: HTMLElement, offsetPx: number) => {
   const highlightCandidates = Array.from(root.querySelectorAll<HTMLElement>('mark, [style*="background"], [style*="background-color"]'));
   highlightCandidates.forEach((el) => {
@@ -823,10 +992,12 @@ async function exportAsPDF(html: string, filename: string) {
   }
 
   normalizeInlineDeclarations(clone);
+  await rasterizeMath(clone);
   normalizeTextDecorations(clone);
   ensureStrikethroughVisible(clone);
   normalizeStyleTags(clone);
   normalizeListStructure(clone);
+  labelCodeBlocks(clone);
   shiftHighlightsDown(clone, 15);
   await waitForImages(clone);
 
@@ -858,6 +1029,7 @@ async function exportAsPDF(html: string, filename: string) {
   [data-export-clone] div[style*="padding-left"] { margin: 0; }
   [data-export-clone] blockquote { margin: 0; }
   [data-export-clone] img { max-width: 100%; height: auto; }
+  [data-export-clone] pre { white-space: pre-wrap !important; word-break: break-word; padding-right: 1rem !important; }
   [data-export-clone] ul,
   [data-export-clone] ol { margin: 0; padding-left: 1.5rem; list-style-position: outside; }
   [data-export-clone] li { margin: 0; display: list-item; list-style-position: outside; line-height: inherit; }
@@ -1087,6 +1259,7 @@ async function exportAsDocx(html: string, filename: string) {
   }
 
   normalizeInlineDeclarations(clone);
+  await rasterizeMath(clone);
   await waitForImages(clone);
 
   const paragraphs = await buildDocxParagraphsFromClone(clone);
@@ -0,0 +1,184 @@
+// Find and replace in the WYSIWYG editor.
+// Matches are searched in the text of each block (so that a word split by formatting, e.g.
+// "hel<b>lo</b>", is still found) and kept as DOM ranges, which follow later edits.
+import { getCodeBlock, highlightCodeBlock } from "./CodeBlockCommands";
+
+export interface FindOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export interface FindMatch {
+  range: Range;
+  // Result of the search pattern, for `$1` references in regex replacements
+  groups: RegExpExecArray;
+}
+
+export type SearchPattern = { pattern: RegExp; error?: undefined } | { pattern: null; error: string };
+
+// Past this count the remaining matches are not highlighted nor replaced
+export const MAX_FIND_MATCHES = 1000;
+
+const BLOCK_SELECTOR = "p, li, h1, h2, h3, h4, h5, h6, td, th, pre, summary, blockquote, div";
+
+// Rendered formulas and attachment cards are not text of the note
+const SKIPPED_SELECTOR = "[data-latex], [contenteditable='false']";
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Search pattern for a query, or the reason why the query is not a valid regular expression.
+ */
+export function buildSearchPattern(query: string, options: FindOptions): SearchPattern | null {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  try {
+    return { pattern: new RegExp(source, options.caseSensitive ? "gu" : "giu") };
+  } catch (error) {
+    return { pattern: null, error: error instanceof Error ? error.message : "Invalid expression" };
+  }
+}
+
+interface TextGroup {
+  nodes: Text[];
+  text: string;
+}
+
+// Consecutive text nodes of the same block
+function collectTextGroups(editor: HTMLElement): TextGroup[] {
+  const groups: TextGroup[] = [];
+  const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => (node.parentElement?.closest(SKIPPED_SELECTOR) ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT),
+  });
+  let currentBlock: Element | null = null;
+  let current: TextGroup | null = null;
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    const block = node.parentElement?.closest(BLOCK_SELECTOR) ?? editor;
+    if (!current || block !== currentBlock) {
+      current = { nodes: [], text: "" };
+      groups.push(current);
+      currentBlock = block;
+    }
+    current.nodes.push(node);
+    current.text += node.data;
+  }
+  return groups;
+}
+
+// DOM position of a text offset in a group; ends of matches stay in the node they end in
+function positionInGroup(group: TextGroup, offset: number, isEnd: boolean): { node: Text; offset: number } {
+  let position = 0;
+  for (const node of group.nodes) {
+    const length = node.data.length;
+    if (isEnd ? offset <= position + length : offset < position + length) {
+      return { node, offset: offset - position };
+    }
+    position += length;
+  }
+  const last = group.nodes[group.nodes.length - 1];
+  return { node: last, offset: last.data.length };
+}
+
+/**
+ * All the matches of `pattern` in the editor text, in document order.
+ */
+export function findMatches(editor: HTMLElement, pattern: RegExp): FindMatch[] {
+  const matches: FindMatch[] = [];
+  for (const group of collectTextGroups(editor)) {
+    pattern.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = pattern.exec(group.text)) !== null) {
+      if (result[0].length === 0) {
+        // Empty matches (e.g. `^`) can't be highlighted nor replaced
+        pattern.lastIndex += 1;
+        continue;
+      }
+      const start = positionInGroup(group, result.index, false);
+      const end = positionInGroup(group, result.index + result[0].length, true);
+      const range = document.createRange();
+      range.setStart(start.node, start.offset);
+      range.setEnd(end.node, end.offset);
+      matches.push({ range, groups: result });
+      if (matches.length >= MAX_FIND_MATCHES) return matches;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Replacement text of a match: with regular expressions, `$&`, `$1`, `$<name>` and `$$`
+ * refer to the match as in String.prototype.replace.
+ */
+export function expandReplacement(replacement: string, match: FindMatch, options: FindOptions): string {
+  if (!options.regex) return replacement;
+  const { groups } = match;
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, reference: string, name?: string) => {
+    if (reference === "$") return "$";
+    if (reference === "&") return groups[0];
+    if (name !== undefined) return groups.groups?.[name] ?? "";
+    const index = Number(reference);
+    return index > 0 && index < groups.length ? groups[index] ?? "" : token;
+  });
+}
+
+// The text of the match is replaced keeping the formatting where it starts
+function replaceMatchText(match: FindMatch, text: string): Range {
+  const { range } = match;
+  range.deleteContents();
+  const after = document.createRange();
+  if (range.startContainer.nodeType === Node.TEXT_NODE) {
+    const node = range.startContainer as Text;
+    node.insertData(range.startOffset, text);
+    after.setStart(node, range.startOffset + text.length);
+  } else {
+    const node = document.createTextNode(text);
+    range.insertNode(node);
+    after.setStartAfter(node);
+  }
+  after.collapse(true);
+  return after;
+}
+
+/**
+ * Replaces one match. Returns the position right after the inserted text.
+ */
+export function replaceMatch(editor: HTMLElement, match: FindMatch, replacement: string, options: FindOptions): Range {
+  const pre = getCodeBlock(match.range.startContainer, editor);
+  const after = replaceMatchText(match, expandReplacement(replacement, match, options));
+  if (pre) highlightCodeBlock(pre);
+  return after;
+}
+
+/**
+ * Replaces every match, last first so that the positions of the others stay valid. Code blocks
+ * changed are highlighted again.
+ */
+export function replaceAllMatches(editor: HTMLElement, matches: FindMatch[], replacement: string, options: FindOptions): number {
+  const codeBlocks = new Set<HTMLPreElement>();
+  for (const match of [...matches].reverse()) {
+    const pre = getCodeBlock(match.range.startContainer, editor);
+    if (pre) codeBlocks.add(pre);
+    replaceMatchText(match, expandReplacement(replacement, match, options));
+  }
+  codeBlocks.forEach((pre) => highlightCodeBlock(pre));
+  return matches.length;
+}
+
+/**
+ * Opens the collapsed `<details>` holding a range, so that the match can be shown.
+ */
+export function revealRange(range: Range, editor: HTMLElement): void {
+  let element: Element | null = range.startContainer.nodeType === Node.TEXT_NODE
+    ? range.startContainer.parentElement
+    : (range.startContainer as Element);
+  while (element && element !== editor) {
+    if (element instanceof HTMLDetailsElement && !element.open) element.open = true;
+    element = element.parentElement;
+  }
+}
@@ -0,0 +1,386 @@
+"use client";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import type { FormattingHandler } from "./FormattingHandler";
+import {
+  MAX_FIND_MATCHES,
+  buildSearchPattern,
+  findMatches,
+  replaceAllMatches,
+  replaceMatch,
+  revealRange,
+  type FindMatch,
+  type FindOptions,
+} from "./FindReplace";
+
+interface FindReplaceBarProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  formattingHandler: React.MutableRefObject<FormattingHandler | null>;
+  readOnly?: boolean;
+}
+
+interface MatchBox {
+  index: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const OPTION_TOGGLES: { key: keyof FindOptions; label: string; title: string }[] = [
+  { key: "caseSensitive", label: "Aa", title: "Match case" },
+  { key: "wholeWord", label: "ab", title: "Whole word" },
+  { key: "regex", label: ".*", title: "Regular expression" },
+];
+
+/**
+ * Find/replace bar of the editor (Ctrl+F, Ctrl+H). Replacements are pushed as one content
+ * change, so each is a single undo step and reaches collaborators like typed text.
+ */
+export default function FindReplaceBar({ editorRef, formattingHandler, readOnly = false }: Readonly<FindReplaceBarProps>) {
+  const [open, setOpen] = useState(false);
+  const [showReplace, setShowReplace] = useState(false);
+  const [query, setQuery] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [options, setOptions] = useState<FindOptions>({ caseSensitive: false, wholeWord: false, regex: false });
+  const [matches, setMatches] = useState<FindMatch[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [contentVersion, setContentVersion] = useState(0);
+  const [status, setStatus] = useState<string | null>(null);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const activeBoxRef = useRef<HTMLDivElement | null>(null);
+  // Position the next current match is searched from (set by replacements and on opening)
+  const fromPositionRef = useRef<Range | null>(null);
+  const mutationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const search = useMemo(() => buildSearchPattern(query, options), [query, options]);
+
+  const openBar = useCallback((withReplace: boolean) => {
+    const selection = globalThis.window.getSelection();
+    const editor = editorRef.current;
+    if (selection && selection.rangeCount > 0 && editor?.contains(selection.getRangeAt(0).startContainer)) {
+      const range = selection.getRangeAt(0);
+      fromPositionRef.current = range.cloneRange();
+      fromPositionRef.current.collapse(true);
+      const selected = range.toString();
+      if (selected && !selected.includes("\n")) setQuery(selected);
+    }
+    setOpen(true);
+    setShowReplace(withReplace && !readOnly);
+    setStatus(null);
+    setTimeout(() => {
+      findInputRef.current?.focus();
+      findInputRef.current?.select();
+    }, 0);
+  }, [editorRef, readOnly]);
+
+  const close = useCallback(() => {
+    setOpen(false);
+    const editor = editorRef.current;
+    const match = matches[currentIndex];
+    if (!editor) return;
+    editor.focus();
+    if (match && editor.contains(match.range.startContainer)) {
+      const selection = globalThis.window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(match.range.cloneRange());
+    }
+  }, [currentIndex, editorRef, matches]);
+
+  // Ctrl+F / Ctrl+H from the editor, or the toolbar button
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const key = event.key.toLowerCase();
+      if (key !== "f" && key !== "h") return;
+      const editor = editorRef.current;
+      const container = editor?.parentElement;
+      if (!container || !container.contains(document.activeElement)) return;
+      event.preventDefault();
+      openBar(key === "h");
+    };
+    const handleOpenFind = (event: Event) => {
+      openBar(Boolean((event as CustomEvent<{ replace?: boolean }>).detail?.replace));
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    globalThis.window.addEventListener("wysiwyg:open-find", handleOpenFind);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+      globalThis.window.removeEventListener("wysiwyg:open-find", handleOpenFind);
+    };
+  }, [editorRef, openBar]);
+
+  // Matches follow edits (local, remote, undo) while the bar is open
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!open || !editor) return;
+    const scheduleUpdate = () => {
+      if (mutationTimeoutRef.current) clearTimeout(mutationTimeoutRef.current);
+      mutationTimeoutRef.current = setTimeout(() => setContentVersion((previous) => previous + 1), 100);
+    };
+    const observer = new MutationObserver(scheduleUpdate);
+    observer.observe(editor, { childList: true, subtree: true, characterData: true });
+    const resizeObserver = new ResizeObserver(scheduleUpdate);
+    resizeObserver.observe(editor);
+    return () => {
+      observer.disconnect();
+      resizeObserver.disconnect();
+      if (mutationTimeoutRef.current) clearTimeout(mutationTimeoutRef.current);
+    };
+  }, [editorRef, open]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!open || !editor || !search?.pattern) {
+      setMatches([]);
+      return;
+    }
+    const found = findMatches(editor, search.pattern);
+    setMatches(found);
+
+    const from = fromPositionRef.current;
+    fromPositionRef.current = null;
+    if (from && editor.contains(from.startContainer)) {
+      const next = found.findIndex((match) => match.range.compareBoundaryPoints(Range.START_TO_START, from) >= 0);
+      setCurrentIndex(next === -1 ? 0 : next);
+    } else {
+      setCurrentIndex((previous) => Math.min(previous, Math.max(found.length - 1, 0)));
+    }
+  }, [contentVersion, editorRef, open, search]);
+
+  const boxes = useMemo(() => {
+    const container = editorRef.current?.parentElement;
+    if (!container) return [];
+    const containerRect = container.getBoundingClientRect();
+    const result: MatchBox[] = [];
+    matches.forEach((match, index) => {
+      for (const rect of Array.from(match.range.getClientRects())) {
+        if (rect.width === 0 || rect.height === 0) continue;
+        result.push({
+          index,
+          left: rect.left - containerRect.left,
+          top: rect.top - containerRect.top,
+          width: rect.width,
+          height: rect.height,
+        });
+      }
+    });
+    return result;
+    // contentVersion changes whenever the layout may have
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [editorRef, matches, contentVersion]);
+
+  // Matches inside collapsed sections are revealed when they become current
+  useEffect(() => {
+    const editor = editorRef.current;
+    const match = matches[currentIndex];
+    if (!open || !editor || !match) return;
+    if (match.range.getClientRects().length === 0) {
+      revealRange(match.range, editor);
+      setContentVersion((previous) => previous + 1);
+    }
+  }, [currentIndex, editorRef, matches, open]);
+
+  useEffect(() => {
+    activeBoxRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [currentIndex, matches]);
+
+  const step = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    setCurrentIndex((currentIndex + direction + matches.length) % matches.length);
+  };
+
+  const handleReplace = () => {
+    const editor = editorRef.current;
+    const handler = formattingHandler.current;
+    const match = matches[currentIndex];
+    if (!editor || !handler || !match || readOnly) return;
+    // Text typed just before stays a separate undo step
+    handler.flushMarkdown();
+    fromPositionRef.current = replaceMatch(editor, match, replacement, options);
+    handler.flushMarkdown();
+    setStatus(null);
+  };
+
+  const handleReplaceAll = () => {
+    const editor = editorRef.current;
+    const handler = formattingHandler.current;
+    if (!editor || !handler || matches.length === 0 || readOnly) return;
+    handler.flushMarkdown();
+    const count = replaceAllMatches(editor, matches, replacement, options);
+    handler.flushMarkdown();
+    setStatus(`Replaced ${count} ${count === 1 ? "match" : "matches"}`);
+  };
+
+  const handleFindKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      step(event.shiftKey ? -1 : 1);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  const handleReplaceKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      if (event.ctrlKey || event.metaKey) handleReplaceAll();
+      else handleReplace();
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  if (!open) return null;
+
+  let counter = "No results";
+  if (search?.error) counter = "Invalid expression";
+  else if (!query) counter = "";
+  else if (matches.length > 0) {
+    counter = `${currentIndex + 1} of ${matches.length}${matches.length >= MAX_FIND_MATCHES ? "+" : ""}`;
+  }
+
+  let activeBoxAssigned = false;
+
+  return (
+    <>
+      {/* Match highlights, drawn over the content without touching it */}
+      <div className="absolute inset-0 pointer-events-none z-20">
+        {boxes.map((box, index) => {
+          const isCurrent = box.index === currentIndex;
+          const assignRef = isCurrent && !activeBoxAssigned;
+          if (assignRef) activeBoxAssigned = true;
+          return (
+            <div
+              key={`${box.index}-${index}`}
+              ref={assignRef ? activeBoxRef : undefined}
+              className="absolute rounded-sm"
+              style={{
+                left: `${box.left}px`,
+                top: `${box.top}px`,
+                width: `${box.width}px`,
+                height: `${box.height}px`,
+                backgroundColor: isCurrent ? "rgb(249 115 22 / 0.45)" : "rgb(250 204 21 / 0.35)",
+                outline: isCurrent ? "1px solid rgb(234 88 12 / 0.9)" : undefined,
+              }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="sticky top-2 z-40 h-0 flex justify-end pr-2">
+        <div className="h-fit w-full max-w-md rounded-lg border border-border bg-card p-2 shadow-lg text-sm">
+          <div className="flex items-center gap-1">
+            {!readOnly && (
+              <button
+                type="button"
+                onClick={() => setShowReplace((previous) => !previous)}
+                className="p-1 rounded hover:bg-muted text-muted-foreground"
+                title={showReplace ? "Hide replace" : "Show replace"}
+                aria-expanded={showReplace}
+              >
+                <Icon name="chevronDown" className={cn("h-4 w-4 transition-transform", !showReplace && "-rotate-90")} />
+              </button>
+            )}
+            <input
+              ref={findInputRef}
+              value={query}
+              onChange={(event) => {
+                setQuery(event.target.value);
+                setStatus(null);
+              }}
+              onKeyDown={handleFindKeyDown}
+              placeholder="Find"
+              aria-label="Find"
+              aria-invalid={Boolean(search?.error)}
+              title={search?.error}
+              className={cn(
+                "min-w-0 flex-1 rounded-md border bg-background px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary",
+                search?.error ? "border-destructive" : "border-input"
+              )}
+            />
+            {OPTION_TOGGLES.map((toggle) => (
+              <button
+                key={toggle.key}
+                type="button"
+                onClick={() => setOptions((previous) => ({ ...previous, [toggle.key]: !previous[toggle.key] }))}
+                className={cn(
+                  "w-7 rounded py-1 font-mono text-xs",
+                  options[toggle.key] ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:bg-muted"
+                )}
+                title={toggle.title}
+                aria-pressed={options[toggle.key]}
+              >
+                {toggle.label}
+              </button>
+            ))}
+            <span className="w-20 shrink-0 text-center text-xs text-muted-foreground whitespace-nowrap">{counter}</span>
+            <button
+              type="button"
+              onClick={() => step(-1)}
+              disabled={matches.length === 0}
+              className="p-1 rounded hover:bg-muted text-muted-foreground disabled:opacity-40"
+              title="Previous match (Shift+Enter)"
+            >
+              <Icon name="chevronDown" className="h-4 w-4 rotate-180" />
+            </button>
+            <button
+              type="button"
+              onClick={() => step(1)}
+              disabled={matches.length === 0}
+              className="p-1 rounded hover:bg-muted text-muted-foreground disabled:opacity-40"
+              title="Next match (Enter)"
+            >
+              <Icon name="chevronDown" className="h-4 w-4" />
+            </button>
+            <button
+              type="button"
+              onClick={close}
+              className="p-1 rounded hover:bg-muted text-muted-foreground"
+              title="Close (Esc)"
+            >
+              <Icon name="x" className="h-4 w-4" />
+            </button>
+          </div>
+
+          {showReplace && !readOnly && (
+            <div className="mt-2 flex items-center gap-1 pl-7">
+              <input
+                value={replacement}
+                onChange={(event) => setReplacement(event.target.value)}
+                onKeyDown={handleReplaceKeyDown}
+                placeholder={options.regex ? "Replace ($1 for groups)" : "Replace"}
+                aria-label="Replace"
+                className="min-w-0 flex-1 rounded-md border border-input bg-background px-2 py-1 focus:outline-none focus:ring-1 focus:ring-primary"
+              />
+              <button
+                type="button"
+                onClick={handleReplace}
+                disabled={matches.length === 0}
+                className="rounded-md px-2 py-1 text-xs bg-muted hover:bg-muted/80 disabled:opacity-40"
+                title="Replace (Enter)"
+              >
+                Replace
+              </button>
+              <button
+                type="button"
+                onClick={handleReplaceAll}
+                disabled={matches.length === 0}
+                className="rounded-md px-2 py-1 text-xs bg-muted hover:bg-muted/80 disabled:opacity-40"
+                title="Replace all (Ctrl+Enter)"
+              >
+                All
+              </button>
+            </div>
+          )}
+
+          {status && <p className="mt-1 pl-7 text-xs text-muted-foreground">{status}</p>}
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,3 +1,23 @@
+import { isChecklist, setChecklist, unsetChecklist } from './ChecklistCommands';
+import { createCodeBlock, getCodeBlock, getCodeBlockText, highlightCodeBlock, setCodeBlockLanguage } from './CodeBlockCommands';
+import { createDrawingElement, findDrawingElement, setDrawingData } from './DrawingCommands';
+import { parseDrawingJson } from '@/lib/paper.js/drawingBlocks';
+import { createMathElement } from './MathCommands';
+import { moveSection } from './SectionCommands';
+import {
+  createTable,
+  getCellTable,
+  getTableCell,
+  insertTableColumn,
+  insertTableRow,
+  placeCaretInCell,
+  removeTable,
+  removeTableColumn,
+  removeTableRow,
+  setColumnAlign,
+  toggleTableHeader,
+} from './TableCommands';
+
 export class FormattingHandler {
   private editorRef: React.RefObject<HTMLDivElement | null>;
   private onContentChange: (content: string) => void;
@@ -45,6 +65,11 @@ export class FormattingHandler {
     };
   }
 
+  // Push the current content as a change right away, so that the next command gets its own undo step
+  flushMarkdown() {
+    this.syncMarkdown();
+  }
+
   // Check if a range stays inside the editor content
   private isRangeInsideEditor(range: Range) {
     const editor = this.editorRef.current;
@@ -819,6 +844,129 @@ export class FormattingHandler {
           }
           break;
         }
+        case 'inlineCode': {
+          // Code blocks are plain text: no inline formatting inside them
+          if (getCodeBlock(range.startContainer, this.editorRef.current)) break;
+          const savedRange = range.cloneRange();
+          this.applyInlineFormatting(savedRange, 'code');
+          restoreSelection();
+          this.syncMarkdown();
+          break;
+        }
+        case 'insertCodeBlock': {
+          const editorRoot = this.editorRef.current;
+          if (!editorRoot) break;
+          const currentBlock = getCodeBlock(range.startContainer, editorRoot);
+          if (currentBlock) {
+            // Toggling off turns each line of the code into a paragraph
+            const lines = getCodeBlockText(currentBlock).replace(/\n$/, '').split('\n');
+            const paragraphs = lines.map((line) => {
+              const paragraph = document.createElement('p');
+              if (line) paragraph.textContent = line;
+              else paragraph.appendChild(document.createElement('br'));
+              return paragraph;
+            });
+            currentBlock.replaceWith(...paragraphs);
+            const caret = document.createRange();
+            caret.selectNodeContents(paragraphs[paragraphs.length - 1]);
+            caret.collapse(false);
+            selection.removeAllRanges();
+            selection.addRange(caret);
+            break;
+          }
+
+          // The selected text becomes the code
+          const codeText = range.collapsed ? '' : range.toString();
+          if (!range.collapsed) range.deleteContents();
+          const pre = createCodeBlock(value || '', codeText);
+          this.insertBlockAtRange(range, pre);
+          highlightCodeBlock(pre);
+          const caret = document.createRange();
+          caret.selectNodeContents(pre.querySelector('code') ?? pre);
+          caret.collapse(true);
+          selection.removeAllRanges();
+          selection.addRange(caret);
+          break;
+        }
+        case 'setCodeLanguage': {
+          const pre = getCodeBlock(range.startContainer, this.editorRef.current);
+          if (pre) setCodeBlockLanguage(pre, value || '');
+          break;
+        }
+        case 'moveSection': {
+          // value is "<section anchor> <anchor of the heading to move before>", the second being
+          // empty to move the section to the end
+          const [fromAnchor = '', beforeAnchor = ''] = (value || '').split(' ');
+          moveSection(this.editorRef.current, fromAnchor, beforeAnchor);
+          break;
+        }
+                case 'insertMath': {
+          // value 'block' inserts a display formula; the selected text becomes the LaTeX source
+          const editorRoot = this.editorRef.current;
+          if (!editorRoot || getCodeBlock(range.startContainer, editorRoot)) break;
+          const latex = range.collapsed ? '' : range.toString().trim();
+          if (!range.collapsed) range.deleteContents();
+          const math = createMathElement(latex, value === 'block');
+          if (value === 'block') this.insertBlockAtRange(range, math);
+          else range.insertNode(math);
+          const caret = document.createRange();
+          caret.setStartAfter(math);
+          caret.collapse(true);
+          selection.removeAllRanges();
+          selection.addRange(caret);
+          // A new empty formula opens its source editor
+          if (!latex) window.dispatchEvent(new CustomEvent('wysiwyg:edit-math', { detail: math }));
+          break;
+        }
+        case 'insertDrawing': {
+          // value is the drawing data as JSON
+          const editorRoot = this.editorRef.current;
+          const data = parseDrawingJson(value || '');
+          if (!editorRoot || !data || getCodeBlock(range.startContainer, editorRoot)) break;
+          if (!range.collapsed) range.deleteContents();
+          const drawing = createDrawingElement(data);
+          this.insertBlockAtRange(range, drawing);
+          const caret = document.createRange();
+          caret.setStartAfter(drawing);
+          caret.collapse(true);
+          selection.removeAllRanges();
+          selection.addRange(caret);
+          break;
+        }
+        case 'updateDrawing': {
+          // value is the new data of the drawing with the same id; a drawing left without strokes is removed
+          const data = parseDrawingJson(value || '');
+          const drawing = data ? findDrawingElement(this.editorRef.current, data.id) : null;
+          if (!data || !drawing) break;
+          if (data.paths.length === 0) drawing.remove();
+          else setDrawingData(drawing, data);
+          break;
+        }
+        case 'insertChecklist': {
+          const editorRoot = this.editorRef.current;
+          if (!editorRoot) break;
+          const findList = (node: Node | null) => {
+            const element = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+            const list = element?.closest?.('ul, ol') as HTMLElement | null;
+            return list && editorRoot.contains(list) ? list : null;
+          };
+
+          const currentList = findList(range.startContainer);
+          if (currentList && currentList.tagName === 'UL' && isChecklist(currentList)) {
+            unsetChecklist(currentList);
+            break;
+          }
+          // Paragraphs and numbered lists become a bulleted list first
+          if (!currentList || currentList.tagName !== 'UL') {
+            document.execCommand('insertUnorderedList', false);
+          }
+          const selectionAfter = window.getSelection();
+          const list = selectionAfter && selectionAfter.rangeCount > 0
+            ? findList(selectionAfter.getRangeAt(0).startContainer)
+            : null;
+          if (list) setChecklist(list);
+          break;
+        }
         case 'formatBlock':
           if (value) {
             // For multi-line selections, we need to apply formatBlock to each block element
@@ -999,8 +1147,8 @@ export class FormattingHandler {
           if (value) {
             try {
               const fileData = JSON.parse(value);
-              const { dataUrl, name, type } = fileData as { dataUrl?: string; name?: string; type?: string };
-              if (!dataUrl || typeof dataUrl !== 'string') {
+              const { url, name, type } = fileData as { url?: string; name?: string; type?: string };
+              if (!url || typeof url !== 'string') {
                 console.error('Invalid file data for insertFile');
                 break;
               }
@@ -1029,7 +1177,7 @@ export class FormattingHandler {
                 img.style.margin = '1rem 0';
                 img.setAttribute('data-file-name', safeName);
                 img.setAttribute('data-file-type', safeType);
-                img.src = dataUrl;
+                img.src = url;
                 markDraggable(img);
                 
                 updatedRange.insertNode(img);
@@ -1051,7 +1199,7 @@ export class FormattingHandler {
                 video.style.margin = '1rem 0';
                 video.setAttribute('data-file-name', safeName);
                 video.setAttribute('data-file-type', safeType);
-                video.src = dataUrl;
+                video.src = url;
                 markDraggable(video);
                 
                 updatedRange.insertNode(video);
@@ -1069,7 +1217,7 @@ export class FormattingHandler {
                 container.className = 'wysiwyg-file-attachment';
                 container.setAttribute('data-file-name', safeName);
                 container.setAttribute('data-file-type', safeType);
-                container.setAttribute('data-file-data', dataUrl);
+                container.setAttribute('data-file-data', url);
                 container.setAttribute('contenteditable', 'false');
                 container.setAttribute('spellcheck', 'false');
                 container.setAttribute('autocomplete', 'off');
@@ -1085,7 +1233,7 @@ export class FormattingHandler {
                 const fileLink = document.createElement('span');
                 fileLink.textContent = safeName;
                 fileLink.className = 'wysiwyg-file-link';
-                fileLink.setAttribute('data-file-data', dataUrl);
+                fileLink.setAttribute('data-file-data', url);
                 fileLink.setAttribute('data-file-name', safeName);
                 fileLink.style.color = '#3b82f6';
                 fileLink.style.textDecoration = 'underline';
@@ -1468,6 +1616,49 @@ export class FormattingHandler {
           }
           break;
         }
+        case 'insertTable': {
+          // value is "<rows>x<columns>"
+          const [rowCount, columnCount] = (value || '3x3').split('x').map((n) => Number.parseInt(n, 10));
+          const table = createTable(rowCount || 3, columnCount || 3);
+          this.insertBlockAtRange(range, table);
+          const firstCell = table.rows[0]?.cells[0];
+          if (firstCell) placeCaretInCell(firstCell);
+          break;
+        }
+        case 'addTableRow':
+        case 'addTableColumn':
+        case 'deleteTableRow':
+        case 'deleteTableColumn':
+        case 'toggleTableHeader':
+        case 'alignTableColumn':
+        case 'deleteTable': {
+          const cell = getTableCell(range.startContainer, this.editorRef.current);
+          const table = cell ? getCellTable(cell) : null;
+          if (!cell || !table) break;
+
+          let nextCell: HTMLTableCellElement | null = cell;
+          if (command === 'addTableRow') {
+            nextCell = insertTableRow(cell, value === 'above' ? 'above' : 'below');
+          } else if (command === 'addTableColumn') {
+            nextCell = insertTableColumn(cell, value === 'left' ? 'left' : 'right');
+          } else if (command === 'deleteTableRow') {
+            nextCell = removeTableRow(cell);
+          } else if (command === 'deleteTableColumn') {
+            nextCell = removeTableColumn(cell);
+          } else if (command === 'toggleTableHeader') {
+            const row = cell.parentElement as HTMLTableRowElement;
+            const columnIndex = cell.cellIndex;
+            toggleTableHeader(table);
+            nextCell = row.cells[columnIndex] ?? null;
+          } else if (command === 'alignTableColumn') {
+            if (value === 'left' || value === 'center' || value === 'right') setColumnAlign(cell, value);
+          } else {
+            removeTable(table);
+            nextCell = null;
+          }
+          if (nextCell) placeCaretInCell(nextCell);
+          break;
+        }
         case 'undo':
           // Use custom undo handler if available
           if (window.handleWysiwygUndo) {
@@ -1596,6 +1787,36 @@ export class FormattingHandler {
     }
   }
 
+  // Insert a block element (e.g. a table) after the top-level block holding the range,
+  // or in place of that block when it is an empty paragraph
+  private insertBlockAtRange(range: Range, block: HTMLElement) {
+    const editor = this.editorRef.current;
+    if (!editor) return;
+
+    let container: Node | null = range.startContainer;
+    while (container && container.parentNode !== editor) {
+      container = container.parentNode;
+    }
+
+    if (!container || container === editor) {
+      editor.appendChild(block);
+    } else if (container.nodeType === Node.ELEMENT_NODE
+      && ['P', 'DIV'].includes((container as HTMLElement).tagName)
+      && !(container as HTMLElement).textContent?.replace(/\u200B/g, '').trim()
+      && !(container as HTMLElement).querySelector('img, video, table, svg')) {
+      editor.replaceChild(block, container);
+    } else {
+      editor.insertBefore(block, container.nextSibling);
+    }
+
+    // Keep a paragraph after the block so that writing can continue below it
+    if (!block.nextSibling) {
+      const paragraph = document.createElement('p');
+      paragraph.appendChild(document.createElement('br'));
+      editor.appendChild(paragraph);
+    }
+  }
+
   // Ensure the current selection/caret is moved outside of the nearest anchor (<a>) if any.
   // Returns a Range representing the (possibly updated) selection range.
   private ensureSelectionOutsideLink(range: Range, selection: Selection): Range {
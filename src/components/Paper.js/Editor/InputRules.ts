@@ -0,0 +1,205 @@
+// Markdown input rules of the WYSIWYG editor: typing `# `, `- `, `> `, `---` at the start of a
+// line or closing `**bold**` or `$formula$` turns the typed markers into the matching formatting.
+// Rules run the existing FormattingHandler commands; the text as typed is pushed as a change
+// first, so that undo brings the markers back.
+import type { FormattingHandler } from "./FormattingHandler";
+import { getCodeBlock } from "./CodeBlockCommands";
+import { getTableCell } from "./TableCommands";
+
+interface BlockInputRule {
+  pattern: RegExp;
+  command: string;
+  value?: (match: RegExpExecArray) => string;
+  // The rule also applies inside list items (the other rules only start from a paragraph)
+  inListItem?: boolean;
+}
+
+interface InlineInputRule {
+  pattern: RegExp;
+  command: string;
+  marker: string;
+  tags: string;
+}
+
+// Matched against the whole text between the start of the block and the caret
+const BLOCK_INPUT_RULES: BlockInputRule[] = [
+  { pattern: /^(#{1,6}) $/, command: "formatBlock", value: (match) => `h${match[1].length}` },
+  { pattern: /^[-*+] $/, command: "insertUnorderedList" },
+  { pattern: /^1[.)] $/, command: "insertOrderedList" },
+  { pattern: /^\[[ xX]?\] $/, command: "insertChecklist", inListItem: true },
+  { pattern: /^> $/, command: "insertQuote" },
+  { pattern: /^(?:---|\*\*\*|___)$/, command: "insertHorizontalRule" },
+  { pattern: /^\$\$ $/, command: "insertMath", value: () => "block" },
+];
+
+// Matched against the text before the caret; bold comes before italic so that `**x**` is not
+// read as an italic `*x*` wrapped in stars
+const INLINE_INPUT_RULES: InlineInputRule[] = [
+  { pattern: /\*\*([^*\s](?:[^*]*[^*\s])?)\*\*$/, command: "bold", marker: "**", tags: "strong, b" },
+  { pattern: /(?<![*\w])\*([^*\s](?:[^*]*[^*\s])?)\*$/, command: "italic", marker: "*", tags: "em, i" },
+  { pattern: /~~([^~\s](?:[^~]*[^~\s])?)~~$/, command: "strikeThrough", marker: "~~", tags: "s, del, strike" },
+  { pattern: /`([^`\s](?:[^`]*[^`\s])?)`$/, command: "inlineCode", marker: "`", tags: "code" },
+  { pattern: /(?<![\\$\w])\$([^$\s](?:[^$]*[^$\s\\])?)\$$/, command: "insertMath", marker: "$", tags: "[data-latex]" },
+];
+
+const BLOCK_TAGS = new Set(["P", "DIV", "LI"]);
+
+function normalizeTypedText(text: string): string {
+  return text.replace(/\u200B/g, "").replace(/\u00A0/g, " ");
+}
+
+function getTopLevelBlock(node: Node, editor: HTMLElement): HTMLElement | null {
+  let current: Node | null = node;
+  while (current && current.parentNode !== editor) current = current.parentNode;
+  return current && current.nodeType === Node.ELEMENT_NODE ? (current as HTMLElement) : null;
+}
+
+function isEmptyBlock(block: HTMLElement): boolean {
+  return !normalizeTypedText(block.textContent ?? "").trim() && !block.querySelector("img, video, table, hr");
+}
+
+function placeCaret(node: Node, offset: number): void {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.setStart(node, offset);
+  range.collapse(true);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+/**
+ * Runs a block command at the caret. Quotes and rules are block elements of their own: from an
+ * empty line they are inserted next to it instead of inside it.
+ */
+export function runBlockCommand(handler: FormattingHandler, editor: HTMLElement, command: string, value?: string): void {
+  const selection = window.getSelection();
+  const block = selection && selection.rangeCount > 0
+    ? getTopLevelBlock(selection.getRangeAt(0).startContainer, editor)
+    : null;
+  const emptyLine = block && ["P", "DIV"].includes(block.tagName) && isEmptyBlock(block) ? block : null;
+
+  if (emptyLine && (command === "insertQuote" || command === "insertHorizontalRule")) {
+    const range = document.createRange();
+    range.setStartBefore(emptyLine);
+    range.collapse(true);
+    selection?.removeAllRanges();
+    selection?.addRange(range);
+    handler.applyFormatting(command, value);
+    if (command === "insertHorizontalRule") {
+      // Writing continues on the (now empty) line below the rule
+      emptyLine.replaceChildren(document.createElement("br"));
+      placeCaret(emptyLine, 0);
+    } else if (emptyLine.nextSibling) {
+      emptyLine.remove();
+    }
+    return;
+  }
+
+  handler.applyFormatting(command, value);
+}
+
+function applyBlockInputRule(editor: HTMLElement, handler: FormattingHandler, range: Range): boolean {
+  const startElement = range.startContainer.nodeType === Node.TEXT_NODE
+    ? range.startContainer.parentElement
+    : (range.startContainer as Element);
+  let block = startElement?.closest("p, div, li, h1, h2, h3, h4, h5, h6, blockquote") as HTMLElement | null;
+  // The first line of an empty editor can be a bare text node
+  const bareText = block === editor && range.startContainer.parentNode === editor ? (range.startContainer as Text) : null;
+  if (!block || (block === editor && !bareText) || !editor.contains(block) || !BLOCK_TAGS.has(block.tagName)) return false;
+  if (getTableCell(range.startContainer, editor)) return false;
+
+  const beforeCaret = document.createRange();
+  if (bareText) beforeCaret.setStart(bareText, 0);
+  else beforeCaret.setStart(block, 0);
+  beforeCaret.setEnd(range.startContainer, range.startOffset);
+  const typed = normalizeTypedText(beforeCaret.toString());
+
+  for (const rule of BLOCK_INPUT_RULES) {
+    const match = rule.pattern.exec(typed);
+    if (!match) continue;
+    if (block.tagName === "LI" && (!rule.inListItem || block.hasAttribute("data-checked"))) return false;
+    const blockText = bareText ? bareText.textContent : block.textContent;
+    // A rule line (---) converts only when nothing follows the markers
+    if (rule.command === "insertHorizontalRule" && normalizeTypedText(blockText ?? "").trim() !== typed) return false;
+
+    handler.flushMarkdown();
+    if (bareText) {
+      const caretOffset = range.startOffset;
+      block = document.createElement("p");
+      bareText.replaceWith(block);
+      block.appendChild(bareText);
+      beforeCaret.setStart(bareText, 0);
+      beforeCaret.setEnd(bareText, caretOffset);
+    }
+    beforeCaret.deleteContents();
+    if (isEmptyBlock(block)) {
+      block.replaceChildren(document.createElement("br"));
+      placeCaret(block, 0);
+    } else {
+      placeCaret(beforeCaret.startContainer, beforeCaret.startOffset);
+    }
+    runBlockCommand(handler, editor, rule.command, rule.value?.(match));
+    return true;
+  }
+  return false;
+}
+
+function applyInlineInputRule(editor: HTMLElement, handler: FormattingHandler, range: Range): boolean {
+  const node = range.startContainer;
+  if (node.nodeType !== Node.TEXT_NODE || node.parentElement?.closest("code")) return false;
+  const text = node as Text;
+  const typed = text.data.slice(0, range.startOffset);
+
+  for (const rule of INLINE_INPUT_RULES) {
+    const match = rule.pattern.exec(typed);
+    if (!match) continue;
+
+    handler.flushMarkdown();
+    const start = range.startOffset - match[0].length;
+    text.deleteData(range.startOffset - rule.marker.length, rule.marker.length);
+    text.deleteData(start, rule.marker.length);
+
+    const selection = window.getSelection();
+    const inner = document.createRange();
+    inner.setStart(text, start);
+    inner.setEnd(text, start + match[1].length);
+    selection?.removeAllRanges();
+    selection?.addRange(inner);
+    handler.applyFormatting(rule.command);
+
+    // Continue typing after the formatted text rather than inside it
+    const anchor = selection && selection.rangeCount > 0 ? selection.getRangeAt(0).endContainer : null;
+    const anchorElement = anchor?.nodeType === Node.TEXT_NODE ? anchor.parentElement : (anchor as Element | null);
+    const formatted = anchorElement?.closest(rule.tags);
+    if (formatted && editor.contains(formatted)) {
+      const after = document.createRange();
+      after.setStartAfter(formatted);
+      after.collapse(true);
+      selection?.removeAllRanges();
+      selection?.addRange(after);
+    } else {
+      selection?.collapseToEnd();
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Applies the input rule completed by the text just typed, if any. Returns whether one applied.
+ */
+export function applyInputRule(editor: HTMLElement, handler: FormattingHandler, typedText: string | null): boolean {
+  if (!typedText) return false;
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || !selection.isCollapsed) return false;
+  const range = selection.getRangeAt(0);
+  if (!editor.contains(range.startContainer) || getCodeBlock(range.startContainer, editor)) return false;
+
+  const lastCharacter = typedText.slice(-1);
+  if ((lastCharacter === " " || lastCharacter === "\u00A0" || /[-*_]/.test(lastCharacter))
+    && applyBlockInputRule(editor, handler, range)) {
+    return true;
+  }
+  return /[*~`$]/.test(lastCharacter) && applyInlineInputRule(editor, handler, range);
+}
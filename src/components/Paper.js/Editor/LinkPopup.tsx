@@ -1,5 +1,6 @@
 "use client";
 import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { parseNoteLinkHref } from "@/lib/noteLinks";
 
 interface LinkPopupProps {
   visible: boolean;
@@ -54,6 +55,30 @@ export default function LinkPopup({ visible, x, y, url, onClose }: Readonly<Link
     [trustedOrigin, safeUrl]
   );
 
+  // Link to a heading of the note being edited (`#anchor` or this page with an anchor)
+  const sectionAnchor = useMemo(() => {
+    if (globalThis.window === undefined || !safeUrl) return null;
+    try {
+      const parsed = new URL(safeUrl, globalThis.window.location.href);
+      const current = globalThis.window.location;
+      if (parsed.origin !== current.origin || parsed.pathname !== current.pathname || !parsed.hash) return null;
+      return parsed.hash;
+    } catch {
+      return null;
+    }
+  }, [safeUrl]);
+
+  // Link to another note, opened in place of this one
+  const isNoteLink = useMemo(() => {
+    if (globalThis.window === undefined || !safeUrl || sectionAnchor) return false;
+    try {
+      const parsed = new URL(safeUrl, globalThis.window.location.href);
+      return parsed.origin === globalThis.window.location.origin && parseNoteLinkHref(parsed.pathname) !== null;
+    } catch {
+      return false;
+    }
+  }, [safeUrl, sectionAnchor]);
+
   // Handle popup mouse enter to keep it open
   const handlePopupEnter = useCallback(() => {
     // Clear any existing timeout to keep popup open
@@ -95,13 +120,30 @@ export default function LinkPopup({ visible, x, y, url, onClose }: Readonly<Link
 
     const target = sanitizeHref(url);
 
+    // The editor scrolls to the heading when the fragment changes
+    if (sectionAnchor) {
+      if (globalThis.window.location.hash === sectionAnchor) {
+        globalThis.window.dispatchEvent(new HashChangeEvent('hashchange'));
+      } else {
+        globalThis.window.location.hash = sectionAnchor;
+      }
+      onClose();
+      return;
+    }
+
+    if (isNoteLink) {
+      globalThis.window.location.assign(target);
+      onClose();
+      return;
+    }
+
     if (isTrustedUrl(target)) {
       window.open(target, '_blank', 'noopener,noreferrer');
       onClose();
     } else {
       setShowConfirm(true);
     }
-  }, [onClose, isTrustedUrl, sanitizeHref]);
+  }, [onClose, isTrustedUrl, sanitizeHref, sectionAnchor, isNoteLink]);
 
   const handleContinue = useCallback(() => {
     const target = safeUrl;
@@ -187,7 +229,7 @@ export default function LinkPopup({ visible, x, y, url, onClose }: Readonly<Link
             onClick={() => openLink(safeUrl)}
             className="px-2 py-1 text-xs bg-primary hover:bg-primary/90 text-primary-foreground rounded transition-colors"
           >
-            Open
+            {sectionAnchor ? "Go to" : isNoteLink ? "Open note" : "Open"}
           </button>
         </div>
       </div>
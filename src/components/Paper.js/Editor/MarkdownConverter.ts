@@ -1,12 +1,20 @@
 import { marked } from "marked";
-import type { MarkedOptions } from "marked";
+import type { MarkedOptions, Renderer, Tokens } from "marked";
 import DOMPurify from "dompurify";
 import TurndownService from "turndown";
 import MarkdownIt from "markdown-it";
+import { highlightCodeBlocksInHtml } from "./CodeBlockCommands";
+import { escapeMathDelimiters, extractMath, mathToMarkdown, restoreMath, type MathSegment } from "./MathCommands";
+import { drawingToMarkdown, extractDrawings, restoreDrawings } from "./DrawingCommands";
+import type { DrawingBlockData } from "@/lib/paper.js/types";
+
+// Fenced code blocks and inline code spans, left untouched by the emphasis shortcuts of markdownToHtml
+const CODE_SEGMENT_PATTERN = /(?:^|\n)(`{3,}|~{3,})[^\n]*\n[\s\S]*?\n\1[ \t]*(?=\n|$)|`[^`\n]+`/g;
 
 export class MarkdownConverter {
   private turndownService: TurndownService;
   private markdownIt: MarkdownIt;
+  private markedRenderer: Renderer<string, string>;
   
   // Helper function to normalize color formats (rgb, lab, hsl, etc.) to hex
   private normalizeColorToHex(c: string): string {
@@ -57,6 +65,14 @@ export class MarkdownConverter {
       strongDelimiter: '**',
       linkStyle: 'inlined',
       linkReferenceStyle: 'full',
+      // Drawings hold no text, so turndown takes them for empty elements: they are written back
+      // from their vector data here rather than through a rule
+      blankReplacement: (content, node) => {
+        if (node.nodeType === 1 && (node as HTMLElement).hasAttribute('data-drawing')) {
+          return drawingToMarkdown(node as HTMLElement);
+        }
+        return (node as TurndownService.Node & { isBlock?: boolean }).isBlock ? '\n\n' : '';
+      },
     });
 
     // Override escape method to prevent escaping of list markers (- and .)
@@ -67,9 +83,9 @@ export class MarkdownConverter {
       // These patterns match list markers at the start of lines
       const escaped = originalEscape(text);
       // Remove escape characters before dashes and dots that are list markers
-      return escaped
+      return escapeMathDelimiters(escaped
         .replace(/^(\s*)\\- /gm, '$1- ')  // Fix \- at start of line (unordered list)
-        .replace(/^(\s*)(\d+)\\. /gm, '$1$2. ');  // Fix 1\. at start of line (ordered list)
+        .replace(/^(\s*)(\d+)\\. /gm, '$1$2. '));  // Fix 1\. at start of line (ordered list)
     };
 
     this.markdownIt = new MarkdownIt({
@@ -78,10 +94,43 @@ export class MarkdownConverter {
       linkify: true,
     });
 
+    // marked only keeps the first word of an info string (as the language class):
+    // longer info strings are kept in data-info
+    this.markedRenderer = new marked.Renderer<string, string>();
+    const renderCode = this.markedRenderer.code.bind(this.markedRenderer);
+    this.markedRenderer.code = (token: Tokens.Code) => {
+      const html = renderCode(token);
+      const info = (token.lang || '').trim();
+      if (!/\s/.test(info)) return html;
+      return html.replace('<code', `<code data-info="${this.escapeAttribute(info)}"`);
+    };
+
     this.setupCustomRules();
   }
 
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+
+  // Applies `transform` to the markdown outside of code, whose text must stay as written
+  private replaceOutsideCode(md: string, transform: (text: string) => string): string {
+    let result = '';
+    let lastIndex = 0;
+    for (const match of md.matchAll(CODE_SEGMENT_PATTERN)) {
+      const index = match.index ?? 0;
+      result += transform(md.slice(lastIndex, index)) + match[0];
+      lastIndex = index + match[0].length;
+    }
+    return result + transform(md.slice(lastIndex));
+  }
+
   private setupCustomRules() {
+    // Tables become GFM pipe tables (or HTML when GFM cannot represent them)
+    this.turndownService.addRule('table', {
+      filter: 'table',
+      replacement: (content, node) => `\n\n${this.tableToMarkdown(node as HTMLTableElement)}\n\n`
+    });
+
     // Preserve custom preserve-list tags (used for single-item list preservation)
     this.turndownService.addRule('preserveListTag', {
       filter: (node) => {
@@ -781,15 +830,137 @@ export class MarkdownConverter {
         return `<em${styleAttr}>${content}</em>`;
       }
     });
+
+    // Checklists become GFM task lists. Added last so that they take precedence over the
+    // list preservation rules above, which would keep single-item checklists as HTML.
+    this.turndownService.addRule('taskList', {
+      filter: (node) => {
+        const el = node as HTMLElement;
+        return el.nodeName === 'UL' && Array.from(el.children).some((child) => child.hasAttribute('data-checked'));
+      },
+      replacement: (content, node) => {
+        const parent = node.parentNode as HTMLElement | null;
+        if (parent && parent.nodeName === 'LI' && parent.lastElementChild === node) return `\n${content}`;
+        return `\n\n${content}\n\n`;
+      }
+    });
+
+    // Fenced code blocks keep their full info string and ignore the highlighting markup
+    this.turndownService.addRule('fencedCodeBlockWithInfo', {
+      filter: (node) => node.nodeName === 'PRE' && node.firstElementChild?.nodeName === 'CODE',
+      replacement: (content, node) => {
+        const code = (node as HTMLElement).firstElementChild as HTMLElement;
+        const language = (/(?:^|\s)language-(\S+)/.exec(code.getAttribute('class') || '') || [null, ''])[1];
+        const info = (code.getAttribute('data-info') || language).replace(/[\r\n`]/g, ' ').trim();
+        const text = (code.textContent || '').replace(/\u200B/g, '');
+        // The fence must be longer than any backtick run starting a line of the code
+        const longestRun = Math.max(0, ...Array.from(text.matchAll(/^`{3,}/gm), (match) => match[0].length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        return `\n\n${fence}${info}\n${text.replace(/\n$/, '')}\n${fence}\n\n`;
+      }
+    });
+
+    // Formulas are written back from their LaTeX source, whatever their rendering holds
+    this.turndownService.addRule('math', {
+      filter: (node) => node.nodeType === 1 && (node as HTMLElement).hasAttribute('data-latex'),
+      replacement: (content, node) => mathToMarkdown(node as HTMLElement)
+    });
+
+    this.turndownService.addRule('taskListItem', {
+      filter: (node) => node.nodeName === 'LI' && (node as HTMLElement).hasAttribute('data-checked'),
+      replacement: (content, node) => {
+        const el = node as HTMLElement;
+        const prefix = `- [${el.getAttribute('data-checked') === 'true' ? 'x' : ' '}] `;
+        const itemContent = content
+          .replace(/\u200B/g, '')
+          // An empty item only holds a <br>
+          .replace(/^\s+$/, '')
+          .replace(/^\n+/, '')
+          .replace(/\n+$/, '\n')
+          .replace(/\n/gm, '\n  ');
+        return prefix + itemContent + (el.nextSibling && !/\n$/.test(itemContent) ? '\n' : '');
+      }
+    });
+  }
+
+  private getCellAlign(cell: HTMLTableCellElement | undefined): string {
+    const align = (cell?.style.textAlign || cell?.getAttribute('align') || '').toLowerCase();
+    return ['left', 'center', 'right'].includes(align) ? align : '';
+  }
+
+  private tableCellToMarkdown(cell: HTMLTableCellElement): string {
+    return this.turndownService.turndown(cell.innerHTML)
+      .trim()
+      // A GFM cell is a single line: line breaks are kept as <br>
+      .replace(/ *\n+ */g, '<br>')
+      .replace(/\|/g, '\\|');
+  }
+
+  // GFM has no headerless tables, merged cells or nested tables: those are kept as HTML
+  private canWriteGfmTable(table: HTMLTableElement): boolean {
+    const rows = Array.from(table.rows);
+    if (rows.length === 0 || table.querySelector('table')) return false;
+    const headerRow = rows[0];
+    const hasHeader = headerRow.parentElement?.tagName === 'THEAD'
+      || Array.from(headerRow.cells).every((cell) => cell.tagName === 'TH');
+    if (!hasHeader || rows.slice(1).some((row) => row.parentElement?.tagName === 'THEAD')) return false;
+    return rows.every((row) => Array.from(row.cells).every((cell) => cell.colSpan === 1 && cell.rowSpan === 1));
+  }
+
+  private tableToHtml(table: HTMLTableElement): string {
+    const renderRow = (row: HTMLTableRowElement) => {
+      const cells = Array.from(row.cells).map((cell) => {
+        const tag = cell.tagName.toLowerCase();
+        const attrs: string[] = [];
+        if (cell.colSpan > 1) attrs.push(`colspan="${cell.colSpan}"`);
+        if (cell.rowSpan > 1) attrs.push(`rowspan="${cell.rowSpan}"`);
+        const align = this.getCellAlign(cell);
+        if (align) attrs.push(`style="text-align: ${align}"`);
+        // Blank lines would end the HTML block in markdown
+        const inner = cell.innerHTML.replace(/\s*\n\s*/g, ' ');
+        return `<${tag}${attrs.length ? ` ${attrs.join(' ')}` : ''}>${inner}</${tag}>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    };
+    const head = table.tHead ? `<thead>${Array.from(table.tHead.rows).map(renderRow).join('')}</thead>` : '';
+    const bodyRows = Array.from(table.rows).filter((row) => row.parentElement?.tagName !== 'THEAD');
+    return `<table>${head}<tbody>${bodyRows.map(renderRow).join('')}</tbody></table>`;
+  }
+
+  private tableToMarkdown(table: HTMLTableElement): string {
+    if (!this.canWriteGfmTable(table)) return this.tableToHtml(table);
+
+    const rows = Array.from(table.rows);
+    const columnCount = Math.max(...rows.map((row) => row.cells.length));
+    const toLine = (cells: string[]) => `| ${cells.join(' | ')} |`;
+    const rowToCells = (row: HTMLTableRowElement) =>
+      Array.from({ length: columnCount }, (_, i) => (row.cells[i] ? this.tableCellToMarkdown(row.cells[i]) : ''));
+
+    const separator = Array.from({ length: columnCount }, (_, i) => {
+      switch (this.getCellAlign(rows[0].cells[i])) {
+        case 'left': return ':---';
+        case 'center': return ':---:';
+        case 'right': return '---:';
+        default: return '---';
+      }
+    });
+
+    return [toLine(rowToCells(rows[0])), toLine(separator), ...rows.slice(1).map((row) => toLine(rowToCells(row)))].join('\n');
   }
 
   async markdownToHtml(md: string): Promise<string> {
     
-    let processedMd = md
+    // Drawings are fenced blocks that must not be rendered as code
+    const drawingSegments: DrawingBlockData[] = [];
+    const mdWithoutDrawings = extractDrawings(md, drawingSegments);
+
+    // Formulas are set aside first, so that their LaTeX is not read as emphasis or markdown
+    const mathSegments: MathSegment[] = [];
+    let processedMd = this.replaceOutsideCode(mdWithoutDrawings, (text) => extractMath(text, mathSegments)
       .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
       .replace(/\*(.*?)\*/g, '<em>$1</em>')
       .replace(/__(.*?)__/g, '<strong>$1</strong>')
-      .replace(/_(.*?)_/g, '<em>$1</em>');
+      .replace(/_(.*?)_/g, '<em>$1</em>'));
 
     const PLACEHOLDER = '[[__EMPTY_PARAGRAPH__]]';
     let cleanedMd = processedMd.split(PLACEHOLDER).join('\n\n');
@@ -810,7 +981,8 @@ export class MarkdownConverter {
     const markedOptions: MarkedOptions = {
       breaks: true,
       gfm: true,
-      async: true
+      async: true,
+      renderer: this.markedRenderer
     };
 
     const videoPlaceholders: { placeholder: string; content: string }[] = [];
@@ -897,7 +1069,15 @@ export class MarkdownConverter {
         // No style attribute, add default
         return '<ol style="margin: 1rem 0; padding-left: 2rem; list-style-type: decimal; list-style-position: outside;">';
       })
+      // GFM task list items become checklist items (marked renders their checkbox as a disabled input)
+      .replace(/<li>(\s*<p>)?\s*<input([^>]*)type="checkbox"[^>]*>\s*/g, (match, paragraph = '', attrs: string) =>
+        `<li data-checked="${/\bchecked\b/.test(attrs) ? 'true' : 'false'}">${paragraph}`)
+      // An empty task item ("- [ ]") is not recognized by marked
+      .replace(/<li>\s*\[([ xX])\]\s*<\/li>/g, (match, mark: string) =>
+        `<li data-checked="${mark === ' ' ? 'false' : 'true'}"><br></li>`)
       .replace(/<li>/g, '<li style="margin: 0.25rem 0; padding-left: 0; display: list-item; list-style-position: outside; text-indent: 0;">')
+      // Column alignment of GFM tables
+      .replace(/<(th|td) align="(left|center|right)">/g, '<$1 style="text-align: $2">')
       .replace(/<a /g, '<a target="_blank" rel="noopener noreferrer" style="color: #3b82f6; text-decoration: underline; cursor: pointer;" ')
       // Handle links with alignment in divs where content is already an <a>
       .replace(/<div style=\"text-align: center\"><a href=\"([^\"]*)\">([\s\S]*?)<\/a><\/div>/g, '<div style=\"text-align: center\"><a href=\"$1\" style=\"color: #3b82f6; text-decoration: underline; cursor: pointer;\">$2</a></div>')
@@ -908,11 +1088,15 @@ export class MarkdownConverter {
       .replace(/<div style=\"text-align: right\">\[([\s\S]*?)\]\(([^\)]*)\)<\/div>/g, '<div style=\"text-align: right\"><a href=\"$2\" style=\"color: #3b82f6; text-decoration: underline; cursor: pointer;\">$1</a></div>')
       .replace(/<div style=\"text-align: justify\">\[([\sS]*?)\]\(([^\)]*)\)<\/div>/g, '<div style=\"text-align: justify\"><a href=\"$2\" style=\"color: #3b82f6; text-decoration: underline; cursor: pointer;\">$1</a></div>');
 
-    return DOMPurify.sanitize(styledHtml, {
+    const htmlWithMath = restoreMath(styledHtml, mathSegments);
+
+    const sanitizedHtml = DOMPurify.sanitize(htmlWithMath, {
       ADD_ATTR: ['style', 'data-file-name', 'data-file-type', 'data-file-data', 'data-draggable-attachment', 'class', 'controls', 'contenteditable', 'data-selected-file'],
-      ALLOWED_TAGS: ['p', 'br', 'strong', 'em', 'u', 's', 'del', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'a', 'img', 'div', 'span', 'hr', 'details', 'summary', 'video', 'button'],
-      ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'style', 'color', 'open', 'target', 'rel', 'data-file-name', 'data-file-type', 'data-file-data', 'data-draggable-attachment', 'class', 'controls', 'type', 'contenteditable', 'data-selected-file']
-    });
+      ALLOWED_TAGS: ['p', 'br', 'strong', 'em', 'u', 's', 'del', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'a', 'img', 'div', 'span', 'hr', 'details', 'summary', 'video', 'button', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'pre', 'code', 'svg', 'path', 'line'],
+      ALLOWED_ATTR: ['href', 'src', 'alt', 'title', 'style', 'color', 'open', 'target', 'rel', 'data-file-name', 'data-file-type', 'data-file-data', 'data-draggable-attachment', 'class', 'controls', 'type', 'contenteditable', 'data-selected-file', 'colspan', 'rowspan', 'data-checked', 'data-info', 'data-latex', 'aria-hidden', 'xmlns', 'width', 'height', 'viewBox', 'preserveAspectRatio', 'd', 'x1', 'x2', 'y1', 'y2', 'stroke-width']
+    }) as string;
+
+    return highlightCodeBlocksInHtml(restoreDrawings(sanitizedHtml, drawingSegments));
   }
 
   private async parseMarkdownWithFallback(markdown: string, options: MarkedOptions): Promise<string> {
@@ -0,0 +1,104 @@
+// Math helpers for the WYSIWYG editor.
+// A formula is a non-editable element holding its LaTeX source in `data-latex` and the KaTeX
+// rendering as content: <span class="math-inline"> for `$...$`, <div class="math-block"> for
+// `$$...$$`. Only the source is kept in markdown; the rendering is rebuilt from it.
+import katex from "katex";
+
+export interface MathSegment {
+  latex: string;
+  display: boolean;
+}
+
+// `$$` blocks on their own lines, then `$$...$$` and `$...$` within a line (both kept inline,
+// as a block can't sit inside a paragraph). An inline formula can't start or end with a space
+// and can't be followed by a digit, so amounts ("$5 or $10") are left as text.
+const MATH_PATTERN = /(^|\n)[ \t]*\$\$[ \t]*\n?([\s\S]+?)\n?[ \t]*\$\$[ \t]*(?=\n|$)|\$\$([^$\n]+?)\$\$|(?<![\\$\w])\$(?![\s$])([^$\n]*?[^$\s\\])\$(?![\d$])/g;
+
+// Plain text for marked: an HTML comment starting a line would turn the whole line into raw HTML
+const MATH_PLACEHOLDER_PATTERN = /%%MATH:(\d+)%%/g;
+
+export function renderMathHtml(latex: string, display: boolean): string {
+  return katex.renderToString(latex, { displayMode: display, throwOnError: false, output: "html" });
+}
+
+export function escapeMathAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function renderMathElementHtml({ latex, display }: MathSegment): string {
+  const tag = display ? "div" : "span";
+  const className = display ? "math-block" : "math-inline";
+  return `<${tag} class="${className}" data-latex="${escapeMathAttribute(latex)}" contenteditable="false">${renderMathHtml(latex, display)}</${tag}>`;
+}
+
+/**
+ * Replaces the formulas of `markdown` with placeholders (so that their LaTeX is not read as
+ * markdown), adding the formulas to `segments` in placeholder order.
+ */
+export function extractMath(markdown: string, segments: MathSegment[]): string {
+  return markdown.replace(MATH_PATTERN, (match, lineStart: string | undefined, block?: string, inlineDisplay?: string, inline?: string) => {
+    if (block !== undefined) {
+      segments.push({ latex: block.trim(), display: true });
+      // A paragraph of its own, even right after a line of text
+      return `${lineStart ?? ""}\n%%MATH:${segments.length - 1}%%\n`;
+    }
+    segments.push({ latex: (inlineDisplay ?? inline ?? "").trim(), display: false });
+    return `%%MATH:${segments.length - 1}%%`;
+  });
+}
+
+/**
+ * Escapes the dollars of text that would otherwise be read back as a formula.
+ */
+export function escapeMathDelimiters(text: string): string {
+  return text.replace(MATH_PATTERN, (match) => match.replace(/\$/g, "\\$"));
+}
+
+/**
+ * Puts the rendered formulas back in place of the placeholders left by extractMath.
+ */
+export function restoreMath(html: string, segments: MathSegment[]): string {
+  if (segments.length === 0) return html;
+  return html
+    // Block formulas alone in their paragraph replace the paragraph
+    .replace(/<p>\s*%%MATH:(\d+)%%\s*<\/p>/g, (match, index: string) => {
+      const segment = segments[Number(index)];
+      return segment ? renderMathElementHtml(segment) : match;
+    })
+    .replace(MATH_PLACEHOLDER_PATTERN, (match, index: string) => {
+      const segment = segments[Number(index)];
+      return segment ? renderMathElementHtml(segment) : match;
+    });
+}
+
+export function getMathElement(node: Node | null, root: HTMLElement | null): HTMLElement | null {
+  const element = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+  const math = element?.closest?.("[data-latex]") as HTMLElement | null;
+  return math && root?.contains(math) ? math : null;
+}
+
+export function isDisplayMath(element: HTMLElement): boolean {
+  return element.classList.contains("math-block");
+}
+
+export function createMathElement(latex: string, display: boolean): HTMLElement {
+  const template = document.createElement("template");
+  template.innerHTML = renderMathElementHtml({ latex, display });
+  return template.content.firstElementChild as HTMLElement;
+}
+
+export function setMathSource(element: HTMLElement, latex: string): void {
+  element.setAttribute("data-latex", latex);
+  element.innerHTML = renderMathHtml(latex, isDisplayMath(element));
+}
+
+/**
+ * Markdown source of a formula element.
+ */
+export function mathToMarkdown(element: HTMLElement): string {
+  const latex = (element.getAttribute("data-latex") || "").trim();
+  if (!latex) return "";
+  if (isDisplayMath(element)) return `\n\n$$\n${latex}\n$$\n\n`;
+  // Line breaks would end the formula
+  return `$${latex.replace(/\s*\n\s*/g, " ")}$`;
+}
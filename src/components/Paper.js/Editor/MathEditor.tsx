@@ -0,0 +1,177 @@
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { getMathElement, isDisplayMath, renderMathHtml, setMathSource } from "./MathCommands";
+
+interface MathEditorProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  onChange: () => void;
+}
+
+interface EditedMath {
+  element: HTMLElement;
+  // Still empty from insertion: cancelling removes it
+  isNew: boolean;
+}
+
+/**
+ * LaTeX source editor of a formula, opened by clicking it (or on insertion of an empty one),
+ * with a live preview of the result.
+ */
+export default function MathEditor({ editorRef, onChange }: Readonly<MathEditorProps>) {
+  const [edited, setEdited] = useState<EditedMath | null>(null);
+  const [source, setSource] = useState("");
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const open = useCallback((element: HTMLElement) => {
+    const latex = element.getAttribute("data-latex") || "";
+    setEdited({ element, isNew: !latex });
+    setSource(latex);
+  }, []);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const math = getMathElement(event.target as Node, editor);
+      if (math) open(math);
+    };
+    const handleEditMath = (event: Event) => {
+      const math = (event as CustomEvent<HTMLElement>).detail;
+      if (math && editor.contains(math)) open(math);
+    };
+
+    editor.addEventListener("click", handleClick);
+    globalThis.window.addEventListener("wysiwyg:edit-math", handleEditMath);
+    return () => {
+      editor.removeEventListener("click", handleClick);
+      globalThis.window.removeEventListener("wysiwyg:edit-math", handleEditMath);
+    };
+  }, [editorRef, open]);
+
+  const updatePosition = useCallback(() => {
+    const container = editorRef.current?.parentElement;
+    if (!edited?.element.isConnected || !container) {
+      setPosition(null);
+      return;
+    }
+    const mathRect = edited.element.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    setPosition({
+      top: mathRect.bottom - containerRect.top + 6,
+      left: Math.max(0, mathRect.left - containerRect.left),
+    });
+  }, [edited, editorRef]);
+
+  useEffect(() => {
+    updatePosition();
+    if (!edited) return;
+    textareaRef.current?.focus();
+    globalThis.window.addEventListener("resize", updatePosition);
+    return () => globalThis.window.removeEventListener("resize", updatePosition);
+  }, [edited, updatePosition]);
+
+  // Puts the caret back in the text, right after the formula
+  const close = useCallback((after: Node | null) => {
+    setEdited(null);
+    const editor = editorRef.current;
+    if (!editor) return;
+    editor.focus();
+    if (after?.isConnected) {
+      const selection = globalThis.window.getSelection();
+      const range = document.createRange();
+      range.setStartAfter(after);
+      range.collapse(true);
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+    }
+  }, [editorRef]);
+
+  const remove = useCallback(() => {
+    if (!edited) return;
+    const previous = edited.element.previousSibling;
+    edited.element.remove();
+    onChange();
+    close(previous);
+  }, [close, edited, onChange]);
+
+  const save = useCallback(() => {
+    if (!edited) return;
+    const latex = source.trim();
+    if (!latex) {
+      remove();
+      return;
+    }
+    if (latex !== edited.element.getAttribute("data-latex")) {
+      setMathSource(edited.element, latex);
+      onChange();
+    }
+    close(edited.element);
+  }, [close, edited, onChange, remove, source]);
+
+  const cancel = useCallback(() => {
+    if (edited?.isNew) remove();
+    else close(edited?.element ?? null);
+  }, [close, edited, remove]);
+
+  if (!edited || !position) return null;
+
+  const display = isDisplayMath(edited.element);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && (event.ctrlKey || event.metaKey || !display)) {
+      event.preventDefault();
+      save();
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      cancel();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-50 w-80 max-w-full rounded-lg border border-border bg-card p-2 shadow-lg"
+      style={{ top: `${position.top}px`, left: `${position.left}px` }}
+    >
+      <textarea
+        ref={textareaRef}
+        value={source}
+        onChange={(event) => setSource(event.target.value)}
+        onKeyDown={handleKeyDown}
+        rows={display ? 4 : 2}
+        spellCheck={false}
+        placeholder={display ? "\\int_0^1 x^2 \\, dx" : "e^{i\\pi} + 1 = 0"}
+        className="w-full resize-y rounded-md border border-input bg-background px-2 py-1 font-mono text-sm focus:outline-none focus:ring-1 focus:ring-primary"
+        aria-label="LaTeX source"
+      />
+      {source.trim() && (
+        <div
+          className="mt-2 max-h-40 overflow-auto rounded-md bg-muted/50 px-2 py-1 text-center text-foreground"
+          dangerouslySetInnerHTML={{ __html: renderMathHtml(source, display) }}
+        />
+      )}
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          {display ? "Ctrl+Enter to apply" : "Enter to apply"}, Esc to cancel
+        </span>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            onClick={remove}
+            className="rounded-md px-2 py-1 text-xs text-destructive hover:bg-destructive/10"
+          >
+            Remove
+          </button>
+          <button
+            type="button"
+            onClick={save}
+            className="rounded-md bg-primary px-2 py-1 text-xs text-primary-foreground hover:bg-primary/90"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
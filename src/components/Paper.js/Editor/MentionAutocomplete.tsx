@@ -0,0 +1,138 @@
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import MentionSuggestionList from "@/components/common/MentionSuggestionList";
+import { filterMentionCandidates, findMentionQuery, type MentionCandidate } from "@/lib/mentions";
+
+interface MentionAutocompleteProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  candidates: MentionCandidate[];
+}
+
+interface EditorMentionQuery {
+  node: Text;
+  start: number;
+  end: number;
+  query: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Suggests `@username` completions while typing in the editor. Completions are typed into the
+ * editor like regular input, so they go through the usual change and history handling.
+ */
+export default function MentionAutocomplete({ editorRef, candidates }: Readonly<MentionAutocompleteProps>) {
+  const [mentionQuery, setMentionQuery] = useState<EditorMentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = mentionQuery ? filterMentionCandidates(candidates, mentionQuery.query) : [];
+  const stateRef = useRef({ mentionQuery, suggestions, activeIndex });
+  stateRef.current = { mentionQuery, suggestions, activeIndex };
+
+  const updateQuery = useCallback(() => {
+    const editor = editorRef.current;
+    const selection = globalThis.window.getSelection();
+    if (!editor || !selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+      setMentionQuery(null);
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    const node = range.startContainer;
+    if (node.nodeType !== Node.TEXT_NODE || !editor.contains(node)) {
+      setMentionQuery(null);
+      return;
+    }
+    const textBefore = (node.textContent ?? "").slice(0, range.startOffset);
+    const found = findMentionQuery(textBefore);
+    if (!found) {
+      setMentionQuery(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const editorRect = editor.getBoundingClientRect();
+    if (stateRef.current.mentionQuery?.query !== found.query) setActiveIndex(0);
+    setMentionQuery({
+      node: node as Text,
+      start: found.start,
+      end: range.startOffset,
+      query: found.query,
+      x: rect.left - editorRect.left,
+      y: rect.bottom - editorRect.top,
+    });
+  }, [editorRef]);
+
+  const selectCandidate = useCallback((candidate: MentionCandidate) => {
+    const editor = editorRef.current;
+    const current = stateRef.current.mentionQuery;
+    const selection = globalThis.window.getSelection();
+    if (!editor || !current || !selection || !current.node.isConnected) return;
+
+    const range = document.createRange();
+    range.setStart(current.node, current.start);
+    range.setEnd(current.node, Math.min(current.end, current.node.length));
+    selection.removeAllRanges();
+    selection.addRange(range);
+    editor.focus();
+    // Dispatches the input event the editor listens to
+    document.execCommand("insertText", false, `@${candidate.username} `);
+    setMentionQuery(null);
+  }, [editorRef]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // Registered in the capture phase so that navigation keys never reach the editor's own shortcuts
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { mentionQuery: current, suggestions: items, activeIndex: index } = stateRef.current;
+      if (!current || items.length === 0) return;
+
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index + step + items.length) % items.length);
+      } else if (event.key === "Enter" || event.key === "Tab") {
+        selectCandidate(items[Math.min(index, items.length - 1)]);
+      } else if (event.key === "Escape") {
+        setMentionQuery(null);
+      } else {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    // Typing is followed through input events; only caret moves need keyup
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (["ArrowLeft", "ArrowRight", "Home", "End"].includes(event.key)) updateQuery();
+    };
+
+    const handleBlur = () => setMentionQuery(null);
+
+    editor.addEventListener("keydown", handleKeyDown, true);
+    editor.addEventListener("input", updateQuery);
+    editor.addEventListener("click", updateQuery);
+    editor.addEventListener("keyup", handleKeyUp);
+    editor.addEventListener("blur", handleBlur);
+    return () => {
+      editor.removeEventListener("keydown", handleKeyDown, true);
+      editor.removeEventListener("input", updateQuery);
+      editor.removeEventListener("click", updateQuery);
+      editor.removeEventListener("keyup", handleKeyUp);
+      editor.removeEventListener("blur", handleBlur);
+    };
+  }, [editorRef, selectCandidate, updateQuery]);
+
+  if (!mentionQuery || suggestions.length === 0) return null;
+
+  return (
+    <MentionSuggestionList
+      candidates={suggestions}
+      activeIndex={Math.min(activeIndex, suggestions.length - 1)}
+      onSelect={selectCandidate}
+      onHover={setActiveIndex}
+      className="absolute"
+      style={{ left: `${mentionQuery.x}px`, top: `${mentionQuery.y + 4}px` }}
+    />
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import { findNoteLinkQuery, noteLinkHref, type NoteLinkCandidate } from "@/lib/noteLinks";
+
+interface NoteLinkAutocompleteProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  searchNotes: (query: string) => Promise<NoteLinkCandidate[]>;
+}
+
+interface EditorNoteLinkQuery {
+  node: Text;
+  start: number;
+  end: number;
+  query: string;
+  closed: boolean;
+  x: number;
+  y: number;
+}
+
+// Waits for a pause in typing before searching
+const SEARCH_DELAY_MS = 150;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Suggests notes to link to while typing `[[title` in the editor. The chosen note replaces the
+ * typed text with a link to it, inserted like regular input so that it goes through the usual
+ * change and history handling.
+ */
+export default function NoteLinkAutocomplete({ editorRef, searchNotes }: Readonly<NoteLinkAutocompleteProps>) {
+  const [linkQuery, setLinkQuery] = useState<EditorNoteLinkQuery | null>(null);
+  const [suggestions, setSuggestions] = useState<NoteLinkCandidate[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const requestIdRef = useRef(0);
+
+  const stateRef = useRef({ linkQuery, suggestions, activeIndex });
+  stateRef.current = { linkQuery, suggestions, activeIndex };
+
+  const updateQuery = useCallback(() => {
+    const editor = editorRef.current;
+    const selection = globalThis.window.getSelection();
+    if (!editor || !selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+      setLinkQuery(null);
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    const node = range.startContainer;
+    if (node.nodeType !== Node.TEXT_NODE || !editor.contains(node) || node.parentElement?.closest("pre, code, a")) {
+      setLinkQuery(null);
+      return;
+    }
+    const found = findNoteLinkQuery((node.textContent ?? "").slice(0, range.startOffset));
+    if (!found) {
+      setLinkQuery(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const editorRect = editor.getBoundingClientRect();
+    if (stateRef.current.linkQuery?.query !== found.query) setActiveIndex(0);
+    setLinkQuery({
+      node: node as Text,
+      start: found.start,
+      end: range.startOffset,
+      query: found.query,
+      closed: found.closed,
+      x: rect.left - editorRect.left,
+      y: rect.bottom - editorRect.top,
+    });
+  }, [editorRef]);
+
+  const selectCandidate = useCallback((candidate: NoteLinkCandidate) => {
+    const editor = editorRef.current;
+    const current = stateRef.current.linkQuery;
+    const selection = globalThis.window.getSelection();
+    if (!editor || !current || !selection || !current.node.isConnected) return;
+
+    const range = document.createRange();
+    range.setStart(current.node, current.start);
+    range.setEnd(current.node, Math.min(current.end, current.node.length));
+    selection.removeAllRanges();
+    selection.addRange(range);
+    editor.focus();
+    // Dispatches the input event the editor listens to
+    document.execCommand(
+      "insertHTML",
+      false,
+      `<a href="${noteLinkHref(candidate.id)}">${escapeHtml(candidate.title)}</a>&nbsp;`
+    );
+    setLinkQuery(null);
+  }, [editorRef]);
+
+  const query = linkQuery?.query ?? null;
+  useEffect(() => {
+    if (query === null) {
+      setSuggestions([]);
+      return;
+    }
+    const requestId = ++requestIdRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchNotes(query.trim());
+        if (requestId === requestIdRef.current) setSuggestions(results);
+      } catch (error) {
+        console.error("Note link search failed:", error);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query, searchNotes]);
+
+  // `[[Exact title]]` typed in full links to that note
+  useEffect(() => {
+    if (!linkQuery?.closed) return;
+    const title = linkQuery.query.trim().toLowerCase();
+    const exact = suggestions.filter((candidate) => candidate.title.trim().toLowerCase() === title);
+    if (title && exact.length === 1) selectCandidate(exact[0]);
+  }, [linkQuery, selectCandidate, suggestions]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // Registered in the capture phase so that navigation keys never reach the editor's own shortcuts
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { linkQuery: current, suggestions: items, activeIndex: index } = stateRef.current;
+      if (!current || items.length === 0) return;
+
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index + step + items.length) % items.length);
+      } else if (event.key === "Enter" || event.key === "Tab") {
+        selectCandidate(items[Math.min(index, items.length - 1)]);
+      } else if (event.key === "Escape") {
+        setLinkQuery(null);
+      } else {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    // Typing is followed through input events; only caret moves need keyup
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (["ArrowLeft", "ArrowRight", "Home", "End"].includes(event.key)) updateQuery();
+    };
+
+    const handleBlur = () => setLinkQuery(null);
+
+    editor.addEventListener("keydown", handleKeyDown, true);
+    editor.addEventListener("input", updateQuery);
+    editor.addEventListener("click", updateQuery);
+    editor.addEventListener("keyup", handleKeyUp);
+    editor.addEventListener("blur", handleBlur);
+    return () => {
+      editor.removeEventListener("keydown", handleKeyDown, true);
+      editor.removeEventListener("input", updateQuery);
+      editor.removeEventListener("click", updateQuery);
+      editor.removeEventListener("keyup", handleKeyUp);
+      editor.removeEventListener("blur", handleBlur);
+    };
+  }, [editorRef, selectCandidate, updateQuery]);
+
+  if (!linkQuery || suggestions.length === 0) return null;
+  const selectedIndex = Math.min(activeIndex, suggestions.length - 1);
+
+  return (
+    <ul
+      role="listbox"
+      className="absolute z-50 w-72 max-h-72 overflow-y-auto rounded-lg border border-border bg-card shadow-lg py-1 text-sm"
+      style={{ left: `${linkQuery.x}px`, top: `${linkQuery.y + 4}px` }}
+    >
+      {suggestions.map((candidate, index) => (
+        <li key={candidate.id} role="option" aria-selected={index === selectedIndex}>
+          <button
+            type="button"
+            className={cn(
+              "flex w-full items-center gap-2 px-3 py-1.5 text-left",
+              index === selectedIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+            )}
+            // Keep the caret in the editor, where the link is inserted
+            onMouseDown={(event) => event.preventDefault()}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => selectCandidate(candidate)}
+          >
+            <Icon name="document" className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <span className="truncate flex-1">{candidate.title || "Untitled"}</span>
+            {candidate.shared && <span className="text-xs text-muted-foreground">Shared</span>}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
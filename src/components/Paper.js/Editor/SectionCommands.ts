@@ -0,0 +1,54 @@
+// Sections of the WYSIWYG editor, as reordered from the outline panel.
+// A section is a heading at the top level of the editor followed by the blocks up to the next
+// heading of the same or a higher level (so subsections move with it).
+import { getHeadingAnchors } from "@/lib/headingAnchors";
+
+function headingLevel(node: Node): number | null {
+  if (node.nodeType !== Node.ELEMENT_NODE) return null;
+  const match = /^H([1-6])$/.exec((node as Element).tagName);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * The nodes of the section a top-level heading starts, heading included.
+ */
+export function getSectionNodes(heading: HTMLElement, editor: HTMLElement): Node[] {
+  const level = headingLevel(heading);
+  if (level === null || heading.parentNode !== editor) return [];
+  const nodes: Node[] = [heading];
+  let next = heading.nextSibling;
+  while (next) {
+    const nextLevel = headingLevel(next);
+    if (nextLevel !== null && nextLevel <= level) break;
+    nodes.push(next);
+    next = next.nextSibling;
+  }
+  return nodes;
+}
+
+/**
+ * Moves the section of the heading anchored `fromAnchor` before the heading anchored
+ * `beforeAnchor`, or to the end of the note when `beforeAnchor` is empty. Returns whether
+ * something moved: headings nested in other blocks, or a target inside the moved section,
+ * leave the note unchanged.
+ */
+export function moveSection(editor: HTMLElement, fromAnchor: string, beforeAnchor: string): boolean {
+  const headings = getHeadingAnchors(editor);
+  const source = headings.find((heading) => heading.anchor === fromAnchor)?.element;
+  if (!source) return false;
+  const nodes = getSectionNodes(source, editor);
+  if (nodes.length === 0) return false;
+
+  let reference: Node | null = null;
+  if (beforeAnchor) {
+    const target = headings.find((heading) => heading.anchor === beforeAnchor)?.element;
+    if (!target || target.parentNode !== editor || nodes.includes(target)) return false;
+    reference = target;
+  }
+  if (reference === nodes[nodes.length - 1].nextSibling) return false;
+
+  const fragment = document.createDocumentFragment();
+  nodes.forEach((node) => fragment.appendChild(node));
+  editor.insertBefore(fragment, reference);
+  return true;
+}
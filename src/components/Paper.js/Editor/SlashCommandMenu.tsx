@@ -0,0 +1,168 @@
+"use client";
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import type { FormattingHandler } from "./FormattingHandler";
+import { runBlockCommand } from "./InputRules";
+import { filterSlashCommands, findSlashQuery, type SlashCommand } from "./SlashCommands";
+
+interface SlashCommandMenuProps {
+  editorRef: React.RefObject<HTMLDivElement | null>;
+  formattingHandler: React.MutableRefObject<FormattingHandler | null>;
+}
+
+interface EditorSlashQuery {
+  node: Text;
+  start: number;
+  end: number;
+  query: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Command menu opened by typing "/" in the editor. The typed "/command" is removed before the
+ * command runs, and the content without it is saved first so that undo removes the inserted block.
+ */
+export default function SlashCommandMenu({ editorRef, formattingHandler }: Readonly<SlashCommandMenuProps>) {
+  const [slashQuery, setSlashQuery] = useState<EditorSlashQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+  // "/" dismissed with Escape: not offered again until another one is typed
+  const dismissedRef = useRef<{ node: Text; start: number } | null>(null);
+
+  const commands = slashQuery ? filterSlashCommands(slashQuery.query) : [];
+  const stateRef = useRef({ slashQuery, commands, activeIndex });
+  stateRef.current = { slashQuery, commands, activeIndex };
+
+  const updateQuery = useCallback(() => {
+    const editor = editorRef.current;
+    const selection = globalThis.window.getSelection();
+    if (!editor || !selection || selection.rangeCount === 0 || !selection.isCollapsed) {
+      setSlashQuery(null);
+      return;
+    }
+    const range = selection.getRangeAt(0);
+    const node = range.startContainer;
+    if (node.nodeType !== Node.TEXT_NODE || !editor.contains(node) || node.parentElement?.closest("pre, code")) {
+      setSlashQuery(null);
+      return;
+    }
+    const found = findSlashQuery((node.textContent ?? "").slice(0, range.startOffset));
+    const dismissed = dismissedRef.current;
+    if (!found || (dismissed && dismissed.node === node && dismissed.start === found.start)) {
+      setSlashQuery(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const editorRect = editor.getBoundingClientRect();
+    if (stateRef.current.slashQuery?.query !== found.query) setActiveIndex(0);
+    setSlashQuery({
+      node: node as Text,
+      start: found.start,
+      end: range.startOffset,
+      query: found.query,
+      x: rect.left - editorRect.left,
+      y: rect.bottom - editorRect.top,
+    });
+  }, [editorRef]);
+
+  const runCommand = useCallback((command: SlashCommand) => {
+    const editor = editorRef.current;
+    const handler = formattingHandler.current;
+    const current = stateRef.current.slashQuery;
+    const selection = globalThis.window.getSelection();
+    setSlashQuery(null);
+    if (!editor || !handler || !current || !selection || !current.node.isConnected) return;
+
+    current.node.deleteData(current.start, Math.min(current.end, current.node.length) - current.start);
+    const range = document.createRange();
+    range.setStart(current.node, current.start);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+    editor.focus();
+    handler.flushMarkdown();
+
+    if (command.media) {
+      window.dispatchEvent(new CustomEvent("wysiwyg:open-media", { detail: command.media }));
+    } else if (command.command) {
+      runBlockCommand(handler, editor, command.command, command.value);
+    }
+  }, [editorRef, formattingHandler]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    // Registered in the capture phase so that navigation keys never reach the editor's own shortcuts
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const { slashQuery: current, commands: items, activeIndex: index } = stateRef.current;
+      if (!current || items.length === 0) return;
+
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index + step + items.length) % items.length);
+      } else if (event.key === "Enter" || event.key === "Tab") {
+        runCommand(items[Math.min(index, items.length - 1)]);
+      } else if (event.key === "Escape") {
+        dismissedRef.current = { node: current.node, start: current.start };
+        setSlashQuery(null);
+      } else {
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+    };
+
+    // Typing is followed through input events; only caret moves need keyup
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (["ArrowLeft", "ArrowRight", "Home", "End"].includes(event.key)) updateQuery();
+    };
+
+    const handleBlur = () => setSlashQuery(null);
+
+    editor.addEventListener("keydown", handleKeyDown, true);
+    editor.addEventListener("input", updateQuery);
+    editor.addEventListener("click", updateQuery);
+    editor.addEventListener("keyup", handleKeyUp);
+    editor.addEventListener("blur", handleBlur);
+    return () => {
+      editor.removeEventListener("keydown", handleKeyDown, true);
+      editor.removeEventListener("input", updateQuery);
+      editor.removeEventListener("click", updateQuery);
+      editor.removeEventListener("keyup", handleKeyUp);
+      editor.removeEventListener("blur", handleBlur);
+    };
+  }, [editorRef, runCommand, updateQuery]);
+
+  if (!slashQuery || commands.length === 0) return null;
+  const selectedIndex = Math.min(activeIndex, commands.length - 1);
+
+  return (
+    <ul
+      role="listbox"
+      className="absolute z-50 w-56 max-h-72 overflow-y-auto rounded-lg border border-border bg-card shadow-lg py-1 text-sm"
+      style={{ left: `${slashQuery.x}px`, top: `${slashQuery.y + 4}px` }}
+    >
+      {commands.map((command, index) => (
+        <li key={command.id} role="option" aria-selected={index === selectedIndex}>
+          <button
+            type="button"
+            className={cn(
+              "flex w-full items-center gap-2 px-3 py-1.5 text-left",
+              index === selectedIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+            )}
+            // Keep the caret in the editor, where the command applies
+            onMouseDown={(event) => event.preventDefault()}
+            onMouseEnter={() => setActiveIndex(index)}
+            onClick={() => runCommand(command)}
+          >
+            <Icon name={command.icon} className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+            <span className="truncate">{command.label}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
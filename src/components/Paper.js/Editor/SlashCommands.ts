@@ -0,0 +1,71 @@
+// "/" commands of the WYSIWYG editor.
+// Block commands run the FormattingHandler command of the same name; media commands open the
+// toolbar picker or modal through a `wysiwyg:open-media` event.
+import type { IconName } from "@/components/Icon";
+
+export type SlashMediaKind = "image" | "drawing";
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  icon: IconName;
+  keywords: string[];
+  command?: string;
+  value?: string;
+  media?: SlashMediaKind;
+}
+
+export interface SlashQuery {
+  start: number;
+  query: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { id: "heading1", label: "Heading 1", icon: "heading", keywords: ["h1", "title"], command: "formatBlock", value: "h1" },
+  { id: "heading2", label: "Heading 2", icon: "heading", keywords: ["h2", "subtitle"], command: "formatBlock", value: "h2" },
+  { id: "heading3", label: "Heading 3", icon: "heading", keywords: ["h3"], command: "formatBlock", value: "h3" },
+  { id: "bulletList", label: "Bulleted list", icon: "listBulleted", keywords: ["list", "ul", "bullet"], command: "insertUnorderedList" },
+  { id: "numberedList", label: "Numbered list", icon: "listNumbered", keywords: ["list", "ol", "ordered"], command: "insertOrderedList" },
+  { id: "checklist", label: "Checklist", icon: "listChecklist", keywords: ["todo", "task", "checkbox"], command: "insertChecklist" },
+  { id: "quote", label: "Quote", icon: "quote", keywords: ["blockquote", "citation"], command: "insertQuote" },
+  { id: "divider", label: "Divider", icon: "minus", keywords: ["hr", "rule", "separator"], command: "insertHorizontalRule" },
+  { id: "codeBlock", label: "Code block", icon: "codeBlock", keywords: ["code", "pre", "snippet"], command: "insertCodeBlock" },
+  { id: "mathBlock", label: "Math block", icon: "sigma", keywords: ["formula", "equation", "latex", "tex"], command: "insertMath", value: "block" },
+  { id: "inlineMath", label: "Inline math", icon: "sigma", keywords: ["formula", "equation", "latex", "tex"], command: "insertMath" },
+  { id: "table", label: "Table", icon: "table", keywords: ["grid"], command: "insertTable", value: "3x3" },
+  { id: "image", label: "Image", icon: "image", keywords: ["picture", "photo", "upload"], media: "image" },
+  { id: "drawing", label: "Drawing", icon: "pencil", keywords: ["draw", "sketch", "canvas"], media: "drawing" },
+];
+
+// "/" at the start of a line or after a space, followed by the command being typed
+const SLASH_QUERY_PATTERN = /(?:^|\s)\/([a-zA-Z0-9]{0,20})$/;
+
+/**
+ * The "/" command being typed just before the caret, if any.
+ */
+export function findSlashQuery(textBeforeCaret: string): SlashQuery | null {
+  const match = SLASH_QUERY_PATTERN.exec(textBeforeCaret.replace(/\u200B/g, " "));
+  if (!match) return null;
+  const query = match[1];
+  return { start: textBeforeCaret.length - query.length - 1, query };
+}
+
+/**
+ * Commands matching `query`, commands whose label starts with it first.
+ */
+export function filterSlashCommands(query: string): SlashCommand[] {
+  const normalized = query.toLowerCase();
+  if (!normalized) return SLASH_COMMANDS;
+  const scored = SLASH_COMMANDS
+    .map((command) => {
+      const label = command.label.toLowerCase();
+      let score = -1;
+      if (label.startsWith(normalized)) score = 0;
+      else if (label.split(" ").some((word) => word.startsWith(normalized))) score = 1;
+      else if (command.keywords.some((keyword) => keyword.startsWith(normalized))) score = 2;
+      return { command, score };
+    })
+    .filter((entry) => entry.score >= 0);
+  // Array.prototype.sort is stable: commands keep their menu order within a score
+  return scored.sort((a, b) => a.score - b.score).map((entry) => entry.command);
+}
@@ -0,0 +1,230 @@
+// Table editing helpers for the WYSIWYG editor.
+// Tables follow the GFM model: an optional header row in <thead>, body rows in <tbody>,
+// and one alignment per column (stored as text-align on every cell of the column).
+
+export type TableAlign = 'left' | 'center' | 'right';
+
+export const MAX_TABLE_SIZE = 20;
+
+function createCell(tagName: 'td' | 'th', align?: string): HTMLTableCellElement {
+  const cell = document.createElement(tagName);
+  if (align) cell.style.textAlign = align;
+  cell.appendChild(document.createElement('br'));
+  return cell;
+}
+
+// Replaces a cell by one of the other kind (td <-> th), keeping its content and style
+function retagCell(cell: HTMLTableCellElement, tagName: 'td' | 'th'): HTMLTableCellElement {
+  if (cell.tagName.toLowerCase() === tagName) return cell;
+  const replacement = document.createElement(tagName);
+  Array.from(cell.attributes).forEach((attr) => replacement.setAttribute(attr.name, attr.value));
+  while (cell.firstChild) replacement.appendChild(cell.firstChild);
+  cell.replaceWith(replacement);
+  return replacement;
+}
+
+function getBody(table: HTMLTableElement): HTMLTableSectionElement {
+  return table.tBodies[0] ?? table.createTBody();
+}
+
+function getColumnCount(table: HTMLTableElement): number {
+  return Math.max(0, ...Array.from(table.rows).map((row) => row.cells.length));
+}
+
+export function createTable(rowCount: number, columnCount: number, withHeader: boolean = true): HTMLTableElement {
+  const rows = Math.max(1, Math.min(MAX_TABLE_SIZE, rowCount));
+  const columns = Math.max(1, Math.min(MAX_TABLE_SIZE, columnCount));
+  const table = document.createElement('table');
+
+  if (withHeader) {
+    const headerRow = table.createTHead().insertRow();
+    for (let i = 0; i < columns; i++) headerRow.appendChild(createCell('th'));
+  }
+  const body = table.createTBody();
+  for (let r = 0; r < rows - (withHeader ? 1 : 0); r++) {
+    const row = body.insertRow();
+    for (let i = 0; i < columns; i++) row.appendChild(createCell('td'));
+  }
+  return table;
+}
+
+export function getTableCell(node: Node | null, root: HTMLElement | null): HTMLTableCellElement | null {
+  const element = node && node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element | null);
+  const cell = element?.closest?.('td, th') as HTMLTableCellElement | null;
+  return cell && root?.contains(cell) ? cell : null;
+}
+
+export function getCellTable(cell: HTMLTableCellElement): HTMLTableElement | null {
+  return cell.closest('table');
+}
+
+export function placeCaretInCell(cell: HTMLTableCellElement, selectContents: boolean = false) {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.selectNodeContents(cell);
+  if (!selectContents) range.collapse(false);
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+export function getColumnAlign(table: HTMLTableElement, columnIndex: number): TableAlign | null {
+  const firstRow = table.rows[0];
+  const cell = firstRow?.cells[columnIndex];
+  const align = (cell?.style.textAlign || cell?.getAttribute('align') || '').toLowerCase();
+  return align === 'left' || align === 'center' || align === 'right' ? align : null;
+}
+
+/**
+ * Inserts a row next to the row of `cell` and returns its first cell.
+ * Rows are never added to the header: inserting around it adds a first body row.
+ */
+export function insertTableRow(cell: HTMLTableCellElement, position: 'above' | 'below'): HTMLTableCellElement | null {
+  const table = getCellTable(cell);
+  const row = cell.parentElement as HTMLTableRowElement | null;
+  if (!table || !row) return null;
+
+  const columnCount = getColumnCount(table);
+  const newRow = document.createElement('tr');
+  for (let i = 0; i < columnCount; i++) {
+    newRow.appendChild(createCell('td', getColumnAlign(table, i) ?? undefined));
+  }
+
+  if (row.parentElement?.tagName === 'THEAD') {
+    const body = getBody(table);
+    body.insertBefore(newRow, body.firstChild);
+  } else if (position === 'above') {
+    row.before(newRow);
+  } else {
+    row.after(newRow);
+  }
+  return newRow.cells[0] ?? null;
+}
+
+/**
+ * Removes the row of `cell` (the whole table when it was its last row) and returns the cell
+ * the caret should move to.
+ */
+export function removeTableRow(cell: HTMLTableCellElement): HTMLTableCellElement | null {
+  const table = getCellTable(cell);
+  const row = cell.parentElement as HTMLTableRowElement | null;
+  if (!table || !row) return null;
+
+  if (table.rows.length <= 1) {
+    removeTable(table);
+    return null;
+  }
+
+  const rows = Array.from(table.rows);
+  const index = rows.indexOf(row);
+  const columnIndex = cell.cellIndex;
+  row.remove();
+  if (table.tHead && table.tHead.rows.length === 0) table.deleteTHead();
+
+  const nextRow = table.rows[Math.min(index, table.rows.length - 1)];
+  return nextRow?.cells[Math.min(columnIndex, nextRow.cells.length - 1)] ?? null;
+}
+
+/**
+ * Inserts a column next to the column of `cell` and returns the new cell of the same row.
+ */
+export function insertTableColumn(cell: HTMLTableCellElement, position: 'left' | 'right'): HTMLTableCellElement | null {
+  const table = getCellTable(cell);
+  if (!table) return null;
+
+  const index = cell.cellIndex + (position === 'right' ? 1 : 0);
+  let sameRowCell: HTMLTableCellElement | null = null;
+  for (const row of Array.from(table.rows)) {
+    const tagName = row.parentElement?.tagName === 'THEAD' ? 'th' : 'td';
+    const newCell = createCell(tagName);
+    row.insertBefore(newCell, row.cells[index] ?? null);
+    if (row === cell.parentElement) sameRowCell = newCell;
+  }
+  return sameRowCell;
+}
+
+/**
+ * Removes the column of `cell` (the whole table when it was its last column) and returns the
+ * cell the caret should move to.
+ */
+export function removeTableColumn(cell: HTMLTableCellElement): HTMLTableCellElement | null {
+  const table = getCellTable(cell);
+  const row = cell.parentElement as HTMLTableRowElement | null;
+  if (!table || !row) return null;
+
+  if (getColumnCount(table) <= 1) {
+    removeTable(table);
+    return null;
+  }
+
+  const index = cell.cellIndex;
+  for (const tableRow of Array.from(table.rows)) {
+    tableRow.cells[index]?.remove();
+  }
+  return row.cells[Math.min(index, row.cells.length - 1)] ?? null;
+}
+
+/**
+ * Turns the first row into a header row, or the header row back into a body row.
+ */
+export function toggleTableHeader(table: HTMLTableElement): void {
+  const head = table.tHead;
+  if (head && head.rows.length > 0) {
+    const body = getBody(table);
+    Array.from(head.rows).reverse().forEach((row) => {
+      Array.from(row.cells).forEach((cell) => retagCell(cell, 'td'));
+      body.insertBefore(row, body.firstChild);
+    });
+    table.deleteTHead();
+    return;
+  }
+
+  const firstRow = table.rows[0];
+  if (!firstRow) return;
+  Array.from(firstRow.cells).forEach((cell) => retagCell(cell, 'th'));
+  table.createTHead().appendChild(firstRow);
+}
+
+/**
+ * Aligns the column of `cell`. Choosing the current alignment again clears it.
+ */
+export function setColumnAlign(cell: HTMLTableCellElement, align: TableAlign): void {
+  const table = getCellTable(cell);
+  if (!table) return;
+  const index = cell.cellIndex;
+  const nextAlign = getColumnAlign(table, index) === align ? '' : align;
+  for (const row of Array.from(table.rows)) {
+    const columnCell = row.cells[index];
+    if (!columnCell) continue;
+    columnCell.removeAttribute('align');
+    columnCell.style.textAlign = nextAlign;
+    if (!columnCell.getAttribute('style')) columnCell.removeAttribute('style');
+  }
+}
+
+export function removeTable(table: HTMLTableElement): void {
+  const paragraph = document.createElement('p');
+  paragraph.appendChild(document.createElement('br'));
+  table.replaceWith(paragraph);
+  const selection = window.getSelection();
+  if (selection) {
+    const range = document.createRange();
+    range.setStart(paragraph, 0);
+    range.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(range);
+  }
+}
+
+/**
+ * Cell reached with Tab (or Shift+Tab) from `cell`. Tab from the last cell adds a row.
+ */
+export function getAdjacentCell(cell: HTMLTableCellElement, backwards: boolean): HTMLTableCellElement | null {
+  const table = getCellTable(cell);
+  if (!table) return null;
+  const cells = Array.from(table.rows).flatMap((row) => Array.from(row.cells));
+  const index = cells.indexOf(cell);
+  if (backwards) return index > 0 ? cells[index - 1] : null;
+  if (index < cells.length - 1) return cells[index + 1];
+  return insertTableRow(cell, 'below');
+}
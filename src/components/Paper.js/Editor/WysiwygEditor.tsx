@@ -11,7 +11,19 @@ import { useEditorEffects } from "./EditorEffects";
 import { useUndoRedoHistory } from "./useUndoRedoHistory";
 import { useCursorTracking } from "@/lib/paper.js/useCursorTracking";
 import CursorOverlay from "./CursorOverlay";
+import CommentHighlightOverlay, { type CommentHighlight } from "./CommentHighlightOverlay";
+import MentionAutocomplete from "./MentionAutocomplete";
+import NoteLinkAutocomplete from "./NoteLinkAutocomplete";
+import CodeBlockToolbar from "./CodeBlockToolbar";
+import MathEditor from "./MathEditor";
+import FindReplaceBar from "./FindReplaceBar";
+import SlashCommandMenu from "./SlashCommandMenu";
+import type { TextAnchor } from "@/lib/commentAnchors";
+import type { MentionCandidate } from "@/lib/mentions";
+import type { NoteLinkCandidate } from "@/lib/noteLinks";
 import { sanitizeHtml, EDITOR_SANITIZE_CONFIG } from "@/lib/sanitizeHtml";
+import { renderDrawingsInHtml } from "./DrawingCommands";
+import { findHeadingByAnchor } from "@/lib/headingAnchors";
 
 interface WysiwygEditorProps {
   content: string;
@@ -23,7 +35,14 @@ interface WysiwygEditorProps {
   roomId?: string;
   username?: string;
   clientId?: string;
+  remoteRevision?: number;
   onEditorReady?: (element: HTMLDivElement | null) => void;
+  commentHighlights?: CommentHighlight[];
+  activeCommentId?: number | null;
+  onCommentHighlightSelect?: (id: number) => void;
+  onAddComment?: (anchor: TextAnchor) => void;
+  mentionCandidates?: MentionCandidate[];
+  searchNoteLinks?: (query: string) => Promise<NoteLinkCandidate[]>;
 }
 
 export default function WysiwygEditor({
@@ -36,7 +55,14 @@ export default function WysiwygEditor({
   roomId,
   username,
   clientId,
+  remoteRevision = 0,
   onEditorReady,
+  commentHighlights = [],
+  activeCommentId = null,
+  onCommentHighlightSelect,
+  onAddComment,
+  mentionCandidates = [],
+  searchNoteLinks,
 }: WysiwygEditorProps) {
   const [markdown, setMarkdown] = useState(content);
   
@@ -60,7 +86,7 @@ export default function WysiwygEditor({
 
   const setEditorHtml = (html: string) => {
     if (!editorRef.current) return;
-    const safeHtml = sanitizeHtml(html, EDITOR_SANITIZE_CONFIG);
+    const safeHtml = renderDrawingsInHtml(sanitizeHtml(html, EDITOR_SANITIZE_CONFIG));
     editorRef.current.innerHTML = safeHtml;
   };
 
@@ -240,6 +266,69 @@ export default function WysiwygEditor({
     }
   }, [content, markdown]);
 
+  // Merged remote content already includes local input, so it is applied even while typing
+  useEffect(() => {
+    if (remoteRevision === 0) return;
+    isLocalChangeRef.current = false;
+    lastSavedMarkdownRef.current = content;
+    setMarkdown(content);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [remoteRevision]);
+
+  // Expose the current editor markdown so collaborative sync can include input not yet emitted
+  useEffect(() => {
+    window.getWysiwygMarkdown = () => {
+      if (!editorRef.current || !markdownConverter.current) return null;
+      return markdownConverter.current.htmlToMarkdown(editorRef.current.innerHTML);
+    };
+    return () => {
+      delete window.getWysiwygMarkdown;
+    };
+  }, []);
+
+  // Links to a heading (`#anchor`) scroll to it once the content is rendered
+  useEffect(() => {
+    let observer: MutationObserver | null = null;
+    let giveUpTimeout: NodeJS.Timeout | null = null;
+
+    const stopWaiting = () => {
+      observer?.disconnect();
+      observer = null;
+      if (giveUpTimeout) clearTimeout(giveUpTimeout);
+    };
+
+    const scrollToHash = () => {
+      stopWaiting();
+      const anchor = window.location.hash.slice(1);
+      const editor = editorRef.current;
+      if (!anchor || !editor) return;
+
+      const reveal = () => {
+        const heading = findHeadingByAnchor(editor, anchor);
+        if (!heading) return false;
+        stopWaiting();
+        heading.scrollIntoView({ behavior: "smooth", block: "start" });
+        heading.classList.add("heading-anchor-target");
+        setTimeout(() => heading.classList.remove("heading-anchor-target"), 1500);
+        return true;
+      };
+      if (reveal()) return;
+      // The note may still be loading
+      observer = new MutationObserver(() => {
+        reveal();
+      });
+      observer.observe(editor, { childList: true, subtree: true });
+      giveUpTimeout = setTimeout(stopWaiting, 5000);
+    };
+
+    scrollToHash();
+    window.addEventListener("hashchange", scrollToHash);
+    return () => {
+      window.removeEventListener("hashchange", scrollToHash);
+      stopWaiting();
+    };
+  }, []);
+
   // Use custom hooks for event handlers and effects
   const eventHandlers = useEditorEventHandlers({
     editorRef,
@@ -283,6 +372,9 @@ export default function WysiwygEditor({
             </div>
           )}
           <div className="flex-1 relative">
+            {/* Find and replace (Ctrl+F / Ctrl+H) */}
+            <FindReplaceBar editorRef={editorRef} formattingHandler={formattingHandler} readOnly={readOnly} />
+
             <div
               ref={editorRef}
               contentEditable={!readOnly}
@@ -314,6 +406,44 @@ export default function WysiwygEditor({
               />
             )}
             
+            {/* Text ranges of comment threads */}
+            {(commentHighlights.length > 0 || onAddComment) && (
+              <CommentHighlightOverlay
+                editorRef={editorRef}
+                highlights={commentHighlights}
+                activeId={activeCommentId}
+                onSelectHighlight={onCommentHighlightSelect}
+                onAddComment={onAddComment}
+              />
+            )}
+
+            {/* @username completion */}
+            {!readOnly && mentionCandidates.length > 0 && (
+              <MentionAutocomplete editorRef={editorRef} candidates={mentionCandidates} />
+            )}
+
+            {/* [[Note title]] links */}
+            {!readOnly && searchNoteLinks && (
+              <NoteLinkAutocomplete editorRef={editorRef} searchNotes={searchNoteLinks} />
+            )}
+
+            {/* "/" command menu */}
+            {!readOnly && (
+              <SlashCommandMenu editorRef={editorRef} formattingHandler={formattingHandler} />
+            )}
+
+            {/* Language picker and copy button of code blocks */}
+            <CodeBlockToolbar
+              editorRef={editorRef}
+              readOnly={readOnly}
+              onChange={() => eventHandlers.handleEditorChange()}
+            />
+
+            {/* LaTeX source of the clicked formula */}
+            {!readOnly && (
+              <MathEditor editorRef={editorRef} onChange={() => eventHandlers.handleEditorChange()} />
+            )}
+
             {/* Inline image resize handle overlay */}
             <ImageOverlay 
               imageOverlayRect={imageOverlayRect}
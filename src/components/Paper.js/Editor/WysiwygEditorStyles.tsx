@@ -22,6 +22,36 @@ export default function WysiwygEditorStyles() {
         display: list-item !important;
         list-style-position: outside !important;
       }
+      /* Checklist items: the checkbox is drawn in the item's left padding */
+      .wysiwyg-editor li[data-checked] {
+        list-style-type: none !important;
+        position: relative !important;
+        padding-left: 1.75rem !important;
+        margin-left: -1.5rem !important;
+      }
+      .wysiwyg-editor li[data-checked]::before {
+        content: "" !important;
+        position: absolute !important;
+        left: 0.125rem !important;
+        top: 0.3em !important;
+        width: 1rem !important;
+        height: 1rem !important;
+        border: 2px solid #9ca3af !important;
+        border-radius: 0.25rem !important;
+        background-color: transparent !important;
+        cursor: pointer !important;
+        box-sizing: border-box !important;
+      }
+      .wysiwyg-editor li[data-checked="true"]::before {
+        border-color: #3b82f6 !important;
+        background-color: #3b82f6 !important;
+        background-image: url("data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 16 16' fill='none' stroke='white' stroke-width='2.5' stroke-linecap='round' stroke-linejoin='round'%3E%3Cpath d='M3.5 8.5l3 3 6-7'/%3E%3C/svg%3E") !important;
+        background-size: 100% 100% !important;
+      }
+      .wysiwyg-editor li[data-checked="true"] {
+        color: #6b7280 !important;
+        text-decoration: line-through !important;
+      }
       /* Handle aligned lists - ensure markers follow alignment */
       /* Center aligned lists */
       .wysiwyg-editor ul[style*="text-align: center"],
@@ -100,6 +130,24 @@ export default function WysiwygEditorStyles() {
         color: #1d4ed8 !important;
         text-decoration: underline !important;
       }
+      /* Links to other notes */
+      .wysiwyg-editor a[href^="/documents/"] {
+        text-decoration-style: dotted !important;
+        text-underline-offset: 3px;
+      }
+      /* Headings reached through their anchor stay clear of the sticky header */
+      .wysiwyg-editor h1,
+      .wysiwyg-editor h2,
+      .wysiwyg-editor h3,
+      .wysiwyg-editor h4,
+      .wysiwyg-editor h5,
+      .wysiwyg-editor h6 {
+        scroll-margin-top: 6rem;
+        transition: background-color 1s ease-out;
+      }
+      .wysiwyg-editor .heading-anchor-target {
+        background-color: rgba(59, 130, 246, 0.12);
+      }
       .wysiwyg-editor h1 {
         font-size: 1.875rem !important;
         font-weight: bold !important;
@@ -166,6 +214,132 @@ export default function WysiwygEditorStyles() {
         border-top: 1px solid #e5e7eb !important;
         margin: 2rem 0 !important;
       }
+      .wysiwyg-editor table {
+        border-collapse: collapse !important;
+        margin: 1rem 0 !important;
+        width: auto !important;
+        max-width: 100% !important;
+      }
+      .wysiwyg-editor th,
+      .wysiwyg-editor td {
+        border: 1px solid #e5e7eb !important;
+        padding: 0.375rem 0.75rem !important;
+        min-width: 3rem !important;
+        vertical-align: top !important;
+      }
+      .wysiwyg-editor th {
+        background-color: #f9fafb !important;
+        font-weight: 600 !important;
+        text-align: left;
+      }
+      .wysiwyg-editor code {
+        font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace !important;
+        font-size: 0.875em !important;
+        background-color: #f3f4f6 !important;
+        border-radius: 0.25rem !important;
+        padding: 0.125rem 0.25rem !important;
+      }
+      .wysiwyg-editor code::before,
+      .wysiwyg-editor code::after {
+        content: none !important;
+      }
+      .wysiwyg-editor pre {
+        margin: 1rem 0 !important;
+        padding: 0.75rem 1rem !important;
+        padding-right: 8rem !important;
+        background-color: #f6f8fa !important;
+        border: 1px solid #e5e7eb !important;
+        border-radius: 0.5rem !important;
+        color: #1f2328 !important;
+        white-space: pre !important;
+        overflow-x: auto !important;
+        tab-size: 2 !important;
+      }
+      .wysiwyg-editor pre code {
+        background-color: transparent !important;
+        padding: 0 !important;
+        border-radius: 0 !important;
+        font-size: 0.875rem !important;
+        color: inherit !important;
+      }
+      /* Syntax highlighting (highlight.js classes) */
+      .wysiwyg-editor .hljs-comment,
+      .wysiwyg-editor .hljs-quote { color: #6e7781 !important; font-style: italic; }
+      .wysiwyg-editor .hljs-keyword,
+      .wysiwyg-editor .hljs-selector-tag,
+      .wysiwyg-editor .hljs-doctag,
+      .wysiwyg-editor .hljs-meta .hljs-keyword { color: #cf222e !important; }
+      .wysiwyg-editor .hljs-string,
+      .wysiwyg-editor .hljs-regexp,
+      .wysiwyg-editor .hljs-meta .hljs-string { color: #0a3069 !important; }
+      .wysiwyg-editor .hljs-number,
+      .wysiwyg-editor .hljs-literal,
+      .wysiwyg-editor .hljs-attr,
+      .wysiwyg-editor .hljs-attribute,
+      .wysiwyg-editor .hljs-variable,
+      .wysiwyg-editor .hljs-template-variable,
+      .wysiwyg-editor .hljs-selector-attr,
+      .wysiwyg-editor .hljs-selector-class,
+      .wysiwyg-editor .hljs-selector-id { color: #0550ae !important; }
+      .wysiwyg-editor .hljs-title,
+      .wysiwyg-editor .hljs-title.function_,
+      .wysiwyg-editor .hljs-section { color: #8250df !important; }
+      .wysiwyg-editor .hljs-title.class_,
+      .wysiwyg-editor .hljs-type,
+      .wysiwyg-editor .hljs-built_in,
+      .wysiwyg-editor .hljs-name { color: #953800 !important; }
+      .wysiwyg-editor .hljs-symbol,
+      .wysiwyg-editor .hljs-bullet,
+      .wysiwyg-editor .hljs-link,
+      .wysiwyg-editor .hljs-meta { color: #116329 !important; }
+      .wysiwyg-editor .hljs-addition { color: #116329 !important; background-color: #dafbe1 !important; }
+      .wysiwyg-editor .hljs-deletion { color: #82071e !important; background-color: #ffebe9 !important; }
+      .wysiwyg-editor .hljs-emphasis { font-style: italic; }
+      .wysiwyg-editor .hljs-strong { font-weight: bold; }
+      /* LaTeX formulas (KaTeX) */
+      .wysiwyg-editor .math-inline,
+      .wysiwyg-editor .math-block {
+        cursor: pointer;
+        border-radius: 0.25rem;
+      }
+      .wysiwyg-editor .math-inline {
+        padding: 0 0.125rem;
+      }
+      .wysiwyg-editor .math-block {
+        display: block;
+        margin: 1rem 0 !important;
+        padding: 0.25rem 0;
+        text-align: center;
+        overflow-x: auto;
+        overflow-y: hidden;
+      }
+      .wysiwyg-editor .math-inline:hover,
+      .wysiwyg-editor .math-block:hover {
+        background-color: rgba(59, 130, 246, 0.08);
+      }
+      .wysiwyg-editor .math-block .katex-display {
+        margin: 0 !important;
+      }
+      /* Drawings: strokes are drawn on a white sheet, in dark mode too */
+      .wysiwyg-editor .drawing-block {
+        display: block;
+        width: fit-content;
+        max-width: 100%;
+        margin: 1rem 0 !important;
+        padding: 0.25rem;
+        background-color: #ffffff;
+        border: 1px solid #e5e7eb;
+        border-radius: 0.5rem;
+        cursor: pointer;
+      }
+      .wysiwyg-editor .drawing-block:hover {
+        border-color: #3b82f6;
+      }
+      .wysiwyg-editor .drawing-block svg {
+        display: block;
+        max-width: 100%;
+        height: auto;
+      }
       .wysiwyg-editor img {
         max-width: 100% !important;
         height: auto !important;
@@ -242,6 +416,68 @@ export default function WysiwygEditorStyles() {
       .dark .wysiwyg-editor hr {
         border-top-color: #374151 !important;
       }
+      .dark .wysiwyg-editor li[data-checked]::before {
+        border-color: #6b7280 !important;
+      }
+      .dark .wysiwyg-editor li[data-checked="true"]::before {
+        border-color: #3b82f6 !important;
+      }
+      .dark .wysiwyg-editor li[data-checked="true"] {
+        color: #9ca3af !important;
+      }
+      .dark .wysiwyg-editor code {
+        background-color: #1f2937 !important;
+      }
+      .dark .wysiwyg-editor pre {
+        background-color: #161b22 !important;
+        border-color: #374151 !important;
+        color: #e6edf3 !important;
+      }
+      .dark .wysiwyg-editor pre code {
+        background-color: transparent !important;
+      }
+      .dark .wysiwyg-editor .math-inline:hover,
+      .dark .wysiwyg-editor .math-block:hover {
+        background-color: rgba(96, 165, 250, 0.15);
+      }
+      .dark .wysiwyg-editor .hljs-comment,
+      .dark .wysiwyg-editor .hljs-quote { color: #8b949e !important; }
+      .dark .wysiwyg-editor .hljs-keyword,
+      .dark .wysiwyg-editor .hljs-selector-tag,
+      .dark .wysiwyg-editor .hljs-doctag,
+      .dark .wysiwyg-editor .hljs-meta .hljs-keyword { color: #ff7b72 !important; }
+      .dark .wysiwyg-editor .hljs-string,
+      .dark .wysiwyg-editor .hljs-regexp,
+      .dark .wysiwyg-editor .hljs-meta .hljs-string { color: #a5d6ff !important; }
+      .dark .wysiwyg-editor .hljs-number,
+      .dark .wysiwyg-editor .hljs-literal,
+      .dark .wysiwyg-editor .hljs-attr,
+      .dark .wysiwyg-editor .hljs-attribute,
+      .dark .wysiwyg-editor .hljs-variable,
+      .dark .wysiwyg-editor .hljs-template-variable,
+      .dark .wysiwyg-editor .hljs-selector-attr,
+      .dark .wysiwyg-editor .hljs-selector-class,
+      .dark .wysiwyg-editor .hljs-selector-id { color: #79c0ff !important; }
+      .dark .wysiwyg-editor .hljs-title,
+      .dark .wysiwyg-editor .hljs-title.function_,
+      .dark .wysiwyg-editor .hljs-section { color: #d2a8ff !important; }
+      .dark .wysiwyg-editor .hljs-title.class_,
+      .dark .wysiwyg-editor .hljs-type,
+      .dark .wysiwyg-editor .hljs-built_in,
+      .dark .wysiwyg-editor .hljs-name { color: #ffa657 !important; }
+      .dark .wysiwyg-editor .hljs-symbol,
+      .dark .wysiwyg-editor .hljs-bullet,
+      .dark .wysiwyg-editor .hljs-link,
+      .dark .wysiwyg-editor .hljs-meta { color: #7ee787 !important; }
+      .dark .wysiwyg-editor .hljs-addition { color: #aff5b4 !important; background-color: #033a16 !important; }
+      .dark .wysiwyg-editor .hljs-deletion { color: #ffdcd7 !important; background-color: #67060c !important; }
+      .dark .wysiwyg-editor th,
+      .dark .wysiwyg-editor td {
+        border-color: #374151 !important;
+      }
+      .dark .wysiwyg-editor th {
+        background-color: #1f2937 !important;
+      }
     `}</style>
   );
 }
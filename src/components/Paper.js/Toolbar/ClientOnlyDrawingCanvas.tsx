@@ -1,18 +1,7 @@
 "use client";
 import { useState, useEffect } from "react";
-import DrawingCanvas from "../DrawingCanvas";
-
-interface Drawing {
-  segments: Array<{
-    point: [number, number];
-    handleIn?: [number, number] | null;
-    handleOut?: [number, number] | null;
-  }>;
-  color: string;
-  size: number;
-  opacity: number;
-  closed?: boolean;
-}
+import DrawingCanvas, { type CanvasController, type CanvasStatus } from "../DrawingCanvas";
+import type { DrawingTool, SerializedPath } from "@/lib/paper.js/types";
 
 interface DrawingState {
   color: string;
@@ -23,11 +12,14 @@ interface DrawingState {
 interface ClientOnlyDrawingCanvasProps {
   mode: string;
   className?: string;
-  drawings?: Drawing[];
-  setDrawings: (drawings: Drawing[] | ((prev: Drawing[]) => Drawing[])) => void;
-  onDrawingData?: (drawing: Drawing) => void;
-  onCanvasReady?: (canvasCtrl: any) => void;
-  hasLoadedInitialDrawingsRef?: React.MutableRefObject<boolean>;
+  drawings?: SerializedPath[];
+  setDrawings: (drawings: SerializedPath[] | ((prev: SerializedPath[]) => SerializedPath[])) => void;
+  onDrawingData?: (drawing: SerializedPath) => void;
+  onDrawingsReplaced?: (drawings: SerializedPath[]) => void;
+  onCanvasReady?: (canvasCtrl: CanvasController) => void;
+  onStatusChange?: (status: CanvasStatus) => void;
+  tool?: DrawingTool;
+  historyKey?: string | null;
   drawingState?: DrawingState;
   setDrawingState?: (state: DrawingState | ((prev: DrawingState) => DrawingState) | Partial<DrawingState>) => void;
   [key: string]: any;
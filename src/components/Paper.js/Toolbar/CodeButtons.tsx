@@ -0,0 +1,32 @@
+"use client";
+
+import Icon from "@/components/Icon";
+interface CodeButtonsProps {
+  onFormatChange: (command: string) => void;
+}
+
+export default function CodeButtons({ onFormatChange }: CodeButtonsProps) {
+  return (
+    <>
+      {/* Inline code */}
+      <button
+        type="button"
+        onClick={() => onFormatChange('inlineCode')}
+        className="p-2 rounded transition-colors bg-muted hover:bg-muted/80 text-foreground"
+        title="Inline code (Ctrl+E)"
+      >
+        <Icon name="code" className="h-5 w-5" />
+      </button>
+
+      {/* Code block */}
+      <button
+        type="button"
+        onClick={() => onFormatChange('insertCodeBlock')}
+        className="p-2 rounded transition-colors bg-muted hover:bg-muted/80 text-foreground"
+        title="Code block (Ctrl+Shift+E)"
+      >
+        <Icon name="codeBlock" className="h-5 w-5" />
+      </button>
+    </>
+  );
+}
@@ -1,8 +1,13 @@
 "use client";
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useCallback } from "react";
 import dynamic from "next/dynamic";
 import Modal from "@/components/ui/modal";
 import { useDrawings } from "@/contexts/DrawingContext";
+import { createDrawingId, normalizeDrawingPaths } from "@/lib/paper.js/drawingBlocks";
+import { useCollaborativeDrawing } from "@/lib/paper.js/useCollaborativeDrawing";
+import Icon from "@/components/Icon";
+import type { CanvasController, CanvasStatus, ReorderDirection } from "../DrawingCanvas";
+import type { DrawingBlockData, DrawingTool, SerializedPath } from "@/lib/paper.js/types";
 
 const ClientOnlyDrawingCanvas = dynamic(() => import("./ClientOnlyDrawingCanvas"), { ssr: false });
 
@@ -10,20 +15,167 @@ interface DrawingModalProps {
   isOpen: boolean;
   onClose: () => void;
   onFormatChange: (command: string, value: string) => void;
+  // Drawing block to edit, null to draw a new one
+  drawing?: DrawingBlockData | null;
+  roomId?: string;
 }
 
-export default function DrawingModal({ isOpen, onClose, onFormatChange }: DrawingModalProps) {
-  const canvasCtrlRef = useRef<any>(null);
+const TOOLS: Array<{ tool: DrawingTool; label: string }> = [
+  { tool: "pen", label: "Pen" },
+  { tool: "eraser", label: "Eraser" },
+  { tool: "line", label: "Line" },
+  { tool: "arrow", label: "Arrow" },
+  { tool: "rectangle", label: "Rectangle" },
+  { tool: "ellipse", label: "Ellipse" },
+  { tool: "text", label: "Text" },
+  { tool: "select", label: "Select" },
+];
+
+const LAYER_ACTIONS: Array<{ direction: ReorderDirection; label: string; title: string }> = [
+  { direction: "front", label: "To front", title: "Bring the selection to the front" },
+  { direction: "forward", label: "Forward", title: "Bring the selection one step forward" },
+  { direction: "backward", label: "Backward", title: "Send the selection one step backward" },
+  { direction: "back", label: "To back", title: "Send the selection to the back" },
+];
+
+export default function DrawingModal({ isOpen, onClose, onFormatChange, drawing = null, roomId }: DrawingModalProps) {
+  const canvasCtrlRef = useRef<CanvasController | null>(null);
   const drawingModalContentRef = useRef<HTMLDivElement>(null);
+  const canvasAreaRef = useRef<HTMLDivElement>(null);
   const { drawings, setDrawings, drawingState, setDrawingState, resetDrawings } = useDrawings();
+  const [drawingId, setDrawingId] = useState<string | null>(null);
+  const [tool, setTool] = useState<DrawingTool>("pen");
+  const [status, setStatus] = useState<CanvasStatus>({ canUndo: false, canRedo: false, selectionCount: 0 });
+  // Drawing block whose strokes are on the canvas, if any
+  const loadedDrawingIdRef = useRef<string | null>(null);
+
+  // A new drawing keeps what was left on the canvas, an edited one starts from the block
+  useEffect(() => {
+    if (!isOpen) return;
+    if (drawing) {
+      setDrawings(drawing.paths);
+      loadedDrawingIdRef.current = drawing.id;
+      setDrawingId(drawing.id);
+      return;
+    }
+    if (loadedDrawingIdRef.current) {
+      setDrawings([]);
+      loadedDrawingIdRef.current = null;
+    }
+    setDrawingId(createDrawingId());
+  }, [isOpen, drawing, setDrawings]);
+
+  // Changes of the collaborators editing the same drawing
+  const handleRemotePath = useCallback((path: SerializedPath) => {
+    setDrawings((prev: SerializedPath[]) => {
+      const index = prev.findIndex((item) => item.id === path.id);
+      if (index === -1) return [...prev, path];
+      return prev.map((item, i) => (i === index ? path : item));
+    });
+  }, [setDrawings]);
+  const handleRemotePaths = useCallback((paths: SerializedPath[]) => setDrawings(paths), [setDrawings]);
+  const { sendPath, sendPaths } = useCollaborativeDrawing({
+    roomId,
+    drawingId: isOpen ? drawingId : null,
+    onRemotePath: handleRemotePath,
+    onRemotePaths: handleRemotePaths,
+  });
 
-  // Mount once on page load; do not clear on open/close. Users can clear manually.
+  const saveDrawing = async () => {
+    const ctrl = canvasCtrlRef.current;
+    const paths: SerializedPath[] = ctrl ? await ctrl.saveDrawings() : drawings;
+    const rect = canvasAreaRef.current?.getBoundingClientRect();
+    const data: DrawingBlockData = {
+      id: drawingId ?? createDrawingId(),
+      width: Math.round(Math.max(rect?.width || 0, drawing?.width || 0)) || 800,
+      height: Math.round(Math.max(rect?.height || 0, drawing?.height || 0)) || 480,
+      paths: normalizeDrawingPaths(paths),
+    };
+    if (drawing) {
+      onFormatChange('updateDrawing', JSON.stringify(data));
+    } else {
+      if (data.paths.length === 0) return;
+      onFormatChange('insertDrawing', JSON.stringify(data));
+    }
+
+    // clear canvas state so reopening shows empty canvas
+    resetDrawings();
+    loadedDrawingIdRef.current = null;
+    try {
+      if (ctrl) {
+        if (ctrl.clearAndSync) await ctrl.clearAndSync();
+        else ctrl.clearCanvas();
+      }
+    } catch (_e) {
+      // ignore
+    }
+    onClose();
+  };
 
   return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Draw" size="full" className="sm:max-w-4xl">
+    <Modal isOpen={isOpen} onClose={onClose} title={drawing ? "Edit drawing" : "Draw"} size="full" className="sm:max-w-4xl">
       <Modal.Content>
+        <div className="mb-3 flex flex-wrap items-center gap-1" role="toolbar" aria-label="Drawing tools">
+          {TOOLS.map((item) => (
+            <button
+              key={item.tool}
+              type="button"
+              aria-pressed={tool === item.tool}
+              className={`px-2.5 py-1.5 rounded text-sm ${tool === item.tool ? "bg-primary text-primary-foreground" : "bg-muted hover:bg-muted/80"}`}
+              onClick={() => setTool(item.tool)}
+            >
+              {item.label}
+            </button>
+          ))}
+          <span className="mx-1 h-6 w-px bg-border" />
+          <button
+            type="button"
+            title="Undo (Ctrl+Z)"
+            aria-label="Undo"
+            disabled={!status.canUndo}
+            className="p-1.5 rounded bg-muted hover:bg-muted/80 disabled:opacity-50"
+            onClick={() => canvasCtrlRef.current?.undo()}
+          >
+            <Icon name="undo" className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            title="Redo (Ctrl+Shift+Z)"
+            aria-label="Redo"
+            disabled={!status.canRedo}
+            className="p-1.5 rounded bg-muted hover:bg-muted/80 disabled:opacity-50"
+            onClick={() => canvasCtrlRef.current?.redo()}
+          >
+            <Icon name="redo" className="w-4 h-4" />
+          </button>
+          {status.selectionCount > 0 && (
+            <>
+              <span className="mx-1 h-6 w-px bg-border" />
+              {LAYER_ACTIONS.map((action) => (
+                <button
+                  key={action.direction}
+                  type="button"
+                  title={action.title}
+                  className="px-2.5 py-1.5 rounded text-sm bg-muted hover:bg-muted/80"
+                  onClick={() => canvasCtrlRef.current?.reorderSelection(action.direction)}
+                >
+                  {action.label}
+                </button>
+              ))}
+              <button
+                type="button"
+                title="Delete the selection (Delete)"
+                aria-label="Delete the selection"
+                className="p-1.5 rounded bg-muted hover:bg-muted/80"
+                onClick={() => canvasCtrlRef.current?.deleteSelection()}
+              >
+                <Icon name="trash" className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
         <div ref={drawingModalContentRef} className="w-full max-h-[80vh] relative bg-card border border-border rounded overflow-hidden">
-          <div className="relative w-full h-[50vh] sm:h-[60vh] md:h-[65vh]">
+          <div ref={canvasAreaRef} className="relative w-full h-[50vh] sm:h-[60vh] md:h-[65vh]">
             <ClientOnlyDrawingCanvas
               mode="draw"
               className="absolute inset-0 w-full h-full"
@@ -31,7 +183,12 @@ export default function DrawingModal({ isOpen, onClose, onFormatChange }: Drawin
               setDrawings={setDrawings}
               drawingState={drawingState}
               setDrawingState={setDrawingState}
-              onCanvasReady={(ctrl: any) => {
+              tool={tool}
+              historyKey={isOpen ? drawingId : null}
+              onDrawingData={sendPath}
+              onDrawingsReplaced={sendPaths}
+              onStatusChange={setStatus}
+              onCanvasReady={(ctrl: CanvasController) => {
                 canvasCtrlRef.current = ctrl;
               }}
             />
@@ -91,9 +248,8 @@ export default function DrawingModal({ isOpen, onClose, onFormatChange }: Drawin
           type="button"
           className="px-3 py-2 rounded bg-muted hover:bg-muted/80"
           onClick={() => {
-            // Reset
-            resetDrawings();
-            canvasCtrlRef.current?.clearCanvas?.();
+            // Undoable, and sent to the collaborators as an empty drawing
+            canvasCtrlRef.current?.clearCanvas();
           }}
         >
           Clear
@@ -101,30 +257,11 @@ export default function DrawingModal({ isOpen, onClose, onFormatChange }: Drawin
         <button
           type="button"
           className="px-3 py-2 rounded bg-primary text-primary-foreground hover:bg-primary/90"
-          onClick={async () => {
-            try {
-              const dataUrl = canvasCtrlRef.current?.exportAsDataURL?.();
-              if (dataUrl) {
-                onFormatChange('insertImage', dataUrl);
-                // clear canvas state so reopening shows empty canvas
-                resetDrawings();
-                try {
-                  const ctrl = canvasCtrlRef.current;
-                  if (ctrl) {
-                    if (typeof ctrl.clearAndSync === 'function') await ctrl.clearAndSync();
-                    else if (typeof ctrl.clearCanvas === 'function') ctrl.clearCanvas();
-                  }
-                } catch (_e) {
-                  // ignore
-                }
-                onClose();
-              }
-            } catch (e) {
-              console.error(e);
-            }
+          onClick={() => {
+            saveDrawing().catch((e) => console.error(e));
           }}
         >
-          Insert image
+          {drawing ? "Update drawing" : "Insert drawing"}
         </button>
       </Modal.Footer>
     </Modal>
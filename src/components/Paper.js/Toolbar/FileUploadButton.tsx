@@ -1,10 +1,12 @@
 "use client";
 
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import Icon from "@/components/Icon";
+import { MAX_ATTACHMENT_SIZE, MAX_MEDIA_ATTACHMENT_SIZE, uploadAttachment } from "@/lib/attachments";
 
 export interface UploadedFileData {
-  dataUrl: string;
+  // Attachment URL, or a data URL when the file is kept inside the note
+  url: string;
   name: string;
   type: string;
   size: number;
@@ -13,12 +15,13 @@ export interface UploadedFileData {
 interface FileUploadButtonProps {
   onFileSelect: (file: UploadedFileData) => void;
   disabled?: boolean;
+  // Note the file is uploaded for, null when it isn't saved yet
+  documentId?: number | null;
+  // Local notes keep their files inside the note, as do notes edited offline
+  inlineAttachments?: boolean;
 }
 
-const MAX_FILE_SIZE = 25 * 1024 * 1024; // 25MB
-const MAX_VIDEO_SIZE = 10 * 1024 * 1024; // 10MB for videos
-
-export default function FileUploadButton({ onFileSelect, disabled = false }: Readonly<FileUploadButtonProps>) {
+export default function FileUploadButton({ onFileSelect, disabled = false, documentId = null, inlineAttachments = false }: Readonly<FileUploadButtonProps>) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -60,11 +63,11 @@ export default function FileUploadButton({ onFileSelect, disabled = false }: Rea
     const isVideo = file.type.startsWith('video/') || file.type.startsWith('audio/');
     
     // Check size according to type
-    if (isVideo && file.size > MAX_VIDEO_SIZE) {
+    if (isVideo && file.size > MAX_MEDIA_ATTACHMENT_SIZE) {
       return `The video file is too large. Maximum size: 10MB`;
     }
     
-    if (!isVideo && file.size > MAX_FILE_SIZE) {
+    if (!isVideo && file.size > MAX_ATTACHMENT_SIZE) {
       return `The file is too large. Maximum size: 25MB`;
     }
 
@@ -92,16 +95,25 @@ export default function FileUploadButton({ onFileSelect, disabled = false }: Rea
       }
 
       const fileType = ensureMimeType(file);
-      const dataUrl = await readFileAsDataUrl(file);
-
-      if (!dataUrl) {
-        setError("Unable to read the selected file");
-        setIsProcessing(false);
-        return;
+      let url: string;
+
+      if (!inlineAttachments && navigator.onLine) {
+        const result = await uploadAttachment(file.slice(0, file.size, fileType), file.name, documentId);
+        if (!result.success || !result.attachment) {
+          setError(result.error || "Error during file upload");
+          return;
+        }
+        url = result.attachment.url;
+      } else {
+        url = await readFileAsDataUrl(file);
+        if (!url) {
+          setError("Unable to read the selected file");
+          return;
+        }
       }
 
       onFileSelect({
-        dataUrl,
+        url,
         name: file.name,
         type: fileType,
         size: file.size,
@@ -124,6 +136,15 @@ export default function FileUploadButton({ onFileSelect, disabled = false }: Rea
     fileInputRef.current?.click();
   };
 
+  // Images picked from the editor's "/" menu go through the same upload
+  useEffect(() => {
+    const handler = (e: Event) => {
+      if ((e as CustomEvent<string>).detail === 'image') fileInputRef.current?.click();
+    };
+    window.addEventListener('wysiwyg:open-media', handler as EventListener);
+    return () => window.removeEventListener('wysiwyg:open-media', handler as EventListener);
+  }, []);
+
   return (
     <>
       <button
@@ -3,6 +3,7 @@
 
 import { useState, useRef, useEffect } from "react";
 import Modal from "@/components/ui/modal";
+import { uploadAttachment } from "@/lib/attachments";
 
 interface ImageEditModalProps {
   isOpen: boolean;
@@ -10,6 +11,8 @@ interface ImageEditModalProps {
   onFormatChange: (command: string, value: string) => void;
   canEditImage: boolean;
   imageInfo: { src: string; naturalWidth: number; naturalHeight: number; styleWidth: string; styleHeight: string } | null;
+  documentId?: number | null;
+  inlineAttachments?: boolean;
 }
 
 export default function ImageEditModal({ 
@@ -17,7 +20,9 @@ export default function ImageEditModal({
   onClose, 
   onFormatChange, 
   canEditImage, 
-  imageInfo 
+  imageInfo,
+  documentId = null,
+  inlineAttachments = false,
 }: Readonly<ImageEditModalProps>) {
   const imageRef = useRef<HTMLImageElement>(null);
   const cropContainerRef = useRef<HTMLDivElement>(null);
@@ -141,8 +146,14 @@ export default function ImageEditModal({
     });
     try {
       ctx.drawImage(tmpImg, sx, sy, sw, sh, 0, 0, sw, sh);
-      const dataUrl = canvas.toDataURL('image/png');
-      onFormatChange('replaceSelectedImage', JSON.stringify({ src: dataUrl, widthPercent }));
+      let src = canvas.toDataURL('image/png');
+      // The cropped image is uploaded like any other, unless files stay inside the note
+      if (!inlineAttachments && navigator.onLine) {
+        const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+        const result = blob ? await uploadAttachment(blob, 'image.png', documentId) : null;
+        if (result?.success && result.attachment) src = result.attachment.url;
+      }
+      onFormatChange('replaceSelectedImage', JSON.stringify({ src, widthPercent }));
       onClose();
     } catch (err) {
       console.error("ImageEditModal: error cropping image", err);
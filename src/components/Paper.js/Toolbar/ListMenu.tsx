@@ -70,6 +70,17 @@ export default function ListMenu({ onFormatChange }: ListMenuProps) {
             >
               <Icon name="listNumbered" className="w-6 h-6" />
             </button>
+            <button
+              title="Checklist"
+              type="button"
+              onClick={() => {
+                onFormatChange('insertChecklist');
+                setShowListMenu(false);
+              }}
+              className="w-full px-4 py-2 text-left text-sm hover:bg-muted"
+            >
+              <Icon name="listChecklist" className="w-6 h-6" />
+            </button>
           </div>
         </div>
       )}
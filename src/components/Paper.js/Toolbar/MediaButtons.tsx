@@ -9,9 +9,11 @@ interface MediaButtonsProps {
   onFormatChange: (command: string, value?: string) => void;
   onShowDrawingModal: () => void;
   isSelectionActive: boolean;
+  documentId?: number | null;
+  inlineAttachments?: boolean;
 }
 
-export default function MediaButtons({ onFormatChange, onShowDrawingModal, isSelectionActive }: MediaButtonsProps) {
+export default function MediaButtons({ onFormatChange, onShowDrawingModal, isSelectionActive, documentId = null, inlineAttachments = false }: MediaButtonsProps) {
   const [showLinkPopin, setShowLinkPopin] = useState(false);
   const handleInsertLink = (u: string) => {
     try { window.restoreWysiwygSelection?.(); } catch {}
@@ -57,7 +59,12 @@ export default function MediaButtons({ onFormatChange, onShowDrawingModal, isSel
       </button>
 
       {/* File Upload */}
-      <FileUploadButton onFileSelect={handleFileSelect} disabled={mediaDisabled} />
+      <FileUploadButton
+        onFileSelect={handleFileSelect}
+        disabled={mediaDisabled}
+        documentId={documentId}
+        inlineAttachments={inlineAttachments}
+      />
 
       {showLinkPopin && (
         <ToolbarPopin
@@ -0,0 +1,145 @@
+"use client";
+import { useState, useEffect } from "react";
+import Icon from "@/components/Icon";
+
+interface TableMenuProps {
+  onFormatChange: (command: string, value?: string) => void;
+  isInTable: boolean;
+}
+
+const GRID_SIZE = 8;
+
+const TABLE_ACTIONS: { label: string; command: string; value?: string }[] = [
+  { label: "Insert row above", command: "addTableRow", value: "above" },
+  { label: "Insert row below", command: "addTableRow", value: "below" },
+  { label: "Insert column left", command: "addTableColumn", value: "left" },
+  { label: "Insert column right", command: "addTableColumn", value: "right" },
+  { label: "Delete row", command: "deleteTableRow" },
+  { label: "Delete column", command: "deleteTableColumn" },
+  { label: "Toggle header row", command: "toggleTableHeader" },
+];
+
+const ALIGN_ACTIONS = [
+  { title: "Align column left", value: "left", icon: "alignLeft" },
+  { title: "Center column", value: "center", icon: "alignCenter" },
+  { title: "Align column right", value: "right", icon: "alignRight" },
+] as const;
+
+export default function TableMenu({ onFormatChange, isInTable }: TableMenuProps) {
+  const [showTableMenu, setShowTableMenu] = useState(false);
+  const [hoverSize, setHoverSize] = useState<{ rows: number; columns: number } | null>(null);
+  const MENU_ID = 'tableMenu';
+
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const ce = e as CustomEvent<string>;
+      if (ce.detail !== MENU_ID) setShowTableMenu(false);
+    };
+    window.addEventListener('wysiwyg:open-menu', handler as EventListener);
+    return () => window.removeEventListener('wysiwyg:open-menu', handler as EventListener);
+  }, []);
+
+  useEffect(() => {
+    if (!showTableMenu) return;
+    const onDocMouse = (ev: MouseEvent) => {
+      const target = ev.target as Element | null;
+      if (target && !target.closest('[data-table-menu]')) setShowTableMenu(false);
+    };
+    document.addEventListener('mousedown', onDocMouse);
+    return () => document.removeEventListener('mousedown', onDocMouse);
+  }, [showTableMenu]);
+
+  const runCommand = (command: string, value?: string) => {
+    onFormatChange(command, value);
+    setShowTableMenu(false);
+  };
+
+  return (
+    <div className="relative" data-table-menu>
+      <button
+        type="button"
+        // Keep the caret in the editor so table commands apply to the current cell
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => {
+          const next = !showTableMenu;
+          setShowTableMenu(next);
+          setHoverSize(null);
+          window.dispatchEvent(new CustomEvent('wysiwyg:open-menu', { detail: next ? MENU_ID : '' }));
+        }}
+        className={`p-2 rounded transition-colors text-foreground ${isInTable ? "bg-primary/20 hover:bg-primary/30" : "bg-muted hover:bg-muted/80"}`}
+        title="Table"
+      >
+        <Icon name="table" className="h-5 w-5" />
+      </button>
+
+      {showTableMenu && (
+        <div
+          className="absolute top-full left-0 mt-1 bg-card rounded shadow-lg border border-border z-50 p-2 w-max"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {isInTable ? (
+            <div className="flex flex-col min-w-[11rem]">
+              {TABLE_ACTIONS.map((action) => (
+                <button
+                  key={`${action.command}-${action.value ?? ""}`}
+                  type="button"
+                  onClick={() => runCommand(action.command, action.value)}
+                  className="w-full px-3 py-1.5 text-left text-sm rounded hover:bg-muted"
+                >
+                  {action.label}
+                </button>
+              ))}
+              <div className="flex flex-row border-t border-border mt-1 pt-1">
+                {ALIGN_ACTIONS.map((action) => (
+                  <button
+                    key={action.value}
+                    title={action.title}
+                    type="button"
+                    onClick={() => runCommand('alignTableColumn', action.value)}
+                    className="flex-1 px-3 py-1.5 rounded hover:bg-muted"
+                  >
+                    <Icon name={action.icon} className="w-5 h-5" />
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => runCommand('deleteTable')}
+                className="w-full px-3 py-1.5 mt-1 text-left text-sm rounded text-destructive hover:bg-muted border-t border-border"
+              >
+                Delete table
+              </button>
+            </div>
+          ) : (
+            <div>
+              <div
+                className="grid gap-0.5"
+                style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, 1rem)` }}
+                onMouseLeave={() => setHoverSize(null)}
+              >
+                {Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, index) => {
+                  const rows = Math.floor(index / GRID_SIZE) + 1;
+                  const columns = (index % GRID_SIZE) + 1;
+                  const active = hoverSize !== null && rows <= hoverSize.rows && columns <= hoverSize.columns;
+                  return (
+                    <button
+                      key={index}
+                      type="button"
+                      aria-label={`${rows} x ${columns} table`}
+                      onMouseEnter={() => setHoverSize({ rows, columns })}
+                      onClick={() => runCommand('insertTable', `${rows}x${columns}`)}
+                      className={`h-4 w-4 rounded-sm border ${active ? "bg-primary/40 border-primary" : "bg-muted border-border"}`}
+                    />
+                  );
+                })}
+              </div>
+              <p className="mt-2 text-xs text-center text-muted-foreground">
+                {hoverSize ? `${hoverSize.rows} × ${hoverSize.columns}` : "Insert table"}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
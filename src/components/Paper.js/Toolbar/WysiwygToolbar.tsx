@@ -9,20 +9,29 @@ import AlignmentMenu from "./AlignmentMenu";
 import IndentButtons from "./IndentButtons";
 import MediaButtons from "./MediaButtons";
 import QuoteButtons from "./QuoteButtons";
+import CodeButtons from "./CodeButtons";
+import TableMenu from "./TableMenu";
 import DrawingModal from "./DrawingModal";
 import ImageEditModal from "./ImageEditModal";
 import ToolbarSeparator from "./ToolbarSeparator";
 import Icon from "@/components/Icon";
+import { getDrawingData } from "../Editor/DrawingCommands";
+import type { DrawingBlockData } from "@/lib/paper.js/types";
 
 interface WysiwygToolbarProps {
   onFormatChange: (command: string, value?: string) => void;
   showDebug?: boolean;
   onToggleDebug?: () => void;
   onOpenSynthesis?: () => void;
+  roomId?: string;
+  // Note that uploaded files are attached to, null when it isn't saved yet
+  documentId?: number | null;
+  inlineAttachments?: boolean;
 }
 
-export default function WysiwygToolbar({ onFormatChange, showDebug = false, onToggleDebug, onOpenSynthesis }: WysiwygToolbarProps) {
+export default function WysiwygToolbar({ onFormatChange, showDebug = false, onToggleDebug, onOpenSynthesis, roomId, documentId = null, inlineAttachments = false }: WysiwygToolbarProps) {
   const [showDrawingModal, setShowDrawingModal] = useState(false);
+  const [editedDrawing, setEditedDrawing] = useState<DrawingBlockData | null>(null);
   const [showImageEditModal, setShowImageEditModal] = useState(false);
   const [isBold, setIsBold] = useState(false);
   const [isItalic, setIsItalic] = useState(false);
@@ -35,6 +44,7 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
   const [canEditImage, setCanEditImage] = useState(false);
   const [imageInfo, setImageInfo] = useState<{ src: string; naturalWidth: number; naturalHeight: number; styleWidth: string; styleHeight: string } | null>(null);
   const [hasActiveSelection, setHasActiveSelection] = useState(false);
+  const [isInTable, setIsInTable] = useState(false);
 
   // Check current formatting state
   const checkFormatting = useCallback(() => {
@@ -133,10 +143,16 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
         const editorRoot = document.querySelector('[data-wysiwyg-editor-root="true"]');
         if (!selection || selection.rangeCount === 0 || !editorRoot) {
           setHasActiveSelection(false);
+          setIsInTable(false);
         } else {
           const range = selection.getRangeAt(0);
           const container = range.commonAncestorContainer;
           setHasActiveSelection(editorRoot.contains(container));
+          const startElement = range.startContainer.nodeType === Node.TEXT_NODE
+            ? range.startContainer.parentElement
+            : range.startContainer as Element;
+          const cell = startElement?.closest('td, th');
+          setIsInTable(!!cell && editorRoot.contains(cell));
         }
       }
       // Detect if an image is selected for editing
@@ -179,6 +195,30 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
     };
   }, [checkFormatting]);
 
+  // The editor's "/" menu opens the drawing canvas through the toolbar
+  useEffect(() => {
+    const handler = (e: Event) => {
+      if ((e as CustomEvent<string>).detail === 'drawing') {
+        setEditedDrawing(null);
+        setShowDrawingModal(true);
+      }
+    };
+    window.addEventListener('wysiwyg:open-media', handler as EventListener);
+    return () => window.removeEventListener('wysiwyg:open-media', handler as EventListener);
+  }, []);
+
+  // Drawings of the note are opened again in the canvas from the editor
+  useEffect(() => {
+    const handler = (e: Event) => {
+      const data = getDrawingData((e as CustomEvent<HTMLElement>).detail);
+      if (!data) return;
+      setEditedDrawing(data);
+      setShowDrawingModal(true);
+    };
+    window.addEventListener('wysiwyg:edit-drawing', handler as EventListener);
+    return () => window.removeEventListener('wysiwyg:edit-drawing', handler as EventListener);
+  }, []);
+
   // Expose a global opener so double-click from the editor can open this modal
   useEffect(() => {
     window.openImageEditModal = () => {
@@ -196,6 +236,16 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
         onFormatChange={onFormatChange} 
       />
 
+      {/* Find and replace */}
+      <button
+        type="button"
+        onClick={() => window.dispatchEvent(new CustomEvent('wysiwyg:open-find', { detail: { replace: true } }))}
+        className="p-2 rounded transition-colors bg-muted hover:bg-muted/80 text-foreground"
+        title="Find and replace (Ctrl+F)"
+      >
+        <Icon name="search" className="h-5 w-5" />
+      </button>
+
       <ToolbarSeparator />
 
       {/* Format Buttons */}
@@ -235,13 +285,24 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
       {/* Media Buttons */}
       <MediaButtons 
         onFormatChange={onFormatChange}
-        onShowDrawingModal={() => setShowDrawingModal(true)}
+        onShowDrawingModal={() => {
+          setEditedDrawing(null);
+          setShowDrawingModal(true);
+        }}
         isSelectionActive={hasActiveSelection}
+        documentId={documentId}
+        inlineAttachments={inlineAttachments}
       />
 
       {/* Quote Buttons */}
       <QuoteButtons onFormatChange={onFormatChange} />
 
+      {/* Code */}
+      <CodeButtons onFormatChange={onFormatChange} />
+
+      {/* Table Menu */}
+      <TableMenu onFormatChange={onFormatChange} isInTable={isInTable} />
+
       <ToolbarSeparator />
 
       {/* AI Synthesis Button */}
@@ -280,6 +341,8 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
         isOpen={showDrawingModal}
         onClose={() => setShowDrawingModal(false)}
         onFormatChange={onFormatChange}
+        drawing={editedDrawing}
+        roomId={roomId}
       />
 
       <ImageEditModal 
@@ -288,6 +351,8 @@ export default function WysiwygToolbar({ onFormatChange, showDebug = false, onTo
         onFormatChange={onFormatChange}
         canEditImage={canEditImage}
         imageInfo={imageInfo}
+        documentId={documentId}
+        inlineAttachments={inlineAttachments}
       />
     </div>
   );
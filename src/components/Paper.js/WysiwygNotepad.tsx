@@ -4,6 +4,11 @@ import WysiwygEditor from "./Editor/WysiwygEditor";
 import WysiwygToolbar from "./Toolbar/WysiwygToolbar";
 import { useCollaborativeNote } from "@/lib/paper.js/useCollaborativeNote";
 import { useLocalSession } from "@/hooks/useLocalSession";
+import type { RoomParticipant } from "@/lib/paper.js/types";
+import type { CommentHighlight } from "./Editor/CommentHighlightOverlay";
+import type { TextAnchor } from "@/lib/commentAnchors";
+import type { MentionCandidate } from "@/lib/mentions";
+import type { NoteLinkCandidate } from "@/lib/noteLinks";
 
 interface SnapshotPayload {
   text: string;
@@ -27,6 +32,8 @@ interface WysiwygNotepadProps {
   readOnly?: boolean;
   roomId?: string;
   documentId?: string;
+  // Files are kept inside the note instead of being uploaded (local notes)
+  inlineAttachments?: boolean;
   userId?: number;
   userEmail?: string;
   title?: string;
@@ -36,7 +43,14 @@ interface WysiwygNotepadProps {
   onPersisted?: (payload: { snapshot?: SnapshotPayload | null; title?: string; tags?: string[] }) => void;
   onRegisterFlush?: (flush: (override?: FlushOverride) => Promise<void>) => void;
   onRealtimeConnectionChange?: (connected: boolean) => void;
+  onParticipantsChange?: (participants: RoomParticipant[]) => void;
   onOpenSynthesis?: () => void;
+  commentHighlights?: CommentHighlight[];
+  activeCommentId?: number | null;
+  onCommentHighlightSelect?: (id: number) => void;
+  onAddComment?: (anchor: TextAnchor) => void;
+  mentionCandidates?: MentionCandidate[];
+  searchNoteLinks?: (query: string) => Promise<NoteLinkCandidate[]>;
 }
 
 export default function WysiwygNotepad({
@@ -49,6 +63,7 @@ export default function WysiwygNotepad({
   readOnly = false,
   roomId,
   documentId,
+  inlineAttachments = false,
   userId,
   userEmail,
   title,
@@ -58,12 +73,22 @@ export default function WysiwygNotepad({
   onPersisted,
   onRegisterFlush,
   onRealtimeConnectionChange,
+  onParticipantsChange,
   onOpenSynthesis,
+  commentHighlights,
+  activeCommentId,
+  onCommentHighlightSelect,
+  onAddComment,
+  mentionCandidates,
+  searchNoteLinks,
 }: WysiwygNotepadProps) {
   const [markdown, setMarkdown] = useState(initialData.text || "");
   const [debugMode, setDebugMode] = useState(showDebug);
   const { username } = useLocalSession();
   const editorElementRef = useRef<HTMLDivElement | null>(null);
+  // Incremented whenever merged remote content is applied, so the editor applies it right away
+  const [remoteRevision, setRemoteRevision] = useState(0);
+  const remoteRevisionRef = useRef(0);
 
   const cursorSnapshot = useCallback(() => {
     const editor = editorElementRef.current;
@@ -123,8 +148,14 @@ export default function WysiwygNotepad({
     clientId,
     flushPendingChanges,
     isOffline,
+    participants,
   } = useCollaborativeNote({
     roomId,
+    initialContent: initialData.text || "",
+    getLocalContent: () => {
+      const current = window.getWysiwygMarkdown?.();
+      return typeof current === "string" ? normalizeMarkdown(current) : null;
+    },
     onRemoteContent: (remote: string) => {
       // NEVER apply remote content in offline mode - this prevents rollbacks
       // This should never be called in offline mode, but double-check for safety
@@ -134,6 +165,8 @@ export default function WysiwygNotepad({
       
       // Normalize remote markdown to limit consecutive empty lines
       const normalizedRemote = normalizeMarkdown(remote);
+      remoteRevisionRef.current += 1;
+      setRemoteRevision(remoteRevisionRef.current);
       setMarkdown(normalizedRemote);
 
       if (onRemoteContentChange) {
@@ -163,6 +196,10 @@ export default function WysiwygNotepad({
     onRealtimeConnectionChange(Boolean(isConnected && roomId && !readOnly));
   }, [isConnected, onRealtimeConnectionChange, roomId, readOnly]);
 
+  useEffect(() => {
+    onParticipantsChange?.(participants);
+  }, [participants, onParticipantsChange]);
+
   useEffect(() => {
     if (!onRegisterFlush) return;
     const register = (override?: FlushOverride) => {
@@ -213,7 +250,10 @@ export default function WysiwygNotepad({
     // The delay allows the markdown to be processed and normalized through the same path as remote updates
     // ONLY do this if connected - in offline mode, we apply immediately to prevent rollbacks
     if (roomId && isConnected && !isOffline) {
+      const revisionAtChange = remoteRevisionRef.current;
       setTimeout(() => {
+        // Skip if merged remote content arrived meanwhile: it already contains this change
+        if (remoteRevisionRef.current !== revisionAtChange) return;
         // Apply the normalized markdown locally to ensure it's normalized the same way
         // This will trigger the same normalization process as remote updates
         setMarkdown(normalizedMarkdown);
@@ -254,6 +294,9 @@ export default function WysiwygNotepad({
           showDebug={debugMode}
           onToggleDebug={handleToggleDebug}
           onOpenSynthesis={onOpenSynthesis}
+          roomId={roomId}
+          documentId={documentId ? Number(documentId) || null : null}
+          inlineAttachments={inlineAttachments}
         />
       )}
 
@@ -269,7 +312,14 @@ export default function WysiwygNotepad({
           roomId={roomId}
           username={username || undefined}
           clientId={clientId}
+          remoteRevision={remoteRevision}
           onEditorReady={handleEditorReady}
+          commentHighlights={commentHighlights}
+          activeCommentId={activeCommentId}
+          onCommentHighlightSelect={onCommentHighlightSelect}
+          onAddComment={onAddComment}
+          mentionCandidates={mentionCandidates}
+          searchNoteLinks={searchNoteLinks}
         />
       </div>
     </div>
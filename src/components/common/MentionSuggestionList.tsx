@@ -0,0 +1,74 @@
+"use client";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import type { MentionCandidate } from "@/lib/mentions";
+
+interface MentionSuggestionListProps {
+  candidates: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+  onHover?: (index: number) => void;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+function getFullName(candidate: MentionCandidate): string {
+  return `${candidate.first_name ?? ""} ${candidate.last_name ?? ""}`.trim();
+}
+
+/**
+ * Suggestions shown while typing an `@username` mention.
+ */
+export default function MentionSuggestionList({
+  candidates,
+  activeIndex,
+  onSelect,
+  onHover,
+  className,
+  style,
+}: Readonly<MentionSuggestionListProps>) {
+  if (candidates.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      className={cn("z-50 w-60 rounded-lg border border-border bg-card shadow-lg py-1 text-sm", className)}
+      style={style}
+    >
+      {candidates.map((candidate, index) => {
+        const fullName = getFullName(candidate);
+        return (
+          <li key={candidate.id} role="option" aria-selected={index === activeIndex}>
+            <button
+              type="button"
+              className={cn(
+                "flex w-full items-center gap-2 px-3 py-1.5 text-left",
+                index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+              )}
+              // Keep the focus (and the caret) in the field being typed in
+              onMouseDown={(event) => event.preventDefault()}
+              onMouseEnter={() => onHover?.(index)}
+              onClick={() => onSelect(candidate)}
+            >
+              <Avatar className="h-6 w-6 flex-shrink-0">
+                {candidate.profile_image ? (
+                  <AvatarImage src={candidate.profile_image} alt={candidate.username} />
+                ) : (
+                  <AvatarFallback className="bg-muted">
+                    <Icon name="user" className="h-4 w-4 text-primary" />
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <span className="min-w-0 truncate">
+                <span className="font-medium">@{candidate.username}</span>
+                {fullName && <span className="ml-1 text-xs text-muted-foreground">{fullName}</span>}
+              </span>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -27,6 +27,7 @@ const getNotificationDetails = (n: Notification) => {
     let messageText: string;
     let hasCustomMessage = false;
     let isRequestNotificationWithMessage = false;
+    let targetUrl: string | null = null;
 
     const getRequestStatusLabel = (status: string) => {
         switch (status) {
@@ -65,8 +66,13 @@ const getNotificationDetails = (n: Notification) => {
     } else {
         messageText = parsedTyped?.message ?? String(n.message || "");
     }
+
+    // Mentions link to the note, and to the comment thread when made in a comment
+    if (parsedTyped?.type === "mention" && parsedTyped.url?.startsWith("/documents/")) {
+        targetUrl = parsedTyped.url;
+    }
     
-    return { messageText, isRequestNotificationWithMessage, parsed: parsedTyped };
+    return { messageText, isRequestNotificationWithMessage, targetUrl, parsed: parsedTyped };
 };
 
 // Extracted component for Share Invite Notification
@@ -172,6 +178,7 @@ const GenericNotification = ({
     avatarUrl,
     messageText,
     isRequestNotificationWithMessage,
+    targetUrl,
     onClose,
     router,
     onMarkRead,
@@ -185,6 +192,7 @@ const GenericNotification = ({
     avatarUrl: string;
     messageText: string;
     isRequestNotificationWithMessage: boolean;
+    targetUrl: string | null;
     onClose?: () => void;
     router: any;
     onMarkRead: (id: number) => Promise<boolean>;
@@ -205,6 +213,9 @@ const GenericNotification = ({
         if (isRequestNotificationWithMessage) {
             onClose?.();
             router.push("/assistance?view=history");
+        } else if (targetUrl) {
+            onClose?.();
+            router.push(targetUrl);
         }
     };
 
@@ -212,7 +223,7 @@ const GenericNotification = ({
         <div 
             className={cn(
                 isRead ? "bg-muted" : "",
-                isRequestNotificationWithMessage && "cursor-pointer"
+                (isRequestNotificationWithMessage || targetUrl) && "cursor-pointer"
             )}
         >
             <NotificationItem
@@ -344,7 +355,7 @@ export default function NotificationOverlay({ isOpen = true, onClose }: Readonly
                 )}
 
                 {!loading && (notifications ?? []).map((n: Notification) => {
-                    const { messageText, isRequestNotificationWithMessage, parsed } = getNotificationDetails(n);
+                    const { messageText, isRequestNotificationWithMessage, targetUrl, parsed } = getNotificationDetails(n);
                     const isRead = Boolean(n.read_date);
 
                     const firstNameFromSender = n.sender_first_name
@@ -387,6 +398,7 @@ export default function NotificationOverlay({ isOpen = true, onClose }: Readonly
                                 avatarUrl={avatarUrl}
                                 messageText={messageText}
                                 isRequestNotificationWithMessage={isRequestNotificationWithMessage}
+                                targetUrl={targetUrl}
                                 onClose={onClose}
                                 router={router}
                                 onMarkRead={handleMarkAsRead}
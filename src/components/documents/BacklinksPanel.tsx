@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Icon from "@/components/Icon";
+import { getBacklinksAction } from "@/actions/noteLinkActions";
+
+interface Backlink {
+  id: number;
+  title: string;
+  shared: boolean;
+  snippet: string | null;
+}
+
+interface BacklinksPanelProps {
+  documentId: number | null | undefined;
+  enabled?: boolean;
+}
+
+/**
+ * "Linked from": the notes the user can access that link to this one.
+ */
+export default function BacklinksPanel({ documentId, enabled = true }: Readonly<BacklinksPanelProps>) {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBacklinks = useCallback(async () => {
+    if (!documentId || !enabled) return;
+    try {
+      const result = await getBacklinksAction(documentId);
+      if (!result.success) {
+        setError(result.error || "Unable to load linked notes");
+        return;
+      }
+      setError(null);
+      setBacklinks(result.backlinks ?? []);
+    } catch (e) {
+      console.error("fetchBacklinks Error:", e);
+      setError("Error loading linked notes");
+    } finally {
+      setLoaded(true);
+    }
+  }, [documentId, enabled]);
+
+  // Links are added from other notes: look again when coming back to this one
+  useEffect(() => {
+    fetchBacklinks();
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") fetchBacklinks();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [fetchBacklinks]);
+
+  if (!documentId || !enabled || !loaded) return null;
+
+  return (
+    <section className="rounded-lg border border-border bg-card px-4 py-3">
+      <h2 className="flex items-center gap-2 text-sm font-semibold text-foreground">
+        <Icon name="link" className="w-4 h-4" />
+        Linked from
+        {backlinks.length > 0 && <span className="text-xs font-normal text-muted-foreground">({backlinks.length})</span>}
+      </h2>
+      {error ? (
+        <p className="mt-2 text-xs text-red-500">{error}</p>
+      ) : backlinks.length === 0 ? (
+        <p className="mt-2 text-xs text-muted-foreground">
+          No note links here yet. Type [[ in another note to link to this one.
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-1">
+          {backlinks.map((backlink) => (
+            <li key={backlink.id}>
+              <Link
+                href={`/documents/${backlink.id}`}
+                className="block rounded-md px-2 py-1.5 hover:bg-muted transition-colors"
+              >
+                <span className="flex items-center gap-2 text-sm text-primary">
+                  <Icon name="document" className="w-3.5 h-3.5 flex-shrink-0" />
+                  <span className="truncate">{backlink.title || "Untitled"}</span>
+                  {backlink.shared && <span className="text-xs text-muted-foreground">Shared</span>}
+                </span>
+                {backlink.snippet && (
+                  <span className="mt-0.5 block text-xs text-muted-foreground line-clamp-2">{backlink.snippet}</span>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
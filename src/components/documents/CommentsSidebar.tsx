@@ -1,32 +1,34 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Button, Textarea, ScrollArea } from "@/components/ui";
+import { Button, ScrollArea } from "@/components/ui";
 import Icon from "@/components/Icon";
 import { useLocalSession } from "@/hooks/useLocalSession";
 import { cn } from "@/lib/utils";
-
-interface CommentUser {
-  id: number;
-  username?: string | null;
-  first_name?: string | null;
-  last_name?: string | null;
-  email?: string | null;
-  profile_image?: string | null;
-}
-
-interface CommentItem {
-  id: number;
-  content: string;
-  created_at: string;
-  user: CommentUser | null;
-}
+import type { TextAnchor } from "@/lib/commentAnchors";
+import type { MentionCandidate } from "@/lib/mentions";
+import MentionTextarea from "./MentionTextarea";
+import type { CommentItem, CommentThread, CommentUser } from "@/hooks/useDocumentComments";
 
 interface CommentsSidebarProps {
   documentId: number | null | undefined;
   isOpen: boolean;
   onClose: () => void;
+  threads: CommentThread[];
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => Promise<void>;
+  onAddComment: (content: string, anchor: TextAnchor | null) => Promise<boolean>;
+  onReply: (threadId: number, content: string) => Promise<boolean>;
+  onSetResolved: (threadId: number, resolved: boolean) => Promise<boolean>;
+  // Selection the next comment will be attached to
+  pendingAnchor: TextAnchor | null;
+  onCancelAnchor: () => void;
+  activeThreadId: number | null;
+  onSelectThread: (threadId: number | null) => void;
+  // People who can be @mentioned in the comments
+  mentionCandidates: MentionCandidate[];
 }
 
 const MAX_COMMENT_LENGTH = 500;
@@ -90,48 +92,121 @@ function getDateKey(date: Date): string {
   });
 }
 
-import { getComments, createComment } from "@/actions/commentActions";
+const QUOTE_PREVIEW_LENGTH = 140;
+
+function truncateQuote(quote: string): string {
+  const compact = quote.replace(/\s+/g, " ").trim();
+  return compact.length > QUOTE_PREVIEW_LENGTH ? `${compact.slice(0, QUOTE_PREVIEW_LENGTH)}…` : compact;
+}
+
+function CommentBubble({ comment, isCurrentUser }: Readonly<{ comment: CommentItem; isCurrentUser: boolean }>) {
+  const user = comment.user ?? null;
+  return (
+    <div className="flex items-center gap-2 px-1">
+      <div className="flex flex-col items-center gap-1 min-w-[60px]">
+        <span className={cn(
+          "text-[9px] text-muted-foreground",
+          isCurrentUser ? "text-right" : "text-left"
+        )}>
+          {formatTime(new Date(comment.created_at))}
+        </span>
+      </div>
+      <div
+        className={cn(
+          "flex items-start gap-3 rounded-lg px-3 py-2 w-fit max-w-[85%] overflow-hidden",
+          isCurrentUser
+            ? "flex-row-reverse bg-[var(--primary)]/75 ml-auto"
+            : "bg-muted/40"
+        )}
+      >
+        <Avatar className="h-8 w-8 flex-shrink-0">
+          {user?.profile_image ? (
+            <AvatarImage src={user.profile_image} alt={getUserDisplayName(user)} />
+          ) : (
+            <AvatarFallback className="bg-muted">
+              <Icon name="user" className="h-5 w-5 text-primary" />
+            </AvatarFallback>
+          )}
+        </Avatar>
+        <div className={cn(
+          "min-w-0 max-w-full overflow-hidden",
+          isCurrentUser ? "text-right" : ""
+        )}>
+          <div className={cn(
+            "flex items-center gap-2",
+            isCurrentUser ? "flex-row-reverse justify-start" : "justify-start"
+          )}>
+            <span className={cn(
+              "text-xs font-semibold break-words",
+              isCurrentUser
+                ? "text-[var(--primary-foreground)]"
+                : "text-foreground"
+            )}>
+              {getUserDisplayName(user)}
+            </span>
+          </div>
+          <p className={cn(
+            "mt-1 text-xs whitespace-pre-wrap break-words",
+            isCurrentUser
+              ? "text-[var(--primary-foreground)]"
+              : "text-foreground"
+          )}>
+            {comment.content}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
 
-export default function CommentsSidebar({ documentId, isOpen, onClose }: Readonly<CommentsSidebarProps>) {
-  const [comments, setComments] = useState<CommentItem[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+export default function CommentsSidebar({
+  documentId,
+  isOpen,
+  onClose,
+  threads,
+  loading,
+  error,
+  onRefresh,
+  onAddComment,
+  onReply,
+  onSetResolved,
+  pendingAnchor,
+  onCancelAnchor,
+  activeThreadId,
+  onSelectThread,
+  mentionCandidates,
+}: Readonly<CommentsSidebarProps>) {
   const [newComment, setNewComment] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [showResolved, setShowResolved] = useState(false);
+  const [replyThreadId, setReplyThreadId] = useState<number | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [updatingThreadId, setUpdatingThreadId] = useState<number | null>(null);
   const bottomRef = useRef<HTMLDivElement | null>(null);
+  const activeThreadRef = useRef<HTMLDivElement | null>(null);
   const { userId } = useLocalSession();
 
-  const fetchComments = useCallback(async () => {
-    if (!documentId) return;
-    setLoading(true);
-    setError(null);
-    try {
-      const result = await getComments(documentId);
-      if (result.success) {
-        setComments((result.comments as unknown as CommentItem[]) || []);
-      } else {
-        setError(result.error || "Unable to load comments");
-        setComments([]);
-      }
-    } catch (e) {
-      setError("Error loading comments");
-      setComments([]);
-    } finally {
-      setLoading(false);
-    }
-  }, [documentId]);
+  const isCurrentUser = (user: CommentUser | null) =>
+    Boolean(userId && user?.id && String(userId) === String(user.id));
+
+  const resolvedCount = threads.filter((thread) => thread.resolved).length;
+  const visibleThreads = threads.filter(
+    (thread) => showResolved || !thread.resolved || thread.root.id === activeThreadId
+  );
 
   useEffect(() => {
-    if (isOpen && documentId) {
-      void fetchComments();
+    if (isOpen) {
+      void onRefresh();
     }
-  }, [isOpen, documentId, fetchComments]);
+  }, [isOpen, onRefresh]);
 
   useEffect(() => {
-    if (bottomRef.current) {
+    if (activeThreadId !== null) {
+      activeThreadRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+    } else if (bottomRef.current) {
       bottomRef.current.scrollIntoView({ behavior: "smooth", block: "end" });
     }
-  }, [comments, isOpen]);
+  }, [threads, isOpen, activeThreadId]);
 
   // Prevent body scroll on mobile when sidebar is open
   useEffect(() => {
@@ -153,26 +228,40 @@ export default function CommentsSidebar({ documentId, isOpen, onClose }: Readonl
     if (!content) return;
 
     setSubmitting(true);
-    setError(null);
     try {
-      const result = await createComment(documentId, content);
-      if (result.success) {
+      if (await onAddComment(content, pendingAnchor)) {
         setNewComment("");
-        if (result.comment) {
-          setComments((prev) => [...prev, result.comment as unknown as CommentItem]);
-        } else {
-          void fetchComments();
-        }
-      } else {
-        setError(result.error || "Unable to send comment");
+        onCancelAnchor();
       }
-    } catch (e) {
-      setError("Error sending comment");
     } finally {
       setSubmitting(false);
     }
   };
 
+  const handleReply = async (threadId: number) => {
+    const content = replyText.trim();
+    if (!content) return;
+
+    setUpdatingThreadId(threadId);
+    try {
+      if (await onReply(threadId, content)) {
+        setReplyText("");
+        setReplyThreadId(null);
+      }
+    } finally {
+      setUpdatingThreadId(null);
+    }
+  };
+
+  const handleToggleResolved = async (thread: CommentThread) => {
+    setUpdatingThreadId(thread.root.id);
+    try {
+      await onSetResolved(thread.root.id, !thread.resolved);
+    } finally {
+      setUpdatingThreadId(null);
+    }
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -193,86 +282,126 @@ export default function CommentsSidebar({ documentId, isOpen, onClose }: Readonl
       </div>
 
       <div className="flex-1 min-h-0 flex flex-col">
-        <div className="px-4 pt-3 pb-1 text-xs text-muted-foreground">
-          {loading && <span>Loading comments…</span>}
-          {!loading && !error && comments.length === 0 && (
-            <span>No comments yet. Be the first to comment.</span>
-          )}
-          {!loading && error && (
-            <span className="text-red-500">{error}</span>
+        <div className="px-4 pt-3 pb-1 text-xs text-muted-foreground flex items-center justify-between gap-2">
+          <span>
+            {loading && threads.length === 0 && "Loading comments…"}
+            {!loading && !error && threads.length === 0 && "No comments yet. Be the first to comment."}
+            {error && <span className="text-red-500">{error}</span>}
+          </span>
+          {resolvedCount > 0 && (
+            <button
+              type="button"
+              className="text-xs text-muted-foreground hover:text-foreground whitespace-nowrap"
+              onClick={() => setShowResolved((value) => !value)}
+            >
+              {showResolved ? "Hide resolved" : `Show resolved (${resolvedCount})`}
+            </button>
           )}
         </div>
         <ScrollArea className="flex-1 px-2 pb-2 max-h-full overflow-hidden">
           <div className="space-y-3 px-2">
-            {comments.map((comment, index) => {
-              const user = comment.user ?? null;
-              const isCurrentUser = userId && user?.id && String(userId) === String(user.id);
-              const commentDate = new Date(comment.created_at);
-              const previousCommentDate = index > 0 ? new Date(comments[index - 1].created_at) : null;
-              const showDateHeader = !previousCommentDate || getDateKey(commentDate) !== getDateKey(previousCommentDate);
+            {visibleThreads.map((thread, index) => {
+              const { root } = thread;
+              const isActive = root.id === activeThreadId;
+              const threadDate = new Date(root.created_at);
+              const previousThreadDate = index > 0 ? new Date(visibleThreads[index - 1].root.created_at) : null;
+              const showDateHeader = !previousThreadDate || getDateKey(threadDate) !== getDateKey(previousThreadDate);
+              const isUpdating = updatingThreadId === root.id;
 
               return (
-                <div key={comment.id} className="space-y-1">
+                <div key={root.id} className="space-y-1">
                   {showDateHeader && (
                     <div className="flex items-center justify-center py-2">
                       <span className="text-[10px] text-muted-foreground font-medium">
-                        {formatDateHeader(commentDate)}
+                        {formatDateHeader(threadDate)}
                       </span>
                     </div>
                   )}
-                  <div className="flex items-center gap-2 px-1">
-                    <div className="flex flex-col items-center gap-1 min-w-[60px]">
-                      <span className={cn(
-                        "text-[9px] text-muted-foreground",
-                        isCurrentUser ? "text-right" : "text-left"
-                      )}>
-                        {formatTime(commentDate)}
-                      </span>
-                    </div>
-                    <div
-                      className={cn(
-                        "flex items-start gap-3 rounded-lg px-3 py-2 w-fit max-w-[85%] overflow-hidden",
-                        isCurrentUser
-                          ? "flex-row-reverse bg-[var(--primary)]/75 ml-auto"
-                          : "bg-muted/40"
-                      )}
-                    >
-                      <Avatar className="h-8 w-8 flex-shrink-0">
-                        {user?.profile_image ? (
-                          <AvatarImage src={user.profile_image} alt={getUserDisplayName(user)} />
-                        ) : (
-                          <AvatarFallback className="bg-muted">
-                            <Icon name="user" className="h-5 w-5 text-primary" />
-                          </AvatarFallback>
-                        )}
-                      </Avatar>
-                      <div className={cn(
-                        "min-w-0 max-w-full overflow-hidden",
-                        isCurrentUser ? "text-right" : ""
-                      )}>
-                        <div className={cn(
-                          "flex items-center gap-2",
-                          isCurrentUser ? "flex-row-reverse justify-start" : "justify-start"
-                        )}>
-                          <span className={cn(
-                            "text-xs font-semibold break-words",
-                            isCurrentUser
-                              ? "text-[var(--primary-foreground)]"
-                              : "text-foreground"
-                          )}>
-                            {getUserDisplayName(user)}
-                          </span>
+                  <div
+                    ref={isActive ? activeThreadRef : undefined}
+                    className={cn(
+                      "rounded-lg py-2 space-y-2 border border-transparent",
+                      isActive && "border-primary",
+                      thread.resolved && "opacity-70"
+                    )}
+                  >
+                    {thread.anchor && (
+                      <button
+                        type="button"
+                        onClick={() => onSelectThread(isActive ? null : root.id)}
+                        className="mx-2 block text-left border-l-2 border-yellow-500 pl-2 text-xs italic text-muted-foreground hover:text-foreground"
+                        title="Show in the note"
+                      >
+                        {truncateQuote(thread.anchor.quote)}
+                      </button>
+                    )}
+                    <CommentBubble comment={root} isCurrentUser={isCurrentUser(root.user)} />
+                    {thread.replies.length > 0 && (
+                      <div className="ml-6 space-y-2">
+                        {thread.replies.map((replyItem) => (
+                          <CommentBubble key={replyItem.id} comment={replyItem} isCurrentUser={isCurrentUser(replyItem.user)} />
+                        ))}
+                      </div>
+                    )}
+                    {thread.resolved && (
+                      <p className="px-3 text-[10px] text-muted-foreground">
+                        <Icon name="check" className="inline w-3 h-3 mr-1" />
+                        Resolved{root.resolver ? ` by ${getUserDisplayName(root.resolver)}` : ""}
+                      </p>
+                    )}
+                    {replyThreadId === root.id ? (
+                      <div className="px-3 space-y-2">
+                        <MentionTextarea
+                          value={replyText}
+                          onValueChange={(value) => setReplyText(value.slice(0, MAX_COMMENT_LENGTH))}
+                          candidates={mentionCandidates}
+                          placeholder="Reply…"
+                          rows={2}
+                          className="text-sm resize-none"
+                          maxLength={MAX_COMMENT_LENGTH}
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button type="button" variant="ghost" size="sm" className="text-xs" onClick={() => setReplyThreadId(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            type="button"
+                            size="sm"
+                            className="text-xs"
+                            disabled={isUpdating || !replyText.trim()}
+                            onClick={() => void handleReply(root.id)}
+                          >
+                            {isUpdating ? "Sending..." : "Reply"}
+                          </Button>
                         </div>
-                        <p className={cn(
-                          "mt-1 text-xs whitespace-pre-wrap break-words",
-                          isCurrentUser
-                            ? "text-[var(--primary-foreground)]"
-                            : "text-foreground"
-                        )}>
-                          {comment.content}
-                        </p>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="flex items-center gap-2 px-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => {
+                            setReplyThreadId(root.id);
+                            setReplyText("");
+                          }}
+                        >
+                          Reply
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="text-xs"
+                          disabled={isUpdating}
+                          onClick={() => void handleToggleResolved(thread)}
+                        >
+                          {thread.resolved ? "Reopen" : "Resolve"}
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </div>
               );
@@ -283,15 +412,30 @@ export default function CommentsSidebar({ documentId, isOpen, onClose }: Readonl
       </div>
 
       <form onSubmit={handleSubmit} className="border-t border-border px-3 py-2 space-y-2">
-        <Textarea
+        {pendingAnchor && (
+          <div className="flex items-start justify-between gap-2 border-l-2 border-yellow-500 pl-2">
+            <span className="text-xs italic text-muted-foreground break-words">
+              {truncateQuote(pendingAnchor.quote)}
+            </span>
+            <button
+              type="button"
+              onClick={onCancelAnchor}
+              className="text-muted-foreground hover:text-foreground"
+              title="Comment on the whole note instead"
+            >
+              <Icon name="x" className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+        <MentionTextarea
           value={newComment}
-          onChange={(e) => {
-            const value = e.target.value;
+          onValueChange={(value) => {
             if (value.length <= MAX_COMMENT_LENGTH) {
               setNewComment(value);
             }
           }}
-          placeholder="Write a comment…"
+          candidates={mentionCandidates}
+          placeholder={pendingAnchor ? "Comment on the selection…" : "Write a comment… (@ to mention)"}
           rows={2}
           className="text-sm resize-none"
           maxLength={MAX_COMMENT_LENGTH}
@@ -15,7 +15,10 @@ import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui";
 import FavoriteToggle from "@/components/documents/FavoriteToggle";
 import sanitizeLinks from "@/lib/sanitizeLinks";
 import { sanitizeHtml, PREVIEW_SANITIZE_CONFIG } from "@/lib/sanitizeHtml";
+import { getChecklistProgress } from "@/lib/checklist";
+import type { SnippetSegment } from "@/lib/noteSearch";
 import Icon from "@/components/Icon";
+import { setFolderDragData } from "@/lib/folderTree";
 
 interface DocumentCardProps {
   document: AnyDocument;
@@ -28,6 +31,12 @@ interface DocumentCardProps {
   isLocal?: boolean;
   index?: number;
   onFavoriteChange?: (id: string | number, isFavorite: boolean) => void;
+  // Search result excerpt, shown instead of the content preview
+  searchSnippet?: SnippetSegment[];
+  // Notes moved when the card is dragged onto a folder (the selection, or the card alone)
+  dragDocumentIds?: number[];
+  // Folder the notes are taken out of when dropped in another one
+  dragSourceFolderId?: number | null;
 }
 
 function unwrapToString(raw: any): string {
@@ -97,6 +106,9 @@ export default function DocumentCard({
   isLocal = false,
   index = 0,
   onFavoriteChange,
+  searchSnippet,
+  dragDocumentIds,
+  dragSourceFolderId = null,
 }: DocumentCardProps) {
   const [message, formAction, isPending] = useActionState(
     deleteDocumentAction,
@@ -167,6 +179,7 @@ export default function DocumentCard({
       .replace(/#+\s*/g, '')
       .replace(/<\/?[^>]+(>|$)/g, '')
       .trim();
+  const checklistProgress = getChecklistProgress(contentText);
   const firstLine = cleanText((contentTextSanitized || "").substring(0, 500).split(/\n\n/)[0]);
   const isEmpty = !contentText || contentText.trim() === "" || !firstLine || firstLine.trim() === "";
   const rawPreviewSource = sanitizeLinks(getContentText(docContent));
@@ -318,6 +331,9 @@ export default function DocumentCard({
     } catch (e) { setComputedStyle((s) => s); }
   }, [previewHtml, previewText]);
 
+  // Only the owner can file a note in their folders
+  const isDraggable = !isLocal && isOwner;
+
   const documentUrl = isLocal ? `/documents/local/${encodeURIComponent(String(docId))}` : `/documents/${docId}`;
   const handleCardNavigation = async (e: React.MouseEvent) => {
     if (showLoginModal) { e.preventDefault(); e.stopPropagation(); return; }
@@ -359,6 +375,15 @@ export default function DocumentCard({
       onTouchStart={startLongPressTimer}
       onTouchEnd={clearLongPressTimer}
       onClick={handleCardNavigation}
+      draggable={isDraggable}
+      onDragStart={isDraggable ? (e) => {
+        clearLongPressTimer();
+        setFolderDragData(e.dataTransfer, {
+          kind: "documents",
+          documentIds: dragDocumentIds && dragDocumentIds.length > 0 ? dragDocumentIds : [Number(docId)],
+          sourceFolderId: dragSourceFolderId,
+        });
+      } : undefined}
     >
       <header className="relative flex items-start justify-between mb-3 min-h-[2.5rem]">
         <div className="absolute inset-0 left-0 right-12 flex items-center gap-2 pointer-events-none">
@@ -382,24 +407,50 @@ export default function DocumentCard({
       </header>
       <section className="space-y-2">
         <h3 className="text-lg font-semibold text-card-foreground group-hover:text-primary transition-colors duration-200">{docTitle}</h3>
-        <div ref={previewRef} className="text-sm text-muted-foreground line-clamp-1 leading-relaxed">
-          {contentIsHtml ? (
-            previewHtml ? (
-              <div className="prose max-w-full" dangerouslySetInnerHTML={{ __html: previewHtml }} />
-            ) : (
-              <p className="text-muted-foreground/70 italic">Loading...</p>
-            )
-          ) : (
-            !isEmpty ? (
-              <p className="text-muted-foreground">{firstLine}</p>
+        {searchSnippet && searchSnippet.length > 0 ? (
+          <p className="text-sm text-muted-foreground line-clamp-2 leading-relaxed">
+            {searchSnippet.map((segment, segmentIndex) =>
+              segment.match ? (
+                <mark key={segmentIndex} className="bg-primary/20 text-foreground rounded-sm px-0.5">{segment.text}</mark>
+              ) : (
+                <span key={segmentIndex}>{segment.text}</span>
+              )
+            )}
+          </p>
+        ) : (
+          <div ref={previewRef} className="text-sm text-muted-foreground line-clamp-1 leading-relaxed">
+            {contentIsHtml ? (
+              previewHtml ? (
+                <div className="prose max-w-full" dangerouslySetInnerHTML={{ __html: previewHtml }} />
+              ) : (
+                <p className="text-muted-foreground/70 italic">Loading...</p>
+              )
             ) : (
-              <p className="text-muted-foreground italic">Empty document</p>
-            )
-          )}
-        </div>
+              !isEmpty ? (
+                <p className="text-muted-foreground">{firstLine}</p>
+              ) : (
+                <p className="text-muted-foreground italic">Empty document</p>
+              )
+            )}
+          </div>
+        )}
       </section>
       <footer className="mt-4 pt-3 border-t border-border flex items-center justify-between">
-        <time dateTime={updatedAtIso} className="text-xs text-muted-foreground">{formattedDate}</time>
+        <div className="flex items-center gap-2">
+          <time dateTime={updatedAtIso} className="text-xs text-muted-foreground">{formattedDate}</time>
+          {checklistProgress && (
+            <span
+              className={cn(
+                "inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium",
+                checklistProgress.done === checklistProgress.total ? "bg-primary/15 text-primary" : "bg-muted text-muted-foreground"
+              )}
+              title={`${checklistProgress.done} of ${checklistProgress.total} tasks done`}
+            >
+              <Icon name="check" className="w-3 h-3" />
+              {checklistProgress.done}/{checklistProgress.total} done
+            </span>
+          )}
+        </div>
         {currentUserId && !selectMode && (
           <div className="flex items-center ml-3">
             <div className="flex -space-x-2">
@@ -0,0 +1,57 @@
+"use client";
+
+import Link from "next/link";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import { useFolderDrop } from "@/hooks/useFolderDrop";
+
+interface FolderBreadcrumbsProps {
+  // From the root folder down to the current one
+  path: Array<{ id: number; name: string }>;
+  className?: string;
+}
+
+function Crumb({ folderId, name, href }: Readonly<{ folderId: number | null; name: string; href: string }>) {
+  const { isOver, dropProps } = useFolderDrop(folderId);
+  return (
+    <Link
+      {...dropProps}
+      href={href}
+      className={cn(
+        "truncate max-w-[12rem] rounded-sm px-1 text-muted-foreground hover:text-foreground transition-colors duration-200",
+        isOver && "ring-2 ring-primary text-foreground"
+      )}
+    >
+      {name}
+    </Link>
+  );
+}
+
+/**
+ * "Folders / Parent / Current" trail of a folder page. The parents accept dropped notes and
+ * folders, to move them up the hierarchy.
+ */
+export default function FolderBreadcrumbs({ path, className }: Readonly<FolderBreadcrumbsProps>) {
+  const parents = path.slice(0, -1);
+  const current = path[path.length - 1];
+
+  return (
+    <nav aria-label="Breadcrumb" className={cn("flex items-center gap-1 flex-wrap text-sm", className)}>
+      <Crumb folderId={null} name="Folders" href="/folders" />
+      {parents.map((folder) => (
+        <span key={folder.id} className="flex items-center gap-1 min-w-0">
+          <Icon name="chevronDown" className="w-3 h-3 -rotate-90 text-muted-foreground shrink-0" />
+          <Crumb folderId={folder.id} name={folder.name} href={`/folders/${folder.id}`} />
+        </span>
+      ))}
+      {current && (
+        <span className="flex items-center gap-1 min-w-0">
+          <Icon name="chevronDown" className="w-3 h-3 -rotate-90 text-muted-foreground shrink-0" />
+          <span aria-current="page" className="truncate max-w-[12rem] px-1 text-foreground font-medium">
+            {current.name}
+          </span>
+        </span>
+      )}
+    </nav>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import {
+  Card,
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+} from "@/components/ui";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import { useFolderDrop } from "@/hooks/useFolderDrop";
+import { setFolderDragData } from "@/lib/folderTree";
+
+export interface FolderCardFolder {
+  id: number;
+  name: string;
+  updated_at: Date | string;
+  documentCount: number;
+}
+
+interface FolderCardProps {
+  folder: FolderCardFolder;
+  onOpen: () => void;
+  onRename: () => void;
+  onMove: () => void;
+  onDelete: () => void;
+  isDeleting?: boolean;
+}
+
+const formatDate = (dateInput: string | Date | undefined) => {
+  if (!dateInput) return "";
+  const date = new Date(dateInput);
+  const day = String(date.getDate()).padStart(2, "0");
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const year = date.getFullYear();
+  return `${day}/${month}/${year}`;
+};
+
+/**
+ * Folder of the `/folders` grid. Notes and folders can be dragged onto it, and it can be
+ * dragged onto another folder.
+ */
+export default function FolderCard({ folder, onOpen, onRename, onMove, onDelete, isDeleting = false }: Readonly<FolderCardProps>) {
+  const { isOver, dropProps } = useFolderDrop(folder.id);
+
+  return (
+    <Card
+      {...dropProps}
+      draggable
+      onDragStart={(e: React.DragEvent) => setFolderDragData(e.dataTransfer, { kind: "folder", folderId: folder.id })}
+      className={cn(
+        "group cursor-pointer overflow-hidden",
+        "bg-[var(--card)] border border-[var(--border)]",
+        "hover:shadow-lg",
+        "transition-all duration-200 ease-in-out",
+        isOver && "ring-2 ring-[var(--primary)] bg-[var(--primary)]/5"
+      )}
+      onClick={onOpen}
+    >
+      <Card.Content className="">
+        {/* Header with icon and menu */}
+        <div className="flex items-start justify-between mb-6">
+          {/* Folder icon top left */}
+          <div className={cn(
+            "flex items-center justify-center",
+            "w-14 h-14 rounded-xl",
+            "bg-[var(--primary)]/10 text-[var(--primary)]",
+            "shrink-0"
+          )}>
+            <Icon name="folder" className="w-8 h-8 block" />
+          </div>
+          {/* Three dots menu top right */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <button
+                onClick={(e) => e.stopPropagation()}
+                className={cn(
+                  "p-2 rounded-md shrink-0",
+                  "text-[var(--muted-foreground)]",
+                  "hover:bg-[var(--muted)]",
+                  "transition-colors duration-200",
+                  )}
+                aria-label="Folder options"
+              >
+                <Icon name="dotsVertical" className="w-5 h-5" />
+              </button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRename();
+                }}
+              >
+                <Icon name="pencil" className="w-4 h-4" />
+                Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onMove();
+                }}
+              >
+                <Icon name="folder" className="w-4 h-4" />
+                Move to...
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                variant="destructive"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete();
+                }}
+                disabled={isDeleting}
+              >
+                {isDeleting ? (
+                  <>
+                    <Icon name="spinner" className="w-4 h-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  <>
+                    <Icon name="trash" className="w-4 h-4" />
+                    Delete
+                  </>
+                )}
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+
+        {/* Folder name center */}
+        <h3 className="font-bold text-[var(--foreground)] text-xl mb-6 line-clamp-2">
+          {folder.name}
+        </h3>
+
+        {/* Footer with note count and date */}
+        <div className="flex items-center justify-between text-sm text-[var(--muted-foreground)]">
+          <span>
+            {folder.documentCount} note{folder.documentCount > 1 ? "s" : ""}
+          </span>
+          <span>
+            {formatDate(folder.updated_at)}
+          </span>
+        </div>
+      </Card.Content>
+    </Card>
+  );
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import FolderCard, { type FolderCardFolder } from "@/components/documents/FolderCard";
+import FolderNameModal from "@/components/documents/FolderNameModal";
+import FolderMoveModal from "@/components/documents/FolderMoveModal";
+import { renameFolder, deleteFolder } from "@/actions/folderActions";
+import { FOLDERS_CHANGED_EVENT, type FolderTreeItem } from "@/lib/folderTree";
+
+interface FolderGridProps {
+  folders: Array<FolderCardFolder & FolderTreeItem>;
+  // All the folders of the user, to choose where to move one
+  allFolders: FolderTreeItem[];
+}
+
+/**
+ * Grid of folder cards with their rename, move and delete actions. Changes are announced
+ * with FOLDERS_CHANGED_EVENT.
+ */
+export default function FolderGrid({ folders, allFolders }: Readonly<FolderGridProps>) {
+  const router = useRouter();
+  const [renaming, setRenaming] = useState<FolderCardFolder | null>(null);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [movingId, setMovingId] = useState<number | null>(null);
+  const [deletingId, setDeletingId] = useState<number | null>(null);
+
+  const notifyFoldersChanged = () => {
+    window.dispatchEvent(new CustomEvent(FOLDERS_CHANGED_EVENT));
+  };
+
+  const handleRename = async (name: string) => {
+    if (!renaming) return;
+    setIsRenaming(true);
+    try {
+      const result = await renameFolder(renaming.id, name);
+      if (result.success) {
+        setRenaming(null);
+        notifyFoldersChanged();
+      } else {
+        alert(result.error || "Error renaming folder");
+      }
+    } catch (error) {
+      console.error("Error renaming folder:", error);
+      alert("Error renaming folder");
+    } finally {
+      setIsRenaming(false);
+    }
+  };
+
+  const handleDelete = async (folder: FolderCardFolder) => {
+    if (!confirm(`Delete "${folder.name}" and its subfolders? Their notes will be moved to the trash.`)) return;
+    setDeletingId(folder.id);
+    try {
+      const result = await deleteFolder(folder.id);
+      if (result.success) {
+        notifyFoldersChanged();
+      } else {
+        alert(result.error || "Error deleting folder");
+      }
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      alert("Error deleting folder");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid gap-6 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+        {folders.map((folder) => (
+          <FolderCard
+            key={folder.id}
+            folder={folder}
+            onOpen={() => router.push(`/folders/${folder.id}`)}
+            onRename={() => setRenaming(folder)}
+            onMove={() => setMovingId(folder.id)}
+            onDelete={() => handleDelete(folder)}
+            isDeleting={deletingId === folder.id}
+          />
+        ))}
+      </div>
+
+      <FolderNameModal
+        isOpen={renaming !== null}
+        onClose={() => setRenaming(null)}
+        title="Rename folder"
+        submitLabel="Rename"
+        initialName={renaming?.name ?? ""}
+        isSubmitting={isRenaming}
+        onSubmit={handleRename}
+      />
+
+      <FolderMoveModal
+        isOpen={movingId !== null}
+        onClose={() => setMovingId(null)}
+        folders={allFolders}
+        folderId={movingId}
+      />
+    </>
+  );
+}
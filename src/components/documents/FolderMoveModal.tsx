@@ -0,0 +1,109 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Modal } from "@/components/ui";
+import Icon from "@/components/Icon";
+import { moveFolder } from "@/actions/folderActions";
+import {
+  FOLDERS_CHANGED_EVENT,
+  canMoveFolder,
+  formatFolderPath,
+  type FolderTreeItem,
+} from "@/lib/folderTree";
+
+interface FolderMoveModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // All the folders of the user
+  folders: FolderTreeItem[];
+  folderId: number | null;
+  onMoved?: () => void;
+}
+
+const ROOT_VALUE = "root";
+
+/**
+ * Moves a folder into another one, or back to the root. Same as dragging it onto a folder,
+ * for keyboard and touch users.
+ */
+export default function FolderMoveModal({ isOpen, onClose, folders, folderId, onMoved }: Readonly<FolderMoveModalProps>) {
+  const [destination, setDestination] = useState<string>("");
+  const [isMoving, setIsMoving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setDestination("");
+    setError(null);
+  }, [isOpen, folderId]);
+
+  const folder = folders.find((item) => item.id === folderId);
+  const destinations = folderId === null
+    ? []
+    : folders
+        .filter((item) => canMoveFolder(folders, folderId, item.id))
+        .map((item) => ({ id: item.id, label: formatFolderPath(folders, item.id) }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+  const canMoveToRoot = folderId !== null && canMoveFolder(folders, folderId, null);
+
+  const handleMove = async () => {
+    if (folderId === null || !destination || isMoving) return;
+    setIsMoving(true);
+    setError(null);
+    try {
+      const parentId = destination === ROOT_VALUE ? null : Number(destination);
+      const result = await moveFolder(folderId, parentId);
+      if (!result.success) {
+        setError(result.error || "Error moving folder");
+        return;
+      }
+      window.dispatchEvent(new CustomEvent(FOLDERS_CHANGED_EVENT));
+      onMoved?.();
+      onClose();
+    } catch (err) {
+      console.error("Error moving folder:", err);
+      setError("Error moving folder");
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={folder ? `Move "${folder.name}"` : "Move folder"} size="md">
+      <Modal.Content>
+        <div className="space-y-2">
+          <label htmlFor="folder-move-destination" className="text-sm font-medium text-foreground">
+            Destination
+          </label>
+          <select
+            id="folder-move-destination"
+            className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm text-foreground"
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+          >
+            <option value="">Select a folder...</option>
+            {canMoveToRoot && <option value={ROOT_VALUE}>Folders (root)</option>}
+            {destinations.map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      </Modal.Content>
+      <Modal.Footer>
+        <div className="flex gap-2 justify-end w-full">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleMove} disabled={!destination || isMoving} variant="primary">
+            {isMoving ? <Icon name="spinner" className="w-4 h-4 animate-spin" /> : <Icon name="folder" className="w-4 h-4" />}
+            Move
+          </Button>
+        </div>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input, Modal } from "@/components/ui";
+import Icon from "@/components/Icon";
+
+interface FolderNameModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  submitLabel: string;
+  initialName?: string;
+  isSubmitting?: boolean;
+  onSubmit: (name: string) => void;
+}
+
+/**
+ * Asks for the name of a folder being created or renamed.
+ */
+export default function FolderNameModal({
+  isOpen,
+  onClose,
+  title,
+  submitLabel,
+  initialName = "",
+  isSubmitting = false,
+  onSubmit,
+}: Readonly<FolderNameModalProps>) {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (isOpen) setName(initialName);
+  }, [isOpen, initialName]);
+
+  const submit = () => {
+    if (!name.trim() || isSubmitting) return;
+    onSubmit(name.trim());
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="md">
+      <Modal.Content>
+        <div className="space-y-4">
+          <Input
+            label="Folder name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Ex: Projects, Personal Notes..."
+            onKeyDown={(e) => {
+              if (e.key === "Enter") submit();
+            }}
+            autoFocus
+          />
+        </div>
+      </Modal.Content>
+      <Modal.Footer>
+        <div className="flex gap-2 justify-end w-full">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!name.trim() || isSubmitting} variant="primary">
+            {isSubmitting ? <Icon name="spinner" className="w-4 h-4 animate-spin" /> : <Icon name="check" className="w-4 h-4" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </Modal.Footer>
+    </Modal>
+  );
+}
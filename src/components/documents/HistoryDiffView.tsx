@@ -0,0 +1,184 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import {
+  diffInline,
+  diffSideBySide,
+  type DiffLine,
+  type DiffSegment,
+  type InlineDiffLine,
+} from "@/lib/textDiff";
+
+type DiffMode = "inline" | "split";
+
+interface HistoryDiffViewProps {
+  before: string;
+  after: string;
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+type MarkdownLineKind = "heading" | "quote" | "list" | "fence" | "code" | "text";
+
+const HEADING_PATTERN = /^\s{0,3}#{1,6}\s/;
+const QUOTE_PATTERN = /^\s{0,3}>/;
+const LIST_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s/;
+const FENCE_PATTERN = /^\s{0,3}(?:```|~~~)/;
+
+/**
+ * Kind of each line of a markdown text, so lines inside code fences are not mistaken for headings or lists.
+ */
+function classifyLines(lines: string[]): MarkdownLineKind[] {
+  let inFence = false;
+  return lines.map((line) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return "fence";
+    }
+    if (inFence) return "code";
+    if (HEADING_PATTERN.test(line)) return "heading";
+    if (QUOTE_PATTERN.test(line)) return "quote";
+    if (LIST_PATTERN.test(line)) return "list";
+    return "text";
+  });
+}
+
+const LINE_KIND_CLASSES: Record<MarkdownLineKind, string> = {
+  heading: "font-semibold text-foreground",
+  quote: "italic text-muted-foreground",
+  list: "",
+  fence: "font-mono text-muted-foreground",
+  code: "font-mono",
+  text: "",
+};
+
+const SEGMENT_CLASSES: Record<DiffSegment["type"], string> = {
+  equal: "",
+  insert: "bg-emerald-500/25 text-emerald-800 dark:text-emerald-200 rounded-sm",
+  delete: "bg-rose-500/25 text-rose-800 dark:text-rose-200 line-through rounded-sm",
+};
+
+const LINE_BACKGROUNDS: Record<InlineDiffLine["type"], string> = {
+  equal: "",
+  insert: "bg-emerald-500/10",
+  delete: "bg-rose-500/10",
+  modified: "bg-amber-500/10",
+};
+
+function Segments({ segments }: Readonly<{ segments: DiffSegment[] }>) {
+  if (segments.length === 0) return <span>&nbsp;</span>;
+  return (
+    <>
+      {segments.map((segment, index) => (
+        <span key={index} className={SEGMENT_CLASSES[segment.type]}>
+          {segment.text}
+        </span>
+      ))}
+    </>
+  );
+}
+
+function LineNumber({ value }: Readonly<{ value: number | null }>) {
+  return (
+    <span className="w-8 flex-shrink-0 select-none pr-2 text-right text-[10px] text-muted-foreground/70">
+      {value ?? ""}
+    </span>
+  );
+}
+
+function SplitCell({ line, kind }: Readonly<{ line: DiffLine | null; kind: MarkdownLineKind | undefined }>) {
+  if (!line) {
+    return <div className="flex min-w-0 bg-muted/30" />;
+  }
+  return (
+    <div className={cn("flex min-w-0", LINE_BACKGROUNDS[line.type])}>
+      <LineNumber value={line.number} />
+      <span className={cn("min-w-0 flex-1 whitespace-pre-wrap break-words", kind && LINE_KIND_CLASSES[kind])}>
+        <Segments segments={line.segments} />
+      </span>
+    </div>
+  );
+}
+
+export default function HistoryDiffView({ before, after, beforeLabel, afterLabel }: Readonly<HistoryDiffViewProps>) {
+  const [mode, setMode] = useState<DiffMode>("inline");
+
+  const beforeKinds = useMemo(() => classifyLines(before.split("\n")), [before]);
+  const afterKinds = useMemo(() => classifyLines(after.split("\n")), [after]);
+  const inlineLines = useMemo(() => (mode === "inline" ? diffInline(before, after) : []), [mode, before, after]);
+  const splitRows = useMemo(() => (mode === "split" ? diffSideBySide(before, after) : []), [mode, before, after]);
+
+  const kindOf = (oldNumber: number | null, newNumber: number | null): MarkdownLineKind | undefined =>
+    newNumber !== null ? afterKinds[newNumber - 1] : oldNumber !== null ? beforeKinds[oldNumber - 1] : undefined;
+
+  const hasChanges = before !== after;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-[11px] text-muted-foreground">
+          <span className="text-rose-600 dark:text-rose-400">{beforeLabel}</span>
+          {" → "}
+          <span className="text-emerald-600 dark:text-emerald-400">{afterLabel}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant={mode === "inline" ? "primary" : "ghost"}
+            size="sm"
+            className="text-xs"
+            onClick={() => setMode("inline")}
+          >
+            Inline
+          </Button>
+          <Button
+            variant={mode === "split" ? "primary" : "ghost"}
+            size="sm"
+            className="text-xs"
+            onClick={() => setMode("split")}
+          >
+            Side by side
+          </Button>
+        </div>
+      </div>
+
+      {!hasChanges && (
+        <p className="text-muted-foreground text-xs">These versions have the same content.</p>
+      )}
+
+      {hasChanges && mode === "inline" && (
+        <div className="rounded-md border border-border text-xs leading-5">
+          {inlineLines.map((line, index) => (
+            <div key={index} className={cn("flex min-w-0", LINE_BACKGROUNDS[line.type])}>
+              <LineNumber value={line.oldNumber} />
+              <LineNumber value={line.newNumber} />
+              <span className="w-3 flex-shrink-0 select-none text-muted-foreground">
+                {line.type === "insert" ? "+" : line.type === "delete" ? "-" : line.type === "modified" ? "~" : ""}
+              </span>
+              <span
+                className={cn(
+                  "min-w-0 flex-1 whitespace-pre-wrap break-words",
+                  LINE_KIND_CLASSES[kindOf(line.oldNumber, line.newNumber) ?? "text"]
+                )}
+              >
+                <Segments segments={line.segments} />
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hasChanges && mode === "split" && (
+        <div className="grid grid-cols-2 gap-x-2 rounded-md border border-border text-xs leading-5">
+          {splitRows.map((row, index) => (
+            <div key={index} className="contents">
+              <SplitCell line={row.left} kind={row.left ? beforeKinds[row.left.number - 1] : undefined} />
+              <SplitCell line={row.right} kind={row.right ? afterKinds[row.right.number - 1] : undefined} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,7 +8,14 @@ import { useLocalSession } from "@/hooks/useLocalSession";
 import { cn } from "@/lib/utils";
 import { MarkdownConverter } from "@/components/Paper.js/Editor/MarkdownConverter";
 import { sanitizeHtml, EDITOR_SANITIZE_CONFIG } from "@/lib/sanitizeHtml";
-import { getDocumentHistoryAction } from "@/actions/documentActions";
+import HistoryDiffView from "./HistoryDiffView";
+import {
+  getDocumentHistoryAction,
+  getDocumentVersionAction,
+  getRestorableVersionAction,
+  nameDocumentVersionAction,
+  restoreDocumentVersionAction,
+} from "@/actions/documentActions";
 
 interface HistoryUser {
   id: number;
@@ -24,6 +31,8 @@ interface HistoryItem {
   created_at: string;
   diff_added?: string | null;
   diff_removed?: string | null;
+  label?: string | null;
+  pinned?: boolean;
   user: HistoryUser | null;
 }
 
@@ -31,8 +40,26 @@ interface HistorySidebarProps {
   documentId: number | null | undefined;
   isOpen: boolean;
   onClose: () => void;
+  canRestore?: boolean;
+  // Applies the text of the version being restored. Resolves to true when it was saved through the
+  // collaboration room; otherwise the version is saved by the server action
+  onRestored?: (text: string) => Promise<boolean>;
 }
 
+interface VersionPreview {
+  id: number;
+  text: string;
+  createdAt: string;
+}
+
+interface VersionComparison {
+  before: VersionPreview;
+  after: VersionPreview;
+}
+
+// Two versions at most can be selected for comparison
+const MAX_COMPARED_VERSIONS = 2;
+
 function getUserInitials(user: HistoryUser | null): string {
   if (!user) return "?";
   if (user.username) {
@@ -107,9 +134,11 @@ function groupHistoryEntries(entries: HistoryItem[]): GroupedHistoryItem[] {
     const entryUserId = entry.user?.id ?? null;
 
     // Search for an existing group to which this entry can be added
+    // (named versions stay on their own so that their name and version remain visible)
     let foundGroup = false;
-    for (let i = 0; i < grouped.length; i++) {
+    for (let i = 0; i < grouped.length && !entry.pinned; i++) {
       const group = grouped[i];
+      if (group.pinned) continue;
       const groupDate = new Date(group.created_at);
       const groupUserId = group.user?.id ?? null;
 
@@ -215,10 +244,22 @@ function HistoryContentPreview({ content, isRemoved }: Readonly<{ content: strin
   );
 }
 
-export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly<HistorySidebarProps>) {
+export default function HistorySidebar({
+  documentId,
+  isOpen,
+  onClose,
+  canRestore = false,
+  onRestored,
+}: Readonly<HistorySidebarProps>) {
   const [entries, setEntries] = useState<HistoryItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<VersionPreview | null>(null);
+  const [loadingVersionId, setLoadingVersionId] = useState<number | null>(null);
+  const [restoringVersionId, setRestoringVersionId] = useState<number | null>(null);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const { userId } = useLocalSession();
 
@@ -242,6 +283,8 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
         created_at: item.created_at,
         diff_added: item.diff_added ?? null,
         diff_removed: item.diff_removed ?? null,
+        label: item.label ?? null,
+        pinned: Boolean(item.pinned),
         user: item.user ?? null,
       }));
       setEntries(normalized);
@@ -260,6 +303,118 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
     }
   }, [isOpen, documentId, fetchHistory]);
 
+  useEffect(() => {
+    if (!isOpen) {
+      setPreview(null);
+      setComparison(null);
+      setCompareIds([]);
+    }
+  }, [isOpen]);
+
+  const openPreview = useCallback(async (versionId: number) => {
+    if (!documentId) return;
+    setLoadingVersionId(versionId);
+    setError(null);
+    try {
+      const result = await getDocumentVersionAction(documentId, versionId);
+      if (!result.success || !result.version) {
+        setError(result.error || "Unable to load this version");
+        return;
+      }
+      setPreview(result.version);
+    } catch (e) {
+      console.error("openPreview Error:", e);
+      setError("Error loading this version");
+    } finally {
+      setLoadingVersionId(null);
+    }
+  }, [documentId]);
+
+  const toggleCompare = useCallback((versionId: number) => {
+    setCompareIds((previous) => {
+      if (previous.includes(versionId)) return previous.filter((id) => id !== versionId);
+      // Selecting a third version replaces the oldest selection
+      return [...previous, versionId].slice(-MAX_COMPARED_VERSIONS);
+    });
+  }, []);
+
+  const openComparison = useCallback(async () => {
+    if (!documentId || compareIds.length !== MAX_COMPARED_VERSIONS) return;
+    setComparing(true);
+    setError(null);
+    try {
+      const [olderId, newerId] = [...compareIds].sort((a, b) => a - b);
+      const [older, newer] = await Promise.all([
+        getDocumentVersionAction(documentId, olderId),
+        getDocumentVersionAction(documentId, newerId),
+      ]);
+      if (!older.success || !older.version || !newer.success || !newer.version) {
+        setError(older.error || newer.error || "Unable to load these versions");
+        return;
+      }
+      setPreview(null);
+      setComparison({ before: older.version, after: newer.version });
+    } catch (e) {
+      console.error("openComparison Error:", e);
+      setError("Error comparing these versions");
+    } finally {
+      setComparing(false);
+    }
+  }, [documentId, compareIds]);
+
+  const nameVersion = useCallback(async (versionId: number, currentLabel: string | null) => {
+    if (!documentId || !canRestore) return;
+    const label = globalThis.window.prompt(
+      "Name this version to keep it permanently (leave empty to remove the name):",
+      currentLabel ?? ""
+    );
+    if (label === null) return;
+    setError(null);
+    try {
+      const result = await nameDocumentVersionAction(documentId, versionId, label);
+      if (!result.success) {
+        setError(result.error || "Unable to name this version");
+        return;
+      }
+      await fetchHistory();
+    } catch (e) {
+      console.error("nameVersion Error:", e);
+      setError("Error naming this version");
+    }
+  }, [documentId, canRestore, fetchHistory]);
+
+  const restoreVersion = useCallback(async (versionId: number) => {
+    if (!documentId || !canRestore) return;
+    if (!globalThis.window.confirm("Restore the note to this version? The current content will remain available in the history.")) {
+      return;
+    }
+    setRestoringVersionId(versionId);
+    setError(null);
+    try {
+      const version = await getRestorableVersionAction(documentId, versionId);
+      if (!version.success || typeof version.text !== "string") {
+        setError(version.error || "Unable to restore this version");
+        return;
+      }
+      // Connected, the room is the only writer: saving here too could race with its saves
+      const savedThroughRoom = (await onRestored?.(version.text)) === true;
+      if (!savedThroughRoom) {
+        const result = await restoreDocumentVersionAction(documentId, versionId);
+        if (!result.success) {
+          setError(result.error || "Unable to restore this version");
+          return;
+        }
+      }
+      setPreview(null);
+      await fetchHistory();
+    } catch (e) {
+      console.error("restoreVersion Error:", e);
+      setError("Error restoring this version");
+    } finally {
+      setRestoringVersionId(null);
+    }
+  }, [documentId, canRestore, onRestored, fetchHistory]);
+
   useEffect(() => {
     if (bottomRef.current) {
       bottomRef.current.scrollIntoView({ behavior: "smooth", block: "end" });
@@ -281,9 +436,18 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
 
   if (!isOpen) return null;
 
+  const formatVersionLabel = (version: VersionPreview) => {
+    const date = new Date(version.createdAt);
+    return `${formatDateHeader(date)} · ${formatTime(date)}`;
+  };
+
   return (
-    <div className="fixed top-0 bottom-0 left-0 right-0 md:left-auto md:right-0 z-50 md:w-full md:max-w-md bg-background md:border-l border-border shadow-xl flex flex-col overflow-hidden">
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+    <div className={cn(
+      "fixed top-0 bottom-0 left-0 right-0 md:left-auto md:right-0 z-50 md:w-full bg-background",
+      comparison ? "md:max-w-4xl" : "md:max-w-md",
+      "md:border-l border-border shadow-xl flex flex-col overflow-hidden"
+    )}>
+       <div className="flex items-center justify-between px-4 py-3 border-b border-border">
         <div className="flex items-center gap-2">
           <Icon name="clock" className="w-5 h-5" />
           <h2 className="text-xl font-title">Note History</h2>
@@ -308,6 +472,74 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
             <span className="text-red-500">{error}</span>
           )}
         </div>
+        {comparison ? (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border">
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => setComparison(null)}>
+                <Icon name="arrowLeft" className="w-3 h-3" />
+                Back
+              </Button>
+              <span className="text-xs text-muted-foreground">Comparing two versions</span>
+            </div>
+            <ScrollArea className="flex-1 px-4 py-3 max-h-full overflow-hidden">
+              <HistoryDiffView
+                before={comparison.before.text}
+                after={comparison.after.text}
+                beforeLabel={formatVersionLabel(comparison.before)}
+                afterLabel={formatVersionLabel(comparison.after)}
+              />
+            </ScrollArea>
+          </div>
+        ) : preview ? (
+          <div className="flex-1 min-h-0 flex flex-col">
+            <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border">
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => setPreview(null)}>
+                <Icon name="arrowLeft" className="w-3 h-3" />
+                Back
+              </Button>
+              <span className="text-xs text-muted-foreground">
+                {formatDateHeader(new Date(preview.createdAt))} · {formatTime(new Date(preview.createdAt))}
+              </span>
+              {canRestore && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  className="text-xs"
+                  onClick={() => void restoreVersion(preview.id)}
+                  disabled={restoringVersionId !== null}
+                >
+                  {restoringVersionId === preview.id ? "Restoring…" : "Restore this version"}
+                </Button>
+              )}
+            </div>
+            <ScrollArea className="flex-1 px-4 py-3 max-h-full overflow-hidden">
+              {preview.text.trim() ? (
+                <HistoryContentPreview content={preview.text} />
+              ) : (
+                <p className="text-muted-foreground text-xs">This version is empty.</p>
+              )}
+            </ScrollArea>
+          </div>
+        ) : (
+        <>
+        {entries.length > 1 && (
+          <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border text-xs text-muted-foreground">
+            <span>
+              {compareIds.length < MAX_COMPARED_VERSIONS
+                ? `Select ${MAX_COMPARED_VERSIONS - compareIds.length} version${compareIds.length === 0 ? "s" : ""} to compare`
+                : "Two versions selected"}
+            </span>
+            <Button
+              variant="primary"
+              size="sm"
+              className="text-xs"
+              onClick={() => void openComparison()}
+              disabled={compareIds.length !== MAX_COMPARED_VERSIONS || comparing}
+            >
+              {comparing ? "Loading…" : "Compare"}
+            </Button>
+          </div>
+        )}
         <ScrollArea className="flex-1 px-2 pb-2 max-h-full overflow-hidden">
           <div className="space-y-3 px-2">
             {(() => {
@@ -324,6 +556,8 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
                   !previousDate ||
                   getDateKey(entryDate) !== getDateKey(previousDate);
 
+              // A group covers consecutive edits: its version is the state after the latest one
+              const versionId = Math.max(...entry.groupedIds);
               const hasAdded = !!entry.diff_added && entry.diff_added.trim().length > 0;
               const hasRemoved = !!entry.diff_removed && entry.diff_removed.trim().length > 0;
 
@@ -360,6 +594,12 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
                         </span>
                         </div>
                       </div>
+                      {entry.pinned && entry.label && (
+                        <div className="flex items-center gap-1 px-1 text-xs font-medium text-primary">
+                          <Icon name="star" className="w-3 h-3 flex-shrink-0" />
+                          <span className="break-words">{entry.label}</span>
+                        </div>
+                      )}
                       {(hasAdded || hasRemoved) && (
                         <div className="space-y-1 text-xs">
                           {hasAdded && (
@@ -389,6 +629,46 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
                           </p>
                         </div>
                       )}
+                      <div className="flex items-center gap-2 px-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => void openPreview(versionId)}
+                          disabled={loadingVersionId === versionId}
+                        >
+                          {loadingVersionId === versionId ? "Loading…" : "Preview"}
+                        </Button>
+                        <Button
+                          variant={compareIds.includes(versionId) ? "primary" : "ghost"}
+                          size="sm"
+                          className="text-xs"
+                          onClick={() => toggleCompare(versionId)}
+                        >
+                          {compareIds.includes(versionId) ? "Selected" : "Compare"}
+                        </Button>
+                        {canRestore && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-xs"
+                            onClick={() => void nameVersion(versionId, entry.label ?? null)}
+                          >
+                            {entry.pinned ? "Rename" : "Name"}
+                          </Button>
+                        )}
+                        {canRestore && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-xs"
+                            onClick={() => void restoreVersion(versionId)}
+                            disabled={restoringVersionId !== null}
+                          >
+                            {restoringVersionId === versionId ? "Restoring…" : "Restore"}
+                          </Button>
+                        )}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -398,6 +678,8 @@ export default function HistorySidebar({ documentId, isOpen, onClose }: Readonly
             <div ref={bottomRef} />
           </div>
         </ScrollArea>
+        </>
+        )}
       </div>
     </div>
   );
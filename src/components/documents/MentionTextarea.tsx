@@ -0,0 +1,115 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Textarea } from "@/components/ui";
+import type { TextareaProps } from "@/components/ui/textarea";
+import MentionSuggestionList from "@/components/common/MentionSuggestionList";
+import {
+  filterMentionCandidates,
+  findMentionQuery,
+  insertMention,
+  type MentionCandidate,
+  type MentionQuery,
+} from "@/lib/mentions";
+
+interface MentionTextareaProps extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string;
+  onValueChange: (value: string) => void;
+  candidates: MentionCandidate[];
+}
+
+/**
+ * Textarea with `@username` autocompletion.
+ */
+export default function MentionTextarea({
+  value,
+  onValueChange,
+  candidates,
+  onKeyDown,
+  onBlur,
+  maxLength,
+  ...props
+}: Readonly<MentionTextareaProps>) {
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+  const [query, setQuery] = useState<MentionQuery | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query ? filterMentionCandidates(candidates, query.query) : [];
+
+  const updateQuery = (element: HTMLTextAreaElement) => {
+    const caret = element.selectionStart ?? element.value.length;
+    const nextQuery = element.selectionEnd === caret ? findMentionQuery(element.value.slice(0, caret)) : null;
+    setQuery(nextQuery);
+    if (nextQuery?.query !== query?.query) setActiveIndex(0);
+  };
+
+  const selectCandidate = (candidate: MentionCandidate) => {
+    const element = textareaRef.current;
+    if (!element || !query) return;
+    const caret = element.selectionStart ?? value.length;
+    const next = insertMention(value, query, caret, candidate.username);
+    if (maxLength !== undefined && next.text.length > maxLength) return;
+
+    onValueChange(next.text);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      element.focus();
+      element.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        selectCandidate(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setQuery(null);
+        return;
+      }
+    }
+    onKeyDown?.(event);
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        maxLength={maxLength}
+        onChange={(event) => {
+          onValueChange(event.target.value);
+          updateQuery(event.target);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(event) => {
+          if (event.key === "ArrowLeft" || event.key === "ArrowRight" || event.key === "Home" || event.key === "End") {
+            updateQuery(event.currentTarget);
+          }
+        }}
+        onClick={(event) => updateQuery(event.currentTarget)}
+        onBlur={(event) => {
+          setQuery(null);
+          onBlur?.(event);
+        }}
+      />
+      <MentionSuggestionList
+        candidates={suggestions}
+        activeIndex={Math.min(activeIndex, suggestions.length - 1)}
+        onSelect={selectCandidate}
+        onHover={setActiveIndex}
+        className="absolute bottom-full left-0 mb-1"
+      />
+    </div>
+  );
+}
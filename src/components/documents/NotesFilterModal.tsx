@@ -11,6 +11,8 @@ import { useSearch, type NoteFilters } from "@/contexts/SearchContext";
 import { useTagsContext } from "@/contexts/TagsContext";
 import { getFolders as getFoldersAction } from "@/actions/folderActions";
 import { getTags as getTagsAction } from "@/actions/tagActions";
+import { NOTE_CONTENT_KINDS, type NoteContentKind } from "@/lib/searchQuery";
+import SmartFolderModal from "@/components/documents/SmartFolderModal";
 
 interface NotesFilterModalProps {
   isOpen: boolean;
@@ -28,9 +30,20 @@ const sharedOptions: Array<{ value: NoteFilters["shared"] | undefined; label: st
   { value: "private", label: "Private notes" },
 ];
 
+const contentKindLabels: Record<NoteContentKind, string> = {
+  image: "Images",
+  link: "Links",
+  file: "Files",
+  checklist: "Checklists",
+  drawing: "Drawings",
+  code: "Code",
+};
+
 const normalizeFilters = (filters: NoteFilters): NoteFilters => ({
   ...filters,
   tags: Array.from(new Set((filters.tags || []).map((tag) => tag.trim()).filter(Boolean))),
+  has: filters.has?.length ? Array.from(new Set(filters.has)) : undefined,
+  favorite: filters.favorite || undefined,
 });
 
 export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalProps) {
@@ -41,7 +54,11 @@ export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalPr
     resetFilters,
     hasActiveFilters,
     defaultFilters,
+    searchQuery,
+    parsedQuery,
+    removeQueryOperator,
   } = useSearch();
+  const [showSmartFolderModal, setShowSmartFolderModal] = useState(false);
   const [localFilters, setLocalFilters] = useState<NoteFilters>(normalizeFilters(filters));
   const [folders, setFolders] = useState<FolderOption[]>([]);
   const [isLoadingFolders, setIsLoadingFolders] = useState(false);
@@ -134,6 +151,14 @@ export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalPr
     });
   };
 
+  const handleToggleContentKind = (kind: NoteContentKind) => {
+    setLocalFilters((prev) => {
+      const current = prev.has || [];
+      const next = current.includes(kind) ? current.filter((k) => k !== kind) : [...current, kind];
+      return { ...prev, has: next.length > 0 ? next : undefined };
+    });
+  };
+
   const availableTagsForSelect = useMemo(() => {
     const selectedTags = new Set(localFilters.tags || []);
     return availableTags.filter((tag) => !selectedTags.has(tag));
@@ -150,13 +175,50 @@ export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalPr
     return normalizedLocal !== normalizedGlobal;
   }, [localFilters, filters]);
 
+  const folderNames = useMemo(() => new Map(folders.map((folder) => [folder.id, folder.name])), [folders]);
+  const smartFolderFilters = useMemo(() => normalizeFilters(localFilters), [localFilters]);
+
   return (
+    <>
     <FilterModal
       isOpen={isOpen}
       onClose={onClose}
       title="Filter my notes"
     >
       <div className="space-y-6">
+        {parsedQuery.operators.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-base font-semibold text-[var(--foreground)]">From the search bar</h3>
+            <div className="flex flex-wrap gap-2">
+              {parsedQuery.operators.map((token) => (
+                <Badge
+                  key={`${token.start}-${token.raw}`}
+                  variant={token.valid ? "primary" : "warning"}
+                  size="sm"
+                  className="flex items-center gap-1"
+                  title={token.valid ? undefined : "Not understood, searched as text"}
+                >
+                  <span>
+                    <span className="opacity-70">{token.operator}:</span>
+                    {token.value || "…"}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeQueryOperator(token)}
+                    className="rounded-full p-0.5 hover:bg-[var(--primary)]/20 transition-colors ml-0.5"
+                    aria-label={`Remove ${token.raw} from the search`}
+                  >
+                    <Icon name="x" className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-[var(--muted-foreground)]">
+              These filters are applied on top of the ones below.
+            </p>
+          </section>
+        )}
+
         <section className="space-y-2">
           <h3 className="text-base font-semibold text-[var(--foreground)]">Updated date</h3>
           <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
@@ -235,6 +297,34 @@ export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalPr
           </div>
         </section>
 
+        <section className="space-y-2">
+          <h3 className="text-base font-semibold text-[var(--foreground)]">Content</h3>
+          <div className="flex flex-wrap gap-2">
+            {NOTE_CONTENT_KINDS.map((kind) => {
+              const selected = (localFilters.has || []).includes(kind);
+              return (
+                <button
+                  key={kind}
+                  type="button"
+                  aria-pressed={selected}
+                  onClick={() => handleToggleContentKind(kind)}
+                  className={`rounded-full border px-3 py-1 text-xs transition-colors ${selected ? "border-[var(--primary)] bg-[var(--primary)]/10 text-[var(--primary)]" : "border-[var(--border)] text-[var(--muted-foreground)] hover:bg-[var(--muted)]/50"}`}
+                >
+                  {contentKindLabels[kind]}
+                </button>
+              );
+            })}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-[var(--foreground)]">
+            <input
+              type="checkbox"
+              checked={Boolean(localFilters.favorite)}
+              onChange={(e) => updateFilter("favorite", e.target.checked || undefined)}
+            />
+            Favorites only
+          </label>
+        </section>
+
         <section className="space-y-3">
           <h3 className="text-base font-semibold text-[var(--foreground)]">Tags</h3>
           {isAuthenticated && (
@@ -312,6 +402,21 @@ export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalPr
             {hasActiveFilters ? "Filters applied." : "No filter applied."}
           </div>
           <div className="flex flex-col gap-2 md:flex-row">
+            {isAuthenticated && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="cursor-pointer py-2 px-4"
+                onClick={() => {
+                  onClose();
+                  setShowSmartFolderModal(true);
+                }}
+                disabled={!searchQuery.trim() && JSON.stringify(smartFolderFilters) === JSON.stringify(normalizeFilters(defaultFilters))}
+              >
+                <Icon name="save" className="w-4 h-4" />
+                Save as smart folder
+              </Button>
+            )}
             <Button
               type="button"
               variant="ghostPurple"
@@ -336,6 +441,14 @@ export default function NotesFilterModal({ isOpen, onClose }: NotesFilterModalPr
         </footer>
       </div>
     </FilterModal>
+    <SmartFolderModal
+      isOpen={showSmartFolderModal}
+      onClose={() => setShowSmartFolderModal(false)}
+      initialQuery={searchQuery.trim()}
+      initialFilters={smartFolderFilters}
+      folderNames={folderNames}
+    />
+    </>
   );
 }
 
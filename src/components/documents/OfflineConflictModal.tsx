@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button, Modal } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import {
+  mergeThreeWay,
+  resolveMerge,
+  type ConflictResolution,
+} from "@/lib/paper.js/threeWayMerge";
+
+export interface OfflineConflict {
+  base: string;
+  mine: string;
+  theirs: string;
+  // Users who edited the note on the server while it was offline
+  authors: string[];
+}
+
+interface OfflineConflictModalProps {
+  conflict: OfflineConflict | null;
+  onResolve: (text: string) => void;
+  onKeepCopy: () => void;
+  onClose: () => void;
+}
+
+const CHOICES: Array<{ value: ConflictResolution; label: string }> = [
+  { value: "mine", label: "Keep mine" },
+  { value: "theirs", label: "Keep server" },
+  { value: "both", label: "Keep both" },
+];
+
+function LinesBlock({ lines, className }: { lines: string[]; className?: string }) {
+  return (
+    <pre className={cn("text-xs whitespace-pre-wrap break-words rounded-md p-2 min-h-8 font-mono", className)}>
+      {lines.length > 0 ? lines.join("\n") : <span className="italic text-muted-foreground">(removed)</span>}
+    </pre>
+  );
+}
+
+export default function OfflineConflictModal({ conflict, onResolve, onKeepCopy, onClose }: OfflineConflictModalProps) {
+  const merge = useMemo(
+    () => (conflict ? mergeThreeWay(conflict.base, conflict.mine, conflict.theirs) : null),
+    [conflict]
+  );
+  const [resolutions, setResolutions] = useState<ConflictResolution[]>([]);
+
+  useEffect(() => {
+    setResolutions([]);
+  }, [merge]);
+
+  if (!conflict || !merge) return null;
+
+  const setResolution = (index: number, value: ConflictResolution) => {
+    setResolutions((previous) => {
+      const next = [...previous];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const unresolvedCount = merge.conflictCount - resolutions.filter(Boolean).length;
+
+  let conflictIndex = -1;
+
+  return (
+    <Modal isOpen={Boolean(conflict)} onClose={onClose} title="Offline changes conflict" size="xl">
+      <Modal.Content>
+        <p className="text-sm text-muted-foreground mb-4">
+          This note was modified
+          {conflict.authors.length > 0 ? ` by ${conflict.authors.join(", ")}` : ""} while you were offline.
+          Changes that do not overlap have been merged; choose which version to keep for the
+          {merge.conflictCount > 1 ? ` ${merge.conflictCount} conflicting sections` : " conflicting section"}.
+        </p>
+
+        <div className="flex flex-col gap-2">
+          {merge.chunks.map((chunk, position) => {
+            if (chunk.type === "stable") {
+              return <LinesBlock key={position} lines={chunk.lines} className="text-muted-foreground bg-muted/40" />;
+            }
+            conflictIndex += 1;
+            const index = conflictIndex;
+            const selected = resolutions[index];
+            return (
+              <div key={position} className="rounded-lg border border-warning p-2 flex flex-col gap-2">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  <div>
+                    <p className="text-xs font-semibold text-foreground mb-1">Your version</p>
+                    <LinesBlock lines={chunk.mine} className={cn("bg-primary/10", selected === "theirs" && "opacity-50")} />
+                  </div>
+                  <div>
+                    <p className="text-xs font-semibold text-foreground mb-1">Server version</p>
+                    <LinesBlock lines={chunk.theirs} className={cn("bg-accent", selected === "mine" && "opacity-50")} />
+                  </div>
+                </div>
+                {chunk.base.length > 0 && (
+                  <details className="text-xs text-muted-foreground">
+                    <summary className="cursor-pointer">Original text</summary>
+                    <LinesBlock lines={chunk.base} className="bg-muted/40 mt-1" />
+                  </details>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {CHOICES.map((choice) => (
+                    <Button
+                      key={choice.value}
+                      type="button"
+                      size="sm"
+                      variant={selected === choice.value ? "primary" : "ghost"}
+                      onClick={() => setResolution(index, choice.value)}
+                    >
+                      {choice.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Modal.Content>
+      <Modal.Footer>
+        <div className="flex flex-wrap items-center justify-center gap-3 mt-4">
+          <Button
+            type="button"
+            variant="primary"
+            disabled={unresolvedCount > 0}
+            onClick={() => onResolve(resolveMerge(merge.chunks, resolutions))}
+          >
+            {unresolvedCount > 0 ? `${unresolvedCount} conflict${unresolvedCount > 1 ? "s" : ""} left` : "Apply merge"}
+          </Button>
+          <Button type="button" variant="ghost" onClick={onKeepCopy}>
+            Save my version as a copy
+          </Button>
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Decide later
+          </Button>
+        </div>
+      </Modal.Footer>
+    </Modal>
+  );
+}
@@ -0,0 +1,229 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button, ScrollArea } from "@/components/ui";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import { buildHeadingLink, getHeadingAnchors } from "@/lib/headingAnchors";
+
+interface OutlineItem {
+  anchor: string;
+  text: string;
+  level: number;
+  // Only headings at the top level of the note start a section that can be moved
+  movable: boolean;
+}
+
+interface OutlineSidebarProps {
+  documentId: number | null | undefined;
+  isOpen: boolean;
+  onClose: () => void;
+  // Current note text: the outline is read again from the editor whenever it changes
+  documentContent: string;
+  canReorder?: boolean;
+}
+
+// Drop target meaning "after the last section"
+const END_OF_NOTE = "";
+
+function getEditorRoot(): HTMLElement | null {
+  return document.querySelector<HTMLElement>('[data-wysiwyg-editor-root="true"]');
+}
+
+function readOutline(): OutlineItem[] {
+  const editor = getEditorRoot();
+  if (!editor) return [];
+  return getHeadingAnchors(editor).map((heading) => ({
+    anchor: heading.anchor,
+    text: heading.text,
+    level: heading.level,
+    movable: heading.element.parentNode === editor,
+  }));
+}
+
+export default function OutlineSidebar({
+  documentId,
+  isOpen,
+  onClose,
+  documentContent,
+  canReorder = false,
+}: Readonly<OutlineSidebarProps>) {
+  const [items, setItems] = useState<OutlineItem[]>([]);
+  const [activeAnchor, setActiveAnchor] = useState<string | null>(null);
+  const [draggedAnchor, setDraggedAnchor] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [copiedAnchor, setCopiedAnchor] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // Let the editor render the new content first
+    const timer = setTimeout(() => setItems(readOutline()), 50);
+    return () => clearTimeout(timer);
+  }, [isOpen, documentContent]);
+
+  // Highlight the section being read
+  useEffect(() => {
+    if (!isOpen) return;
+    const updateActive = () => {
+      const editor = getEditorRoot();
+      if (!editor) return;
+      const headings = getHeadingAnchors(editor);
+      let current: string | null = headings[0]?.anchor ?? null;
+      for (const heading of headings) {
+        if (heading.element.getBoundingClientRect().top > 120) break;
+        current = heading.anchor;
+      }
+      setActiveAnchor(current);
+    };
+    updateActive();
+    globalThis.window.addEventListener("scroll", updateActive, { passive: true });
+    return () => globalThis.window.removeEventListener("scroll", updateActive);
+  }, [isOpen, items]);
+
+  useEffect(() => {
+    if (!copiedAnchor) return;
+    const timer = setTimeout(() => setCopiedAnchor(null), 1500);
+    return () => clearTimeout(timer);
+  }, [copiedAnchor]);
+
+  const scrollToHeading = useCallback((anchor: string) => {
+    const editor = getEditorRoot();
+    const heading = editor ? getHeadingAnchors(editor).find((item) => item.anchor === anchor) : null;
+    if (!heading) return;
+    heading.element.scrollIntoView({ behavior: "smooth", block: "start" });
+    globalThis.window.history.replaceState(null, "", `#${encodeURIComponent(anchor)}`);
+    setActiveAnchor(anchor);
+    // On mobile the panel covers the note
+    if (globalThis.window.innerWidth < 768) onClose();
+  }, [onClose]);
+
+  const copyLink = useCallback(async (anchor: string) => {
+    if (!documentId) return;
+    try {
+      await navigator.clipboard.writeText(buildHeadingLink(documentId, anchor));
+      setCopiedAnchor(anchor);
+    } catch (e) {
+      console.error("copyLink Error:", e);
+    }
+  }, [documentId]);
+
+  const moveSection = useCallback((fromAnchor: string, beforeAnchor: string) => {
+    if (fromAnchor === beforeAnchor) return;
+    globalThis.window.applyWysiwygFormatting?.("moveSection", `${fromAnchor} ${beforeAnchor}`);
+  }, []);
+
+  const endDrag = () => {
+    setDraggedAnchor(null);
+    setDropTarget(null);
+  };
+
+  const dropProps = (target: string) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!draggedAnchor) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = "move";
+      setDropTarget(target);
+    },
+    onDrop: (event: React.DragEvent) => {
+      event.preventDefault();
+      if (draggedAnchor) moveSection(draggedAnchor, target);
+      endDrag();
+    },
+  });
+
+  if (!isOpen) return null;
+
+  const minLevel = items.reduce((min, item) => Math.min(min, item.level), 6);
+
+  return (
+    <div className="fixed top-0 bottom-0 left-0 right-0 md:left-auto md:right-0 z-50 md:w-full md:max-w-xs bg-background md:border-l border-border shadow-xl flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <div className="flex items-center gap-2">
+          <Icon name="list" className="w-5 h-5" />
+          <h2 className="text-xl font-title">Outline</h2>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onClose}
+          className="h-8 w-8"
+        >
+          <Icon name="x" className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {canReorder && items.some((item) => item.movable) && (
+        <div className="px-4 pt-3 pb-1 text-xs text-muted-foreground">
+          Drag a heading to move its section.
+        </div>
+      )}
+
+      <ScrollArea className="flex-1 px-2 py-2 max-h-full overflow-hidden">
+        {items.length === 0 ? (
+          <p className="px-2 py-6 text-sm text-center text-muted-foreground">
+            Headings added to the note will appear here.
+          </p>
+        ) : (
+          <ul className="space-y-0.5">
+            {items.map((item) => {
+              const draggable = canReorder && item.movable;
+              return (
+                <li
+                  key={item.anchor}
+                  {...dropProps(item.anchor)}
+                  className={cn(
+                    "group flex items-center gap-1 rounded-md border-t-2 border-transparent",
+                    dropTarget === item.anchor && draggedAnchor !== item.anchor && "border-primary",
+                    draggedAnchor === item.anchor && "opacity-50"
+                  )}
+                  style={{ paddingLeft: `${(item.level - minLevel) * 12}px` }}
+                >
+                  <button
+                    type="button"
+                    draggable={draggable}
+                    onDragStart={(event) => {
+                      event.dataTransfer.effectAllowed = "move";
+                      event.dataTransfer.setData("text/plain", item.text);
+                      setDraggedAnchor(item.anchor);
+                    }}
+                    onDragEnd={endDrag}
+                    onClick={() => scrollToHeading(item.anchor)}
+                    className={cn(
+                      "flex-1 min-w-0 truncate rounded-md px-2 py-1.5 text-left text-sm transition-colors hover:bg-muted",
+                      item.level === minLevel && "font-medium",
+                      activeAnchor === item.anchor ? "bg-muted text-primary" : "text-foreground",
+                      draggable && "cursor-grab active:cursor-grabbing"
+                    )}
+                    title={item.text}
+                  >
+                    {item.text}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => copyLink(item.anchor)}
+                    disabled={!documentId}
+                    className="p-1 rounded text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-muted transition-opacity"
+                    title={copiedAnchor === item.anchor ? "Link copied" : "Copy link to this section"}
+                  >
+                    <Icon name={copiedAnchor === item.anchor ? "check" : "link"} className="w-3.5 h-3.5" />
+                  </button>
+                </li>
+              );
+            })}
+            {draggedAnchor && (
+              <li
+                {...dropProps(END_OF_NOTE)}
+                className={cn(
+                  "h-8 rounded-md border-t-2 border-transparent text-xs text-muted-foreground px-2 py-1.5",
+                  dropTarget === END_OF_NOTE && "border-primary"
+                )}
+              >
+                Move to the end
+              </li>
+            )}
+          </ul>
+        )}
+      </ScrollArea>
+    </div>
+  );
+}
@@ -6,15 +6,18 @@ import { useSearch } from "@/contexts/SearchContext";
 import { useSelection } from "@/contexts/SelectionContext";
 import { deleteMultipleDocumentsAction } from "@/actions/documentActions";
 import { addDocumentsToFolder as addDocumentsToFolderAction } from "@/actions/folderActions";
+import { searchNotesAction } from "@/actions/searchActions";
 import DocumentCard from "@/components/documents/DocumentCard";
 import SelectionBar from "@/components/documents/SelectionBar";
 import ConnectionWarning from "@/components/common/ConnectionWarning";
-import { Card, Alert, DocumentsGrid } from "@/components/ui";
+import { Button, Card, Alert, DocumentsGrid } from "@/components/ui";
 import { Document, LocalDocument, AnyDocument } from "@/lib/types";
 import { TagsProvider } from "@/contexts/TagsContext";
+import type { NoteSearchHit } from "@/lib/noteSearch";
 import Icon from "@/components/Icon";
 
 const LOCAL_DOCS_KEY = "notus.local.documents";
+const SEARCH_DEBOUNCE_MS = 250;
 
 interface SearchableDocumentsListProps {
   documents?: AnyDocument[];
@@ -22,6 +25,10 @@ interface SearchableDocumentsListProps {
   error?: string;
   isFavoritesList?: boolean;
   onRemoveFromFolder?: (documentIds: string[]) => void;
+  // Search results include every note the user can open, not only the listed ones
+  searchAllNotes?: boolean;
+  // Folder being listed, which notes dragged onto another folder are moved out of
+  folderId?: number;
 }
 
 export function SearchableDocumentsList({
@@ -30,8 +37,10 @@ export function SearchableDocumentsList({
   error,
   isFavoritesList = false,
   onRemoveFromFolder,
+  searchAllNotes = false,
+  folderId,
 }: SearchableDocumentsListProps) {
-  const { filterDocuments, filterLocalDocuments, isSearching, hasActiveFilters } = useSearch();
+  const { parsedQuery, filterDocuments, filterLocalDocuments, isSearching, hasActiveFilters } = useSearch();
   const router = useRouter();
   const [localDocuments, setLocalDocuments] = useState<LocalDocument[]>([]);
   const [runtimeDocuments, setRuntimeDocuments] = useState<AnyDocument[]>(serverDocuments);
@@ -42,6 +51,9 @@ export function SearchableDocumentsList({
   );
   const [selectMode, setSelectMode] = useState(false);
   const [isMessageVisible, setIsMessageVisible] = useState(false);
+  const [searchHits, setSearchHits] = useState<NoteSearchHit[] | null>(null);
+  const [searchHasMore, setSearchHasMore] = useState(false);
+  const [isLoadingMoreHits, setIsLoadingMoreHits] = useState(false);
   const { setIsSelectModeActive } = useSelection();
 
   useEffect(() => { setIsSelectModeActive(selectMode); }, [selectMode, setIsSelectModeActive]);
@@ -68,6 +80,38 @@ export function SearchableDocumentsList({
 
   useEffect(() => { setRuntimeDocuments(serverDocuments); }, [serverDocuments]);
 
+  // Signed-in users search the full text of their notes on the server; a query made only of
+  // operators and exclusions filters the listed notes
+  const searchText = parsedQuery.terms.length + parsedQuery.phrases.length > 0 ? parsedQuery.text : "";
+  useEffect(() => {
+    if (!currentUserId || !searchText) {
+      setSearchHits(null);
+      setSearchHasMore(false);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const result = await searchNotesAction(searchText);
+      if (cancelled) return;
+      setSearchHits(result.success ? result.hits : null);
+      setSearchHasMore(Boolean(result.success && result.hasMore));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [currentUserId, searchText]);
+
+  const loadMoreSearchHits = async () => {
+    if (!searchHits || isLoadingMoreHits) return;
+    setIsLoadingMoreHits(true);
+    const result = await searchNotesAction(searchText, { offset: searchHits.length });
+    setIsLoadingMoreHits(false);
+    if (!result.success) return;
+    setSearchHits((prev) => [...(prev ?? []), ...result.hits]);
+    setSearchHasMore(Boolean(result.hasMore));
+  };
+
   useEffect(() => {
     setIsMessageVisible(!!message);
     if (message && !isPending && !message.includes("Error")) {
@@ -134,8 +178,24 @@ export function SearchableDocumentsList({
 
   const hasSearchOrFilters = isSearching || hasActiveFilters;
 
+  // Server results keep their rank order; listed copies are preferred as they may hold local changes
+  const searchSnippets = new Map((searchHits ?? []).map((hit) => [String(hit.document.id), hit.snippet]));
+  const searchResultDocuments: AnyDocument[] | null = isSearching && searchHits
+    ? searchHits.flatMap((hit) => {
+        const listed = baseServerDocs.find((d) => String(d.id) === String(hit.document.id));
+        if (listed) return [listed];
+        if (!searchAllNotes) return [];
+        return [{ ...hit.document, id: String(hit.document.id), user_id: String(hit.document.user_id) } as unknown as AnyDocument];
+      })
+    : null;
+
   const filteredDocuments: AnyDocument[] = hasSearchOrFilters
-    ? ([...filterLocalDocuments(localDocuments as unknown as AnyDocument[], { currentUserId }), ...filterDocuments(baseServerDocs as unknown as AnyDocument[], { currentUserId })] as AnyDocument[])
+    ? ([
+        ...filterLocalDocuments(localDocuments as unknown as AnyDocument[], { currentUserId }),
+        ...(searchResultDocuments
+          ? filterDocuments(searchResultDocuments, { currentUserId, skipQuery: true })
+          : filterDocuments(baseServerDocs as unknown as AnyDocument[], { currentUserId })),
+      ] as AnyDocument[])
     : documents;
 
   if (documents.length === 0) {
@@ -179,14 +239,18 @@ export function SearchableDocumentsList({
             // Compose a stable, unique key using source and index as a tiebreaker so
             // documents with identical numeric ids (possibly differing types) do not collide.
             const listKey = `${isLocal ? 'local' : 'server'}-${String(document.id)}-${index}`;
+            const isSelected = selectedIds.includes(String(document.id));
             return (
               <li key={listKey} className="w-full list-none">
                 <DocumentCard
                   document={document as any}
                   currentUserId={currentUserId}
                   isLocal={isLocal}
+                  searchSnippet={!isLocal && searchResultDocuments ? searchSnippets.get(String(document.id)) : undefined}
                   selectMode={selectMode}
-                  selected={selectedIds.includes(String(document.id))}
+                  selected={isSelected}
+                  dragDocumentIds={isSelected ? selectedIds.map(Number).filter((id) => Number.isInteger(id) && id > 0) : undefined}
+                  dragSourceFolderId={folderId ?? null}
                   onToggleSelect={toggleSelect}
                   onEnterSelectMode={(firstId: string | number) => {
                     if (!selectMode) { setSelectMode(true); setSelectedIds([String(firstId)]); }
@@ -202,6 +266,13 @@ export function SearchableDocumentsList({
             );
           })}
         </DocumentsGrid>
+        {searchResultDocuments && searchHasMore && (
+          <div className="flex justify-center">
+            <Button variant="ghost" onClick={loadMoreSearchHits} disabled={isLoadingMoreHits}>
+              {isLoadingMoreHits ? "Loading..." : "Show more results"}
+            </Button>
+          </div>
+        )}
       </section>
       {selectMode && (
         <SelectionBar
@@ -18,6 +18,7 @@ interface SelectionBarProps {
 }
 
 import { getFolders } from "@/actions/folderActions";
+import { formatFolderPath, type FolderTreeItem } from "@/lib/folderTree";
 
 export default function SelectionBar({
   selectedCount,
@@ -34,7 +35,7 @@ export default function SelectionBar({
   const isAllSelected = selectedCount === totalCount;
   const [showFolderModal, setShowFolderModal] = useState(false);
   const [selectedFolderId, setSelectedFolderId] = useState<string>("");
-  const [folders, setFolders] = useState<Array<{ id: number; name: string }>>([]);
+  const [folders, setFolders] = useState<FolderTreeItem[]>([]);
   const [isLoadingFolders, setIsLoadingFolders] = useState(false);
   const [isAdding, setIsAdding] = useState(false);
 
@@ -156,11 +157,14 @@ export default function SelectionBar({
                 className="w-full p-2 border border-border rounded-md mb-4 bg-background"
               >
                 <option value="">Select a folder</option>
-                {folders.map((folder) => (
-                  <option key={folder.id} value={String(folder.id)}>
-                    {folder.name}
-                  </option>
-                ))}
+                {folders
+                  .map((folder) => ({ id: folder.id, label: formatFolderPath(folders, folder.id) }))
+                  .sort((a, b) => a.label.localeCompare(b.label))
+                  .map((folder) => (
+                    <option key={folder.id} value={String(folder.id)}>
+                      {folder.label}
+                    </option>
+                  ))}
               </select>
             )}
             <div className="flex gap-2 justify-end">
@@ -0,0 +1,136 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge, Input, Modal } from "@/components/ui";
+import Icon from "@/components/Icon";
+import { createSavedSearch, updateSavedSearch, type SmartFolder } from "@/actions/savedSearchActions";
+import {
+  SMART_FOLDERS_CHANGED_EVENT,
+  describeNoteFilters,
+  removeNoteFilter,
+  type NoteFilters,
+} from "@/lib/searchQuery";
+
+interface SmartFolderModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Smart folder being edited; a new one is created otherwise
+  smartFolder?: SmartFolder | null;
+  initialQuery?: string;
+  initialFilters?: NoteFilters;
+  folderNames?: Map<number, string>;
+  onSaved?: (smartFolder: SmartFolder) => void;
+}
+
+/**
+ * Creates or edits a smart folder: a name, a search query and the filters saved with it.
+ */
+export default function SmartFolderModal({
+  isOpen,
+  onClose,
+  smartFolder,
+  initialQuery = "",
+  initialFilters,
+  folderNames,
+  onSaved,
+}: Readonly<SmartFolderModalProps>) {
+  const [name, setName] = useState("");
+  const [query, setQuery] = useState("");
+  const [filters, setFilters] = useState<NoteFilters>({ tags: [] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(smartFolder?.name ?? "");
+    setQuery(smartFolder?.query ?? initialQuery);
+    setFilters(smartFolder?.filters ?? initialFilters ?? { tags: [] });
+    setError(null);
+  }, [isOpen, smartFolder, initialQuery, initialFilters]);
+
+  const filterChips = describeNoteFilters({ ...filters, tags: filters.tags ?? [] }, folderNames);
+
+  const handleSave = async () => {
+    if (!name.trim() || isSaving) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = smartFolder
+        ? await updateSavedSearch(smartFolder.id, { name, query, filters })
+        : await createSavedSearch(name, query, filters);
+      if (!result.success || !result.smartFolder) {
+        setError(result.error || "Error saving smart folder");
+        return;
+      }
+      window.dispatchEvent(new CustomEvent(SMART_FOLDERS_CHANGED_EVENT));
+      onSaved?.(result.smartFolder);
+      onClose();
+    } catch (err) {
+      console.error("Error saving smart folder:", err);
+      setError("Error saving smart folder");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={smartFolder ? "Edit smart folder" : "Create a smart folder"} size="md">
+      <Modal.Content>
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Ex: Work this quarter"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") void handleSave();
+            }}
+            autoFocus
+          />
+          <Input
+            label="Search"
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder='tag:work shared:yes after:2026-01-01 "exact phrase"'
+            helperText="Words and operators, as in the search bar: tag:, author:, folder:, shared:, has:, is:, before:, after:"
+          />
+          {filterChips.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">Filters</p>
+              <div className="flex flex-wrap gap-2">
+                {filterChips.map((chip) => (
+                  <Badge key={chip.key} variant="primary" size="sm" className="flex items-center gap-1">
+                    <span>{chip.label}</span>
+                    <button
+                      type="button"
+                      onClick={() => setFilters((prev) => removeNoteFilter(prev, chip.key))}
+                      className="rounded-full p-0.5 hover:bg-primary/20 transition-colors ml-0.5"
+                      aria-label={`Remove filter ${chip.label}`}
+                    >
+                      <Icon name="x" className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+      </Modal.Content>
+      <Modal.Footer>
+        <div className="flex gap-2 justify-end w-full">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || isSaving} variant="primary">
+            {isSaving ? <Icon name="spinner" className="w-4 h-4 animate-spin" /> : <Icon name="save" className="w-4 h-4" />}
+            Save
+          </Button>
+        </div>
+      </Modal.Footer>
+    </Modal>
+  );
+}
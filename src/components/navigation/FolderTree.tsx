@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import Icon from "@/components/Icon";
+import { cn } from "@/lib/utils";
+import { getFolders } from "@/actions/folderActions";
+import { useFolderDrop } from "@/hooks/useFolderDrop";
+import {
+  FOLDERS_CHANGED_EVENT,
+  buildFolderTree,
+  getFolderPath,
+  setFolderDragData,
+  type FolderTreeItem,
+  type FolderTreeNode,
+} from "@/lib/folderTree";
+
+interface FolderTreeFolder extends FolderTreeItem {
+  documentCount: number;
+}
+
+interface FolderTreeProps {
+  onNavigate: (e: React.MouseEvent, href: string) => void;
+}
+
+interface FolderTreeRowProps extends FolderTreeProps {
+  node: FolderTreeNode<FolderTreeFolder>;
+  depth: number;
+  activeFolderId: number | null;
+  expandedIds: Set<number>;
+  onToggle: (id: number) => void;
+}
+
+function FolderTreeRow({ node, depth, activeFolderId, expandedIds, onToggle, onNavigate }: Readonly<FolderTreeRowProps>) {
+  const { isOver, dropProps } = useFolderDrop(node.id);
+  const isExpanded = expandedIds.has(node.id);
+  const href = `/folders/${node.id}`;
+
+  return (
+    <li role="treeitem" aria-expanded={node.children.length > 0 ? isExpanded : undefined} aria-selected={activeFolderId === node.id}>
+      <div
+        {...dropProps}
+        draggable
+        onDragStart={(e) => {
+          e.stopPropagation();
+          setFolderDragData(e.dataTransfer, { kind: "folder", folderId: node.id });
+        }}
+        className={cn(
+          "flex items-center gap-1 rounded-sm pr-2 text-sm text-foreground hover:bg-accent/20 transition-colors duration-200 ease-in-out",
+          activeFolderId === node.id && "bg-accent",
+          isOver && "ring-2 ring-primary bg-primary/10"
+        )}
+        style={{ paddingLeft: `${depth * 12}px` }}
+      >
+        <button
+          type="button"
+          onClick={() => onToggle(node.id)}
+          className={cn("p-1 rounded-sm text-muted-foreground hover:text-foreground", node.children.length === 0 && "invisible")}
+          aria-label={isExpanded ? `Collapse ${node.name}` : `Expand ${node.name}`}
+        >
+          <Icon name="chevronDown" className={cn("w-4 h-4 transition-transform duration-200", !isExpanded && "-rotate-90")} />
+        </button>
+        <Link href={href} onClick={(e) => onNavigate(e, href)} className="flex flex-1 items-center gap-2 py-1.5 min-w-0">
+          <Icon name="folder" className="w-4 h-4 shrink-0" />
+          <span className="truncate">{node.name}</span>
+        </Link>
+        <span className="text-xs text-muted-foreground">{node.documentCount}</span>
+      </div>
+      {isExpanded && node.children.length > 0 && (
+        <ul role="group">
+          {node.children.map((child) => (
+            <FolderTreeRow
+              key={child.id}
+              node={child}
+              depth={depth + 1}
+              activeFolderId={activeFolderId}
+              expandedIds={expandedIds}
+              onToggle={onToggle}
+              onNavigate={onNavigate}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Folder hierarchy of the sidebar. Folders and notes can be dropped on a folder to move them
+ * there, and folders on the empty space below the tree to move them back to the root.
+ */
+export default function FolderTree({ onNavigate }: Readonly<FolderTreeProps>) {
+  const pathname = usePathname();
+  const [folders, setFolders] = useState<FolderTreeFolder[]>([]);
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+  const { isOver, dropProps } = useFolderDrop(null);
+
+  const folderMatch = pathname ? /^\/folders\/(\d+)/.exec(pathname) : null;
+  const activeFolderId = folderMatch ? Number(folderMatch[1]) : null;
+
+  useEffect(() => {
+    const loadFolders = async () => {
+      try {
+        const result = await getFolders();
+        if (result.success) {
+          setFolders(result.folders || []);
+        }
+      } catch (error) {
+        console.error("Error loading folder tree:", error);
+      }
+    };
+    loadFolders();
+    window.addEventListener(FOLDERS_CHANGED_EVENT, loadFolders);
+    return () => window.removeEventListener(FOLDERS_CHANGED_EVENT, loadFolders);
+  }, [pathname]);
+
+  // Keep the current folder visible
+  useEffect(() => {
+    if (activeFolderId === null) return;
+    const ancestors = getFolderPath(folders, activeFolderId).slice(0, -1);
+    if (ancestors.length === 0) return;
+    setExpandedIds((prev) => {
+      if (ancestors.every((folder) => prev.has(folder.id))) return prev;
+      const next = new Set(prev);
+      for (const folder of ancestors) next.add(folder.id);
+      return next;
+    });
+  }, [folders, activeFolderId]);
+
+  const toggle = (id: number) => {
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  if (folders.length === 0) return null;
+
+  return (
+    <div {...dropProps} className={cn("ml-4 pb-2 rounded-sm", isOver && "ring-2 ring-primary/50")}>
+      <ul role="tree" aria-label="Folders">
+        {buildFolderTree(folders).map((node) => (
+          <FolderTreeRow
+            key={node.id}
+            node={node}
+            depth={0}
+            activeFolderId={activeFolderId}
+            expandedIds={expandedIds}
+            onToggle={toggle}
+            onNavigate={onNavigate}
+          />
+        ))}
+      </ul>
+    </div>
+  );
+}
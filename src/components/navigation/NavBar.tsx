@@ -1,12 +1,12 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, Fragment } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import Image  from "next/image";
 import { useSession } from "next-auth/react";
 import NotificationOverlay from "@/components/common/notifications/NotificationOverlay";
-import { Logo, Input, Button } from "@/components/ui";
+import { Logo, Button } from "@/components/ui";
 import Icon, { type IconName } from "@/components/Icon";
 import { useLocalSession } from "@/hooks/useLocalSession";
 import { useNotification } from "@/contexts/NotificationContext";
@@ -15,7 +15,11 @@ import { useGuardedNavigate } from "@/hooks/useGuardedNavigate";
 import LoginRequiredModal from "@/components/auth/LoginRequiredModal";
 import BadgeIcon from "../ui/notifications/badge-icon";
 import NotesFilterModal from "@/components/documents/NotesFilterModal";
+import SearchQueryInput from "@/components/navigation/SearchQueryInput";
+import FolderTree from "@/components/navigation/FolderTree";
 import { getProfileImage, checkAdminStatus } from "@/actions/userActions";
+import { getSavedSearches, type SmartFolder } from "@/actions/savedSearchActions";
+import { SMART_FOLDERS_CHANGED_EVENT } from "@/lib/searchQuery";
 
 interface NavItem {
   name: string;
@@ -32,7 +36,7 @@ export default function NavBar() {
   const [showLoginModal, setShowLoginModal] = useState(false);
   const [showNotifications, setShowNotifications] = useState(false);
   const router = useRouter();
-  const { searchQuery, startSearch, clearSearch, hasActiveFilters } = useSearch();
+  const { hasActiveFilters } = useSearch();
   const { data: session, status } = useSession();
   const { logout } = useLocalSession();
   const { guardedNavigate } = useGuardedNavigate();
@@ -84,6 +88,28 @@ export default function NavBar() {
     verifyAdmin();
   }, [isLoggedIn]);
 
+  const [pinnedSmartFolders, setPinnedSmartFolders] = useState<SmartFolder[]>([]);
+  useEffect(() => {
+    if (!isLoggedIn) {
+      setPinnedSmartFolders([]);
+      return;
+    }
+    const loadPinnedSmartFolders = async () => {
+      try {
+        const result = await getSavedSearches({ pinnedOnly: true });
+        if (result.success) {
+          setPinnedSmartFolders(result.smartFolders || []);
+        }
+      } catch (error) {
+        console.error("Error loading pinned smart folders:", error);
+      }
+    };
+    loadPinnedSmartFolders();
+    window.addEventListener(SMART_FOLDERS_CHANGED_EVENT, loadPinnedSmartFolders);
+    return () => window.removeEventListener(SMART_FOLDERS_CHANGED_EVENT, loadPinnedSmartFolders);
+    // Reloaded on navigation so the counts follow the notes edited meanwhile
+  }, [isLoggedIn, pathname]);
+
   const { unreadCount, refresh } = useNotification();
 
   const items: NavItem[] = [
@@ -103,15 +129,6 @@ export default function NavBar() {
     } catch {} finally { setIsOpen(false); }
   };
 
-  const handleDesktopSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === "Enter") {
-      const q = searchQuery.trim();
-      if (q.length > 0) startSearch(q); else clearSearch();
-    }
-  };
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value; if (value.length > 0) startSearch(value); else clearSearch();
-  };
   const handleNavItemClick = (e: React.MouseEvent, href: string) => {
     e.preventDefault(); setIsOpen(false);
     if ((href === "/favorites" || href === "/trash" || href === "/folders" || href === "/support") && !isLoggedIn) { setShowLoginModal(true); return; }
@@ -172,7 +189,7 @@ export default function NavBar() {
               </div>
               <div className="px-3 mb-3">
                 <div className="flex items-center gap-2">
-                  <Input className="flex-1" placeholder="Search..." value={searchQuery} onChange={handleSearchChange} onKeyDown={handleDesktopSearchKeyDown} />
+                  <SearchQueryInput className="flex-1" />
                   <button
                     type="button"
                     onClick={() => { setShowFiltersModal(true); setIsOpen(false); }}
@@ -197,14 +214,25 @@ export default function NavBar() {
                       <span className="font-medium text-sm">{item.name}</span>
                     </button>
                   ) : (
-                    <Link key={item.href} href={item.href} onClick={(e) => handleNavItemClick(e, item.href)} className={`flex items-center gap-2 p-3 rounded-sm hover:bg-accent/20 text-foreground transition-colors duration-200 ease-in-out ${pathname === item.href || (item.name === 'Notifications' && showNotifications) ? 'bg-accent' : ''}`}>
-                      <div className="relative flex items-center">
-                        <BadgeIcon name={item.icon} count={item.name === "Notifications" ? item.unreadNotifications ?? undefined : undefined} className="w-5 h-5" />
-                      </div>
-                      <span className="font-medium text-sm">{item.name}</span>
-                    </Link>
+                    <Fragment key={item.href}>
+                      <Link href={item.href} onClick={(e) => handleNavItemClick(e, item.href)} className={`flex items-center gap-2 p-3 rounded-sm hover:bg-accent/20 text-foreground transition-colors duration-200 ease-in-out ${pathname === item.href || (item.name === 'Notifications' && showNotifications) ? 'bg-accent' : ''}`}>
+                        <div className="relative flex items-center">
+                          <BadgeIcon name={item.icon} count={item.name === "Notifications" ? item.unreadNotifications ?? undefined : undefined} className="w-5 h-5" />
+                        </div>
+                        <span className="font-medium text-sm">{item.name}</span>
+                      </Link>
+                      {item.href === "/folders" && mounted && isLoggedIn && <FolderTree onNavigate={handleNavItemClick} />}
+                    </Fragment>
                   )
                 ))}
+                {pinnedSmartFolders.map((smartFolder) => (
+                  <SmartFolderLink
+                    key={`smart-${smartFolder.id}`}
+                    smartFolder={smartFolder}
+                    isActive={pathname === `/folders/smart/${smartFolder.id}`}
+                    onClick={(e) => handleNavItemClick(e, `/folders/smart/${smartFolder.id}`)}
+                  />
+                ))}
               </div>
             </nav>
             <div className="pt-4 space-y-3">
@@ -293,7 +321,7 @@ export default function NavBar() {
         <nav className="flex-1 overflow-y-auto px-3 py-4 space-y-1">
           <div className="mt-3">
             <div className="flex items-center gap-2">
-              <Input className="flex-1" placeholder="Search..." value={searchQuery} onChange={handleSearchChange} onKeyDown={handleDesktopSearchKeyDown} />
+              <SearchQueryInput className="flex-1" />
               <button
                 type="button"
                 onClick={() => setShowFiltersModal(true)}
@@ -316,14 +344,25 @@ export default function NavBar() {
                   <span className="font-medium text-sm">{item.name}</span>
                 </button>
               ) : (
-                <Link key={item.href} href={item.href} onClick={(e) => handleNavItemClick(e, item.href)} className={`flex items-center gap-2 p-3 rounded-sm hover:bg-accent/20 text-foreground cursor-pointer transition-colors duration-200 ease-in-out ${pathname === item.href || (item.name === 'Notifications' && showNotifications) ? 'bg-accent' : ''}`}>
-                  <div className="relative flex items-center">
-                    <BadgeIcon name={item.icon} count={item.name === "Notifications" ? item.unreadNotifications ?? undefined : undefined} className="w-5 h-5" />
-                  </div>
-                  <span className="font-medium text-sm">{item.name}</span>
-                </Link>
+                <Fragment key={item.href}>
+                  <Link href={item.href} onClick={(e) => handleNavItemClick(e, item.href)} className={`flex items-center gap-2 p-3 rounded-sm hover:bg-accent/20 text-foreground cursor-pointer transition-colors duration-200 ease-in-out ${pathname === item.href || (item.name === 'Notifications' && showNotifications) ? 'bg-accent' : ''}`}>
+                    <div className="relative flex items-center">
+                      <BadgeIcon name={item.icon} count={item.name === "Notifications" ? item.unreadNotifications ?? undefined : undefined} className="w-5 h-5" />
+                    </div>
+                    <span className="font-medium text-sm">{item.name}</span>
+                  </Link>
+                  {item.href === "/folders" && mounted && isLoggedIn && <FolderTree onNavigate={handleNavItemClick} />}
+                </Fragment>
               )
             ))}
+            {pinnedSmartFolders.map((smartFolder) => (
+              <SmartFolderLink
+                key={`smart-${smartFolder.id}`}
+                smartFolder={smartFolder}
+                isActive={pathname === `/folders/smart/${smartFolder.id}`}
+                onClick={(e) => handleNavItemClick(e, `/folders/smart/${smartFolder.id}`)}
+              />
+            ))}
           </div>
         </nav>
         <div className="p-4 space-y-3">
@@ -404,6 +443,16 @@ export default function NavBar() {
   );
 }
 
+function SmartFolderLink({ smartFolder, isActive, onClick }: { smartFolder: SmartFolder; isActive: boolean; onClick: (e: React.MouseEvent) => void }) {
+  return (
+    <Link href={`/folders/smart/${smartFolder.id}`} onClick={onClick} className={`flex items-center gap-2 p-3 rounded-sm hover:bg-accent/20 text-foreground cursor-pointer transition-colors duration-200 ease-in-out ${isActive ? 'bg-accent' : ''}`}>
+      <Icon name="search" className="w-5 h-5" />
+      <span className="font-medium text-sm truncate flex-1">{smartFolder.name}</span>
+      <span className="text-xs text-muted-foreground" aria-label={`${smartFolder.documentCount} notes`}>{smartFolder.documentCount}</span>
+    </Link>
+  );
+}
+
 function getPageTitle(pathname: string | null, items: NavItem[]): string {
   if (!pathname) return "Notus";
   const found = items.find((i) => i.href === pathname);
@@ -413,6 +462,7 @@ function getPageTitle(pathname: string | null, items: NavItem[]): string {
   if (pathname === "/settings") return "Settings";
   if (pathname === "/favorites") return "Favorites";
   if (pathname === "/folders") return "Folders";
+  if (pathname.startsWith("/folders/smart/")) return "Smart folder";
   if (pathname.startsWith("/folders/")) return "Folder";
   if (pathname === "/support") return "Support";
   if (pathname === "/trash") return "Trash";
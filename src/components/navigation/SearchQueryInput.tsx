@@ -0,0 +1,155 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useSession } from "next-auth/react";
+import { Input } from "@/components/ui";
+import { cn } from "@/lib/utils";
+import { useSearch } from "@/contexts/SearchContext";
+import { getTags as getTagsAction } from "@/actions/tagActions";
+import { getFolders as getFoldersAction } from "@/actions/folderActions";
+import { getSearchAuthorsAction } from "@/actions/searchActions";
+import {
+  applySearchSuggestion,
+  getSearchSuggestions,
+  type SearchSuggestion,
+  type SearchSuggestionSources,
+} from "@/lib/searchQuery";
+
+interface SearchQueryInputProps {
+  className?: string;
+}
+
+const EMPTY_SOURCES: SearchSuggestionSources = { tags: [], folders: [], authors: [] };
+
+/**
+ * Search bar field, with completion of the operators of the query language and of the tags,
+ * folders and authors they accept.
+ */
+export default function SearchQueryInput({ className }: Readonly<SearchQueryInputProps>) {
+  const { data: session } = useSession();
+  const { searchQuery, startSearch, clearSearch } = useSearch();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [sources, setSources] = useState<SearchSuggestionSources>(EMPTY_SOURCES);
+  const [hasLoadedSources, setHasLoadedSources] = useState(false);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions: SearchSuggestion[] = caret === null ? [] : getSearchSuggestions(searchQuery, caret, sources);
+
+  const loadSources = async () => {
+    if (hasLoadedSources || !session?.user?.id) return;
+    setHasLoadedSources(true);
+    try {
+      const [tagsResult, foldersResult, authorsResult] = await Promise.all([
+        getTagsAction(),
+        getFoldersAction(),
+        getSearchAuthorsAction(),
+      ]);
+      setSources({
+        tags: tagsResult.success ? tagsResult.tags : [],
+        folders: foldersResult.success ? (foldersResult.folders ?? []).map((folder: { name: string }) => folder.name) : [],
+        authors: authorsResult.success ? authorsResult.authors : [],
+      });
+    } catch (error) {
+      console.error("Error loading search suggestions:", error);
+    }
+  };
+
+  const updateCaret = (element: HTMLInputElement) => {
+    const position = element.selectionStart ?? element.value.length;
+    setCaret(element.selectionEnd === position ? position : null);
+  };
+
+  const setQuery = (value: string) => {
+    if (value.length > 0) startSearch(value); else clearSearch();
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    const element = inputRef.current;
+    const next = applySearchSuggestion(searchQuery, suggestion);
+    setQuery(next.text);
+    setCaret(next.caret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      element?.focus();
+      element?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        selectSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setCaret(null);
+        return;
+      }
+    }
+    if (event.key === "Enter") {
+      const q = searchQuery.trim();
+      if (q.length > 0) startSearch(q); else clearSearch();
+    }
+  };
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        ref={inputRef}
+        placeholder="Search... (tag:, folder:, has:)"
+        value={searchQuery}
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-autocomplete="list"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          updateCaret(e.target);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") updateCaret(e.currentTarget);
+        }}
+        onClick={(e) => updateCaret(e.currentTarget)}
+        onFocus={() => void loadSources()}
+        onBlur={() => setCaret(null)}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          className="absolute left-0 right-0 top-full mt-1 z-50 rounded-lg border border-border bg-card shadow-lg py-1 text-sm"
+        >
+          {suggestions.map((suggestion, index) => (
+            <li key={`${suggestion.replacement}-${index}`} role="option" aria-selected={index === activeIndex}>
+              <button
+                type="button"
+                className={cn(
+                  "flex w-full items-baseline gap-2 px-3 py-1.5 text-left",
+                  index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-accent/50"
+                )}
+                // Keep the focus (and the caret) in the search field
+                onMouseDown={(event) => event.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => selectSuggestion(suggestion)}
+              >
+                <span className="font-medium truncate">{suggestion.label}</span>
+                {suggestion.description && (
+                  <span className="text-xs text-muted-foreground truncate">{suggestion.description}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
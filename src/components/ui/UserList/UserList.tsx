@@ -24,6 +24,8 @@ interface UserListProps {
   documentId: number;
   onChanged?: () => Promise<void> | void;
   isOwner?: boolean;
+  // Users currently connected to the document
+  activeUserIds?: number[];
 }
 
 export default function UserList({
@@ -32,6 +34,7 @@ export default function UserList({
   documentId,
   onChanged,
   isOwner,
+  activeUserIds = [],
 }: Readonly<UserListProps>) {
   const [menuOpenId, setMenuOpenId] = useState<number | null>(null);
   const [localUsers, setLocalUsers] = useState<User[]>(users);
@@ -139,11 +142,18 @@ export default function UserList({
                   <span className="ml-2 text-xs text-muted-foreground">(you)</span>
                 )}
               </span>
-              <span className="text-xs text-muted-foreground">
+              <span className="text-xs text-muted-foreground flex items-center gap-1">
                 {(() => {
                   if (idx === 0) return "Owner";
                   return user.permission ? "Editor" : "Viewer";
                 })()}
+                {user.id !== null && activeUserIds.includes(user.id) && (
+                  <>
+                    <span aria-hidden="true">·</span>
+                    <span className="inline-block w-2 h-2 rounded-full bg-[var(--success)]" aria-hidden="true" />
+                    <span>Online</span>
+                  </>
+                )}
               </span>
             </div>
           </div>
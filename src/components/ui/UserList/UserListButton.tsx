@@ -19,6 +19,7 @@ interface UserListButtonProps {
   onAccessListRefresh?: () => Promise<void> | void;
   isOwner?: boolean;
   currentUserId?: string | number | null;
+  activeUserIds?: number[];
 }
 
 export default function UserListButton({
@@ -27,7 +28,8 @@ export default function UserListButton({
   documentId,
   onAccessListRefresh,
   isOwner,
-  currentUserId
+  currentUserId,
+  activeUserIds = [],
 }: Readonly<UserListButtonProps>) {
   const [errored, setErrored] = useState<{ [id: string]: boolean }>({});
   const [open, setOpen] = useState(false);
@@ -94,6 +96,12 @@ export default function UserListButton({
             {initial}
           </span>
         )}
+        {activeUserIds.includes(Number(user.id)) && (
+          <span
+            className="absolute -top-0.5 -right-0.5 w-2.5 h-2.5 rounded-full bg-[var(--success)] border-2 border-[var(--card)]"
+            title="Online"
+          />
+        )}
         {showBadge && badgeCount !== undefined && badgeCount > 0 && (
           <span
             className={cn(
@@ -169,6 +177,7 @@ export default function UserListButton({
               documentId={documentId ?? (users[0]?.id ?? (undefined as any))}
               onChanged={onAccessListRefresh}
               isOwner={isOwner}
+              activeUserIds={activeUserIds}
             />
           </div>
         </>
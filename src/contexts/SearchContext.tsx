@@ -1,31 +1,40 @@
 "use client";
 
-import { createContext, useContext, useMemo, useState, ReactNode } from "react";
+import { createContext, useContext, useEffect, useMemo, useState, ReactNode } from "react";
 import { AnyDocument } from "@/lib/types";
+import {
+  mergeNoteFilters,
+  noteHasContent,
+  noteHasTags,
+  noteMatchesText,
+  parseSearchQuery,
+  removeSearchToken,
+  type NoteFilters,
+  type ParsedSearchQuery,
+  type SearchQueryToken,
+} from "@/lib/searchQuery";
+import { getFolders as getFoldersAction } from "@/actions/folderActions";
 
-export type SharedFilter = "shared" | "private";
-
-export interface NoteFilters {
-  dateFrom?: string;
-  dateTo?: string;
-  author?: string;
-  shared?: SharedFilter;
-  folderId?: number;
-  tags: string[];
-}
+export type { NoteFilters, SharedFilter } from "@/lib/searchQuery";
 
 interface FilterOptions {
   currentUserId?: string | number | null;
+  // The documents already match the words of the query (server-side search results, which may
+  // include close matches of excluded words)
+  skipQuery?: boolean;
 }
 
 interface SearchContextType {
   searchQuery: string;
+  parsedQuery: ParsedSearchQuery;
   isSearching: boolean;
   hasActiveFilters: boolean;
+  // Filters set in the filter modal; the operators of the query are applied on top of them
   filters: NoteFilters;
   defaultFilters: NoteFilters;
   startSearch: (query: string) => void;
   clearSearch: () => void;
+  removeQueryOperator: (token: SearchQueryToken) => void;
   applyFilters: (filters: NoteFilters) => void;
   resetFilters: () => void;
   filterByTag: (tag: string) => void;
@@ -43,8 +52,33 @@ const SearchContext = createContext<SearchContextType | undefined>(undefined);
 
 export function SearchProvider({ children }: SearchProviderProps) {
   const [searchQuery, setSearchQuery] = useState<string>("");
-  const [isSearching, setIsSearching] = useState<boolean>(false);
   const [filters, setFilters] = useState<NoteFilters>(createDefaultFilters);
+  const [folderIdsByName, setFolderIdsByName] = useState<Map<string, number> | null>(null);
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+  const isSearching = parsedQuery.text.length > 0;
+
+  // Folders are only needed to resolve folder: operators, and are reloaded for the next one
+  useEffect(() => {
+    if (!parsedQuery.folderName) {
+      setFolderIdsByName(null);
+      return;
+    }
+    if (folderIdsByName) return;
+    let cancelled = false;
+    getFoldersAction()
+      .then((result) => {
+        if (cancelled) return;
+        const folders: Array<{ id: number; name: string }> = result.success ? result.folders ?? [] : [];
+        setFolderIdsByName(new Map(folders.map((folder) => [folder.name.toLowerCase(), folder.id])));
+      })
+      .catch(() => {
+        if (!cancelled) setFolderIdsByName(new Map());
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsedQuery.folderName, folderIdsByName]);
 
   const normalizedFilters = useMemo(() => {
     const uniqTags = Array.from(new Set((filters.tags || []).map((tag) => tag.trim()).filter(Boolean)));
@@ -54,25 +88,37 @@ export function SearchProvider({ children }: SearchProviderProps) {
     };
   }, [filters]);
 
+  const effectiveFilters = useMemo((): NoteFilters => {
+    // A folder that doesn't exist matches no note; until folders are loaded it isn't applied
+    const queryFolderId = parsedQuery.folderName && folderIdsByName
+      ? folderIdsByName.get(parsedQuery.folderName.toLowerCase()) ?? -1
+      : undefined;
+    return mergeNoteFilters(normalizedFilters, { ...parsedQuery.filters, folderId: queryFolderId });
+  }, [normalizedFilters, parsedQuery, folderIdsByName]);
+
   const hasActiveFilters = useMemo(() => {
     return Boolean(
-      normalizedFilters.author?.trim() ||
-      normalizedFilters.dateFrom ||
-      normalizedFilters.dateTo ||
-      normalizedFilters.shared ||
-      normalizedFilters.folderId ||
-      (normalizedFilters.tags?.length ?? 0) > 0
+      effectiveFilters.author?.trim() ||
+      effectiveFilters.dateFrom ||
+      effectiveFilters.dateTo ||
+      effectiveFilters.shared ||
+      effectiveFilters.folderId ||
+      effectiveFilters.favorite ||
+      (effectiveFilters.has?.length ?? 0) > 0 ||
+      (effectiveFilters.tags?.length ?? 0) > 0
     );
-  }, [normalizedFilters]);
+  }, [effectiveFilters]);
 
   const startSearch = (query: string) => {
     setSearchQuery(query);
-    setIsSearching(query.length > 0);
   };
 
   const clearSearch = () => {
     setSearchQuery("");
-    setIsSearching(false);
+  };
+
+  const removeQueryOperator = (token: SearchQueryToken) => {
+    setSearchQuery((current) => removeSearchToken(current, token));
   };
 
   const normalizeFiltersPayload = (nextFilters: NoteFilters): NoteFilters => {
@@ -87,6 +133,8 @@ export function SearchProvider({ children }: SearchProviderProps) {
         ? nextFilters.folderId
         : undefined,
       tags: Array.from(new Set((nextFilters.tags || []).map((tag) => tag.trim()).filter(Boolean))),
+      has: nextFilters.has?.length ? Array.from(new Set(nextFilters.has)) : undefined,
+      favorite: nextFilters.favorite || undefined,
     };
   };
 
@@ -108,13 +156,10 @@ export function SearchProvider({ children }: SearchProviderProps) {
     clearSearch();
   };
 
-  const matchesSearchQuery = (doc: AnyDocument): boolean => {
-    if (!isSearching || !searchQuery) return true;
-    const query = searchQuery.toLowerCase();
-    const titleMatch = doc.title?.toLowerCase().includes(query);
+  const matchesSearchQuery = (doc: AnyDocument, options?: FilterOptions): boolean => {
+    if (!isSearching) return true;
     const tagsArray = Array.isArray((doc as any).tags) ? ((doc as any).tags as string[]) : [];
-    const tagsMatch = tagsArray.some((t) => t?.toLowerCase().includes(query));
-    return Boolean(titleMatch || tagsMatch);
+    return noteMatchesText({ title: doc.title, tags: tagsArray, content: (doc as any).content }, parsedQuery, options?.skipQuery);
   };
 
   const matchesActiveFilters = (doc: AnyDocument, options?: FilterOptions): boolean => {
@@ -124,18 +169,18 @@ export function SearchProvider({ children }: SearchProviderProps) {
     const docDateRaw = docAny.updated_at || docAny.created_at;
     const docDate = docDateRaw ? new Date(docDateRaw) : null;
 
-    if (normalizedFilters.dateFrom) {
-      const fromDate = new Date(normalizedFilters.dateFrom);
+    if (effectiveFilters.dateFrom) {
+      const fromDate = new Date(effectiveFilters.dateFrom);
       if (!docDate || docDate < fromDate) return false;
     }
 
-    if (normalizedFilters.dateTo) {
-      const toDate = new Date(normalizedFilters.dateTo);
+    if (effectiveFilters.dateTo) {
+      const toDate = new Date(effectiveFilters.dateTo);
       if (!docDate || docDate > toDate) return false;
     }
 
-    if (normalizedFilters.author) {
-      const authorQuery = normalizedFilters.author.toLowerCase();
+    if (effectiveFilters.author) {
+      const authorQuery = effectiveFilters.author.toLowerCase();
       const authorFields = [
         docAny.first_name,
         docAny.last_name,
@@ -149,25 +194,30 @@ export function SearchProvider({ children }: SearchProviderProps) {
       }
     }
 
-    if (normalizedFilters.tags.length > 0) {
+    if (effectiveFilters.favorite && !docAny.is_favorite && !docAny.is_favorite_share) {
+      return false;
+    }
+
+    if (effectiveFilters.has?.length) {
+      const content = typeof docAny.content === "string" ? docAny.content : "";
+      if (!effectiveFilters.has.every((kind) => noteHasContent(content, kind))) return false;
+    }
+
+    if (effectiveFilters.tags.length > 0) {
       const docTags = Array.isArray(docAny.tags) ? (docAny.tags as string[]) : [];
-      const lowerDocTags = docTags.map((t) => t?.toLowerCase()).filter(Boolean);
-      const allTagsPresent = normalizedFilters.tags.every((tag) =>
-        lowerDocTags.includes(tag.toLowerCase())
-      );
-      if (!allTagsPresent) return false;
+      if (!noteHasTags(docTags, effectiveFilters.tags)) return false;
     }
 
-    if (normalizedFilters.folderId) {
+    if (effectiveFilters.folderId) {
       // Logic supports folderIds
       const folderIds = Array.isArray(docAny.folderIds) ? docAny.folderIds : [];
       const hasFolder = folderIds.some(
-        (id: number | string) => Number(id) === Number(normalizedFilters.folderId)
+        (id: number | string) => Number(id) === Number(effectiveFilters.folderId)
       );
       if (!hasFolder) return false;
     }
 
-    if (normalizedFilters.shared) {
+    if (effectiveFilters.shared) {
       const currentUserId = options?.currentUserId ? String(options.currentUserId) : undefined;
       const ownerId = docAny.user_id ? String(docAny.user_id) : undefined;
       const ownedByCurrent = currentUserId && ownerId ? currentUserId === ownerId : false;
@@ -176,10 +226,10 @@ export function SearchProvider({ children }: SearchProviderProps) {
       const isForeignDoc = currentUserId && ownerId ? ownerId !== currentUserId : false;
       const isSharedDoc = hasOutgoingShares || isForeignDoc || Boolean(docAny.shared);
 
-      if (normalizedFilters.shared === "shared" && !isSharedDoc) {
+      if (effectiveFilters.shared === "shared" && !isSharedDoc) {
         return false;
       }
-      if (normalizedFilters.shared === "private" && (!ownedByCurrent || hasOutgoingShares)) {
+      if (effectiveFilters.shared === "private" && (!ownedByCurrent || hasOutgoingShares)) {
         return false;
       }
     }
@@ -189,19 +239,21 @@ export function SearchProvider({ children }: SearchProviderProps) {
 
   const applySearchAndFilters = (documents: AnyDocument[], options?: FilterOptions): AnyDocument[] => {
     if (!Array.isArray(documents) || documents.length === 0) return documents;
-    return documents.filter((doc) => matchesSearchQuery(doc) && matchesActiveFilters(doc, options));
+    return documents.filter((doc) => matchesSearchQuery(doc, options) && matchesActiveFilters(doc, options));
   };
 
   return (
     <SearchContext.Provider
       value={{
         searchQuery,
+        parsedQuery,
         isSearching,
         hasActiveFilters,
         filters: normalizedFilters,
         defaultFilters: createDefaultFilters(),
         startSearch,
         clearSearch,
+        removeQueryOperator,
         applyFilters,
         resetFilters,
         filterByTag,
@@ -0,0 +1,157 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createComment, getComments, setCommentThreadResolved } from "@/actions/commentActions";
+import { isTextAnchor, type TextAnchor } from "@/lib/commentAnchors";
+
+export interface CommentUser {
+  id: number;
+  username?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  profile_image?: string | null;
+}
+
+export interface CommentItem {
+  id: number;
+  content: string;
+  created_at: string;
+  parent_id?: number | null;
+  anchor?: TextAnchor | null;
+  resolved_at?: string | null;
+  user: CommentUser | null;
+  resolver?: CommentUser | null;
+}
+
+export interface CommentThread {
+  root: CommentItem;
+  replies: CommentItem[];
+  anchor: TextAnchor | null;
+  resolved: boolean;
+}
+
+interface UseDocumentCommentsOptions {
+  // Called when a new comment mentions people who cannot open the document
+  onMentionsWithoutAccess?: (usernames: string[], threadId: number) => void;
+}
+
+interface UseDocumentCommentsReturn {
+  threads: CommentThread[];
+  loading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+  addComment: (content: string, anchor?: TextAnchor | null) => Promise<boolean>;
+  reply: (threadId: number, content: string) => Promise<boolean>;
+  setResolved: (threadId: number, resolved: boolean) => Promise<boolean>;
+}
+
+function buildThreads(comments: CommentItem[]): CommentThread[] {
+  const threads = new Map<number, CommentThread>();
+  for (const comment of comments) {
+    if (comment.parent_id) continue;
+    threads.set(comment.id, {
+      root: comment,
+      replies: [],
+      anchor: isTextAnchor(comment.anchor) ? comment.anchor : null,
+      resolved: Boolean(comment.resolved_at),
+    });
+  }
+  for (const comment of comments) {
+    if (!comment.parent_id) continue;
+    threads.get(comment.parent_id)?.replies.push(comment);
+  }
+  return Array.from(threads.values());
+}
+
+/**
+ * Comment threads of a document, shared by the comments sidebar and the editor highlights.
+ */
+export function useDocumentComments(
+  documentId: number | null | undefined,
+  options: UseDocumentCommentsOptions = {}
+): UseDocumentCommentsReturn {
+  const [comments, setComments] = useState<CommentItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onMentionsWithoutAccessRef = useRef(options.onMentionsWithoutAccess);
+  onMentionsWithoutAccessRef.current = options.onMentionsWithoutAccess;
+
+  const refresh = useCallback(async () => {
+    if (!documentId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getComments(documentId);
+      if (result.success) {
+        setComments((result.comments as unknown as CommentItem[]) || []);
+      } else {
+        setError(result.error || "Unable to load comments");
+        setComments([]);
+      }
+    } catch {
+      setError("Error loading comments");
+      setComments([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const create = useCallback(async (content: string, parentId: number | null, anchor: TextAnchor | null) => {
+    if (!documentId) return false;
+    setError(null);
+    try {
+      const result = await createComment(documentId, content, { parentId, anchor });
+      if (!result.success) {
+        setError(result.error || "Unable to send comment");
+        return false;
+      }
+      if (parentId !== null) {
+        // Replying may have reopened the thread
+        await refresh();
+      } else if (result.comment) {
+        setComments((previous) => [...previous, result.comment as unknown as CommentItem]);
+      }
+      const withoutAccess = result.mentions?.withoutAccess ?? [];
+      if (withoutAccess.length > 0 && result.comment) {
+        onMentionsWithoutAccessRef.current?.(withoutAccess, parentId ?? (result.comment as { id: number }).id);
+      }
+      return true;
+    } catch {
+      setError("Error sending comment");
+      return false;
+    }
+  }, [documentId, refresh]);
+
+  const addComment = useCallback(
+    (content: string, anchor: TextAnchor | null = null) => create(content, null, anchor),
+    [create]
+  );
+
+  const reply = useCallback((threadId: number, content: string) => create(content, threadId, null), [create]);
+
+  const setResolved = useCallback(async (threadId: number, resolved: boolean) => {
+    setError(null);
+    try {
+      const result = await setCommentThreadResolved(threadId, resolved);
+      if (!result.success || !result.comment) {
+        setError(result.error || "Unable to update the thread");
+        return false;
+      }
+      const updated = result.comment as unknown as CommentItem;
+      setComments((previous) => previous.map((comment) => (comment.id === updated.id ? updated : comment)));
+      return true;
+    } catch {
+      setError("Error updating the thread");
+      return false;
+    }
+  }, []);
+
+  const threads = useMemo(() => buildThreads(comments), [comments]);
+
+  return { threads, loading, error, refresh, addComment, reply, setResolved };
+}
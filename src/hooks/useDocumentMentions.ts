@@ -0,0 +1,145 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { getMentionCandidatesAction, notifyMentionsAction, shareWithMentionedUsersAction } from "@/actions/mentionActions";
+import { extractMentions, type MentionCandidate } from "@/lib/mentions";
+import type { MentionSource } from "@/lib/mentionNotifications";
+
+interface UseDocumentMentionsOptions {
+  documentId: number | null | undefined;
+  // Text of the note as loaded: whoever wrote the mentions it contains was notified for them
+  loadedText: string | null;
+  enabled: boolean;
+  // Whether the current user owns the note, and so may share it with the people they mention
+  canShare: boolean;
+}
+
+interface UseDocumentMentionsReturn {
+  candidates: MentionCandidate[];
+  handleLocalTextChange: (text: string) => void;
+  handleRemoteTextChange: (text: string) => void;
+  handleMentionsWithoutAccess: (
+    usernames: string[],
+    source: MentionSource,
+    commentThreadId?: number | null
+  ) => Promise<void>;
+}
+
+// Mentions are notified once the text has settled, so that a half-typed username is not pinged
+const NOTE_MENTION_DELAY_MS = 4000;
+
+function formatUsernames(usernames: string[]): string {
+  return usernames.map((username) => `@${username}`).join(", ");
+}
+
+/**
+ * `@username` mentions of a document: people who can be mentioned, notifications for the
+ * mentions added to the note, and sharing with mentioned people who cannot open it yet.
+ */
+export function useDocumentMentions({
+  documentId,
+  loadedText,
+  enabled,
+  canShare,
+}: UseDocumentMentionsOptions): UseDocumentMentionsReturn {
+  const [candidates, setCandidates] = useState<MentionCandidate[]>([]);
+  const knownMentionsRef = useRef<Set<string> | null>(null);
+  const pendingTextRef = useRef<string | null>(null);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const loadCandidates = useCallback(async () => {
+    if (!documentId || !enabled) return;
+    try {
+      const result = await getMentionCandidatesAction(documentId);
+      setCandidates(result.success && result.candidates ? result.candidates : []);
+    } catch {
+      setCandidates([]);
+    }
+  }, [documentId, enabled]);
+
+  useEffect(() => {
+    void loadCandidates();
+  }, [loadCandidates]);
+
+  useEffect(() => {
+    knownMentionsRef.current = null;
+  }, [documentId]);
+
+  useEffect(() => {
+    if (loadedText === null) return;
+    const known = knownMentionsRef.current ?? new Set<string>();
+    extractMentions(loadedText).forEach((username) => known.add(username.toLowerCase()));
+    knownMentionsRef.current = known;
+  }, [loadedText]);
+
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    };
+  }, []);
+
+  const handleMentionsWithoutAccess = useCallback(
+    async (usernames: string[], source: MentionSource, commentThreadId: number | null = null) => {
+      if (!documentId || usernames.length === 0) return;
+      const names = formatUsernames(usernames);
+
+      if (!canShare) {
+        globalThis.window.alert(
+          `${names} cannot open this note, so they were not notified. Ask the owner of the note to share it with them.`
+        );
+        return;
+      }
+      if (!globalThis.window.confirm(`${names} cannot open this note. Share it with them (read only) and notify them?`)) {
+        return;
+      }
+
+      const result = await shareWithMentionedUsersAction(documentId, usernames, source, commentThreadId);
+      const shared = result.success && "shared" in result ? result.shared ?? [] : [];
+      if (shared.length < usernames.length) {
+        globalThis.window.alert("The note could not be shared with everyone.");
+      }
+      if (shared.length > 0) {
+        await loadCandidates();
+      }
+    },
+    [documentId, canShare, loadCandidates]
+  );
+
+  const notifyNewMentions = useCallback(async () => {
+    const text = pendingTextRef.current;
+    const known = knownMentionsRef.current;
+    pendingTextRef.current = null;
+    if (!documentId || !enabled || text === null || known === null) return;
+
+    const added = extractMentions(text).filter((username) => !known.has(username.toLowerCase()));
+    if (added.length === 0) return;
+
+    try {
+      const result = await notifyMentionsAction(documentId, added, "note");
+      if (!result.success || !("withoutAccess" in result)) return;
+      added.forEach((username) => known.add(username.toLowerCase()));
+      if (result.withoutAccess.length > 0) {
+        await handleMentionsWithoutAccess(result.withoutAccess, "note");
+      }
+    } catch (error) {
+      console.error("❌ Error notifying mentions:", error);
+    }
+  }, [documentId, enabled, handleMentionsWithoutAccess]);
+
+  const handleLocalTextChange = useCallback((text: string) => {
+    pendingTextRef.current = text;
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => {
+      void notifyNewMentions();
+    }, NOTE_MENTION_DELAY_MS);
+  }, [notifyNewMentions]);
+
+  // Mentions written by collaborators are notified by their own client
+  const handleRemoteTextChange = useCallback((text: string) => {
+    const known = knownMentionsRef.current;
+    if (!known) return;
+    extractMentions(text).forEach((username) => known.add(username.toLowerCase()));
+  }, []);
+
+  return { candidates, handleLocalTextChange, handleRemoteTextChange, handleMentionsWithoutAccess };
+}
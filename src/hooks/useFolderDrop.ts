@@ -0,0 +1,67 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import { moveFolder, moveDocumentsToFolder } from "@/actions/folderActions";
+import { FOLDERS_CHANGED_EVENT, getFolderDragData, hasFolderDragData } from "@/lib/folderTree";
+
+/**
+ * Drop target for folders and notes dragged onto a folder, or onto the root of the tree
+ * when `targetFolderId` is null (notes can't be dropped there).
+ */
+export function useFolderDrop(targetFolderId: number | null) {
+  const [isOver, setIsOver] = useState(false);
+  // dragenter/dragleave also fire when moving over the children of the target
+  const depthRef = useRef(0);
+
+  const onDragEnter = useCallback((e: React.DragEvent) => {
+    if (!hasFolderDragData(e.dataTransfer, targetFolderId !== null)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    depthRef.current += 1;
+    setIsOver(true);
+  }, [targetFolderId]);
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    if (!hasFolderDragData(e.dataTransfer, targetFolderId !== null)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+  }, [targetFolderId]);
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    if (!hasFolderDragData(e.dataTransfer, targetFolderId !== null)) return;
+    e.stopPropagation();
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) setIsOver(false);
+  }, [targetFolderId]);
+
+  const onDrop = useCallback(async (e: React.DragEvent) => {
+    const payload = getFolderDragData(e.dataTransfer);
+    depthRef.current = 0;
+    setIsOver(false);
+    if (!payload) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      let result: { success: boolean; error?: string } | null = null;
+      if (payload.kind === "folder") {
+        if (payload.folderId === targetFolderId) return;
+        result = await moveFolder(payload.folderId, targetFolderId);
+      } else if (targetFolderId !== null) {
+        result = await moveDocumentsToFolder(targetFolderId, payload.documentIds, payload.sourceFolderId);
+      }
+      if (!result) return;
+      if (!result.success) {
+        alert(result.error || "Error moving to folder");
+        return;
+      }
+      window.dispatchEvent(new CustomEvent(FOLDERS_CHANGED_EVENT));
+    } catch (error) {
+      console.error("Error moving to folder:", error);
+      alert("Error moving to folder");
+    }
+  }, [targetFolderId]);
+
+  return { isOver, dropProps: { onDragEnter, onDragOver, onDragLeave, onDrop } };
+}
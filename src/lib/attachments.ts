@@ -0,0 +1,75 @@
+// lib/attachments.ts
+// Attachments are uploaded once and referenced from note content by URL, instead of inlining
+// their bytes as base64 data URLs. Shared by the editor and the server.
+
+export const ATTACHMENT_URL_PREFIX = "/api/attachments/";
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024; // 25MB
+export const MAX_MEDIA_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10MB for videos
+
+// Data URLs shorter than this are left in the content (icons, tiny images)
+export const MIN_EXTRACTED_DATA_URL_LENGTH = 1024;
+
+const ATTACHMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const ATTACHMENT_URL_PATTERN = /\/api\/attachments\/([0-9a-f-]{36})/gi;
+
+export function createBase64DataUrlPattern(): RegExp {
+  return /data:([\w.+-]+\/[\w.+-]+)((?:;[\w.+-]+=[^;,"'\s)]+)*);base64,([A-Za-z0-9+/]+={0,2})/g;
+}
+
+export interface UploadedAttachment {
+  id: string;
+  url: string;
+  name: string;
+  type: string;
+  size: number;
+}
+
+export function isAttachmentId(value: unknown): value is string {
+  return typeof value === "string" && ATTACHMENT_ID_PATTERN.test(value);
+}
+
+export function attachmentUrl(id: string): string {
+  return `${ATTACHMENT_URL_PREFIX}${id}`;
+}
+
+export function isAttachmentUrl(url: string | null | undefined): boolean {
+  if (!url) return false;
+  return url.startsWith(ATTACHMENT_URL_PREFIX) && isAttachmentId(url.slice(ATTACHMENT_URL_PREFIX.length));
+}
+
+/**
+ * Ids of the attachments referenced by `content`, in order of first appearance.
+ */
+export function findAttachmentIds(content: string): string[] {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(ATTACHMENT_URL_PATTERN)) {
+    if (isAttachmentId(match[1])) ids.add(match[1].toLowerCase());
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Uploads a file for the note `documentId` (null for a note that isn't saved yet).
+ */
+export async function uploadAttachment(
+  file: Blob,
+  name: string,
+  documentId: number | null
+): Promise<{ success: boolean; attachment?: UploadedAttachment; error?: string }> {
+  const formData = new FormData();
+  formData.append("file", file, name);
+  const query = documentId ? `?documentId=${documentId}` : "";
+
+  try {
+    const response = await fetch(`/api/attachments${query}`, { method: "POST", body: formData });
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.success) {
+      return { success: false, error: result?.error || "Unable to upload the file" };
+    }
+    return { success: true, attachment: result.attachment as UploadedAttachment };
+  } catch (error) {
+    console.error("❌ Error uploading attachment:", error);
+    return { success: false, error: "Unable to upload the file" };
+  }
+}
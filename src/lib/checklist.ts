@@ -0,0 +1,38 @@
+// lib/checklist.ts
+// Progress of the GFM task lists (`- [ ]` / `- [x]`) of a note, as shown on its card.
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+const TASK_ITEM_PATTERN = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\](?:\s|$)/;
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Checked and total task items of `markdown`, or null when it has no task list.
+ * Task markers inside fenced code blocks are ignored.
+ */
+export function getChecklistProgress(markdown: string): ChecklistProgress | null {
+  if (!markdown) return null;
+  let done = 0;
+  let total = 0;
+  let openFence: string | null = null;
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const fence = CODE_FENCE_PATTERN.exec(line);
+    if (fence) {
+      if (openFence === null) openFence = fence[1];
+      else if (openFence === fence[1]) openFence = null;
+      continue;
+    }
+    if (openFence !== null) continue;
+
+    const match = TASK_ITEM_PATTERN.exec(line);
+    if (!match) continue;
+    total++;
+    if (match[1] !== " ") done++;
+  }
+
+  return total > 0 ? { done, total } : null;
+}
@@ -0,0 +1,138 @@
+// lib/commentAnchors.ts
+// Anchors attach a comment thread to a range of the note text (the plain text of the editor).
+// Besides offsets, an anchor keeps the quoted text and some context around it, so that the range
+// can be found again after the note has been edited before, inside or after it.
+import DiffMatchPatch from "diff-match-patch";
+
+export interface TextAnchor {
+  quote: string;
+  prefix: string;
+  suffix: string;
+  // Offsets in the text when the anchor was created, used as a hint to locate the quote
+  start: number;
+  end: number;
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+export const ANCHOR_CONTEXT_LENGTH = 32;
+export const ANCHOR_QUOTE_MAX_LENGTH = 1000;
+
+// diff-match-patch matches patterns of at most 32 characters
+const FUZZY_PATTERN_LENGTH = 32;
+
+export function createTextAnchor(text: string, start: number, end: number): TextAnchor | null {
+  const from = Math.max(0, Math.min(start, end));
+  const to = Math.min(text.length, Math.max(start, end));
+  const quote = text.slice(from, to);
+  if (!quote.trim() || quote.length > ANCHOR_QUOTE_MAX_LENGTH) return null;
+
+  return {
+    quote,
+    prefix: text.slice(Math.max(0, from - ANCHOR_CONTEXT_LENGTH), from),
+    suffix: text.slice(to, to + ANCHOR_CONTEXT_LENGTH),
+    start: from,
+    end: to,
+  };
+}
+
+export function isTextAnchor(value: unknown): value is TextAnchor {
+  if (!value || typeof value !== "object") return false;
+  const anchor = value as Record<string, unknown>;
+  return (
+    typeof anchor.quote === "string" &&
+    anchor.quote.length > 0 &&
+    anchor.quote.length <= ANCHOR_QUOTE_MAX_LENGTH &&
+    typeof anchor.prefix === "string" &&
+    anchor.prefix.length <= ANCHOR_CONTEXT_LENGTH &&
+    typeof anchor.suffix === "string" &&
+    anchor.suffix.length <= ANCHOR_CONTEXT_LENGTH &&
+    Number.isInteger(anchor.start) &&
+    Number.isInteger(anchor.end) &&
+    (anchor.start as number) >= 0 &&
+    (anchor.end as number) >= (anchor.start as number)
+  );
+}
+
+/**
+ * Number of characters shared by the end of `a` and the end of `b`
+ * (or their starts when `fromStart` is set).
+ */
+function commonLength(a: string, b: string, fromStart: boolean): number {
+  const max = Math.min(a.length, b.length);
+  let count = 0;
+  while (count < max) {
+    const charA = fromStart ? a[count] : a[a.length - 1 - count];
+    const charB = fromStart ? b[count] : b[b.length - 1 - count];
+    if (charA !== charB) break;
+    count += 1;
+  }
+  return count;
+}
+
+function findExactRange(text: string, anchor: TextAnchor): { range: TextRange; context: number } | null {
+  let best: { range: TextRange; context: number } | null = null;
+  let bestScore = -Infinity;
+  let index = text.indexOf(anchor.quote);
+  while (index !== -1) {
+    const end = index + anchor.quote.length;
+    const context =
+      commonLength(text.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix, false) +
+      commonLength(text.slice(end, end + anchor.suffix.length), anchor.suffix, true);
+    // Context wins over position; position breaks ties between identical contexts
+    const score = context * text.length - Math.abs(index - anchor.start);
+    if (score > bestScore) {
+      bestScore = score;
+      best = { range: { start: index, end }, context };
+    }
+    index = text.indexOf(anchor.quote, index + 1);
+  }
+  return best;
+}
+
+function findFuzzyRange(text: string, anchor: TextAnchor): TextRange | null {
+  const dmp = new DiffMatchPatch();
+  // Exact moves are handled by findExactRange: fuzzy matches stay close to where the quote was
+  dmp.Match_Threshold = 0.4;
+  dmp.Match_Distance = 100;
+
+  const head = anchor.quote.slice(0, FUZZY_PATTERN_LENGTH);
+  const tail = anchor.quote.slice(-FUZZY_PATTERN_LENGTH);
+  const start = dmp.match_main(text, head, Math.min(anchor.start, text.length));
+  if (start === -1) return null;
+
+  // Short quotes are matched whole: their length is kept
+  if (anchor.quote.length <= FUZZY_PATTERN_LENGTH) {
+    return { start, end: Math.min(start + anchor.quote.length, text.length) };
+  }
+
+  const expectedTailStart = start + anchor.quote.length - tail.length;
+  const tailStart = dmp.match_main(text, tail, Math.max(start, Math.min(expectedTailStart, text.length)));
+  if (tailStart === -1 || tailStart < start) return null;
+
+  const end = tailStart + tail.length;
+  // Reject matches that grew or shrank too much to still be the same passage
+  const length = end - start;
+  if (length < anchor.quote.length / 2 || length > anchor.quote.length * 2) return null;
+
+  return { start, end: Math.min(end, text.length) };
+}
+
+/**
+ * Finds the current range of an anchor in `text`, or null when the quoted passage is gone.
+ */
+export function resolveTextAnchor(text: string, anchor: TextAnchor): TextRange | null {
+  if (text.slice(anchor.start, anchor.end) === anchor.quote) {
+    return { start: anchor.start, end: anchor.end };
+  }
+  // Another occurrence of the quote is only trusted when its surroundings match too:
+  // otherwise the commented passage itself was probably edited
+  const exact = findExactRange(text, anchor);
+  if (exact && exact.context * 2 >= anchor.prefix.length + anchor.suffix.length) {
+    return exact.range;
+  }
+  return findFuzzyRange(text, anchor) ?? exact?.range ?? null;
+}
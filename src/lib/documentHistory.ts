@@ -1,3 +1,4 @@
+import DiffMatchPatch from "diff-match-patch";
 import { prisma } from "./prisma";
 
 /**
@@ -67,43 +68,27 @@ export interface TextDiff {
 }
 
 /**
- * Computes a very simple diff between two texts:
- * - find common prefix
- * - then common suffix
- * - everything that differs in between is considered added/removed
- *
- * The goal is to summarize a complete "send", not to produce an exhaustive diff.
+ * Computes the text added and removed between two versions.
+ * Each changed region is kept separately (one per line), so an edit at the start and
+ * another at the end of a note do not report everything in between as changed.
  */
 export function computeTextDiff(previous: string, next: string): TextDiff {
   if (previous === next) {
     return { added: "", removed: "" };
   }
 
-  const prevLen = previous.length;
-  const nextLen = next.length;
-  const minLen = Math.min(prevLen, nextLen);
+  const dmp = new DiffMatchPatch();
+  const diffs = dmp.diff_main(previous, next);
+  dmp.diff_cleanupSemantic(diffs);
 
-  let start = 0;
-  while (start < minLen && previous[start] === next[start]) {
-    start++;
+  const added: string[] = [];
+  const removed: string[] = [];
+  for (const [operation, text] of diffs) {
+    if (operation === DiffMatchPatch.DIFF_INSERT) added.push(text);
+    else if (operation === DiffMatchPatch.DIFF_DELETE) removed.push(text);
   }
 
-  let endPrev = prevLen;
-  let endNext = nextLen;
-
-  while (
-    endPrev > start &&
-    endNext > start &&
-    previous[endPrev - 1] === next[endNext - 1]
-  ) {
-    endPrev--;
-    endNext--;
-  }
-
-  const removed = previous.slice(start, endPrev);
-  const added = next.slice(start, endNext);
-
-  return { added, removed };
+  return { added: added.join("\n"), removed: removed.join("\n") };
 }
 
 interface RecordHistoryParams {
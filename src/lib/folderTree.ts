@@ -0,0 +1,130 @@
+// lib/folderTree.ts
+// Folder hierarchy. A folder has an optional parent (`parent_id`, null for the folders at the root
+// of `/folders`); the notes filed in a folder are not listed in its parents. Folders and notes
+// are moved by dragging them onto a folder of the tree.
+
+export interface FolderTreeItem {
+  id: number;
+  name: string;
+  parent_id: number | null;
+}
+
+export type FolderTreeNode<T extends FolderTreeItem> = T & { children: FolderTreeNode<T>[] };
+
+export type FolderDragPayload =
+  | { kind: "folder"; folderId: number }
+  | { kind: "documents"; documentIds: number[]; sourceFolderId: number | null };
+
+// Bounds the walks up and down the hierarchy, so a corrupted parent chain can't loop
+export const MAX_FOLDER_DEPTH = 32;
+export const MAX_FOLDER_NAME_LENGTH = 100;
+
+export const FOLDERS_CHANGED_EVENT = "notus:folders-changed";
+
+const FOLDER_DRAG_TYPE = "application/x-notus-folder";
+const DOCUMENTS_DRAG_TYPE = "application/x-notus-documents";
+
+function compareByName(a: FolderTreeItem, b: FolderTreeItem): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: "base", numeric: true });
+}
+
+/**
+ * Folders arranged as a tree, sorted by name at each level. Folders whose parent is missing
+ * from the list are shown at the root.
+ */
+export function buildFolderTree<T extends FolderTreeItem>(folders: T[]): FolderTreeNode<T>[] {
+  const nodes = new Map<number, FolderTreeNode<T>>();
+  for (const folder of folders) nodes.set(folder.id, { ...folder, children: [] });
+
+  const roots: FolderTreeNode<T>[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent_id !== null ? nodes.get(node.parent_id) : undefined;
+    // A parent chain that never reaches the root (a cycle) is cut at each of its folders
+    const top = getFolderPath(folders, node.id)[0];
+    const isRooted = top.parent_id === null || !nodes.has(top.parent_id);
+    if (parent && isRooted) parent.children.push(node);
+    else roots.push(node);
+  }
+
+  const sort = (list: FolderTreeNode<T>[]) => {
+    list.sort(compareByName);
+    for (const node of list) sort(node.children);
+  };
+  sort(roots);
+  return roots;
+}
+
+/**
+ * The folders from the root down to `folderId` included, for breadcrumbs. Empty when the
+ * folder is unknown.
+ */
+export function getFolderPath<T extends FolderTreeItem>(folders: T[], folderId: number): T[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const path: T[] = [];
+  let current = byId.get(folderId);
+  while (current && path.length < MAX_FOLDER_DEPTH && !path.includes(current)) {
+    path.unshift(current);
+    current = current.parent_id !== null ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Whether `folderId` is `ancestorId` or one of its descendants.
+ */
+export function isFolderInSubtree(folders: FolderTreeItem[], ancestorId: number, folderId: number): boolean {
+  return getFolderPath(folders, folderId).some((folder) => folder.id === ancestorId);
+}
+
+/**
+ * Whether a folder can be moved under `parentId` (null for the root): not under itself or one
+ * of its descendants, and not where it already is.
+ */
+export function canMoveFolder(folders: FolderTreeItem[], folderId: number, parentId: number | null): boolean {
+  const folder = folders.find((item) => item.id === folderId);
+  if (!folder || folder.parent_id === parentId) return false;
+  if (parentId === null) return true;
+  return !isFolderInSubtree(folders, folderId, parentId);
+}
+
+/**
+ * "Parent / Child" label of a folder, to tell apart folders of the same name.
+ */
+export function formatFolderPath(folders: FolderTreeItem[], folderId: number): string {
+  return getFolderPath(folders, folderId).map((folder) => folder.name).join(" / ");
+}
+
+export function setFolderDragData(dataTransfer: DataTransfer, payload: FolderDragPayload): void {
+  dataTransfer.effectAllowed = "move";
+  if (payload.kind === "folder") {
+    dataTransfer.setData(FOLDER_DRAG_TYPE, String(payload.folderId));
+  } else {
+    dataTransfer.setData(DOCUMENTS_DRAG_TYPE, JSON.stringify({ documentIds: payload.documentIds, sourceFolderId: payload.sourceFolderId }));
+  }
+}
+
+/**
+ * Whether a drag carries a folder, or notes unless `acceptDocuments` is false. Only the types
+ * are readable before the drop.
+ */
+export function hasFolderDragData(dataTransfer: DataTransfer, acceptDocuments = true): boolean {
+  const types = Array.from(dataTransfer.types);
+  return types.includes(FOLDER_DRAG_TYPE) || (acceptDocuments && types.includes(DOCUMENTS_DRAG_TYPE));
+}
+
+export function getFolderDragData(dataTransfer: DataTransfer): FolderDragPayload | null {
+  const folderId = Number.parseInt(dataTransfer.getData(FOLDER_DRAG_TYPE));
+  if (Number.isInteger(folderId) && folderId > 0) return { kind: "folder", folderId };
+
+  try {
+    const raw = JSON.parse(dataTransfer.getData(DOCUMENTS_DRAG_TYPE) || "null");
+    const documentIds = Array.isArray(raw?.documentIds)
+      ? raw.documentIds.filter((id: unknown): id is number => Number.isInteger(id) && (id as number) > 0)
+      : [];
+    if (documentIds.length === 0) return null;
+    const sourceFolderId = Number.isInteger(raw.sourceFolderId) ? raw.sourceFolderId : null;
+    return { kind: "documents", documentIds, sourceFolderId };
+  } catch {
+    return null;
+  }
+}
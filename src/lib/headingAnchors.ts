@@ -0,0 +1,76 @@
+// lib/headingAnchors.ts
+// Anchors of the headings of a note, used as URL fragments (`/documents/12#setup`).
+// They are derived from the heading text the way GitHub does it (lowercase words joined by
+// dashes, `-1`, `-2`... for repeated titles), so nothing extra is stored in the markdown and a
+// link keeps working as long as the heading keeps its title.
+
+export interface HeadingAnchor {
+  element: HTMLHeadingElement;
+  level: number;
+  text: string;
+  anchor: string;
+}
+
+const HEADING_SELECTOR = "h1, h2, h3, h4, h5, h6";
+
+export function slugifyHeading(text: string): string {
+  const slug = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "section";
+}
+
+/**
+ * Slug function giving a distinct anchor to each repeated title, in document order.
+ */
+export function createHeadingSlugger(): (text: string) => string {
+  const counts = new Map<string, number>();
+  return (text: string) => {
+    const base = slugifyHeading(text);
+    const count = counts.get(base) ?? 0;
+    counts.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count}`;
+  };
+}
+
+function headingText(element: HTMLHeadingElement): string {
+  return (element.textContent ?? "").replace(/\u200B/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Headings of a rendered note with their anchors, in document order. Empty headings are skipped.
+ */
+export function getHeadingAnchors(root: ParentNode): HeadingAnchor[] {
+  const slug = createHeadingSlugger();
+  const headings: HeadingAnchor[] = [];
+  root.querySelectorAll<HTMLHeadingElement>(HEADING_SELECTOR).forEach((element) => {
+    const text = headingText(element);
+    if (!text) return;
+    headings.push({ element, level: Number(element.tagName.charAt(1)), text, anchor: slug(text) });
+  });
+  return headings;
+}
+
+export function findHeadingByAnchor(root: ParentNode, anchor: string): HTMLHeadingElement | null {
+  let target = anchor.replace(/^#/, "");
+  try {
+    target = decodeURIComponent(target);
+  } catch {
+    // Malformed escapes are matched as typed
+  }
+  return getHeadingAnchors(root).find((heading) => heading.anchor === target)?.element ?? null;
+}
+
+/**
+ * Link to a heading of a note, e.g. `https://host/documents/12#setup`.
+ */
+export function buildHeadingLink(documentId: number | string, anchor: string, origin?: string): string {
+  const base = origin ?? (typeof window === "undefined" ? "" : window.location.origin);
+  return `${base}/documents/${documentId}#${encodeURIComponent(anchor)}`;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("./prisma", () => ({ prisma: {} }));
+
+import { planHistoryCompaction, type CompactableHistoryEntry, type HistoryRetentionPolicy } from "./historyRetention";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+const POLICY: HistoryRetentionPolicy = { enabled: true, keepAllHours: 24, keepHourlyDays: 7 };
+
+function entry(id: number, createdAt: number, pinned = false, userId: number | null = 1): CompactableHistoryEntry {
+  return { id, user_id: userId, user_email: null, created_at: new Date(createdAt), pinned };
+}
+
+describe("planHistoryCompaction", () => {
+  it("keeps every entry younger than the keep-all cutoff", () => {
+    const entries = [entry(1, NOW - 23 * HOUR_MS), entry(2, NOW - 23 * HOUR_MS + 1000), entry(3, NOW - 1000)];
+    expect(planHistoryCompaction(entries, POLICY, NOW)).toEqual([]);
+  });
+
+  it("merges the entries of an hour into the last one between the cutoff and the hourly limit", () => {
+    const hour = Math.floor((NOW - 2 * DAY_MS) / HOUR_MS) * HOUR_MS;
+    const entries = [
+      entry(1, hour + 1000),
+      entry(2, hour + 20 * 60 * 1000),
+      entry(3, hour + 50 * 60 * 1000),
+      entry(4, hour + HOUR_MS + 1000),
+    ];
+    expect(planHistoryCompaction(entries, POLICY, NOW)).toEqual([{ keepId: 3, firstId: 1, removeIds: [1, 2] }]);
+  });
+
+  it("merges the entries of a day past the hourly limit", () => {
+    const day = Math.floor((NOW - 10 * DAY_MS) / DAY_MS) * DAY_MS;
+    const entries = [
+      entry(1, day + HOUR_MS),
+      entry(2, day + 5 * HOUR_MS),
+      entry(3, day + 23 * HOUR_MS),
+      entry(4, day + DAY_MS + HOUR_MS),
+      entry(5, day + DAY_MS + 2 * HOUR_MS),
+    ];
+    expect(planHistoryCompaction(entries, POLICY, NOW)).toEqual([
+      { keepId: 3, firstId: 1, removeIds: [1, 2] },
+      { keepId: 5, firstId: 4, removeIds: [4] },
+    ]);
+  });
+
+  it("never merges across a pinned entry", () => {
+    const day = Math.floor((NOW - 10 * DAY_MS) / DAY_MS) * DAY_MS;
+    const entries = [
+      entry(1, day + HOUR_MS),
+      entry(2, day + 2 * HOUR_MS),
+      entry(3, day + 3 * HOUR_MS, true),
+      entry(4, day + 4 * HOUR_MS),
+      entry(5, day + 5 * HOUR_MS),
+      entry(6, day + 6 * HOUR_MS, true),
+      entry(7, day + 7 * HOUR_MS),
+    ];
+    expect(planHistoryCompaction(entries, POLICY, NOW)).toEqual([
+      { keepId: 2, firstId: 1, removeIds: [1] },
+      { keepId: 5, firstId: 4, removeIds: [4] },
+    ]);
+  });
+
+  it("leaves entries on both sides of the keep-all cutoff apart", () => {
+    const cutoff = NOW - POLICY.keepAllHours * HOUR_MS;
+    const entries = [entry(1, cutoff - 2000), entry(2, cutoff - 1000), entry(3, cutoff + 1000)];
+    expect(planHistoryCompaction(entries, POLICY, NOW)).toEqual([{ keepId: 2, firstId: 1, removeIds: [1] }]);
+  });
+
+  it("never merges the entries of different authors", () => {
+    const hour = Math.floor((NOW - 2 * DAY_MS) / HOUR_MS) * HOUR_MS;
+    const entries = [
+      entry(1, hour + 1000, false, 1),
+      entry(2, hour + 10 * 60 * 1000, false, 1),
+      entry(3, hour + 20 * 60 * 1000, false, 2),
+      entry(4, hour + 30 * 60 * 1000, false, 2),
+      entry(5, hour + 40 * 60 * 1000, false, 1),
+    ];
+    expect(planHistoryCompaction(entries, POLICY, NOW)).toEqual([
+      { keepId: 2, firstId: 1, removeIds: [1] },
+      { keepId: 4, firstId: 3, removeIds: [3] },
+    ]);
+  });
+});
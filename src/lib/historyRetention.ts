@@ -0,0 +1,205 @@
+// lib/historyRetention.ts
+// Retention policy for document history. Recent entries are all kept; older ones are thinned out
+// to one per hour, then one per day, per author. Pinned (named) versions are never compacted.
+import { prisma } from "./prisma";
+import { computeTextDiff, extractTextFromStoredContent } from "./documentHistory";
+
+export interface HistoryRetentionPolicy {
+  enabled: boolean;
+  // Every entry younger than this is kept
+  keepAllHours: number;
+  // Until this age, one entry per hour is kept; older entries are kept one per day
+  keepHourlyDays: number;
+}
+
+export const HISTORY_RETENTION_SETTING_KEYS = {
+  enabled: "history_retention_enabled",
+  keepAllHours: "history_keep_all_hours",
+  keepHourlyDays: "history_keep_hourly_days",
+} as const;
+
+export const DEFAULT_HISTORY_RETENTION_POLICY: HistoryRetentionPolicy = {
+  enabled: false,
+  keepAllHours: 24,
+  keepHourlyDays: 7,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const COMPACTION_INTERVAL_MS = HOUR_MS;
+
+export interface CompactableHistoryEntry {
+  id: number;
+  user_id: number | null;
+  user_email: string | null;
+  created_at: Date;
+  pinned: boolean;
+}
+
+export interface HistoryMerge {
+  // Entry that survives: the last one of its bucket, so its snapshot_after is the state at the end of the bucket
+  keepId: number;
+  // Entry whose snapshot_before becomes the new snapshot_before of the kept entry
+  firstId: number;
+  removeIds: number[];
+}
+
+function parsePositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(value ?? "");
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export async function getHistoryRetentionPolicy(): Promise<HistoryRetentionPolicy> {
+  if (!process.env.DATABASE_URL) return DEFAULT_HISTORY_RETENTION_POLICY;
+
+  const settings = await prisma.appSetting.findMany({
+    where: { key: { in: Object.values(HISTORY_RETENTION_SETTING_KEYS) } },
+  });
+  const values = new Map<string, string>(settings.map((setting: { key: string; value: string }) => [setting.key, setting.value]));
+
+  return {
+    enabled: values.get(HISTORY_RETENTION_SETTING_KEYS.enabled) === "true",
+    keepAllHours: parsePositiveNumber(
+      values.get(HISTORY_RETENTION_SETTING_KEYS.keepAllHours),
+      DEFAULT_HISTORY_RETENTION_POLICY.keepAllHours
+    ),
+    keepHourlyDays: parsePositiveNumber(
+      values.get(HISTORY_RETENTION_SETTING_KEYS.keepHourlyDays),
+      DEFAULT_HISTORY_RETENTION_POLICY.keepHourlyDays
+    ),
+  };
+}
+
+/**
+ * Bucket an entry is thinned into, or null when the entry must be kept as is. A bucket holds the
+ * edits of one author, so that a merged entry is still attributed to whoever made its changes.
+ */
+function getRetentionBucket(entry: CompactableHistoryEntry, policy: HistoryRetentionPolicy, now: number): string | null {
+  if (entry.pinned) return null;
+  const time = entry.created_at.getTime();
+  const age = now - time;
+  if (age < policy.keepAllHours * HOUR_MS) return null;
+  const author = entry.user_id ?? entry.user_email?.toLowerCase() ?? "";
+  if (age < policy.keepHourlyDays * DAY_MS) return `hour:${Math.floor(time / HOUR_MS)}:${author}`;
+  return `day:${Math.floor(time / DAY_MS)}:${author}`;
+}
+
+/**
+ * Plans the compaction of the history of one document.
+ * `entries` must be in chronological order. Consecutive entries of the same bucket are merged
+ * into the last one; pinned entries, recent entries and entries of another author interrupt a
+ * run and are left untouched.
+ */
+export function planHistoryCompaction(
+  entries: CompactableHistoryEntry[],
+  policy: HistoryRetentionPolicy,
+  now: number = Date.now()
+): HistoryMerge[] {
+  const merges: HistoryMerge[] = [];
+  let run: CompactableHistoryEntry[] = [];
+  let runBucket: string | null = null;
+
+  const flush = () => {
+    if (run.length > 1) {
+      merges.push({
+        keepId: run[run.length - 1].id,
+        firstId: run[0].id,
+        removeIds: run.slice(0, -1).map((entry) => entry.id),
+      });
+    }
+    run = [];
+  };
+
+  for (const entry of entries) {
+    const bucket = getRetentionBucket(entry, policy, now);
+    if (bucket === null || bucket !== runBucket) {
+      flush();
+    }
+    runBucket = bucket;
+    if (bucket !== null) run.push(entry);
+  }
+  flush();
+
+  return merges;
+}
+
+async function applyHistoryMerge(merge: HistoryMerge): Promise<number> {
+  const [first, kept] = await Promise.all([
+    prisma.documentHistory.findUnique({ where: { id: merge.firstId }, select: { snapshot_before: true } }),
+    prisma.documentHistory.findUnique({ where: { id: merge.keepId }, select: { snapshot_after: true } }),
+  ]);
+  if (!first || !kept) return 0;
+
+  const { added, removed } = computeTextDiff(
+    extractTextFromStoredContent(first.snapshot_before ?? ""),
+    extractTextFromStoredContent(kept.snapshot_after)
+  );
+
+  const [, deleted] = await prisma.$transaction([
+    prisma.documentHistory.update({
+      where: { id: merge.keepId },
+      data: {
+        snapshot_before: first.snapshot_before,
+        diff_added: added || null,
+        diff_removed: removed || null,
+      },
+    }),
+    prisma.documentHistory.deleteMany({ where: { id: { in: merge.removeIds }, pinned: false } }),
+  ]);
+  return deleted.count;
+}
+
+/**
+ * Applies the retention policy to the history of every document.
+ * Returns the number of removed entries.
+ */
+export async function compactDocumentHistory(now: number = Date.now()): Promise<number> {
+  if (!process.env.DATABASE_URL) return 0;
+
+  const policy = await getHistoryRetentionPolicy();
+  if (!policy.enabled) return 0;
+
+  const cutoff = new Date(now - policy.keepAllHours * HOUR_MS);
+  const documents = await prisma.documentHistory.findMany({
+    where: { created_at: { lt: cutoff }, pinned: false },
+    select: { document_id: true },
+    distinct: ["document_id"],
+  });
+
+  let removedCount = 0;
+  for (const { document_id: documentId } of documents) {
+    const entries: CompactableHistoryEntry[] = await prisma.documentHistory.findMany({
+      where: { document_id: documentId, created_at: { lt: cutoff } },
+      select: { id: true, user_id: true, user_email: true, created_at: true, pinned: true },
+      orderBy: [{ created_at: "asc" }, { id: "asc" }],
+    });
+
+    for (const merge of planHistoryCompaction(entries, policy, now)) {
+      removedCount += await applyHistoryMerge(merge);
+    }
+  }
+
+  return removedCount;
+}
+
+let compactionTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Runs the compaction every hour in this process. Safe to call more than once.
+ */
+export function startHistoryCompactionJob(): void {
+  if (compactionTimer || !process.env.DATABASE_URL) return;
+
+  compactionTimer = setInterval(() => {
+    compactDocumentHistory()
+      .then((removedCount) => {
+        if (removedCount > 0) {
+          console.log(`🧹 History compaction removed ${removedCount} entries`);
+        }
+      })
+      .catch((error) => {
+        console.error("❌ Error compacting document history:", error);
+      });
+  }, COMPACTION_INTERVAL_MS);
+  compactionTimer.unref?.();
+}
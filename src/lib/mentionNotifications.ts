@@ -0,0 +1,123 @@
+// lib/mentionNotifications.ts
+// Turns `@username` mentions into notifications for the people who can open the note.
+import { prisma } from "./prisma";
+import { DocumentService } from "./services/DocumentService";
+import { NotificationService } from "./services/NotificationService";
+
+export type MentionSource = "note" | "comment";
+
+export interface MentionContext {
+  source: MentionSource;
+  // Thread the mention was written in, for comment mentions
+  commentThreadId?: number | null;
+}
+
+export interface MentionNotificationResult {
+  notified: string[];
+  // Usernames only: who is behind them is not disclosed to the author
+  withoutAccess: string[];
+}
+
+// Guards against a note or comment pinging half of the users at once
+export const MAX_MENTIONS_PER_MESSAGE = 20;
+
+const documentService = new DocumentService();
+const notificationService = new NotificationService();
+
+export function getMentionUrl(documentId: number, username: string, context: MentionContext): string {
+  if (context.source === "comment" && context.commentThreadId) {
+    return `/documents/${documentId}?comment=${context.commentThreadId}`;
+  }
+  return `/documents/${documentId}?mention=${encodeURIComponent(username)}`;
+}
+
+/**
+ * Receivers among `receiverIds` the sender already notified of a mention at the same place
+ * (the note, or the comment thread).
+ */
+async function findNotifiedReceivers(
+  documentId: number,
+  senderId: number,
+  receiverIds: number[],
+  context: MentionContext
+): Promise<Set<number>> {
+  if (receiverIds.length === 0) return new Set();
+  const place = [
+    { message: { path: ["type"], equals: "mention" } },
+    { message: { path: ["source"], equals: context.source } },
+    { message: { path: ["documentId"], equals: documentId } },
+  ];
+  if (context.source === "comment" && context.commentThreadId) {
+    place.push({ message: { path: ["commentId"], equals: context.commentThreadId } });
+  }
+
+  const notifications: Array<{ id_receiver: number }> = await prisma.notification.findMany({
+    where: { id_sender: senderId, id_receiver: { in: receiverIds }, AND: place },
+    select: { id_receiver: true },
+  });
+  return new Set(notifications.map((notification) => notification.id_receiver));
+}
+
+/**
+ * Notifies the mentioned users who have access to the document. Users who exist but cannot open
+ * the document are returned instead, so that the owner can offer to share it with them.
+ * With `skipNotified`, users the sender already notified at the same place are left out, for
+ * mentions that may have been notified before (those of a note, which is saved over and over).
+ */
+export async function sendMentionNotifications(
+  documentId: number,
+  senderId: number,
+  usernames: string[],
+  context: MentionContext,
+  { skipNotified = false }: { skipNotified?: boolean } = {}
+): Promise<MentionNotificationResult> {
+  const result: MentionNotificationResult = { notified: [], withoutAccess: [] };
+  const requested = usernames.slice(0, MAX_MENTIONS_PER_MESSAGE);
+  if (requested.length === 0 || !process.env.DATABASE_URL) return result;
+
+  const [document, sender, users] = await Promise.all([
+    prisma.document.findUnique({ where: { id: documentId }, select: { id: true, title: true } }),
+    prisma.user.findUnique({
+      where: { id: senderId },
+      select: { username: true, first_name: true, profile_image: true },
+    }),
+    prisma.user.findMany({
+      where: { OR: requested.map((username) => ({ username: { equals: username, mode: "insensitive" as const } })) },
+      select: { id: true, username: true, email: true },
+    }),
+  ]);
+  if (!document) return result;
+
+  const alreadyNotified = skipNotified
+    ? await findNotifiedReceivers(documentId, senderId, users.map((user: { id: number }) => user.id), context)
+    : new Set<number>();
+  const senderName = sender?.first_name || sender?.username || "Someone";
+  const place = context.source === "comment" ? `a comment on "${document.title}"` : `"${document.title}"`;
+
+  for (const user of users) {
+    if (user.id === senderId || !user.username || alreadyNotified.has(user.id)) continue;
+
+    const hasAccess = await documentService.userHasAccessToDocument(documentId, user.id, user.email);
+    if (!hasAccess) {
+      result.withoutAccess.push(user.username);
+      continue;
+    }
+
+    const sent = await notificationService.sendNotification(senderId, user.id, {
+      type: "mention",
+      source: context.source,
+      documentId,
+      documentTitle: document.title,
+      commentId: context.commentThreadId ?? null,
+      url: getMentionUrl(documentId, user.username, context),
+      avatar: sender?.profile_image ?? null,
+      message: `${senderName} mentioned you in ${place}`,
+      timestamp: new Date().toISOString(),
+    });
+    // Failures are logged by the notification repository
+    if (!sent.success) continue;
+    result.notified.push(user.username);
+  }
+
+  return result;
+}
@@ -0,0 +1,84 @@
+// lib/mentions.ts
+// `@username` mentions in comments and notes. Usernames follow the register rules (letters,
+// digits, "_" and "-"); an "@" preceded by a word character (an email address) is not a mention.
+
+export interface MentionCandidate {
+  id: number;
+  username: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  profile_image?: string | null;
+}
+
+export interface MentionQuery {
+  // Offset of the "@" in the text
+  start: number;
+  query: string;
+}
+
+export const MENTION_SUGGESTION_LIMIT = 6;
+
+// Markdown escapes underscores as "\_" (the editor text does not)
+const MENTION_PATTERN = /(^|[^\w@\\-])@((?:[A-Za-z0-9-]|\\?_)+)/g;
+const MENTION_QUERY_PATTERN = /(?:^|[^\w@-])@([A-Za-z0-9_-]*)$/;
+
+/**
+ * Usernames mentioned in `text`, once each, in order of appearance.
+ */
+export function extractMentions(text: string): string[] {
+  const seen = new Set<string>();
+  const mentions: string[] = [];
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const username = match[2].replaceAll("\\_", "_");
+    const key = username.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    mentions.push(username);
+  }
+  return mentions;
+}
+
+/**
+ * Mention being typed at the end of `textBeforeCaret`, if any.
+ */
+export function findMentionQuery(textBeforeCaret: string): MentionQuery | null {
+  const match = MENTION_QUERY_PATTERN.exec(textBeforeCaret);
+  if (!match) return null;
+  const query = match[1];
+  return { start: textBeforeCaret.length - query.length - 1, query };
+}
+
+/**
+ * Candidates matching a partial username or name, usernames starting with the query first.
+ */
+export function filterMentionCandidates(
+  candidates: MentionCandidate[],
+  query: string,
+  limit: number = MENTION_SUGGESTION_LIMIT
+): MentionCandidate[] {
+  const normalized = query.toLowerCase();
+  const scored = candidates
+    .map((candidate) => {
+      const username = candidate.username.toLowerCase();
+      const fullName = `${candidate.first_name ?? ""} ${candidate.last_name ?? ""}`.trim().toLowerCase();
+      let score = -1;
+      if (username.startsWith(normalized)) score = 0;
+      else if (username.includes(normalized)) score = 1;
+      else if (fullName && fullName.split(/\s+/).some((part) => part.startsWith(normalized))) score = 2;
+      return { candidate, score };
+    })
+    .filter(({ score }) => score >= 0);
+
+  scored.sort((a, b) => a.score - b.score || a.candidate.username.localeCompare(b.candidate.username));
+  return scored.slice(0, limit).map(({ candidate }) => candidate);
+}
+
+/**
+ * Replaces the mention being typed (from `query.start` to `caret`) with the full username.
+ */
+export function insertMention(text: string, query: MentionQuery, caret: number, username: string) {
+  const before = text.slice(0, query.start);
+  const after = text.slice(caret);
+  const inserted = `@${username}${after.startsWith(" ") ? "" : " "}`;
+  return { text: `${before}${inserted}${after}`, caret: before.length + inserted.length };
+}
@@ -0,0 +1,83 @@
+// lib/noteLinks.ts
+// Links between notes. Typing `[[Note title` in the editor offers the notes the user can access;
+// the chosen note is inserted as a regular markdown link to its page, `[Note title](/documents/12)`,
+// so the link targets the note id and keeps working after a rename. A heading anchor can follow
+// the id (`/documents/12#setup`).
+
+export interface NoteLinkCandidate {
+  id: number;
+  title: string;
+  // The note belongs to someone else and is shared with the user
+  shared: boolean;
+}
+
+export interface NoteLinkQuery {
+  // Offset of the "[[" in the text
+  start: number;
+  query: string;
+  // The query was closed with "]]"
+  closed: boolean;
+}
+
+export interface NoteLink {
+  documentId: number;
+  label: string;
+  index: number;
+}
+
+export const NOTE_LINK_SUGGESTION_LIMIT = 8;
+
+const NOTE_LINK_QUERY_PATTERN = /\[\[([^[\]\n]{0,100})(\]\])?$/;
+const NOTE_LINK_HREF_PATTERN = /^\/documents\/(\d+)(?:#(.*))?$/;
+// [label](/documents/12), optionally with an anchor or a link title
+const MARKDOWN_NOTE_LINK_PATTERN = /\[((?:\\.|[^\]\\\n])*)\]\(\s*\/documents\/(\d+)(?:#[^)\s]*)?(?:\s+"[^"]*")?\s*\)/g;
+
+export function noteLinkHref(documentId: number, anchor?: string): string {
+  return anchor ? `/documents/${documentId}#${encodeURIComponent(anchor)}` : `/documents/${documentId}`;
+}
+
+/**
+ * Note targeted by a link, for hrefs of the form `/documents/12` or `/documents/12#anchor`.
+ */
+export function parseNoteLinkHref(href: string): { documentId: number; anchor: string | null } | null {
+  const match = NOTE_LINK_HREF_PATTERN.exec(href.trim());
+  if (!match) return null;
+  return { documentId: Number(match[1]), anchor: match[2] || null };
+}
+
+/**
+ * Note link being typed at the end of `textBeforeCaret`, if any.
+ */
+export function findNoteLinkQuery(textBeforeCaret: string): NoteLinkQuery | null {
+  const match = NOTE_LINK_QUERY_PATTERN.exec(textBeforeCaret);
+  if (!match) return null;
+  return { start: match.index, query: match[1], closed: Boolean(match[2]) };
+}
+
+/**
+ * Links to notes in a markdown text, in order of appearance.
+ */
+export function extractNoteLinks(markdown: string): NoteLink[] {
+  return Array.from(markdown.matchAll(MARKDOWN_NOTE_LINK_PATTERN), (match) => ({
+    documentId: Number(match[2]),
+    label: match[1].replace(/\\(.)/g, "$1"),
+    index: match.index ?? 0,
+  }));
+}
+
+/**
+ * Plain text around the first link to `documentId`, links shown as their label.
+ */
+export function getNoteLinkSnippet(markdown: string, documentId: number, radius: number = 80): string | null {
+  const link = extractNoteLinks(markdown).find((item) => item.documentId === documentId);
+  if (!link) return null;
+  const start = Math.max(0, link.index - radius);
+  const end = Math.min(markdown.length, link.index + radius + link.label.length);
+  const text = markdown
+    .slice(start, end)
+    .replace(MARKDOWN_NOTE_LINK_PATTERN, (match, label: string) => label.replace(/\\(.)/g, "$1"))
+    .replace(/[#>*_~`]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return `${start > 0 ? "..." : ""}${text}${end < markdown.length ? "..." : ""}`;
+}
@@ -0,0 +1,72 @@
+// lib/noteSearch.ts
+// Full-text search of notes. The index (document_search) is maintained by database triggers;
+// see the document_search migration for how the text of a note is extracted.
+
+import type { Document } from "./types";
+
+export const SEARCH_LANGUAGE_SETTING_KEY = "search_language";
+
+// Text search configurations offered for stemming; "simple" only lowercases words
+export const SEARCH_LANGUAGES = [
+  { value: "simple", label: "No stemming (any language)" },
+  { value: "english", label: "English" },
+  { value: "french", label: "French" },
+  { value: "german", label: "German" },
+  { value: "spanish", label: "Spanish" },
+  { value: "italian", label: "Italian" },
+  { value: "portuguese", label: "Portuguese" },
+  { value: "dutch", label: "Dutch" },
+] as const;
+
+export type SearchLanguage = (typeof SEARCH_LANGUAGES)[number]["value"];
+
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const SEARCH_PAGE_SIZE = 30;
+
+// Markers put around matched words by ts_headline; stripped from the indexed text
+export const SNIPPET_START_MARKER = "\u0001";
+export const SNIPPET_STOP_MARKER = "\u0002";
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export function isSearchLanguage(value: unknown): value is SearchLanguage {
+  return SEARCH_LANGUAGES.some((language) => language.value === value);
+}
+
+/**
+ * Splits a ts_headline result into plain and matched parts.
+ */
+export function parseSnippet(headline: string | null | undefined): SnippetSegment[] {
+  if (!headline) return [];
+  const segments: SnippetSegment[] = [];
+  let match = false;
+  let text = "";
+
+  const flush = () => {
+    if (text) segments.push({ text, match });
+    text = "";
+  };
+
+  for (const char of headline) {
+    if (char === SNIPPET_START_MARKER) {
+      flush();
+      match = true;
+    } else if (char === SNIPPET_STOP_MARKER) {
+      flush();
+      match = false;
+    } else {
+      text += char;
+    }
+  }
+  flush();
+  return segments;
+}
+
+export interface NoteSearchHit {
+  document: Document;
+  rank: number;
+  snippet: SnippetSegment[];
+}
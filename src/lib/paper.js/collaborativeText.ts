@@ -0,0 +1,329 @@
+// lib/collaborativeText.ts
+// Server-sequenced operational transformation for collaborative notes.
+// The server owns a linear history of versions; clients send operations against
+// the last version they know and transform incoming operations against their
+// unconfirmed local edits (one operation in flight at a time).
+import type { SocketAckResponse, TextOperation, TextUpdateData } from "./types";
+import {
+  applyOperation,
+  composeOperations,
+  isNoopOperation,
+  operationBaseLength,
+  operationFromDiff,
+  transformOperations,
+} from "./textOperation";
+
+const MAX_HISTORY_LENGTH = 500;
+const MAX_TRACKED_OPERATION_IDS = 2000;
+
+function generateSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+export interface OutgoingTextOperation {
+  operation: TextOperation;
+  operationId: string;
+  baseVersion: number | null;
+  sessionId?: string;
+}
+
+export type SequencerResult =
+  | { status: 'applied'; operation: TextOperation; version: number; text: string }
+  | { status: 'duplicate'; version: number }
+  | { status: 'resync'; version: number; text: string };
+
+interface HistoryEntry {
+  version: number;
+  operation: TextOperation;
+}
+
+/**
+ * Complete state of a sequencer, used to hand a room over to another server instance.
+ */
+export interface SequencerSnapshot {
+  sessionId: string;
+  text: string;
+  version: number;
+  history: HistoryEntry[];
+  operationIds: Array<[string, number]>;
+}
+
+/**
+ * Authoritative text of a room on the server.
+ * Incoming operations are transformed against everything sequenced since their base version.
+ */
+export class TextOperationSequencer {
+  readonly sessionId: string;
+  private text: string;
+  private version = 0;
+  private history: HistoryEntry[] = [];
+  private appliedOperationIds = new Map<string, number>();
+
+  constructor(initialText: string, sessionId: string = generateSessionId()) {
+    this.text = initialText;
+    this.sessionId = sessionId;
+  }
+
+  static fromSnapshot(snapshot: SequencerSnapshot): TextOperationSequencer {
+    const sequencer = new TextOperationSequencer(snapshot.text, snapshot.sessionId);
+    sequencer.version = snapshot.version;
+    sequencer.history = snapshot.history.map((entry) => ({ ...entry }));
+    sequencer.appliedOperationIds = new Map(snapshot.operationIds);
+    return sequencer;
+  }
+
+  toSnapshot(): SequencerSnapshot {
+    return {
+      sessionId: this.sessionId,
+      text: this.text,
+      version: this.version,
+      history: this.history.map((entry) => ({ ...entry })),
+      operationIds: Array.from(this.appliedOperationIds.entries()),
+    };
+  }
+
+  get currentText(): string {
+    return this.text;
+  }
+
+  get currentVersion(): number {
+    return this.version;
+  }
+
+  receive(message: Pick<TextUpdateData, 'operation' | 'operationId' | 'baseVersion' | 'sessionId'>): SequencerResult {
+    const { operation, operationId, baseVersion, sessionId } = message;
+
+    if (operationId && this.appliedOperationIds.has(operationId)) {
+      return { status: 'duplicate', version: this.appliedOperationIds.get(operationId)! };
+    }
+
+    const oldestKnownVersion = this.version - this.history.length;
+    if (
+      !operation ||
+      sessionId !== this.sessionId ||
+      typeof baseVersion !== 'number' ||
+      baseVersion > this.version ||
+      baseVersion < oldestKnownVersion
+    ) {
+      return { status: 'resync', version: this.version, text: this.text };
+    }
+
+    let transformed = operation;
+    try {
+      for (const entry of this.history) {
+        if (entry.version <= baseVersion) continue;
+        [transformed] = transformOperations(transformed, entry.operation);
+      }
+    } catch {
+      return { status: 'resync', version: this.version, text: this.text };
+    }
+
+    if (operationBaseLength(transformed) !== this.text.length) {
+      return { status: 'resync', version: this.version, text: this.text };
+    }
+
+    return this.commit(transformed, operationId);
+  }
+
+  private commit(operation: TextOperation, operationId?: string): SequencerResult {
+    this.text = applyOperation(this.text, operation);
+    this.version += 1;
+    this.history.push({ version: this.version, operation });
+    if (this.history.length > MAX_HISTORY_LENGTH) {
+      this.history.shift();
+    }
+    if (operationId) {
+      this.appliedOperationIds.set(operationId, this.version);
+      if (this.appliedOperationIds.size > MAX_TRACKED_OPERATION_IDS) {
+        const oldest = this.appliedOperationIds.keys().next().value;
+        if (oldest !== undefined) this.appliedOperationIds.delete(oldest);
+      }
+    }
+    return { status: 'applied', operation, version: this.version, text: this.text };
+  }
+}
+
+interface InFlightOperation {
+  message: OutgoingTextOperation;
+  // The in-flight operation transformed against remote operations received since it was sent
+  operation: TextOperation;
+}
+
+/**
+ * Client side of the protocol. Tracks the last server-confirmed text and the
+ * local edits that are not yet part of it.
+ */
+export class CollaborativeTextClient {
+  private serverText: string;
+  private localText: string;
+  private version: number | null = null;
+  private sessionId: string | undefined;
+  private inFlight: InFlightOperation | null = null;
+  private buffer: TextOperation | null = null;
+  private sequence = 0;
+
+  constructor(private readonly clientId: string, initialText: string) {
+    this.serverText = initialText;
+    this.localText = initialText;
+  }
+
+  get text(): string {
+    return this.localText;
+  }
+
+  get hasPendingChanges(): boolean {
+    return this.inFlight !== null || this.buffer !== null;
+  }
+
+  /**
+   * The operation waiting for an acknowledgement, to be re-sent after a reconnection.
+   * Re-sending is safe: the server ignores operation ids it already applied.
+   */
+  get pendingMessage(): OutgoingTextOperation | null {
+    return this.inFlight?.message ?? null;
+  }
+
+  /**
+   * Registers a new local text. Returns the message to send, or null when the edit
+   * is buffered behind an operation that is still in flight.
+   */
+  applyLocal(nextText: string): OutgoingTextOperation | null {
+    if (nextText === this.localText) return null;
+    const operation = operationFromDiff(this.localText, nextText);
+    this.localText = nextText;
+
+    if (this.inFlight) {
+      this.buffer = this.buffer ? composeOperations(this.buffer, operation) : operation;
+      return null;
+    }
+    return this.send(operation);
+  }
+
+  /**
+   * Asks the server for its current text and version (an empty operation without base version).
+   */
+  requestSync(): OutgoingTextOperation | null {
+    if (this.inFlight) return null;
+    this.version = null;
+    return this.send([]);
+  }
+
+  /**
+   * Catches up with a server snapshot (room state sent on join), keeping local edits on top of it.
+   * Ignored while an operation is in flight: its acknowledgement carries the catch-up instead.
+   */
+  synchronize(text: string, version: number, sessionId: string | undefined): OutgoingTextOperation | null {
+    if (this.inFlight) return null;
+    if (this.version === version && this.sessionId === sessionId) return null;
+    return this.rebase(text, version, sessionId);
+  }
+
+  /**
+   * Handles the server acknowledgement of the in-flight operation.
+   * Returns the next message to send (buffered edits or a resync request).
+   */
+  acknowledge(ack: SocketAckResponse): OutgoingTextOperation | null {
+    const inFlight = this.inFlight;
+    if (!inFlight || !ack.ok || typeof ack.version !== 'number') return null;
+    this.inFlight = null;
+
+    if (typeof ack.content === 'string') {
+      // The operation was not applied: rebase every local edit on the server text
+      return this.rebase(ack.content, ack.version, ack.sessionId);
+    }
+
+    if (operationBaseLength(inFlight.operation) === this.serverText.length) {
+      this.serverText = applyOperation(this.serverText, inFlight.operation);
+    }
+
+    if (this.version === null || ack.version !== this.version + 1 || ack.sessionId !== this.sessionId) {
+      // Versions were skipped (missed broadcasts): fetch the authoritative text
+      return this.requestSync();
+    }
+
+    this.version = ack.version;
+    if (this.buffer) {
+      const buffered = this.buffer;
+      this.buffer = null;
+      return this.send(buffered);
+    }
+    return null;
+  }
+
+  /**
+   * Applies an operation broadcast by the server.
+   * Returns the new local text (null if unchanged) and a message to send if a rebase was needed.
+   */
+  applyRemote(update: TextUpdateData): { text: string | null; outgoing: OutgoingTextOperation | null } {
+    const { operation, version, sessionId } = update;
+    if (!operation || typeof version !== 'number') {
+      return { text: null, outgoing: null };
+    }
+
+    const inSequence =
+      this.version !== null && sessionId === this.sessionId && version === this.version + 1;
+
+    if (!inSequence) {
+      if (this.version !== null && sessionId === this.sessionId && version <= this.version) {
+        return { text: null, outgoing: null };
+      }
+      // Out of sequence while an operation is in flight: its acknowledgement will trigger a resync
+      if (this.inFlight || typeof update.content !== 'string') {
+        return { text: null, outgoing: null };
+      }
+      const previous = this.localText;
+      const outgoing = this.rebase(update.content, version, sessionId);
+      return { text: this.localText !== previous ? this.localText : null, outgoing };
+    }
+
+    let remote = operation;
+    try {
+      if (this.inFlight) {
+        [this.inFlight.operation, remote] = transformOperations(this.inFlight.operation, remote);
+      }
+      if (this.buffer) {
+        [this.buffer, remote] = transformOperations(this.buffer, remote);
+      }
+      this.serverText = applyOperation(this.serverText, operation);
+      this.localText = applyOperation(this.localText, remote);
+    } catch {
+      if (this.inFlight || typeof update.content !== 'string') {
+        this.version = null;
+        return { text: null, outgoing: null };
+      }
+      const outgoing = this.rebase(update.content, version, sessionId);
+      return { text: this.localText, outgoing };
+    }
+
+    this.version = version;
+    return { text: isNoopOperation(remote) ? null : this.localText, outgoing: null };
+  }
+
+  private rebase(theirs: string, version: number, sessionId: string | undefined): OutgoingTextOperation | null {
+    const local = operationFromDiff(this.serverText, this.localText);
+    const [localPrime] = transformOperations(local, operationFromDiff(this.serverText, theirs));
+
+    this.serverText = theirs;
+    this.localText = applyOperation(theirs, localPrime);
+    this.version = version;
+    this.sessionId = sessionId;
+    this.buffer = null;
+
+    return isNoopOperation(localPrime) ? null : this.send(localPrime);
+  }
+
+  private send(operation: TextOperation): OutgoingTextOperation {
+    this.sequence += 1;
+    const message: OutgoingTextOperation = {
+      operation,
+      operationId: `${this.clientId}:${this.sequence}`,
+      baseVersion: this.version,
+      sessionId: this.sessionId,
+    };
+    this.inFlight = { message, operation };
+    return message;
+  }
+}
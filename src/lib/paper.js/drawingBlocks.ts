@@ -0,0 +1,401 @@
+// lib/paper.js/drawingBlocks.ts
+// Vector data of the drawings embedded in notes: validation of untrusted data, compact
+// serialization and SVG rendering.
+import type { DrawingBlockData, DrawingPathType, SerializedPath, SerializedSegment } from "./types";
+
+type Point = [number, number];
+
+export interface DrawingBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const DRAWING_ID_PATTERN = /^[\w-]{1,64}$/;
+const PATH_ID_PATTERN = /^[\w-]{1,64}$/;
+const PATH_TYPES: DrawingPathType[] = ["pen", "eraser", "line", "arrow", "rectangle", "ellipse", "text"];
+// Items drawn from a start point to an end point
+const TWO_POINT_TYPES: DrawingPathType[] = ["line", "arrow", "rectangle", "ellipse"];
+const MAX_TEXT_LENGTH = 500;
+// Text metrics, in font sizes, for a sans-serif font
+const TEXT_WIDTH_RATIO = 0.6;
+const TEXT_ASCENT_RATIO = 0.8;
+const TEXT_DESCENT_RATIO = 0.25;
+// Hex, rgb() and hsl() colors, as produced by the canvas
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(?:rgb|hsl)a?\([\d\s.,%]+\))$/i;
+// Room around the strokes in the rendering
+const DRAWING_PADDING = 8;
+
+export function createDrawingId(): string {
+  return `drawing-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parsePoint(value: unknown): [number, number] | undefined {
+  return Array.isArray(value) && value.length === 2 && isFiniteNumber(value[0]) && isFiniteNumber(value[1])
+    ? [value[0], value[1]]
+    : undefined;
+}
+
+function roundPoint(point: [number, number]): [number, number] {
+  return [Math.round(point[0] * 100) / 100, Math.round(point[1] * 100) / 100];
+}
+
+// Id given to the items of drawings saved before items had ids
+function defaultPathId(index: number): string {
+  return `p${index}`;
+}
+
+export function createPathId(): string {
+  return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function parseColor(value: unknown): string | undefined {
+  return typeof value === "string" && COLOR_PATTERN.test(value.trim()) ? value.trim() : undefined;
+}
+
+function parseSegments(raw: Record<string, unknown>): SerializedSegment[] {
+  // Legacy freehand strokes are a list of points
+  if (!Array.isArray(raw.segments) && Array.isArray(raw.points)) {
+    return raw.points
+      .map((point) => parsePoint(point))
+      .filter((point): point is [number, number] => point !== undefined)
+      .map((point) => ({ point }));
+  }
+  if (!Array.isArray(raw.segments)) return [];
+  const segments: SerializedSegment[] = [];
+  for (const item of raw.segments) {
+    const point = parsePoint((item as SerializedSegment | null)?.point);
+    if (!point) continue;
+    const handleIn = parsePoint((item as SerializedSegment).handleIn);
+    const handleOut = parsePoint((item as SerializedSegment).handleOut);
+    segments.push({
+      point,
+      ...(handleIn && (handleIn[0] || handleIn[1]) ? { handleIn } : {}),
+      ...(handleOut && (handleOut[0] || handleOut[1]) ? { handleOut } : {}),
+    });
+  }
+  return segments;
+}
+
+function parsePath(value: unknown, fallbackId: string): SerializedPath | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const type = PATH_TYPES.includes(raw.type as DrawingPathType) ? (raw.type as DrawingPathType) : "pen";
+  const segments = parseSegments(raw);
+  const text = typeof raw.text === "string" ? raw.text.replace(/[\r\n]+/g, " ").slice(0, MAX_TEXT_LENGTH) : "";
+
+  if (segments.length === 0) return null;
+  if (TWO_POINT_TYPES.includes(type) && segments.length < 2) return null;
+  if (type === "text" && !text.trim()) return null;
+
+  const fill = parseColor(raw.fill);
+  return {
+    id: typeof raw.id === "string" && PATH_ID_PATTERN.test(raw.id) ? raw.id : fallbackId,
+    segments: TWO_POINT_TYPES.includes(type)
+      ? [{ point: segments[0].point }, { point: segments[segments.length - 1].point }]
+      : type === "text" ? [{ point: segments[0].point }] : segments,
+    color: parseColor(raw.color) ?? "#000000",
+    size: isFiniteNumber(raw.size) && raw.size > 0 ? Math.min(raw.size, 200) : 3,
+    type,
+    ...(raw.closed === true && (type === "pen" || type === "eraser") ? { closed: true } : {}),
+    ...(isFiniteNumber(raw.opacity) && raw.opacity >= 0 && raw.opacity < 1 ? { opacity: raw.opacity } : {}),
+    ...(fill && (type === "rectangle" || type === "ellipse") ? { fill } : {}),
+    ...(type === "text" ? { text } : {}),
+  };
+}
+
+/**
+ * Validated items of a drawing, each with an id of its own.
+ */
+export function normalizeDrawingPaths(values: unknown[]): SerializedPath[] {
+  const seen = new Set<string>();
+  const paths: SerializedPath[] = [];
+  values.forEach((value, index) => {
+    const path = parsePath(value, defaultPathId(index));
+    if (!path) return;
+    if (seen.has(path.id as string)) path.id = createPathId();
+    seen.add(path.id as string);
+    paths.push(path);
+  });
+  return paths;
+}
+
+/**
+ * Validated drawing from untrusted data (a note, a data attribute or a collaborator).
+ */
+export function normalizeDrawingData(value: unknown): DrawingBlockData | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.paths)) return null;
+  return {
+    id: typeof raw.id === "string" && DRAWING_ID_PATTERN.test(raw.id) ? raw.id : createDrawingId(),
+    width: isFiniteNumber(raw.width) && raw.width > 0 ? Math.round(raw.width) : 800,
+    height: isFiniteNumber(raw.height) && raw.height > 0 ? Math.round(raw.height) : 480,
+    paths: normalizeDrawingPaths(raw.paths),
+  };
+}
+
+export function normalizeDrawingPath(value: unknown): SerializedPath | null {
+  return parsePath(value, createPathId());
+}
+
+export function parseDrawingJson(json: string): DrawingBlockData | null {
+  try {
+    return normalizeDrawingData(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+export function serializeDrawing(data: DrawingBlockData): string {
+  return JSON.stringify({
+    id: data.id,
+    width: data.width,
+    height: data.height,
+    paths: data.paths.map((path) => ({
+      ...path,
+      segments: path.segments.map((segment) => ({
+        point: roundPoint(segment.point),
+        ...(segment.handleIn ? { handleIn: roundPoint(segment.handleIn) } : {}),
+        ...(segment.handleOut ? { handleOut: roundPoint(segment.handleOut) } : {}),
+      })),
+    })),
+  });
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function formatPoint(point: Point): string {
+  return `${formatNumber(point[0])} ${formatNumber(point[1])}`;
+}
+
+/**
+ * Ends of the two strokes of an arrow head pointing at `to`.
+ */
+export function getArrowHead(from: Point, to: Point, size: number): [Point, Point] {
+  const length = Math.max(10, size * 4);
+  const angle = Math.atan2(to[1] - from[1], to[0] - from[0]);
+  const spread = Math.PI / 7;
+  return [
+    [to[0] - length * Math.cos(angle - spread), to[1] - length * Math.sin(angle - spread)],
+    [to[0] - length * Math.cos(angle + spread), to[1] - length * Math.sin(angle + spread)],
+  ];
+}
+
+/**
+ * Box of a rectangle or an ellipse, from the two corners it was drawn between.
+ */
+export function getShapeBox(path: SerializedPath): DrawingBounds {
+  const [start, end] = [path.segments[0].point, path.segments[path.segments.length - 1].point];
+  return {
+    x: Math.min(start[0], end[0]),
+    y: Math.min(start[1], end[1]),
+    width: Math.abs(end[0] - start[0]),
+    height: Math.abs(end[1] - start[1]),
+  };
+}
+
+/**
+ * SVG path data of a stroke, line or arrow: Paper.js handles are relative to their segment point.
+ */
+export function pathToSvgData(path: SerializedPath): string {
+  const { segments } = path;
+  const [first] = segments;
+  const last = segments[segments.length - 1];
+  let data = `M${formatPoint(first.point)}`;
+  // A single point is drawn as a dot by the round caps
+  if (segments.length === 1) return `${data}L${formatPoint(first.point)}`;
+
+  if (path.type === "line" || path.type === "arrow") {
+    data += `L${formatPoint(last.point)}`;
+    if (path.type === "arrow") {
+      const [left, right] = getArrowHead(first.point, last.point, path.size);
+      data += `M${formatPoint(left)}L${formatPoint(last.point)}L${formatPoint(right)}`;
+    }
+    return data;
+  }
+
+  const curveTo = (from: SerializedSegment, to: SerializedSegment) => {
+    const out = from.handleOut ?? [0, 0];
+    const into = to.handleIn ?? [0, 0];
+    if (!out[0] && !out[1] && !into[0] && !into[1]) {
+      return `L${formatPoint(to.point)}`;
+    }
+    return `C${formatPoint([from.point[0] + out[0], from.point[1] + out[1]])} ${formatPoint([to.point[0] + into[0], to.point[1] + into[1]])} ${formatPoint(to.point)}`;
+  };
+
+  for (let index = 1; index < segments.length; index += 1) {
+    data += curveTo(segments[index - 1], segments[index]);
+  }
+  if (path.closed) data += `${curveTo(last, first)}Z`;
+  return data;
+}
+
+/**
+ * Area covered by an item, its stroke included. Text is measured with average font metrics.
+ */
+export function getPathBounds(path: SerializedPath): DrawingBounds {
+  if (path.type === "text") {
+    const [x, y] = path.segments[0].point;
+    return {
+      x,
+      y: y - path.size * TEXT_ASCENT_RATIO,
+      width: (path.text ?? "").length * path.size * TEXT_WIDTH_RATIO,
+      height: path.size * (TEXT_ASCENT_RATIO + TEXT_DESCENT_RATIO),
+    };
+  }
+
+  const points: Point[] = [];
+  for (const segment of path.segments) {
+    points.push(segment.point);
+    if (segment.handleIn) points.push([segment.point[0] + segment.handleIn[0], segment.point[1] + segment.handleIn[1]]);
+    if (segment.handleOut) points.push([segment.point[0] + segment.handleOut[0], segment.point[1] + segment.handleOut[1]]);
+  }
+  if (path.type === "arrow") {
+    const last = path.segments[path.segments.length - 1].point;
+    points.push(...getArrowHead(path.segments[0].point, last, path.size));
+  }
+
+  const margin = path.size / 2;
+  const xs = points.map((point) => point[0]);
+  const ys = points.map((point) => point[1]);
+  const minX = Math.min(...xs) - margin;
+  const minY = Math.min(...ys) - margin;
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) + margin - minX,
+    height: Math.max(...ys) + margin - minY,
+  };
+}
+
+export function getPathsBounds(paths: SerializedPath[]): DrawingBounds | null {
+  if (paths.length === 0) return null;
+  const boxes = paths.map(getPathBounds);
+  const minX = Math.min(...boxes.map((box) => box.x));
+  const minY = Math.min(...boxes.map((box) => box.y));
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...boxes.map((box) => box.x + box.width)) - minX,
+    height: Math.max(...boxes.map((box) => box.y + box.height)) - minY,
+  };
+}
+
+/**
+ * Area covered by the drawing, so that the rendering leaves out the empty part of the canvas.
+ */
+export function getDrawingBounds(data: DrawingBlockData): DrawingBounds {
+  const bounds = getPathsBounds(data.paths.filter((path) => path.type !== "eraser"));
+  if (!bounds) return { x: 0, y: 0, width: data.width, height: data.height };
+  return {
+    x: Math.floor(bounds.x - DRAWING_PADDING),
+    y: Math.floor(bounds.y - DRAWING_PADDING),
+    width: Math.ceil(bounds.width + DRAWING_PADDING * 2),
+    height: Math.ceil(bounds.height + DRAWING_PADDING * 2),
+  };
+}
+
+export function translatePath(path: SerializedPath, dx: number, dy: number): SerializedPath {
+  return {
+    ...path,
+    segments: path.segments.map((segment) => ({ ...segment, point: [segment.point[0] + dx, segment.point[1] + dy] })),
+  };
+}
+
+/**
+ * Scales an item from `origin`. Strokes keep their width; text scales with the height.
+ */
+export function scalePath(path: SerializedPath, origin: Point, sx: number, sy: number): SerializedPath {
+  const scalePoint = (point: Point): Point => [origin[0] + (point[0] - origin[0]) * sx, origin[1] + (point[1] - origin[1]) * sy];
+  const scaleHandle = (handle: Point): Point => [handle[0] * sx, handle[1] * sy];
+  return {
+    ...path,
+    ...(path.type === "text" ? { size: Math.max(4, Math.min(200, path.size * Math.abs(sy))) } : {}),
+    segments: path.segments.map((segment) => ({
+      point: scalePoint(segment.point),
+      ...(segment.handleIn ? { handleIn: scaleHandle(segment.handleIn) } : {}),
+      ...(segment.handleOut ? { handleOut: scaleHandle(segment.handleOut) } : {}),
+    })),
+  };
+}
+
+/**
+ * Moves the items of `ids` in the drawing order, keeping their relative order.
+ */
+export function reorderPaths(
+  paths: SerializedPath[],
+  ids: ReadonlySet<string>,
+  direction: "front" | "back" | "forward" | "backward"
+): SerializedPath[] {
+  const isMoved = (path: SerializedPath) => ids.has(path.id as string);
+  if (direction === "front") return [...paths.filter((path) => !isMoved(path)), ...paths.filter(isMoved)];
+  if (direction === "back") return [...paths.filter(isMoved), ...paths.filter((path) => !isMoved(path))];
+
+  const result = [...paths];
+  const step = direction === "forward" ? 1 : -1;
+  const indexes = result.map((path, index) => (isMoved(path) ? index : -1)).filter((index) => index >= 0);
+  // Swapped with the neighbour in the direction of the move, starting from the end it moves to
+  if (step === 1) indexes.reverse();
+  for (const index of indexes) {
+    const target = index + step;
+    if (target < 0 || target >= result.length || isMoved(result[target])) continue;
+    [result[index], result[target]] = [result[target], result[index]];
+  }
+  return result;
+}
+
+function escapeSvgText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderPathSvg(path: SerializedPath): string {
+  const opacity = path.opacity !== undefined ? ` opacity="${formatNumber(path.opacity)}"` : "";
+  const stroke = `stroke="${path.color}" stroke-width="${formatNumber(path.size)}" stroke-linecap="round" stroke-linejoin="round"${opacity}`;
+
+  switch (path.type) {
+    case "text": {
+      const [x, y] = path.segments[0].point;
+      return `<text x="${formatNumber(x)}" y="${formatNumber(y)}" font-family="sans-serif" font-size="${formatNumber(path.size)}" fill="${path.color}"${opacity} style="white-space:pre">${escapeSvgText(path.text ?? "")}</text>`;
+    }
+    case "rectangle": {
+      const box = getShapeBox(path);
+      return `<rect x="${formatNumber(box.x)}" y="${formatNumber(box.y)}" width="${formatNumber(box.width)}" height="${formatNumber(box.height)}" fill="${path.fill ?? "none"}" ${stroke}/>`;
+    }
+    case "ellipse": {
+      const box = getShapeBox(path);
+      return `<ellipse cx="${formatNumber(box.x + box.width / 2)}" cy="${formatNumber(box.y + box.height / 2)}" rx="${formatNumber(box.width / 2)}" ry="${formatNumber(box.height / 2)}" fill="${path.fill ?? "none"}" ${stroke}/>`;
+    }
+    default:
+      return `<path d="${pathToSvgData(path)}" fill="none" ${stroke}/>`;
+  }
+}
+
+/**
+ * Standalone SVG document of a drawing. Eraser strokes mask the items drawn before them.
+ */
+export function renderDrawingSvg(data: DrawingBlockData): string {
+  const bounds = getDrawingBounds(data);
+  const viewBox = `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`;
+
+  let content = "";
+  let maskCount = 0;
+  for (const path of data.paths) {
+    if (path.type === "eraser") {
+      if (!content) continue;
+      const maskId = `${data.id}-mask-${maskCount++}`;
+      content = `<mask id="${maskId}" maskUnits="userSpaceOnUse" x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}"><rect x="${bounds.x}" y="${bounds.y}" width="${bounds.width}" height="${bounds.height}" fill="#ffffff"/><path d="${pathToSvgData(path)}" fill="none" stroke="#000000" stroke-width="${formatNumber(path.size)}" stroke-linecap="round" stroke-linejoin="round"/></mask><g mask="url(#${maskId})">${content}</g>`;
+      continue;
+    }
+    content += renderPathSvg(path);
+  }
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" width="${bounds.width}" height="${bounds.height}" role="img" aria-label="Drawing">${content}</svg>`;
+}
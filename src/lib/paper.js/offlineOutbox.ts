@@ -0,0 +1,118 @@
+// lib/offlineOutbox.ts
+// Durable per-document outbox (IndexedDB) for edits made while offline.
+// Each entry keeps the server state the edits started from, so that replaying them after a
+// reconnection (or a reload) can tell whether the document moved on in the meantime.
+
+const DATABASE_NAME = 'notus-offline';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+export interface OfflineOutboxEntry {
+  documentId: number;
+  // Server state when the first offline edit was made
+  baseText: string;
+  baseTitle: string;
+  baseTags: string[];
+  // Latest DocumentHistory id known at that point (null when the document had no history yet)
+  baseHistoryId: number | null;
+  // Local state to replay
+  text: string;
+  title: string;
+  tags: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type OfflineEdit = Pick<OfflineOutboxEntry, 'documentId' | 'text' | 'title' | 'tags'>;
+export type OfflineBase = Pick<OfflineOutboxEntry, 'baseText' | 'baseTitle' | 'baseTags' | 'baseHistoryId'>;
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDbAvailable = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'documentId' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    databasePromise = null;
+    throw error;
+  });
+  return databasePromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function getOfflineEntry(documentId: number): Promise<OfflineOutboxEntry | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const entry = await runTransaction<OfflineOutboxEntry | undefined>('readonly', (store) => store.get(documentId));
+    return entry ?? null;
+  } catch (error) {
+    console.error('❌ Unable to read the offline outbox:', error);
+    return null;
+  }
+}
+
+/**
+ * Queues the latest local state of a document. The base recorded by the first queued edit is kept
+ * until the entry is cleared, so every later edit is replayed against the same server state.
+ */
+export async function queueOfflineEdit(edit: OfflineEdit, base: OfflineBase): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const db = await openDatabase();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const store = transaction.objectStore(STORE_NAME);
+      const request = store.get(edit.documentId);
+      request.onsuccess = () => {
+        const existing = request.result as OfflineOutboxEntry | undefined;
+        const now = Date.now();
+        const entry: OfflineOutboxEntry = {
+          ...(existing ?? { ...base, createdAt: now }),
+          documentId: edit.documentId,
+          text: edit.text,
+          title: edit.title,
+          tags: [...edit.tags],
+          updatedAt: now,
+        };
+        store.put(entry);
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } catch (error) {
+    console.error('❌ Unable to queue the offline edit:', error);
+  }
+}
+
+export async function clearOfflineEntry(documentId: number): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await runTransaction('readwrite', (store) => store.delete(documentId));
+  } catch (error) {
+    console.error('❌ Unable to clear the offline outbox:', error);
+  }
+}
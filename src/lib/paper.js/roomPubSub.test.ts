@@ -0,0 +1,193 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getFakePostgres } from "@/test/fakePostgres";
+
+vi.mock("pg", async () => (await import("@/test/fakePostgres")).fakePgModule);
+
+import { InProcessRoomPubSub, PostgresRoomPubSub, createRoomPubSub, type RoomMessage } from "./roomPubSub";
+
+function cursorMessage(id: string, instanceId = "instance-a"): RoomMessage {
+  return {
+    id,
+    instanceId,
+    roomId: "1",
+    type: "cursor-position",
+    socketId: "socket",
+    data: { clientId: "client", x: 0, y: 0 } as never,
+  };
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!check()) {
+    if (Date.now() - start > timeoutMs) throw new Error("Timed out");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("InProcessRoomPubSub", () => {
+  it("delivers every message to every handler in publish order", async () => {
+    const pubsub = new InProcessRoomPubSub();
+    const first: string[] = [];
+    const second: string[] = [];
+    pubsub.subscribe((message) => {
+      first.push(message.id);
+    });
+    pubsub.subscribe(async (message) => {
+      await new Promise((resolve) => setTimeout(resolve, message.id === "a" ? 10 : 0));
+      second.push(message.id);
+    });
+
+    await pubsub.publish(cursorMessage("a"));
+    await pubsub.publish(cursorMessage("b"));
+    await waitFor(() => second.length === 2);
+
+    expect(first).toEqual(["a", "b"]);
+    expect(second).toEqual(["a", "b"]);
+  });
+
+  it("keeps delivering after a handler throws", async () => {
+    const pubsub = new InProcessRoomPubSub();
+    const received: string[] = [];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    pubsub.subscribe(() => {
+      throw new Error("boom");
+    });
+    pubsub.subscribe((message) => {
+      received.push(message.id);
+    });
+
+    await pubsub.publish(cursorMessage("a"));
+    await waitFor(() => received.length === 1);
+
+    expect(received).toEqual(["a"]);
+  });
+});
+
+describe("PostgresRoomPubSub", () => {
+  const instances: PostgresRoomPubSub[] = [];
+  const connect = () => {
+    const pubsub = new PostgresRoomPubSub("postgres://fake");
+    instances.push(pubsub);
+    return pubsub;
+  };
+
+  beforeEach(() => {
+    getFakePostgres().reset();
+  });
+
+  afterEach(async () => {
+    await Promise.all(instances.splice(0).map((pubsub) => pubsub.close()));
+    vi.useRealTimers();
+  });
+
+  it("gives two instances every message, their own included, in the same order", async () => {
+    const a = connect();
+    const b = connect();
+    const receivedByA: string[] = [];
+    const receivedByB: string[] = [];
+    a.subscribe((message) => {
+      receivedByA.push(message.id);
+    });
+    b.subscribe((message) => {
+      receivedByB.push(message.id);
+    });
+
+    await Promise.all([
+      a.publish(cursorMessage("a1", "a")),
+      b.publish(cursorMessage("b1", "b")),
+      a.publish(cursorMessage("a2", "a")),
+    ]);
+    await waitFor(() => receivedByA.length === 3 && receivedByB.length === 3);
+
+    expect(receivedByA).toEqual(receivedByB);
+    expect(receivedByA).toEqual(expect.arrayContaining(["a1", "a2", "b1"]));
+  });
+
+  it("stores messages too large for a notification and sends a reference", async () => {
+    const a = connect();
+    const b = connect();
+    const received: RoomMessage[] = [];
+    b.subscribe((message) => {
+      received.push(message);
+    });
+    a.subscribe(() => {});
+
+    const large: RoomMessage = {
+      id: "large",
+      instanceId: "a",
+      roomId: "1",
+      type: "text-update",
+      socketId: "socket",
+      withCursor: false,
+      data: { content: "x".repeat(10000) },
+    };
+    await a.publish(large);
+    await waitFor(() => received.length === 1);
+
+    const database = getFakePostgres();
+    expect(database.messages).toHaveLength(1);
+    expect(database.notifications.map((notification) => JSON.parse(notification.payload))).toEqual([
+      { ref: String(database.messages[0].id) },
+    ]);
+    expect(received[0]).toEqual(large);
+  });
+
+  it("ignores notifications of other channels", async () => {
+    const a = new PostgresRoomPubSub("postgres://fake", "channel_a");
+    const b = new PostgresRoomPubSub("postgres://fake", "channel_b");
+    instances.push(a, b);
+    const received: string[] = [];
+    a.subscribe((message) => {
+      received.push(message.id);
+    });
+    b.subscribe(() => {});
+
+    await b.publish(cursorMessage("other"));
+    await a.publish(cursorMessage("mine"));
+    await waitFor(() => received.length === 1);
+
+    expect(received).toEqual(["mine"]);
+  });
+
+  it("reports a reset once it listens again after losing the connection", async () => {
+    const pubsub = connect();
+    const onReset = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    pubsub.subscribe(() => {}, onReset);
+    await pubsub.publish(cursorMessage("first"));
+
+    vi.useFakeTimers();
+    const listener = (pubsub as unknown as { listener: { emit: (event: string, error?: Error) => void } }).listener;
+    listener.emit("error", new Error("connection lost"));
+    expect(onReset).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(onReset).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createRoomPubSub", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("fans out in process unless Postgres is asked for", () => {
+    vi.stubEnv("REALTIME_PUBSUB", "");
+    expect(createRoomPubSub()).toBeInstanceOf(InProcessRoomPubSub);
+  });
+
+  it("uses Postgres when asked for with a database", () => {
+    vi.stubEnv("REALTIME_PUBSUB", "postgres");
+    vi.stubEnv("DATABASE_URL", "postgres://fake");
+    const pubsub = createRoomPubSub();
+    expect(pubsub).toBeInstanceOf(PostgresRoomPubSub);
+    expect(pubsub.distributed).toBe(true);
+  });
+
+  it("falls back to in-process fan-out without a database", () => {
+    vi.stubEnv("REALTIME_PUBSUB", "postgres");
+    vi.stubEnv("DATABASE_URL", "");
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(createRoomPubSub()).toBeInstanceOf(InProcessRoomPubSub);
+  });
+});
@@ -0,0 +1,218 @@
+// lib/roomPubSub.ts
+// Fan-out of room events between collaboration server instances.
+// Every instance receives every published message (its own included) in the same order,
+// so each one can replay text operations through its own copy of a room's sequencer.
+import { Client } from 'pg';
+import type { SequencerSnapshot } from './collaborativeText';
+import type { CursorPositionData, DrawingData, TextUpdateData, TitleUpdateData } from './types';
+import { RealtimeMessageRepository } from '../repositories/RealtimeMessageRepository';
+
+interface RoomMessageBase {
+  id: string;
+  instanceId: string;
+  roomId: string;
+}
+
+export type RoomMessage = RoomMessageBase & (
+  | { type: 'text-update'; socketId: string; data: TextUpdateData; withCursor: boolean }
+  | { type: 'title-update'; socketId: string; data: TitleUpdateData }
+  | { type: 'cursor-position'; socketId: string; data: CursorPositionData }
+  | { type: 'drawing-data'; socketId: string; data: DrawingData }
+  // An instance starts serving a room and asks the instances already serving it for their state
+  | { type: 'room-sync-request' }
+  // `source` is 'database' when no instance answered and the room was loaded from the database
+  | { type: 'room-snapshot'; requestId: string; source: 'replica' | 'database'; title: string; snapshot: SequencerSnapshot }
+);
+
+export type RoomMessageHandler = (message: RoomMessage) => void | Promise<void>;
+
+export interface RoomPubSub {
+  // True when other server instances may publish on the same channel
+  readonly distributed: boolean;
+  publish(message: RoomMessage): Promise<void>;
+  // `onReset` is called once messages may have been missed (after reconnecting)
+  subscribe(handler: RoomMessageHandler, onReset?: () => void): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Single-process fan-out (default).
+ */
+export class InProcessRoomPubSub implements RoomPubSub {
+  readonly distributed = false;
+  private handlers: RoomMessageHandler[] = [];
+  private delivery: Promise<void> = Promise.resolve();
+
+  async publish(message: RoomMessage): Promise<void> {
+    this.delivery = this.delivery.then(() => deliver(this.handlers, message));
+  }
+
+  subscribe(handler: RoomMessageHandler): void {
+    this.handlers.push(handler);
+  }
+
+  async close(): Promise<void> {
+    this.handlers = [];
+    await this.delivery;
+  }
+}
+
+const NOTIFY_PAYLOAD_LIMIT = 7900;
+const STORED_MESSAGE_TTL_SECONDS = 300;
+const RECONNECT_DELAY_MS = 2000;
+
+/**
+ * Fan-out through Postgres LISTEN/NOTIFY. Notifications reach every listener in commit order,
+ * which gives all instances the same message order.
+ */
+export class PostgresRoomPubSub implements RoomPubSub {
+  readonly distributed = true;
+  private handlers: RoomMessageHandler[] = [];
+  private resetHandlers: Array<() => void> = [];
+  private listener: Client | null = null;
+  private connecting: Promise<void> | null = null;
+  private delivery: Promise<void> = Promise.resolve();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+  private missedMessages = false;
+  private readonly repository = new RealtimeMessageRepository();
+
+  constructor(
+    private readonly connectionString: string,
+    private readonly channel: string = 'notus_room_events'
+  ) {}
+
+  async publish(message: RoomMessage): Promise<void> {
+    await this.connect();
+    let payload = JSON.stringify(message);
+    if (Buffer.byteLength(payload, 'utf8') > NOTIFY_PAYLOAD_LIMIT) {
+      const stored = await this.repository.storeMessage(payload);
+      if (!stored.success || !stored.data) {
+        throw new Error(stored.error || 'Unable to store realtime message');
+      }
+      payload = JSON.stringify({ ref: stored.data.id });
+    }
+    const result = await this.repository.notify(this.channel, payload);
+    if (!result.success) {
+      throw new Error(result.error || 'Unable to publish realtime message');
+    }
+  }
+
+  subscribe(handler: RoomMessageHandler, onReset?: () => void): void {
+    this.handlers.push(handler);
+    if (onReset) this.resetHandlers.push(onReset);
+    void this.connect().catch((error) => {
+      console.error("❌ Unable to listen for realtime messages:", error);
+      this.scheduleReconnect();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.handlers = [];
+    this.resetHandlers = [];
+    if (this.cleanupTimer) clearInterval(this.cleanupTimer);
+    const listener = this.listener;
+    this.listener = null;
+    await listener?.end().catch(() => {});
+    await this.delivery;
+  }
+
+  private connect(): Promise<void> {
+    if (this.listener) return Promise.resolve();
+    this.connecting ??= (async () => {
+      try {
+        const listener = new Client({
+          connectionString: this.connectionString,
+          ssl: { rejectUnauthorized: false },
+        });
+        listener.on('notification', (notification) => {
+          if (notification.channel !== this.channel || !notification.payload) return;
+          const payload = notification.payload;
+          this.delivery = this.delivery.then(async () => {
+            const message = await this.resolvePayload(payload);
+            if (message) await deliver(this.handlers, message);
+          });
+        });
+        listener.on('error', (error) => {
+          console.error("❌ Realtime listener connection error:", error);
+          this.handleDisconnect(listener);
+        });
+        listener.on('end', () => this.handleDisconnect(listener));
+
+        await listener.connect();
+        await listener.query(`LISTEN ${this.channel}`);
+        this.listener = listener;
+        if (this.missedMessages) {
+          this.missedMessages = false;
+          for (const onReset of this.resetHandlers) onReset();
+        }
+        this.cleanupTimer ??= setInterval(() => {
+          void this.repository.deleteMessagesOlderThan(STORED_MESSAGE_TTL_SECONDS);
+        }, STORED_MESSAGE_TTL_SECONDS * 1000);
+      } finally {
+        this.connecting = null;
+      }
+    })();
+    return this.connecting;
+  }
+
+  private handleDisconnect(listener: Client) {
+    if (this.listener !== listener) return;
+    this.listener = null;
+    listener.removeAllListeners();
+    listener.end().catch(() => {});
+    if (this.closed) return;
+
+    // Messages published while disconnected are lost: room state is rebuilt after reconnecting
+    this.missedMessages = true;
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    setTimeout(() => {
+      if (this.closed || this.listener) return;
+      this.connect().catch((error) => {
+        console.error("❌ Unable to reconnect the realtime listener:", error);
+        this.scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async resolvePayload(payload: string): Promise<RoomMessage | null> {
+    try {
+      const parsed = JSON.parse(payload) as RoomMessage | { ref: string };
+      if ('ref' in parsed) {
+        const stored = await this.repository.getMessage(parsed.ref);
+        return stored.success && stored.data ? (JSON.parse(stored.data.payload) as RoomMessage) : null;
+      }
+      return parsed;
+    } catch (error) {
+      console.error("❌ Invalid realtime message:", error);
+      return null;
+    }
+  }
+}
+
+async function deliver(handlers: RoomMessageHandler[], message: RoomMessage): Promise<void> {
+  for (const handler of handlers) {
+    try {
+      await handler(message);
+    } catch (error) {
+      console.error("❌ Realtime message handler error:", error);
+    }
+  }
+}
+
+/**
+ * Picks the fan-out adapter: `REALTIME_PUBSUB=postgres` when several server instances share the database.
+ */
+export function createRoomPubSub(): RoomPubSub {
+  if (process.env.REALTIME_PUBSUB === 'postgres') {
+    if (process.env.DATABASE_URL) {
+      return new PostgresRoomPubSub(process.env.DATABASE_URL);
+    }
+    console.error("❌ REALTIME_PUBSUB=postgres requires DATABASE_URL, falling back to in-process fan-out");
+  }
+  return new InProcessRoomPubSub();
+}
@@ -101,6 +101,8 @@ async function getSharedSocketInstance(): Promise<Socket<ServerToClientEvents, C
       path: '/api/socket',
       timeout: 20000,
       forceNew: false,
+      // Carries the NextAuth session cookie when the socket server is on another origin
+      withCredentials: true,
       query: {
         purpose: 'shared',
       },
@@ -0,0 +1,187 @@
+import { createServer, type Server as HTTPServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { io as connectClient, type Socket } from "socket.io-client";
+import { getFakePostgres } from "@/test/fakePostgres";
+import type { RoomState, SocketAckResponse, TextUpdateData } from "./types";
+
+const roomAccess = vi.hoisted(() => ({ current: "owner" }));
+
+vi.mock("pg", async () => (await import("@/test/fakePostgres")).fakePgModule);
+vi.mock("../prisma", () => ({ prisma: {} }));
+vi.mock("../historyRetention", () => ({ startHistoryCompactionJob: () => {} }));
+vi.mock("../documentHistory", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../documentHistory")>()),
+  recordDocumentHistory: async () => {},
+}));
+vi.mock("../services/AttachmentService", () => ({
+  AttachmentService: class {
+    async recordAttachmentLinks() {
+      return { success: true, data: { linkedCount: 0 } };
+    }
+  },
+}));
+vi.mock("../security/socketAuth", () => ({
+  authenticateSocketRequest: async () => ({ userId: 1, email: "owner@example.com", username: "owner", isAdmin: false }),
+  resolveRoomAccess: async () => roomAccess.current,
+}));
+// Documents live in the shared fake database, like the notes of a real deployment
+vi.mock("../services/PrismaDocumentService", async () => {
+  const { getFakePostgres } = await import("@/test/fakePostgres");
+  return {
+    PrismaDocumentService: class {
+      async initializeTables() {}
+      async getDocumentById(id: number) {
+        const document = getFakePostgres().documents.get(id);
+        return document ? { success: true, document } : { success: false, error: "Document not found" };
+      }
+      async createOrUpdateDocumentById(id: number, userId: number, _email: string, title: string, content: string, tags: string[]) {
+        const document = { id, user_id: userId, title, content, tags };
+        getFakePostgres().documents.set(id, document);
+        return { success: true, document };
+      }
+    },
+  };
+});
+
+const ROOM_ID = "7";
+
+interface RunningServer {
+  httpServer: HTTPServer;
+  url: string;
+  close: () => Promise<void>;
+}
+
+// Each server gets its own copy of the module, hence its own room replicas, as separate processes would
+async function startServer(): Promise<RunningServer> {
+  vi.resetModules();
+  const { initializeSocketServer } = await import("./socket-server");
+  const httpServer = createServer();
+  const io = initializeSocketServer(httpServer);
+  await new Promise<void>((resolve) => httpServer.listen(0, "127.0.0.1", resolve));
+  const { port } = httpServer.address() as AddressInfo;
+  return {
+    httpServer,
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => io.close(() => resolve())),
+  };
+}
+
+describe("socket server with two instances on one database", () => {
+  const clients: Socket[] = [];
+  const servers: RunningServer[] = [];
+
+  const connect = (server: RunningServer): Socket => {
+    const client = connectClient(server.url, { path: "/api/socket", transports: ["websocket"], forceNew: true });
+    clients.push(client);
+    return client;
+  };
+
+  const join = async (client: Socket, clientId: string): Promise<RoomState> => {
+    const state = new Promise<RoomState>((resolve) => client.once("room-state", resolve));
+    const ack: SocketAckResponse = await client.emitWithAck("join-room", ROOM_ID, clientId);
+    expect(ack.ok).toBe(true);
+    return state;
+  };
+
+  const nextTextUpdate = (client: Socket) => new Promise<TextUpdateData>((resolve) => client.once("text-update", resolve));
+
+  beforeAll(() => {
+    vi.stubEnv("REALTIME_PUBSUB", "postgres");
+    vi.stubEnv("DATABASE_URL", "postgres://fake");
+  });
+
+  beforeEach(() => {
+    roomAccess.current = "owner";
+    const database = getFakePostgres();
+    database.reset();
+    database.documents.set(Number(ROOM_ID), { id: 7, user_id: 1, title: "Notes", content: "Hello", tags: ["work"] });
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) client.disconnect();
+    await Promise.all(servers.splice(0).map((server) => server.close()));
+  });
+
+  it("gives instances opening a room at the same time one shared session", async () => {
+    servers.push(await startServer(), await startServer());
+    const alice = connect(servers[0]);
+    const bob = connect(servers[1]);
+
+    const [aliceState, bobState] = await Promise.all([join(alice, "alice"), join(bob, "bob")]);
+    expect(aliceState.text).toBe("Hello");
+    expect(bobState.text).toBe("Hello");
+    expect(aliceState.sessionId).toBe(bobState.sessionId);
+
+    const received = nextTextUpdate(bob);
+    const ack: SocketAckResponse = await alice.emitWithAck("text-update", ROOM_ID, {
+      clientId: "alice",
+      ts: Date.now(),
+      content: "Hello world",
+    });
+    expect(ack).toMatchObject({ ok: true, sessionId: aliceState.sessionId });
+
+    const update = await received;
+    expect(update.sessionId).toBe(bobState.sessionId);
+    expect(update.content).toBe("Hello world");
+  }, 10000);
+
+  it("hands the live session of a room to an instance that opens it later", async () => {
+    servers.push(await startServer(), await startServer());
+    const alice = connect(servers[0]);
+    const aliceState = await join(alice, "alice");
+    await alice.emitWithAck("text-update", ROOM_ID, { clientId: "alice", ts: Date.now(), content: "Hello there" });
+
+    const bob = connect(servers[1]);
+    const bobState = await join(bob, "bob");
+    expect(bobState.text).toBe("Hello there");
+    expect(bobState.sessionId).toBe(aliceState.sessionId);
+    expect(bobState.version).toBe(1);
+  }, 10000);
+
+  it("keeps the edits made while another instance is loading the room", async () => {
+    servers.push(await startServer(), await startServer());
+    const alice = connect(servers[0]);
+    await join(alice, "alice");
+
+    const bob = connect(servers[1]);
+    const bobJoined = join(bob, "bob");
+    await alice.emitWithAck("text-update", ROOM_ID, { clientId: "alice", ts: Date.now(), content: "Hello again" });
+
+    const bobState = await bobJoined;
+    expect(bobState.text).toBe("Hello again");
+  }, 10000);
+
+  it("answers a read-only member's sync request without sequencing or saving its payload", async () => {
+    servers.push(await startServer());
+    const owner = connect(servers[0]);
+    await join(owner, "owner");
+    roomAccess.current = "viewer";
+    const viewer = connect(servers[0]);
+    const viewerState = await join(viewer, "viewer");
+
+    const broadcast = vi.fn();
+    owner.on("text-update", broadcast);
+    const ack: SocketAckResponse = await viewer.emitWithAck("text-update", ROOM_ID, {
+      clientId: "viewer",
+      ts: Date.now(),
+      operation: [viewerState.text.length],
+      baseVersion: viewerState.version,
+      sessionId: viewerState.sessionId,
+      title: "Taken over",
+      tags: ["spam"],
+    });
+    expect(ack).toEqual({ ok: true, version: viewerState.version, sessionId: viewerState.sessionId, content: "Hello" });
+
+    const refused: SocketAckResponse = await viewer.emitWithAck("text-update", ROOM_ID, {
+      clientId: "viewer",
+      ts: Date.now(),
+      content: "Hello viewer",
+    });
+    expect(refused).toEqual({ ok: false, error: "Read-only access" });
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(broadcast).not.toHaveBeenCalled();
+    expect(getFakePostgres().documents.get(Number(ROOM_ID))).toMatchObject({ title: "Notes", content: "Hello", tags: ["work"] });
+  }, 10000);
+});
@@ -1,12 +1,70 @@
 // lib/socket-server.ts
 import { Server as IOServer } from 'socket.io';
 import type { Server as HTTPServer } from 'node:http';
-import type { TextUpdateData, SocketAckResponse, TitleUpdateData, DrawingData, CursorPositionData } from './types';
+import { randomUUID } from 'node:crypto';
+import type {
+  TextUpdateData,
+  SocketAckResponse,
+  TitleUpdateData,
+  DrawingData,
+  CursorPositionData,
+  RoomParticipant,
+  RoomState,
+  RestoredDocumentData,
+} from './types';
 import { PrismaDocumentService } from '../services/PrismaDocumentService';
-import { recordDocumentHistory } from '../documentHistory';
+import { AttachmentService } from '../services/AttachmentService';
+import { recordDocumentHistory, extractTextFromStoredContent } from '../documentHistory';
+import { startHistoryCompactionJob } from '../historyRetention';
+import { TextOperationSequencer, type SequencerResult } from './collaborativeText';
+import { isNoopOperation, isTextOperation, operationFromDiff } from './textOperation';
+import { createRoomPubSub, type RoomMessage, type RoomPubSub } from './roomPubSub';
+import { authenticateSocketRequest, resolveRoomAccess, type RoomAccess, type SocketIdentity } from '../security/socketAuth';
 
 let io: IOServer | null = null;
+let pubsub: RoomPubSub | null = null;
 let documentServicePromise: Promise<PrismaDocumentService> | null = null;
+const attachmentService = new AttachmentService();
+
+// Identifies this process among the instances sharing the fan-out channel
+const instanceId = randomUUID();
+
+interface RoomSession {
+  sequencer: TextOperationSequencer;
+  title: string;
+}
+
+interface PendingRoomLoad {
+  requestId: string;
+  // Sync requests and updates of the room seen while waiting, in channel order: a snapshot
+  // answers a request, and the updates that follow that request are replayed on top of it
+  buffered: RoomMessage[];
+  timer: NodeJS.Timeout;
+  resolve: (session: RoomSession) => void;
+  reject: (error: Error) => void;
+}
+
+interface TextUpdateOutcome {
+  result: SequencerResult;
+  sessionId: string;
+}
+
+// Authoritative state per room. Every instance serving a room holds a replica that
+// applies the text operations of the fan-out channel in channel order.
+const roomSessions = new Map<string, RoomSession>();
+const roomSessionLoads = new Map<string, Promise<RoomSession>>();
+const pendingRoomLoads = new Map<string, PendingRoomLoad>();
+// Text updates published by local sockets, waiting to come back from the channel
+const pendingTextUpdates = new Map<string, (outcome: TextUpdateOutcome) => void>();
+// Connected members per room, keyed by socket id
+const roomParticipants = new Map<string, Map<string, RoomParticipant>>();
+const roomEvictionTimers = new Map<string, NodeJS.Timeout>();
+// Persistence is chained per room so that an older snapshot never overwrites a newer one
+const roomPersistQueues = new Map<string, Promise<unknown>>();
+
+const ROOM_EVICTION_DELAY_MS = 60000;
+const ROOM_SNAPSHOT_TIMEOUT_MS = 2000;
+const TEXT_UPDATE_TIMEOUT_MS = 10000;
 
 async function getDocumentServiceInstance() {
   documentServicePromise ??= (async () => {
@@ -23,24 +81,20 @@ async function getDocumentServiceInstance() {
   return documentServicePromise;
 }
 
-async function persistTextUpdate(data: TextUpdateData): Promise<boolean> {
+// `roomId` is the id of the document, checked by resolveRoomAccess when the socket joined
+async function persistTextUpdate(roomId: string, data: TextUpdateData, identity: SocketIdentity): Promise<boolean> {
   // If no snapshot, we cannot persist - but it's not an error if it's just a broadcast update
   if (!data.persistSnapshot) {
     return true; // No error, just no persistence needed
   }
   
-  if (
-    !process.env.DATABASE_URL ||
-    !data.documentId ||
-    typeof data.userId !== 'number' ||
-    !data.userEmail
-  ) {
+  const documentId = Number(roomId);
+  if (!process.env.DATABASE_URL || !Number.isInteger(documentId) || documentId <= 0) {
     return true; // No error if conditions are not met (no DB configured)
   }
 
   try {
     const service = await getDocumentServiceInstance();
-    const documentId = Number(data.documentId);
 
     // Retrieve previous snapshot to calculate diff
     let previousContent: string | null = null;
@@ -59,20 +113,21 @@ async function persistTextUpdate(data: TextUpdateData): Promise<boolean> {
     // Record history before persisting new content
     await recordDocumentHistory({
       documentId,
-      userId: data.userId,
-      userEmail: data.userEmail,
+      userId: identity.userId,
+      userEmail: identity.email,
       previousContent,
       nextContent,
     });
 
     await service.createOrUpdateDocumentById(
       documentId,
-      data.userId,
-      data.userEmail,
+      identity.userId,
+      identity.email,
       data.title || '',
       nextContent,
       Array.isArray(data.tags) ? data.tags : []
     );
+    await attachmentService.recordAttachmentLinks(documentId, nextContent, identity);
     
     return true; // Persistence successful
   } catch (error) {
@@ -81,6 +136,342 @@ async function persistTextUpdate(data: TextUpdateData): Promise<boolean> {
   }
 }
 
+async function loadRoomSession(roomId: string): Promise<RoomSession> {
+  const empty = () => ({ sequencer: new TextOperationSequencer(''), title: '' });
+  if (!process.env.DATABASE_URL) return empty();
+  const id = Number(roomId);
+  if (!Number.isFinite(id) || id <= 0) return empty();
+  try {
+    const service = await getDocumentServiceInstance();
+    const existing = await service.getDocumentById(id);
+    if (existing.success && existing.document) {
+      return {
+        sequencer: new TextOperationSequencer(extractTextFromStoredContent(existing.document.content)),
+        title: existing.document.title || '',
+      };
+    }
+  } catch (error) {
+    console.error("❌ Unable to load document for collaborative session:", error);
+  }
+  return empty();
+}
+
+function getPubSub(): RoomPubSub {
+  if (!pubsub) {
+    pubsub = createRoomPubSub();
+    pubsub.subscribe(handleRoomMessage, resetRoomSessions);
+  }
+  return pubsub;
+}
+
+function publishRoomMessage(message: RoomMessage) {
+  getPubSub().publish(message).catch((error) => {
+    console.error("❌ Unable to publish room message:", error);
+  });
+}
+
+function getRoomSession(roomId: string): Promise<RoomSession> {
+  cancelRoomEviction(roomId);
+  const session = roomSessions.get(roomId);
+  if (session) return Promise.resolve(session);
+
+  let load = roomSessionLoads.get(roomId);
+  if (!load) {
+    load = (getPubSub().distributed ? requestRoomSnapshot(roomId) : loadRoomSession(roomId))
+      .then((loaded) => {
+        // A replica installed from the channel in the meantime wins over the database copy
+        const current = roomSessions.get(roomId) ?? loaded;
+        roomSessions.set(roomId, current);
+        return current;
+      })
+      .finally(() => roomSessionLoads.delete(roomId));
+    roomSessionLoads.set(roomId, load);
+  }
+  return load;
+}
+
+// Asks the instances already serving the room for their replica. Without an answer,
+// the room is loaded from the database and that copy is offered to everyone waiting:
+// the first snapshot in channel order is adopted by all of them (see getSnapshotReplayStart).
+function requestRoomSnapshot(roomId: string): Promise<RoomSession> {
+  return new Promise<RoomSession>((resolve, reject) => {
+    const requestId = randomUUID();
+    const timer = setTimeout(async () => {
+      if (pendingRoomLoads.get(roomId)?.requestId !== requestId) return;
+      const loaded = await loadRoomSession(roomId);
+      publishRoomMessage({
+        id: randomUUID(),
+        instanceId,
+        roomId,
+        type: 'room-snapshot',
+        requestId,
+        source: 'database',
+        title: loaded.title,
+        snapshot: loaded.sequencer.toSnapshot(),
+      });
+    }, ROOM_SNAPSHOT_TIMEOUT_MS);
+
+    pendingRoomLoads.set(roomId, { requestId, buffered: [], timer, resolve, reject });
+    getPubSub().publish({ id: requestId, instanceId, roomId, type: 'room-sync-request' }).catch((error) => {
+      clearTimeout(timer);
+      pendingRoomLoads.delete(roomId);
+      reject(error instanceof Error ? error : new Error('Unable to request room state'));
+    });
+  });
+}
+
+// Called after the channel connection was lost: replicas may have missed operations
+function resetRoomSessions() {
+  roomSessions.clear();
+  for (const pending of pendingRoomLoads.values()) {
+    clearTimeout(pending.timer);
+    pending.reject(new Error('Realtime channel reset'));
+  }
+  pendingRoomLoads.clear();
+
+  for (const roomId of roomParticipants.keys()) {
+    buildRoomState(roomId)
+      .then((state) => io?.to(roomId).emit('room-state', state))
+      .catch((error) => console.error("❌ Unable to rebuild room state (websocket):", error));
+  }
+}
+
+function applyTextUpdate(session: RoomSession, data: TextUpdateData): SequencerResult {
+  const result = session.sequencer.receive(data);
+  if (result.status === 'applied' && typeof data.title === 'string') {
+    session.title = data.title;
+  }
+  return result;
+}
+
+/**
+ * Where the replay of the buffered messages starts when `snapshot` is adopted, or null when the
+ * snapshot can't be placed in the channel and is skipped.
+ * A snapshot is the state of the room at the request it answers. A database copy is the state of
+ * a room nobody was serving: every instance still waiting adopts the first one, on top of which
+ * it replays what followed its own request, so that concurrent loads end up with one session.
+ */
+function getSnapshotReplayStart(pending: PendingRoomLoad, snapshot: Extract<RoomMessage, { type: 'room-snapshot' }>): number | null {
+  const findRequest = (requestId: string) =>
+    pending.buffered.findIndex((message) => message.type === 'room-sync-request' && message.id === requestId);
+
+  const answeredIndex = findRequest(snapshot.requestId);
+  if (answeredIndex >= 0) return answeredIndex + 1;
+  if (snapshot.source === 'database') {
+    const ownIndex = findRequest(pending.requestId);
+    if (ownIndex >= 0) return ownIndex + 1;
+  }
+  return null;
+}
+
+/**
+ * Processes the fan-out channel. Runs for every message of every instance, one message at a time.
+ */
+function handleRoomMessage(message: RoomMessage) {
+  const { roomId } = message;
+
+  const pending = pendingRoomLoads.get(roomId);
+  if (pending) {
+    if (message.type === 'room-snapshot') {
+      const replayStart = getSnapshotReplayStart(pending, message);
+      if (replayStart === null) return;
+
+      clearTimeout(pending.timer);
+      pendingRoomLoads.delete(roomId);
+      const session: RoomSession = {
+        sequencer: TextOperationSequencer.fromSnapshot(message.snapshot),
+        title: message.title,
+      };
+      for (const buffered of pending.buffered.slice(replayStart)) {
+        if (buffered.type === 'text-update') applyTextUpdate(session, buffered.data);
+        if (buffered.type === 'title-update') session.title = buffered.data.title;
+      }
+      roomSessions.set(roomId, session);
+      pending.resolve(session);
+      return;
+    }
+    if (message.type === 'room-sync-request' || message.type === 'text-update' || message.type === 'title-update') {
+      pending.buffered.push(message);
+    }
+  }
+
+  const session = roomSessions.get(roomId);
+
+  switch (message.type) {
+    case 'room-sync-request': {
+      if (!session) return;
+      publishRoomMessage({
+        id: randomUUID(),
+        instanceId,
+        roomId,
+        type: 'room-snapshot',
+        requestId: message.id,
+        source: 'replica',
+        title: session.title,
+        snapshot: session.sequencer.toSnapshot(),
+      });
+      return;
+    }
+    case 'room-snapshot':
+      return;
+    case 'text-update': {
+      if (!session || pending) return;
+      const { data } = message;
+      const result = applyTextUpdate(session, data);
+
+      if (result.status === 'applied') {
+        // Broadcast the sequenced operation (with the merged text for clients that missed versions).
+        // Server-originated updates (no socket id) go to every client, the origin included.
+        const recipients = message.socketId ? io?.to(roomId).except(message.socketId) : io?.to(roomId);
+        recipients?.emit('text-update', {
+          clientId: data.clientId,
+          ts: data.ts,
+          operation: result.operation,
+          version: result.version,
+          sessionId: session.sequencer.sessionId,
+          content: result.text,
+          title: data.title,
+          tags: data.tags,
+        });
+        if (message.withCursor && data.cursor) {
+          io?.to(roomId).except(message.socketId).emit('cursor-position', data.cursor);
+        }
+      }
+
+      if (message.instanceId === instanceId) {
+        pendingTextUpdates.get(message.id)?.({ result, sessionId: session.sequencer.sessionId });
+      }
+      return;
+    }
+    case 'title-update': {
+      if (session && typeof message.data.title === 'string') {
+        session.title = message.data.title;
+      }
+      io?.to(roomId).except(message.socketId).emit('title-update', message.data);
+      return;
+    }
+    case 'cursor-position': {
+      io?.to(roomId).except(message.socketId).emit('cursor-position', message.data);
+      return;
+    }
+    case 'drawing-data': {
+      io?.to(roomId).except(message.socketId).emit('drawing-data', message.data);
+      return;
+    }
+  }
+}
+
+// Publishes a text update and waits until it has been sequenced in channel order
+function publishTextUpdate(roomId: string, socketId: string, data: TextUpdateData, withCursor: boolean): Promise<TextUpdateOutcome> {
+  return new Promise<TextUpdateOutcome>((resolve, reject) => {
+    const id = randomUUID();
+    const timer = setTimeout(() => {
+      pendingTextUpdates.delete(id);
+      reject(new Error('Text update timed out'));
+    }, TEXT_UPDATE_TIMEOUT_MS);
+
+    pendingTextUpdates.set(id, (outcome) => {
+      clearTimeout(timer);
+      pendingTextUpdates.delete(id);
+      resolve(outcome);
+    });
+
+    getPubSub().publish({ id, instanceId, roomId, type: 'text-update', socketId, data, withCursor }).catch((error) => {
+      clearTimeout(timer);
+      pendingTextUpdates.delete(id);
+      reject(error instanceof Error ? error : new Error('Unable to publish text update'));
+    });
+  });
+}
+
+function listRoomParticipants(roomId: string): RoomParticipant[] {
+  return Array.from(roomParticipants.get(roomId)?.values() ?? []);
+}
+
+function removeRoomParticipant(roomId: string, socketId: string) {
+  const participants = roomParticipants.get(roomId);
+  if (!participants?.delete(socketId)) return;
+  if (participants.size === 0) {
+    roomParticipants.delete(roomId);
+  }
+  io?.to(roomId).emit('room-participants', listRoomParticipants(roomId));
+}
+
+async function buildRoomState(roomId: string): Promise<RoomState> {
+  const { sequencer, title } = await getRoomSession(roomId);
+  return {
+    text: sequencer.currentText,
+    title,
+    version: sequencer.currentVersion,
+    sessionId: sequencer.sessionId,
+    participants: listRoomParticipants(roomId),
+  };
+}
+
+function cancelRoomEviction(roomId: string) {
+  const timer = roomEvictionTimers.get(roomId);
+  if (timer) {
+    clearTimeout(timer);
+    roomEvictionTimers.delete(roomId);
+  }
+}
+
+// Forget the room text once nobody has been connected for a while
+function scheduleRoomEviction(roomId: string) {
+  if (!io || (io.sockets.adapter.rooms.get(roomId)?.size ?? 0) > 0) return;
+  cancelRoomEviction(roomId);
+  roomEvictionTimers.set(roomId, setTimeout(() => {
+    roomEvictionTimers.delete(roomId);
+    if ((io?.sockets.adapter.rooms.get(roomId)?.size ?? 0) === 0) {
+      roomSessions.delete(roomId);
+    }
+  }, ROOM_EVICTION_DELAY_MS));
+}
+
+function queuePersist(roomId: string, data: TextUpdateData, identity: SocketIdentity) {
+  const previous = roomPersistQueues.get(roomId) ?? Promise.resolve();
+  const next = previous
+    .then(() => {
+      // Save the latest text of the room: another instance may persist an older version after us
+      const session = roomSessions.get(roomId);
+      return persistTextUpdate(
+        roomId,
+        session ? { ...data, persistSnapshot: { text: session.sequencer.currentText, timestamp: Date.now() } } : data,
+        identity
+      );
+    })
+    .catch((error) => {
+      console.error("❌ Persistence error (non-blocking):", error);
+    });
+  roomPersistQueues.set(roomId, next);
+  next.finally(() => {
+    if (roomPersistQueues.get(roomId) === next) {
+      roomPersistQueues.delete(roomId);
+    }
+  });
+}
+
+// Clients without operation support send the whole text: turn it into an operation on the current version
+function toOperationUpdate(session: RoomSession, data: TextUpdateData): TextUpdateData | null {
+  if (data.operation !== undefined) {
+    if (!isTextOperation(data.operation)) {
+      throw new Error('Invalid text operation');
+    }
+    return data;
+  }
+  if (typeof data.content === 'string') {
+    const { sequencer } = session;
+    return {
+      ...data,
+      content: undefined,
+      operation: operationFromDiff(sequencer.currentText, data.content),
+      baseVersion: sequencer.currentVersion,
+      sessionId: sequencer.sessionId,
+    };
+  }
+  return null;
+}
+
 export function initializeSocketServer(httpServer: HTTPServer) {
   if (io) {
     return io;
@@ -93,17 +484,76 @@ export function initializeSocketServer(httpServer: HTTPServer) {
         credentials: true,
       },
     });
+  getPubSub();
+  // The socket server lives as long as the app process: it also hosts the periodic history compaction
+  startHistoryCompactionJob();
+
+  // The session cookie travels with the handshake; anonymous sockets can connect but not join rooms
+  io.use(async (socket, next) => {
+    socket.data.identity = await authenticateSocketRequest(socket.request);
+    next();
+  });
 
   io.on('connection', (socket) => {
+    const identity: SocketIdentity | null = socket.data.identity ?? null;
     // Store clientId associated with this socket for each room
     const clientIdByRoom = new Map<string, string>();
+    // Access of this socket per room, resolved once from the database
+    const accessByRoom = new Map<string, Promise<RoomAccess | null>>();
+
+    const getRoomAccess = (roomId: string): Promise<RoomAccess | null> => {
+      let access = accessByRoom.get(roomId);
+      if (!access) {
+        access = resolveRoomAccess(roomId, identity).catch((error) => {
+          console.error("❌ Unable to check room access (websocket):", error);
+          accessByRoom.delete(roomId);
+          return null;
+        });
+        accessByRoom.set(roomId, access);
+      }
+      return access;
+    };
+
+    const canEditRoom = async (roomId: string): Promise<boolean> => {
+      const access = await getRoomAccess(roomId);
+      return access === 'owner' || access === 'editor';
+    };
+
+    socket.on('join-room', async (roomId: string, clientId?: string, ack?: (response: SocketAckResponse) => void) => {
+      const access = await getRoomAccess(roomId);
+      if (!identity || !access) {
+        ack?.({ ok: false, error: 'Access denied' });
+        return;
+      }
 
-    socket.on('join-room', (roomId: string, clientId?: string) => {
       socket.join(roomId);
+      cancelRoomEviction(roomId);
       if (clientId) {
         clientIdByRoom.set(roomId, clientId);
       }
+
+      let participants = roomParticipants.get(roomId);
+      if (!participants) {
+        participants = new Map();
+        roomParticipants.set(roomId, participants);
+      }
+      participants.set(socket.id, {
+        clientId: clientIdByRoom.get(roomId) || socket.id,
+        userId: identity.userId,
+        username: identity.username,
+        readOnly: access === 'viewer',
+      });
+
       socket.to(roomId).emit('user-joined', clientId || socket.id);
+      socket.to(roomId).emit('room-participants', listRoomParticipants(roomId));
+
+      // Late joiners start from the live state rather than the last persisted snapshot
+      try {
+        socket.emit('room-state', await buildRoomState(roomId));
+      } catch (error) {
+        console.error("❌ Unable to build room state (websocket):", error);
+      }
+      ack?.({ ok: true });
     });
 
     socket.on('leave-room', (roomId: string, clientId?: string) => {
@@ -112,65 +562,157 @@ export function initializeSocketServer(httpServer: HTTPServer) {
       const idToEmit = clientId || clientIdByRoom.get(roomId) || socket.id;
       socket.to(roomId).emit('user-left', idToEmit);
       clientIdByRoom.delete(roomId);
+      accessByRoom.delete(roomId);
+      removeRoomParticipant(roomId, socket.id);
+      scheduleRoomEviction(roomId);
     });
 
     // When socket disconnects, notify all rooms it left
     socket.on('disconnect', () => {
       for (const [roomId, clientId] of clientIdByRoom.entries()) {
         socket.to(roomId).emit('user-left', clientId);
+        scheduleRoomEviction(roomId);
+      }
+      for (const roomId of accessByRoom.keys()) {
+        removeRoomParticipant(roomId, socket.id);
       }
       clientIdByRoom.clear();
     });
 
-    socket.on('text-update', async (roomId: string, data: TextUpdateData, ack?: (response: SocketAckResponse) => void) => {
+    const handleTextUpdate = async (
+      roomId: string,
+      payload: TextUpdateData,
+      ack?: (response: SocketAckResponse) => void,
+      withCursor: boolean = false
+    ) => {
       try {
-        // 1. Broadcast immediately to other clients
-        socket.to(roomId).emit('text-update', data);
-        
-        // 2. Start persistence in background (non-blocking)
-        persistTextUpdate(data).catch((error) => {
-          console.error("❌ Persistence error (non-blocking):", error);
-        });
-        
-        // 3. Respond immediately with success
-        ack?.({ ok: true });
+        // The room is the document: a payload naming another document is refused
+        if (payload?.documentId != null && String(payload.documentId) !== roomId) {
+          ack?.({ ok: false, error: 'Document does not match room' });
+          return;
+        }
+        const data: TextUpdateData = { ...payload, documentId: roomId };
+
+        const access = await getRoomAccess(roomId);
+        if (!identity || !access) {
+          ack?.({ ok: false, error: 'Access denied' });
+          return;
+        }
+
+        // Read-only members may only ask for the current text (empty operation). They get it back
+        // from the room without anything of their payload (title, tags) being sequenced or saved
+        if (access === 'viewer') {
+          const isSyncRequest = Array.isArray(data.operation) && isTextOperation(data.operation) && isNoopOperation(data.operation);
+          if (!isSyncRequest) {
+            ack?.({ ok: false, error: 'Read-only access' });
+            return;
+          }
+          const { sequencer } = await getRoomSession(roomId);
+          ack?.({ ok: true, version: sequencer.currentVersion, sessionId: sequencer.sessionId, content: sequencer.currentText });
+          return;
+        }
+
+        const session = await getRoomSession(roomId);
+        const update = toOperationUpdate(session, data);
+        if (!update) {
+          ack?.({ ok: false, error: 'Empty text update' });
+          return;
+        }
+
+        // 1. Sequence through the fan-out channel, which also broadcasts to every instance
+        const { result, sessionId } = await publishTextUpdate(
+          roomId,
+          socket.id,
+          { ...update, persistSnapshot: undefined },
+          withCursor
+        );
+
+        if (result.status === 'resync') {
+          ack?.({ ok: true, version: result.version, sessionId, content: result.text });
+          return;
+        }
+
+        if (result.status === 'applied') {
+          // 2. Persist the merged text in background (non-blocking)
+          queuePersist(roomId, {
+            ...data,
+            persistSnapshot: { text: result.text, timestamp: Date.now() },
+          }, identity);
+        }
+
+        // 3. Acknowledge with the version assigned to the operation
+        ack?.({ ok: true, version: result.version, sessionId });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         ack?.({ ok: false, error: message });
       }
+    };
+
+    socket.on('text-update', (roomId: string, data: TextUpdateData, ack?: (response: SocketAckResponse) => void) => {
+      void handleTextUpdate(roomId, data, ack);
+    });
+
+    socket.on('text-update-with-cursor', (roomId: string, data: TextUpdateData, ack?: (response: SocketAckResponse) => void) => {
+      void handleTextUpdate(roomId, data, ack, true);
     });
 
-    socket.on('text-update-with-cursor', async (roomId: string, data: TextUpdateData, ack?: (response: SocketAckResponse) => void) => {
+    socket.on('document-restored', async (roomId: string, data: RestoredDocumentData, ack?: (response: SocketAckResponse) => void) => {
       try {
-        // 1. Broadcast immediately to other clients
-        socket.to(roomId).emit('text-update', data);
-        if (data.cursor) {
-          socket.to(roomId).emit('cursor-position', data.cursor);
+        if (!identity || !(await canEditRoom(roomId))) {
+          ack?.({ ok: false, error: 'Access denied' });
+          return;
+        }
+        if (typeof data?.content !== 'string') {
+          ack?.({ ok: false, error: 'Invalid restored text' });
+          return;
         }
-        
-        // 2. Start persistence in background (non-blocking)
-        persistTextUpdate(data).catch((error) => {
-          console.error("❌ Persistence error (non-blocking):", error);
+
+        // Applied as an operation on the live text, so that connected clients merge it like any
+        // other edit, and saved through the room: re-reading the database could pick up a save
+        // of the text from before the restore
+        const session = await getRoomSession(roomId);
+        const update = toOperationUpdate(session, {
+          clientId: `restore:${socket.id}`,
+          ts: Date.now(),
+          documentId: roomId,
+          title: session.title,
+          content: data.content,
         });
-        
-        // 3. Respond immediately with success
-        ack?.({ ok: true });
+        if (!update) {
+          ack?.({ ok: false, error: 'Empty text update' });
+          return;
+        }
+
+        const { result, sessionId } = await publishTextUpdate(roomId, '', update, false);
+        if (result.status === 'applied') {
+          queuePersist(roomId, {
+            documentId: roomId,
+            title: typeof data.title === 'string' ? data.title : session.title,
+            tags: Array.isArray(data.tags) ? data.tags : [],
+            persistSnapshot: { text: result.text, timestamp: Date.now() },
+          }, identity);
+        }
+        ack?.({ ok: true, version: result.version, sessionId });
       } catch (error) {
         const message = error instanceof Error ? error.message : 'Unknown error';
         ack?.({ ok: false, error: message });
       }
     });
 
-    socket.on('title-update', (roomId: string, data: TitleUpdateData & { clientId: string; ts: number }) => {
-      socket.to(roomId).emit('title-update', data);
+    socket.on('title-update', async (roomId: string, data: TitleUpdateData & { clientId: string; ts: number }) => {
+      if (!(await canEditRoom(roomId))) return;
+      publishRoomMessage({ id: randomUUID(), instanceId, roomId, type: 'title-update', socketId: socket.id, data });
     });
 
-    socket.on('drawing-data', (roomId: string, data: DrawingData) => {
-      socket.to(roomId).emit('drawing-data', data);
+    socket.on('drawing-data', async (roomId: string, data: DrawingData) => {
+      if (!data || typeof data.drawingId !== 'string') return;
+      if (!(await canEditRoom(roomId))) return;
+      publishRoomMessage({ id: randomUUID(), instanceId, roomId, type: 'drawing-data', socketId: socket.id, data });
     });
 
     socket.on('cursor-position', (roomId: string, data: CursorPositionData) => {
-      socket.to(roomId).emit('cursor-position', data);
+      if (!socket.rooms.has(roomId)) return;
+      publishRoomMessage({ id: randomUUID(), instanceId, roomId, type: 'cursor-position', socketId: socket.id, data });
     });
   });
 
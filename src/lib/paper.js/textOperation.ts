@@ -0,0 +1,281 @@
+// lib/textOperation.ts
+// Operational transformation primitives for plain text (markdown) documents.
+// An operation is a list of components applied left to right over the base text:
+// - a positive number retains that many characters
+// - a negative number deletes that many characters
+// - a string inserts that text
+import DiffMatchPatch from "diff-match-patch";
+import type { TextOperation } from "./types";
+
+function isRetain(component: number | string | undefined): component is number {
+  return typeof component === "number" && component > 0;
+}
+
+function isDelete(component: number | string | undefined): component is number {
+  return typeof component === "number" && component < 0;
+}
+
+function isInsert(component: number | string | undefined): component is string {
+  return typeof component === "string";
+}
+
+function pushRetain(operation: TextOperation, count: number): void {
+  if (count <= 0) return;
+  const last = operation[operation.length - 1];
+  if (isRetain(last)) {
+    operation[operation.length - 1] = last + count;
+  } else {
+    operation.push(count);
+  }
+}
+
+function pushInsert(operation: TextOperation, text: string): void {
+  if (!text) return;
+  const last = operation[operation.length - 1];
+  if (isInsert(last)) {
+    operation[operation.length - 1] = last + text;
+    return;
+  }
+  // Keep inserts before deletes so equivalent operations have a single representation
+  if (isDelete(last)) {
+    const beforeLast = operation[operation.length - 2];
+    if (isInsert(beforeLast)) {
+      operation[operation.length - 2] = beforeLast + text;
+    } else {
+      operation.splice(operation.length - 1, 0, text);
+    }
+    return;
+  }
+  operation.push(text);
+}
+
+function pushDelete(operation: TextOperation, count: number): void {
+  if (count <= 0) return;
+  const last = operation[operation.length - 1];
+  if (isDelete(last)) {
+    operation[operation.length - 1] = last - count;
+  } else {
+    operation.push(-count);
+  }
+}
+
+/**
+ * Length of the text an operation can be applied to.
+ */
+export function operationBaseLength(operation: TextOperation): number {
+  let length = 0;
+  for (const component of operation) {
+    if (isRetain(component)) length += component;
+    else if (isDelete(component)) length -= component;
+  }
+  return length;
+}
+
+/**
+ * Length of the text produced by applying an operation.
+ */
+export function operationTargetLength(operation: TextOperation): number {
+  let length = 0;
+  for (const component of operation) {
+    if (isRetain(component)) length += component;
+    else if (isInsert(component)) length += component.length;
+  }
+  return length;
+}
+
+/**
+ * True when the operation does not change the text it is applied to.
+ */
+export function isNoopOperation(operation: TextOperation): boolean {
+  return operation.every((component) => isRetain(component));
+}
+
+/**
+ * Checks that a value received over the wire is a well-formed operation.
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (component) =>
+        typeof component === "string" ||
+        (typeof component === "number" && Number.isInteger(component) && component !== 0)
+    )
+  );
+}
+
+export function applyOperation(text: string, operation: TextOperation): string {
+  if (operationBaseLength(operation) !== text.length) {
+    throw new Error("Operation base length does not match text length");
+  }
+
+  let index = 0;
+  let result = "";
+  for (const component of operation) {
+    if (isRetain(component)) {
+      result += text.slice(index, index + component);
+      index += component;
+    } else if (isInsert(component)) {
+      result += component;
+    } else {
+      index -= component;
+    }
+  }
+  return result;
+}
+
+/**
+ * Builds the operation turning `previous` into `next`.
+ */
+export function operationFromDiff(previous: string, next: string): TextOperation {
+  const operation: TextOperation = [];
+  if (previous === next) {
+    pushRetain(operation, previous.length);
+    return operation;
+  }
+
+  const dmp = new DiffMatchPatch();
+  const diffs = dmp.diff_main(previous, next, false);
+  dmp.diff_cleanupEfficiency(diffs);
+
+  for (const [type, chunk] of diffs) {
+    if (type === DiffMatchPatch.DIFF_EQUAL) pushRetain(operation, chunk.length);
+    else if (type === DiffMatchPatch.DIFF_INSERT) pushInsert(operation, chunk);
+    else pushDelete(operation, chunk.length);
+  }
+  return operation;
+}
+
+/**
+ * Combines two consecutive operations into one: apply(apply(s, a), b) === apply(s, compose(a, b)).
+ */
+export function composeOperations(first: TextOperation, second: TextOperation): TextOperation {
+  if (operationTargetLength(first) !== operationBaseLength(second)) {
+    throw new Error("Operations cannot be composed: length mismatch");
+  }
+
+  const result: TextOperation = [];
+  const a = [...first];
+  const b = [...second];
+  let i = 0;
+  let j = 0;
+  let componentA = a[i++];
+  let componentB = b[j++];
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (isDelete(componentA)) {
+      pushDelete(result, -componentA);
+      componentA = a[i++];
+      continue;
+    }
+    if (isInsert(componentB)) {
+      pushInsert(result, componentB);
+      componentB = b[j++];
+      continue;
+    }
+    if (componentA === undefined || componentB === undefined) {
+      throw new Error("Operations cannot be composed: first operation is too short");
+    }
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      const count = Math.min(componentA, componentB);
+      pushRetain(result, count);
+      componentA = componentA > count ? componentA - count : a[i++];
+      componentB = componentB > count ? componentB - count : b[j++];
+    } else if (isInsert(componentA) && isDelete(componentB)) {
+      const count = Math.min(componentA.length, -componentB);
+      componentA = componentA.length > count ? componentA.slice(count) : a[i++];
+      componentB = -componentB > count ? componentB + count : b[j++];
+    } else if (isInsert(componentA) && isRetain(componentB)) {
+      const count = Math.min(componentA.length, componentB);
+      pushInsert(result, componentA.slice(0, count));
+      componentA = componentA.length > count ? componentA.slice(count) : a[i++];
+      componentB = componentB > count ? componentB - count : b[j++];
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      const count = Math.min(componentA, -componentB);
+      pushDelete(result, count);
+      componentA = componentA > count ? componentA - count : a[i++];
+      componentB = -componentB > count ? componentB + count : b[j++];
+    } else {
+      throw new Error("Operations cannot be composed: invalid components");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Transforms two concurrent operations applied to the same text.
+ * Returns [a', b'] so that apply(apply(s, a), b') === apply(apply(s, b), a').
+ * When both insert at the same position, the insert of `first` ends up first.
+ */
+export function transformOperations(first: TextOperation, second: TextOperation): [TextOperation, TextOperation] {
+  if (operationBaseLength(first) !== operationBaseLength(second)) {
+    throw new Error("Operations cannot be transformed: base length mismatch");
+  }
+
+  const firstPrime: TextOperation = [];
+  const secondPrime: TextOperation = [];
+  const a = [...first];
+  const b = [...second];
+  let i = 0;
+  let j = 0;
+  let componentA = a[i++];
+  let componentB = b[j++];
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (isInsert(componentA)) {
+      pushInsert(firstPrime, componentA);
+      pushRetain(secondPrime, componentA.length);
+      componentA = a[i++];
+      continue;
+    }
+    if (isInsert(componentB)) {
+      pushRetain(firstPrime, componentB.length);
+      pushInsert(secondPrime, componentB);
+      componentB = b[j++];
+      continue;
+    }
+    if (componentA === undefined || componentB === undefined) {
+      throw new Error("Operations cannot be transformed: operation is too short");
+    }
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      const count = Math.min(componentA, componentB);
+      pushRetain(firstPrime, count);
+      pushRetain(secondPrime, count);
+      componentA = componentA > count ? componentA - count : a[i++];
+      componentB = componentB > count ? componentB - count : b[j++];
+    } else if (isDelete(componentA) && isDelete(componentB)) {
+      // Both sides deleted the same characters
+      const count = Math.min(-componentA, -componentB);
+      componentA = -componentA > count ? componentA + count : a[i++];
+      componentB = -componentB > count ? componentB + count : b[j++];
+    } else if (isDelete(componentA) && isRetain(componentB)) {
+      const count = Math.min(-componentA, componentB);
+      pushDelete(firstPrime, count);
+      componentA = -componentA > count ? componentA + count : a[i++];
+      componentB = componentB > count ? componentB - count : b[j++];
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      const count = Math.min(componentA, -componentB);
+      pushDelete(secondPrime, count);
+      componentA = componentA > count ? componentA - count : a[i++];
+      componentB = -componentB > count ? componentB + count : b[j++];
+    } else {
+      throw new Error("Operations cannot be transformed: invalid components");
+    }
+  }
+
+  return [firstPrime, secondPrime];
+}
+
+/**
+ * Three-way merge of two versions of a text derived from the same base.
+ * Edits from `mine` are rebased on top of `theirs`.
+ */
+export function mergeTexts(base: string, mine: string, theirs: string): string {
+  if (mine === base) return theirs;
+  if (theirs === base || theirs === mine) return mine;
+  const [minePrime] = transformOperations(operationFromDiff(base, mine), operationFromDiff(base, theirs));
+  return applyOperation(theirs, minePrime);
+}
@@ -0,0 +1,141 @@
+// lib/threeWayMerge.ts
+// Line-based three-way merge (diff3) used when edits made offline meet a document that changed
+// on the server in the meantime. Regions changed on one side only are merged automatically;
+// regions changed differently on both sides are reported as conflicts for the user to resolve.
+import DiffMatchPatch from "diff-match-patch";
+
+export type MergeChunk =
+  | { type: "stable"; lines: string[] }
+  | { type: "conflict"; base: string[]; mine: string[]; theirs: string[] };
+
+export type ConflictResolution = "mine" | "theirs" | "both";
+
+export interface ThreeWayMergeResult {
+  chunks: MergeChunk[];
+  conflictCount: number;
+}
+
+function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split("\n");
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * For every line of `base`, the index of the same line in `other`, or -1 when it was removed.
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const dmp = new DiffMatchPatch();
+  const { chars1, chars2 } = dmp.diff_linesToChars_(
+    base.map((line) => `${line}\n`).join(""),
+    other.map((line) => `${line}\n`).join("")
+  );
+  const diffs = dmp.diff_main(chars1, chars2, false);
+
+  const matches = new Array<number>(base.length).fill(-1);
+  let baseIndex = 0;
+  let otherIndex = 0;
+  for (const [type, chunk] of diffs) {
+    // Each character of the encoded diff stands for one line
+    const count = chunk.length;
+    if (type === DiffMatchPatch.DIFF_EQUAL) {
+      for (let offset = 0; offset < count; offset += 1) {
+        matches[baseIndex + offset] = otherIndex + offset;
+      }
+      baseIndex += count;
+      otherIndex += count;
+    } else if (type === DiffMatchPatch.DIFF_DELETE) {
+      baseIndex += count;
+    } else {
+      otherIndex += count;
+    }
+  }
+  return matches;
+}
+
+function pushStable(chunks: MergeChunk[], lines: string[]): void {
+  if (lines.length === 0) return;
+  const last = chunks[chunks.length - 1];
+  if (last?.type === "stable") {
+    last.lines.push(...lines);
+  } else {
+    chunks.push({ type: "stable", lines: [...lines] });
+  }
+}
+
+/**
+ * Merges `mine` and `theirs`, both derived from `base`, line by line.
+ */
+export function mergeThreeWay(base: string, mine: string, theirs: string): ThreeWayMergeResult {
+  const baseLines = splitLines(base);
+  const mineLines = splitLines(mine);
+  const theirLines = splitLines(theirs);
+  const mineMatches = matchLines(baseLines, mineLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const chunks: MergeChunk[] = [];
+  let conflictCount = 0;
+  let b = 0;
+  let m = 0;
+  let t = 0;
+
+  while (b < baseLines.length || m < mineLines.length || t < theirLines.length) {
+    // Base line kept unchanged on both sides, right where both sides are
+    if (b < baseLines.length && mineMatches[b] === m && theirMatches[b] === t) {
+      pushStable(chunks, [baseLines[b]]);
+      b += 1;
+      m += 1;
+      t += 1;
+      continue;
+    }
+
+    // Next base line kept on both sides: the region before it differs on at least one side
+    let next = b;
+    while (next < baseLines.length && (mineMatches[next] === -1 || theirMatches[next] === -1)) {
+      next += 1;
+    }
+    const mineEnd = next < baseLines.length ? mineMatches[next] : mineLines.length;
+    const theirEnd = next < baseLines.length ? theirMatches[next] : theirLines.length;
+
+    const baseSlice = baseLines.slice(b, next);
+    const mineSlice = mineLines.slice(m, mineEnd);
+    const theirSlice = theirLines.slice(t, theirEnd);
+
+    if (sameLines(mineSlice, baseSlice)) {
+      pushStable(chunks, theirSlice);
+    } else if (sameLines(theirSlice, baseSlice) || sameLines(mineSlice, theirSlice)) {
+      pushStable(chunks, mineSlice);
+    } else {
+      chunks.push({ type: "conflict", base: baseSlice, mine: mineSlice, theirs: theirSlice });
+      conflictCount += 1;
+    }
+
+    b = next;
+    m = mineEnd;
+    t = theirEnd;
+  }
+
+  return { chunks, conflictCount };
+}
+
+/**
+ * Builds the merged text. Conflicts without a resolution keep the server version.
+ */
+export function resolveMerge(chunks: MergeChunk[], resolutions: Array<ConflictResolution | undefined>): string {
+  const lines: string[] = [];
+  let conflictIndex = 0;
+  for (const chunk of chunks) {
+    if (chunk.type === "stable") {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    const resolution = resolutions[conflictIndex] ?? "theirs";
+    conflictIndex += 1;
+    if (resolution === "mine") lines.push(...chunk.mine);
+    else if (resolution === "theirs") lines.push(...chunk.theirs);
+    else lines.push(...chunk.theirs, ...chunk.mine);
+  }
+  return lines.join("\n");
+}
@@ -4,11 +4,16 @@ import { Socket } from 'socket.io-client';
 
 export type Mode = 'draw' | 'text';
 
+/**
+ * Live change to a drawing block open in the drawing modal, relayed to the other clients of the room.
+ */
 export interface DrawingData {
-  type: 'start' | 'draw' | 'end';
-  point?: paper.Point;
-  color?: string;
-  size?: number;
+  // `path` adds an item (or replaces the one with the same id), `paths` replaces all of them
+  type: 'path' | 'paths';
+  drawingId: string;
+  clientId?: string;
+  path?: SerializedPath;
+  paths?: SerializedPath[];
 }
 
 export interface PersistedContentSnapshot {
@@ -16,17 +21,34 @@ export interface PersistedContentSnapshot {
   timestamp?: number;
 }
 
+/**
+ * Text operation components: positive number = retain, negative number = delete, string = insert.
+ */
+export type TextOperation = Array<number | string>;
+
 export interface TextUpdateData {
-  content: string;
+  content?: string;
   clientId?: string;
   ts?: number;
   cursor?: CursorPositionData;
   documentId?: string;
-  userId?: number;
-  userEmail?: string;
   title?: string;
   tags?: string[];
   persistSnapshot?: PersistedContentSnapshot;
+  // Operation-based sync: the client sends `operation` against `baseVersion`,
+  // the server broadcasts the sequenced operation with its `version`
+  operation?: TextOperation;
+  operationId?: string;
+  baseVersion?: number | null;
+  version?: number;
+  sessionId?: string;
+}
+
+// Text of a restored history version, with the title and tags saved along with it
+export interface RestoredDocumentData {
+  content: string;
+  title: string;
+  tags: string[];
 }
 
 export interface TitleUpdateData {
@@ -44,8 +66,22 @@ export interface CursorPositionData {
   ts: number;
 }
 
+export interface RoomParticipant {
+  clientId: string;
+  userId: number;
+  username: string;
+  readOnly: boolean;
+}
+
+/**
+ * Live state of a room, sent by the server to a client when it joins.
+ */
 export interface RoomState {
   text: string;
+  title?: string;
+  version?: number;
+  sessionId?: string;
+  participants: RoomParticipant[];
 }
 
 export interface ToolbarProps {
@@ -86,14 +122,43 @@ export interface SerializedSegment {
   handleOut?: [number, number];
 }
 
+export type DrawingPathType = 'pen' | 'eraser' | 'line' | 'arrow' | 'rectangle' | 'ellipse' | 'text';
+
+/**
+ * Item of a drawing, in drawing order (the last one is on top).
+ * Freehand strokes (`pen`, `eraser`) keep all their segments. Lines and arrows have two segments,
+ * from start to end; rectangles and ellipses two opposite corners of their box. A text label has
+ * one segment, the start of its baseline, and uses `size` as its font size.
+ */
 export interface SerializedPath {
+  // Stable within a drawing, to select and edit the item
+  id?: string;
   segments: SerializedSegment[];
   color: string;
   size: number;
-  type: 'pen' | 'eraser';
+  type: DrawingPathType;
   closed?: boolean;
+  opacity?: number;
+  // Shapes only
+  fill?: string;
+  // Text labels only
+  text?: string;
 }
 
+// Tools of the drawing canvas: a type of item to draw, or the lasso that selects items
+export type DrawingTool = DrawingPathType | 'select';
+
+/**
+ * Drawing embedded in a note: vector strokes in the coordinates of the canvas they were drawn on.
+ */
+export interface DrawingBlockData {
+  id: string;
+  width: number;
+  height: number;
+  paths: SerializedPath[];
+}
+
+// Freehand stroke of the first drawing format, still read
 export interface LegacySerializedPath {
   points: number[][];
   color: string;
@@ -142,23 +207,30 @@ export interface UseSocketReturn {
 export interface SocketAckResponse {
   ok: boolean;
   error?: string;
+  version?: number;
+  sessionId?: string;
+  // Present when the operation could not be applied: the authoritative text at `version`
+  content?: string;
 }
 
 export interface ClientToServerEvents {
-  'join-room': (roomId: string, clientId?: string) => void;
+  'join-room': (roomId: string, clientId?: string, ack?: (response: SocketAckResponse) => void) => void;
   'leave-room': (roomId: string, clientId?: string) => void;
-  'drawing-data': (data: DrawingData) => void;
+  'drawing-data': (roomId: string, data: DrawingData) => void;
   'text-update': (roomId: string, data: TextUpdateData, ack?: (response: SocketAckResponse) => void) => void;
   'text-update-with-cursor': (roomId: string, data: TextUpdateData, ack?: (response: SocketAckResponse) => void) => void;
   'title-update': (roomId: string, data: TitleUpdateData & { clientId: string; ts: number }) => void;
   'text-formatting-update': (data: TextFormatting) => void;
   'clear-canvas': () => void;
   'cursor-position': (roomId: string, data: CursorPositionData) => void;
+  // A version of the history was restored: apply its text to the room and save it
+  'document-restored': (roomId: string, data: RestoredDocumentData, ack?: (response: SocketAckResponse) => void) => void;
 }
 
 // Server-to-client events
 export interface ServerToClientEvents {
   'room-state': (state: RoomState) => void;
+  'room-participants': (participants: RoomParticipant[]) => void;
   'drawing-data': (data: DrawingData) => void;
   'text-update': (data: TextUpdateData) => void;
   'title-update': (data: TitleUpdateData & { clientId: string; ts: number }) => void;
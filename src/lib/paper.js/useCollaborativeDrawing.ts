@@ -0,0 +1,67 @@
+"use client";
+import { useCallback, useEffect, useRef } from "react";
+import { useSocket } from "./socket-client";
+import type { ServerToClientEvents, SerializedPath } from "./types";
+import { normalizeDrawingPath, normalizeDrawingPaths } from "./drawingBlocks";
+
+interface UseCollaborativeDrawingOptions {
+  roomId: string | undefined;
+  // Drawing block open in the drawing modal, null when none is
+  drawingId: string | null;
+  // An item was added or changed
+  onRemotePath: (path: SerializedPath) => void;
+  // All the items were replaced (removal, reordering, undo, clear)
+  onRemotePaths: (paths: SerializedPath[]) => void;
+}
+
+function generateClientId(): string {
+  if (typeof crypto !== 'undefined' && 'getRandomValues' in crypto) {
+    const arr = new Uint8Array(16);
+    crypto.getRandomValues(arr);
+    return Array.from(arr, (b) => b.toString(16).padStart(2, '0')).join('');
+  }
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+/**
+ * Shares the items of a drawing block with the other clients of the room that have the same
+ * drawing open. The room is joined by the note itself; the drawing is saved into the note text,
+ * which is synchronized as usual.
+ */
+export function useCollaborativeDrawing({ roomId, drawingId, onRemotePath, onRemotePaths }: UseCollaborativeDrawingOptions) {
+  const clientIdRef = useRef<string>(generateClientId());
+  const { socket } = useSocket();
+
+  useEffect(() => {
+    // Never listen to socket events if offline
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return;
+    if (!socket || !roomId || !drawingId) return;
+
+    const handleDrawingData: ServerToClientEvents['drawing-data'] = (data) => {
+      if (!data || data.drawingId !== drawingId || data.clientId === clientIdRef.current) return;
+      if (data.type === 'paths') {
+        onRemotePaths(normalizeDrawingPaths(Array.isArray(data.paths) ? data.paths : []));
+        return;
+      }
+      const path = normalizeDrawingPath(data.path);
+      if (path) onRemotePath(path);
+    };
+
+    socket.on('drawing-data', handleDrawingData);
+    return () => {
+      socket.off('drawing-data', handleDrawingData);
+    };
+  }, [socket, roomId, drawingId, onRemotePath, onRemotePaths]);
+
+  const sendPath = useCallback((path: SerializedPath) => {
+    if (!socket || !roomId || !drawingId) return;
+    socket.emit('drawing-data', roomId, { type: 'path', drawingId, clientId: clientIdRef.current, path });
+  }, [socket, roomId, drawingId]);
+
+  const sendPaths = useCallback((paths: SerializedPath[]) => {
+    if (!socket || !roomId || !drawingId) return;
+    socket.emit('drawing-data', roomId, { type: 'paths', drawingId, clientId: clientIdRef.current, paths });
+  }, [socket, roomId, drawingId]);
+
+  return { sendPath, sendPaths };
+}
@@ -1,8 +1,10 @@
 "use client";
 import { useEffect, useRef, useCallback, useState } from "react";
 import { useSocket } from "./socket-client";
+import { CollaborativeTextClient, type OutgoingTextOperation } from "./collaborativeText";
 import type {
   PersistedContentSnapshot,
+  RoomParticipant,
   ServerToClientEvents,
   SocketAckResponse,
   TextUpdateData,
@@ -12,7 +14,10 @@ type SyncStatus = 'synchronized' | 'saving' | 'unsynchronized';
 
 interface UseCollaborativeNoteOptions {
   roomId: string | undefined;
+  initialContent?: string;
   onRemoteContent: (content: string) => void;
+  // Reads the editor's current markdown, including input not yet emitted through emitLocalChange
+  getLocalContent?: () => string | null;
   metadata?: {
     documentId?: string;
     userId?: number;
@@ -38,7 +43,9 @@ function generateClientId(): string {
 
 export function useCollaborativeNote({
   roomId,
+  initialContent = "",
   onRemoteContent,
+  getLocalContent,
   metadata,
   getCursorSnapshot,
   onSyncStatusChange,
@@ -51,8 +58,10 @@ export function useCollaborativeNote({
     joinRoom,
     leaveRoom,
   } = useSocket(roomId);
-  const pendingMarkdownRef = useRef<string>("");
-  const lastObservedMarkdownRef = useRef<string>("");
+  // Merge state of the note text (server version, unacknowledged local operations)
+  const [textClient] = useState(() => new CollaborativeTextClient(clientIdRef.current, initialContent));
+  const pendingMarkdownRef = useRef<string>(initialContent);
+  const lastObservedMarkdownRef = useRef<string>(initialContent);
   const pendingCharsRef = useRef<number>(0);
   const flushTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const statusRef = useRef<SyncStatus>('synchronized');
@@ -60,7 +69,8 @@ export function useCollaborativeNote({
   const [syncDisabled, setSyncDisabled] = useState<boolean>(false);
   const syncDisabledRef = useRef<boolean>(false);
   const [isOffline, setIsOffline] = useState<boolean>(false);
-  const lastFlushedContentRef = useRef<string>("");
+  const [participants, setParticipants] = useState<RoomParticipant[]>([]);
+  const lastFlushedContentRef = useRef<string>(initialContent);
   const isFlushingRef = useRef<boolean>(false);
   
   // Keep ref in sync with state for use in callbacks
@@ -183,6 +193,192 @@ export function useCollaborativeNote({
     [metadata]
   );
 
+  // Latest values for the room connection handlers, which must not re-join the room when they change
+  const metadataRef = useRef(metadata);
+  const buildContentSnapshotRef = useRef(buildContentSnapshot);
+  useEffect(() => {
+    metadataRef.current = metadata;
+    buildContentSnapshotRef.current = buildContentSnapshot;
+  }, [metadata, buildContentSnapshot]);
+
+  const emitTextOperationRef = useRef<(outgoing: OutgoingTextOperation) => Promise<void>>(() => Promise.resolve());
+  const awaitingOperationIdRef = useRef<string | null>(null);
+  const syncedConnectionRef = useRef<string | null>(null);
+
+  // Hands text changed by the merge (remote operation or rebase) over to the editor
+  const applyMergedText = useCallback((text: string) => {
+    pendingMarkdownRef.current = text;
+    lastObservedMarkdownRef.current = text;
+    lastFlushedContentRef.current = text;
+    onRemoteContent(text);
+  }, [onRemoteContent]);
+
+  const emitTextOperation = useCallback(
+    (
+      outgoing: OutgoingTextOperation,
+      override?: { title?: string; tags?: string[]; snapshot?: PersistedContentSnapshot | null }
+    ) => {
+
+      // Save locally function
+      const saveLocally = () => {
+        if (metadata?.documentId && typeof window !== 'undefined') {
+          try {
+            const key = `notus:offline-doc:${metadata.documentId}`;
+            const existing = localStorage.getItem(key);
+            const existingData = existing ? JSON.parse(existing) : {};
+            const localPayload = {
+              ...existingData,
+              id: Number(metadata.documentId),
+              title: override?.title ?? metadata?.title ?? existingData.title,
+              content: textClient.text,
+              contentSnapshot: override?.snapshot ?? { text: textClient.text, timestamp: Date.now() },
+              tags: override?.tags ?? metadata?.tags ?? existingData.tags,
+              updated_at: new Date().toISOString(),
+              user_id: metadata?.userId ?? existingData.user_id,
+              cachedAt: Date.now(),
+              offline: true,
+              apiFailed: true,
+            };
+            localStorage.setItem(key, JSON.stringify(localPayload));
+          } catch (err) {
+            // Silent fail
+          }
+        }
+      };
+
+      const registerFailure = () => {
+        apiFailureCountRef.current += 1;
+        // After 3 consecutive failures, activate offline mode
+        if (apiFailureCountRef.current >= 3) {
+          setIsOffline(true);
+          setSyncDisabled(true);
+          // Disconnect socket to stop all communication attempts
+          if (socket && socket.connected) {
+            socket.disconnect();
+          }
+        }
+        updateStatus('unsynchronized');
+        // Always save locally when API fails
+        saveLocally();
+        awaitingOperationIdRef.current = null;
+        isFlushingRef.current = false;
+      };
+
+      if (!socket || !roomId || !socket.connected) {
+        // The operation stays pending in the text client and is re-sent on reconnection
+        updateStatus('unsynchronized');
+        saveLocally();
+        isFlushingRef.current = false;
+        return Promise.resolve();
+      }
+
+      const cursor = getCursorSnapshot?.();
+      const title = override?.title ?? metadata?.title;
+      const tags = override?.tags ?? metadata?.tags;
+
+      const payload: TextUpdateData = {
+        clientId: clientIdRef.current,
+        ts: Date.now(),
+        documentId: metadata?.documentId,
+        title,
+        tags,
+        operation: outgoing.operation,
+        operationId: outgoing.operationId,
+        baseVersion: outgoing.baseVersion,
+        sessionId: outgoing.sessionId,
+        cursor: cursor
+          ? {
+              clientId: clientIdRef.current,
+              username: metadata?.cursorUsername || clientIdRef.current,
+              offset: cursor.offset,
+              x: cursor.x,
+              y: cursor.y,
+              ts: Date.now(),
+            }
+          : undefined,
+      };
+
+      awaitingOperationIdRef.current = outgoing.operationId;
+
+      return new Promise<void>((resolve) => {
+        const ackCallback = (ack?: SocketAckResponse) => {
+          if (awaitingOperationIdRef.current !== outgoing.operationId) {
+            // Stale acknowledgement (operation re-sent in the meantime)
+            resolve();
+            return;
+          }
+          awaitingOperationIdRef.current = null;
+
+          if (ack && ack.ok) {
+            // Reset failure count on success - exit offline mode if API is back
+            apiFailureCountRef.current = 0;
+            socketFailureCountRef.current = 0;
+            setIsOffline(false);
+            setSyncDisabled(false);
+            pendingCharsRef.current = 0;
+
+            const previousText = textClient.text;
+            const next = textClient.acknowledge(ack);
+            if (textClient.text !== previousText) {
+              applyMergedText(textClient.text);
+            }
+
+            if (!ack.content && !textClient.hasPendingChanges) {
+              // Everything is OK - synchronized
+              updateStatus('synchronized');
+              onPersisted?.({
+                snapshot: { text: textClient.text, timestamp: Date.now() },
+                title,
+                tags,
+              });
+            }
+            isFlushingRef.current = false;
+            if (next) {
+              emitTextOperationRef.current(next).catch(() => {});
+            }
+          } else {
+            registerFailure();
+          }
+          resolve();
+        };
+
+        // Add timeout for socket emit (10 seconds)
+        const timeoutId = setTimeout(() => {
+          if (awaitingOperationIdRef.current !== outgoing.operationId) {
+            resolve();
+            return;
+          }
+          // Timeout - treat as failure, the operation is re-sent on reconnection
+          registerFailure();
+          resolve();
+        }, 10000);
+
+        const wrappedAckCallback = (ack?: SocketAckResponse) => {
+          clearTimeout(timeoutId);
+          ackCallback(ack);
+        };
+
+        try {
+          if (payload.cursor) {
+            socket.emit('text-update-with-cursor', roomId, payload, wrappedAckCallback);
+          } else {
+            socket.emit('text-update', roomId, payload, wrappedAckCallback);
+          }
+        } catch (error) {
+          clearTimeout(timeoutId);
+          // Emit failed, treat as failure
+          registerFailure();
+          resolve();
+        }
+      });
+    },
+    [socket, roomId, metadata, getCursorSnapshot, onPersisted, updateStatus, applyMergedText, textClient]
+  );
+
+  useEffect(() => {
+    emitTextOperationRef.current = (outgoing) => emitTextOperation(outgoing);
+  }, [emitTextOperation]);
+
       const flushPendingChanges = useCallback(
     async (override?: {
       markdown?: string;
@@ -486,245 +682,24 @@ export function useCollaborativeNote({
         return Promise.resolve();
       }
 
-      const cursor = getCursorSnapshot?.();
-
-      // Ensure we always have a valid snapshot if we have content and want to persist
-      const finalSnapshot = snapshot || (contentString.length > 0 && metadata?.documentId && metadata?.userId && metadata?.userEmail
-        ? {
-            text: contentString,
-            timestamp: Date.now(),
-          }
-        : undefined);
-
-      const payload: TextUpdateData = {
-        content: contentString,
-        clientId: clientIdRef.current,
-        ts: Date.now(),
-        documentId: metadata?.documentId,
-        userId: metadata?.userId,
-        userEmail: metadata?.userEmail,
-        title: override?.title ?? metadata?.title,
-        tags: override?.tags ?? metadata?.tags,
-        persistSnapshot: finalSnapshot,
-        cursor: cursor
-          ? {
-              clientId: clientIdRef.current,
-              username: metadata?.cursorUsername || clientIdRef.current,
-              offset: cursor.offset,
-              x: cursor.x,
-              y: cursor.y,
-              ts: Date.now(),
-            }
-          : undefined,
-      };
+      const outgoing = textClient.applyLocal(contentString);
+      if (!outgoing) {
+        // The edit is buffered behind the operation in flight and sent once it is acknowledged
+        lastFlushedContentRef.current = contentString;
+        isFlushingRef.current = false;
+        return Promise.resolve();
+      }
 
       updateStatus('saving');
+      lastFlushedContentRef.current = contentString;
 
-      return new Promise<void>((resolve) => {
-        const ackCallback = (ack?: SocketAckResponse) => {
-          if (!ack || ack.ok) {
-            // Reset failure count on success - exit offline mode if API is back
-            apiFailureCountRef.current = 0;
-            socketFailureCountRef.current = 0;
-            setIsOffline(false);
-            setSyncDisabled(false);
-            pendingCharsRef.current = 0;
-            
-            // Everything is OK - synchronized
-            updateStatus('synchronized');
-            // Mark content as flushed
-            lastFlushedContentRef.current = contentString;
-            // Call onPersisted if we have a snapshot
-            if (payload.persistSnapshot) {
-              onPersisted?.({
-                snapshot: payload.persistSnapshot,
-                title: payload.title,
-                tags: payload.tags,
-              });
-            }
-            isFlushingRef.current = false;
-          } else {
-            // Increment failure count
-            apiFailureCountRef.current += 1;
-            updateStatus('unsynchronized');
-            
-            // After 3 consecutive failures, activate offline mode
-            if (apiFailureCountRef.current >= 3) {
-              setIsOffline(true);
-              setSyncDisabled(true);
-              // Disconnect socket to stop all communication attempts
-              if (socket && socket.connected) {
-                socket.disconnect();
-              }
-            }
-            
-            // Always save locally when API fails
-            if (metadata?.documentId && typeof window !== 'undefined') {
-              try {
-                const key = `notus:offline-doc:${metadata.documentId}`;
-                const existing = localStorage.getItem(key);
-                const existingData = existing ? JSON.parse(existing) : {};
-                const localPayload = {
-                  ...existingData,
-                  id: Number(metadata.documentId),
-                  title: override?.title ?? metadata?.title ?? existingData.title,
-                  content: contentString,
-                  contentSnapshot: snapshot,
-                  tags: override?.tags ?? metadata?.tags ?? existingData.tags,
-                  updated_at: new Date().toISOString(),
-                  user_id: metadata?.userId ?? existingData.user_id,
-                  cachedAt: Date.now(),
-                  offline: true,
-                  apiFailed: true,
-                };
-                localStorage.setItem(key, JSON.stringify(localPayload));
-              } catch (err) {
-                // Silent fail
-              }
-            }
-            isFlushingRef.current = false;
-          }
-          resolve();
-        };
-
-      // Add timeout for socket emit (10 seconds)
-        const timeoutId = setTimeout(() => {
-          // Timeout - treat as failure
-          apiFailureCountRef.current += 1;
-          if (apiFailureCountRef.current >= 3) {
-            setIsOffline(true);
-            setSyncDisabled(true);
-            // Disconnect socket to stop all communication attempts
-            if (socket && socket.connected) {
-              socket.disconnect();
-            }
-          }
-          updateStatus('unsynchronized');
-          // Save locally
-          if (metadata?.documentId && typeof window !== 'undefined') {
-            try {
-              const key = `notus:offline-doc:${metadata.documentId}`;
-              const existing = localStorage.getItem(key);
-              const existingData = existing ? JSON.parse(existing) : {};
-              const localPayload = {
-                ...existingData,
-                id: Number(metadata.documentId),
-                title: override?.title ?? metadata?.title ?? existingData.title,
-                content: contentString,
-                contentSnapshot: snapshot,
-                tags: override?.tags ?? metadata?.tags ?? existingData.tags,
-                updated_at: new Date().toISOString(),
-                user_id: metadata?.userId ?? existingData.user_id,
-                cachedAt: Date.now(),
-                offline: true,
-                apiFailed: true,
-              };
-              localStorage.setItem(key, JSON.stringify(localPayload));
-            } catch (err) {
-              // Silent fail
-            }
-          }
-          isFlushingRef.current = false;
-          resolve();
-        }, 10000);
-
-        const wrappedAckCallback = (ack?: SocketAckResponse) => {
-          clearTimeout(timeoutId);
-          ackCallback(ack);
-        };
-
-        // Final check before emitting - reset states if connected
-        if (socket && socket.connected && isConnected && (syncDisabled || isOffline)) {
-          // Connection is active, reset states to enable sync
-          socketFailureCountRef.current = 0;
-          apiFailureCountRef.current = 0;
-          setIsOffline(false);
-          setSyncDisabled(false);
-          // Continue to emit below
-        }
-        
-        // If still offline or sync disabled after reset attempt, save locally only
-        if (isOffline || checkOfflineMode() || syncDisabled || !socket || !socket.connected || !isConnected) {
-          clearTimeout(timeoutId);
-          updateStatus('unsynchronized');
-          // Save locally
-          if (metadata?.documentId && typeof window !== 'undefined') {
-            try {
-              const key = `notus:offline-doc:${metadata.documentId}`;
-              const existing = localStorage.getItem(key);
-              const existingData = existing ? JSON.parse(existing) : {};
-              const localPayload = {
-                ...existingData,
-                id: Number(metadata.documentId),
-                title: override?.title ?? metadata?.title ?? existingData.title,
-                content: contentString,
-                contentSnapshot: snapshot,
-                tags: override?.tags ?? metadata?.tags ?? existingData.tags,
-                updated_at: new Date().toISOString(),
-                user_id: metadata?.userId ?? existingData.user_id,
-                cachedAt: Date.now(),
-                offline: true,
-                apiFailed: true,
-              };
-              localStorage.setItem(key, JSON.stringify(localPayload));
-            } catch (err) {
-              // Silent fail
-            }
-          }
-          isFlushingRef.current = false;
-          resolve();
-          return;
-        }
-        
-        try {
-          if (payload.cursor) {
-            socket.emit('text-update-with-cursor', roomId, payload, wrappedAckCallback);
-          } else {
-            socket.emit('text-update', roomId, payload, wrappedAckCallback);
-          }
-        } catch (error) {
-          clearTimeout(timeoutId);
-          // Emit failed, treat as failure
-          apiFailureCountRef.current += 1;
-          if (apiFailureCountRef.current >= 3) {
-            setIsOffline(true);
-            setSyncDisabled(true);
-            // Disconnect socket to stop all communication attempts
-            if (socket && socket.connected) {
-              socket.disconnect();
-            }
-          }
-          updateStatus('unsynchronized');
-          // Save locally
-          if (metadata?.documentId && typeof window !== 'undefined') {
-            try {
-              const key = `notus:offline-doc:${metadata.documentId}`;
-              const existing = localStorage.getItem(key);
-              const existingData = existing ? JSON.parse(existing) : {};
-              const localPayload = {
-                ...existingData,
-                id: Number(metadata.documentId),
-                title: override?.title ?? metadata?.title ?? existingData.title,
-                content: contentString,
-                contentSnapshot: snapshot,
-                tags: override?.tags ?? metadata?.tags ?? existingData.tags,
-                updated_at: new Date().toISOString(),
-                user_id: metadata?.userId ?? existingData.user_id,
-                cachedAt: Date.now(),
-                offline: true,
-                apiFailed: true,
-              };
-              localStorage.setItem(key, JSON.stringify(localPayload));
-            } catch (err) {
-              // Silent fail
-            }
-          }
-          isFlushingRef.current = false;
-          resolve();
-        }
+      return emitTextOperation(outgoing, {
+        title: override?.title,
+        tags: override?.tags,
+        snapshot,
       });
     },
-    [socket, roomId, buildContentSnapshot, getCursorSnapshot, metadata, onPersisted, updateStatus, syncDisabled, isOffline, checkOfflineMode, isConnected]
+    [socket, roomId, buildContentSnapshot, metadata, updateStatus, syncDisabled, isOffline, checkOfflineMode, isConnected, emitTextOperation, textClient]
   );
 
   useEffect(() => {
@@ -735,6 +710,17 @@ export function useCollaborativeNote({
       return;
     }
 
+    // Fold local edits that were not flushed yet into the text client first,
+    // so they are transformed against server changes instead of being overwritten
+    const absorbLocalContent = () => {
+      const localText = getLocalContent?.() ?? pendingMarkdownRef.current;
+      pendingMarkdownRef.current = localText;
+      const localOutgoing = textClient.applyLocal(localText);
+      if (localOutgoing) {
+        emitTextOperation(localOutgoing).catch(() => {});
+      }
+    };
+
     const handleTextUpdate: ServerToClientEvents['text-update'] = (data) => {
       // Ignore own updates using clientId
       if (data.clientId && data.clientId === clientIdRef.current) {
@@ -746,6 +732,18 @@ export function useCollaborativeNote({
         return;
       }
       
+      if (data.operation) {
+        absorbLocalContent();
+        const { text, outgoing } = textClient.applyRemote(data);
+        if (outgoing) {
+          emitTextOperation(outgoing).catch(() => {});
+        }
+        if (text !== null) {
+          applyMergedText(text);
+        }
+        return;
+      }
+
       // NEVER apply remote content if sync is disabled or offline
       // This prevents rollbacks
       if (typeof data.content === 'string') {
@@ -753,12 +751,32 @@ export function useCollaborativeNote({
       }
     };
 
+    // Sent by the server when joining: live text of the room and who is connected
+    const handleRoomState: ServerToClientEvents['room-state'] = (state) => {
+      setParticipants(state.participants ?? []);
+      if (typeof state.version !== 'number') return;
+
+      absorbLocalContent();
+      const previous = textClient.text;
+      const outgoing = textClient.synchronize(state.text, state.version, state.sessionId);
+      if (outgoing) {
+        emitTextOperation(outgoing).catch(() => {});
+      }
+      if (textClient.text !== previous) {
+        applyMergedText(textClient.text);
+      }
+    };
+
     socket.on('text-update', handleTextUpdate);
+    socket.on('room-state', handleRoomState);
+    socket.on('room-participants', setParticipants);
 
     return () => {
       socket.off('text-update', handleTextUpdate);
+      socket.off('room-state', handleRoomState);
+      socket.off('room-participants', setParticipants);
     };
-  }, [socket, roomId, onRemoteContent, syncDisabled, isOffline, checkOfflineMode]);
+  }, [socket, roomId, onRemoteContent, syncDisabled, isOffline, checkOfflineMode, getLocalContent, emitTextOperation, applyMergedText, textClient]);
 
   // Listen to socket connection events to reset offline state when connection succeeds
   useEffect(() => {
@@ -866,21 +884,22 @@ export function useCollaborativeNote({
         socket.io.opts.autoConnect = false;
       }
       // Immediately save current content locally
-      if (metadata?.documentId && typeof window !== 'undefined') {
+      const meta = metadataRef.current;
+      if (meta?.documentId && typeof window !== 'undefined') {
         try {
-          const key = `notus:offline-doc:${metadata.documentId}`;
+          const key = `notus:offline-doc:${meta.documentId}`;
           const existing = localStorage.getItem(key);
           const existingData = existing ? JSON.parse(existing) : {};
-          const snapshot = buildContentSnapshot();
+          const snapshot = buildContentSnapshotRef.current();
           const payload = {
             ...existingData,
-            id: Number(metadata.documentId),
-            title: metadata?.title ?? existingData.title,
+            id: Number(meta.documentId),
+            title: meta?.title ?? existingData.title,
             content: pendingMarkdownRef.current || existingData.content || '',
             contentSnapshot: snapshot,
-            tags: metadata?.tags ?? existingData.tags,
+            tags: meta?.tags ?? existingData.tags,
             updated_at: new Date().toISOString(),
-            user_id: metadata?.userId ?? existingData.user_id,
+            user_id: meta?.userId ?? existingData.user_id,
             cachedAt: Date.now(),
             offline: true,
             apiFailed: true,
@@ -908,21 +927,22 @@ export function useCollaborativeNote({
         socket.disconnect();
       }
       // Immediately save current content locally
-      if (metadata?.documentId && typeof window !== 'undefined') {
+      const meta = metadataRef.current;
+      if (meta?.documentId && typeof window !== 'undefined') {
         try {
-          const key = `notus:offline-doc:${metadata.documentId}`;
+          const key = `notus:offline-doc:${meta.documentId}`;
           const existing = localStorage.getItem(key);
           const existingData = existing ? JSON.parse(existing) : {};
-          const snapshot = buildContentSnapshot();
+          const snapshot = buildContentSnapshotRef.current();
           const payload = {
             ...existingData,
-            id: Number(metadata.documentId),
-            title: metadata?.title ?? existingData.title,
+            id: Number(meta.documentId),
+            title: meta?.title ?? existingData.title,
             content: pendingMarkdownRef.current || existingData.content || '',
             contentSnapshot: snapshot,
-            tags: metadata?.tags ?? existingData.tags,
+            tags: meta?.tags ?? existingData.tags,
             updated_at: new Date().toISOString(),
-            user_id: metadata?.userId ?? existingData.user_id,
+            user_id: meta?.userId ?? existingData.user_id,
             cachedAt: Date.now(),
             offline: true,
             apiFailed: true,
@@ -945,7 +965,20 @@ export function useCollaborativeNote({
       socket.off('connect_error', handleConnectError);
       leaveRoom(roomId, currentClientId);
     };
-  }, [socket, roomId, joinRoom, leaveRoom, metadata, buildContentSnapshot, updateStatus, syncDisabled, isOffline, checkOfflineMode]);
+  }, [socket, roomId, joinRoom, leaveRoom, updateStatus, syncDisabled, isOffline, checkOfflineMode]);
+
+  // Once connected, re-send the unacknowledged operation (the room state sent on join covers the rest)
+  useEffect(() => {
+    if (!socket || !roomId || !isConnected || syncDisabled || isOffline) return;
+    if (awaitingOperationIdRef.current) return;
+    const syncKey = `${socket.id}:${roomId}`;
+    if (syncedConnectionRef.current === syncKey) return;
+    syncedConnectionRef.current = syncKey;
+    const outgoing = textClient.pendingMessage;
+    if (outgoing) {
+      emitTextOperation(outgoing).catch(() => {});
+    }
+  }, [socket, roomId, isConnected, syncDisabled, isOffline, emitTextOperation, textClient]);
 
   const emitLocalChange = useCallback(
     (markdown: string) => {
@@ -1108,7 +1141,7 @@ export function useCollaborativeNote({
     };
   }, [socket, roomId, isConnected, syncDisabled, isOffline, flushPendingChanges, leaveRoom]);
 
-  return { isConnected, emitLocalChange, clientId: clientIdRef.current, flushPendingChanges, isOffline };
+  return { isConnected, emitLocalChange, clientId: clientIdRef.current, flushPendingChanges, isOffline, participants };
 }
 
 
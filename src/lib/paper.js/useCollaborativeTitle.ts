@@ -36,10 +36,19 @@ export function useCollaborativeTitle({ roomId, onRemoteTitle }: UseCollaborativ
         }
       };
 
+      // Live title of the room, sent when joining
+      const handleRoomState: ServerToClientEvents['room-state'] = (state) => {
+        if (typeof state.title === 'string' && state.title) {
+          onRemoteTitle(state.title);
+        }
+      };
+
     socket.on('title-update', handleTitleUpdate);
+    socket.on('room-state', handleRoomState);
 
     return () => {
       socket.off('title-update', handleTitleUpdate);
+      socket.off('room-state', handleRoomState);
     };
   }, [socket, roomId, onRemoteTitle]);
 
@@ -66,6 +66,8 @@ export class DocumentRepository extends BaseRepository {
 
           // Add tags column if table already exists
           await this.addColumnIfNotExists("documents", "tags", "TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[]");
+          await this.addColumnIfNotExists("document_history", "label", "TEXT");
+          await this.addColumnIfNotExists("document_history", "pinned", "BOOLEAN NOT NULL DEFAULT false");
 
           // Create indexes
           await this.createIndexes();
@@ -101,7 +103,10 @@ export class DocumentRepository extends BaseRepository {
     );
 
     // Indexes for document history
-    indexes.push("CREATE INDEX IF NOT EXISTS idx_document_history_document_id ON document_history(document_id)");
+    indexes.push(
+      "CREATE INDEX IF NOT EXISTS idx_document_history_document_id ON document_history(document_id)",
+      "CREATE INDEX IF NOT EXISTS idx_document_history_created_at ON document_history(created_at)"
+    );
 
     for (const indexQuery of indexes) {
       await this.query(indexQuery);
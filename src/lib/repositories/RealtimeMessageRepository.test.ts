@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getFakePostgres } from "@/test/fakePostgres";
+
+vi.mock("pg", async () => (await import("@/test/fakePostgres")).fakePgModule);
+
+import { RealtimeMessageRepository } from "./RealtimeMessageRepository";
+
+describe("RealtimeMessageRepository", () => {
+  const repository = new RealtimeMessageRepository();
+
+  beforeEach(() => {
+    getFakePostgres().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends a notification on the channel", async () => {
+    expect(await repository.notify("notus_room_events", "{\"id\":\"1\"}")).toEqual({ success: true });
+    expect(getFakePostgres().notifications).toEqual([{ channel: "notus_room_events", payload: "{\"id\":\"1\"}" }]);
+  });
+
+  it("reads back a stored message by its id", async () => {
+    const stored = await repository.storeMessage("large payload");
+    expect(stored.success).toBe(true);
+
+    const found = await repository.getMessage(stored.data!.id);
+    expect(found).toEqual({ success: true, data: { payload: "large payload" } });
+  });
+
+  it("reports a message that doesn't exist", async () => {
+    expect(await repository.getMessage("404")).toEqual({ success: false, error: "Realtime message not found" });
+  });
+
+  it("deletes the messages older than the given age only", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-19T10:00:00Z"));
+    const old = await repository.storeMessage("old");
+    vi.setSystemTime(new Date("2026-10-19T10:10:00Z"));
+    const recent = await repository.storeMessage("recent");
+
+    const deleted = await repository.deleteMessagesOlderThan(300);
+    expect(deleted).toEqual({ success: true, data: { deletedCount: 1 } });
+    expect((await repository.getMessage(old.data!.id)).success).toBe(false);
+    expect((await repository.getMessage(recent.data!.id)).success).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { BaseRepository } from "./BaseRepository";
+
+export class RealtimeMessageRepository extends BaseRepository {
+  async initializeTables(): Promise<void> {
+    if (!process.env.DATABASE_URL) {
+      return;
+    }
+
+    return this.ensureInitialized(async () => {
+      try {
+        await this.query(`
+          CREATE TABLE IF NOT EXISTS realtime_messages (
+            id BIGSERIAL PRIMARY KEY,
+            payload TEXT NOT NULL,
+            created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+          )
+        `);
+
+        await this.query(`CREATE INDEX IF NOT EXISTS idx_realtime_messages_created_at ON realtime_messages(created_at)`);
+      } catch (error) {
+        console.error("❌ Error initializing realtime message tables:", error);
+        throw error;
+      }
+    });
+  }
+
+  async notify(channel: string, payload: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      await this.query(`SELECT pg_notify($1, $2)`, [channel, payload]);
+      return { success: true };
+    } catch (error) {
+      console.error("❌ Error sending realtime notification:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  // NOTIFY payloads are limited to 8000 bytes: larger messages are stored and referenced by id
+  async storeMessage(payload: string): Promise<{ success: boolean; data?: { id: string }; error?: string }> {
+    try {
+      await this.initializeTables();
+      const result = await this.query<{ id: string }>(
+        `INSERT INTO realtime_messages (payload) VALUES ($1) RETURNING id::text AS id`,
+        [payload]
+      );
+      return { success: true, data: { id: result.rows[0].id } };
+    } catch (error) {
+      console.error("❌ Error storing realtime message:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async getMessage(id: string): Promise<{ success: boolean; data?: { payload: string }; error?: string }> {
+    try {
+      const result = await this.query<{ payload: string }>(
+        `SELECT payload FROM realtime_messages WHERE id = $1`,
+        [id]
+      );
+      if (result.rows.length === 0) {
+        return { success: false, error: "Realtime message not found" };
+      }
+      return { success: true, data: { payload: result.rows[0].payload } };
+    } catch (error) {
+      console.error("❌ Error retrieving realtime message:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async deleteMessagesOlderThan(seconds: number): Promise<{ success: boolean; data?: { deletedCount: number }; error?: string }> {
+    try {
+      const result = await this.query<{ id: string }>(
+        `DELETE FROM realtime_messages
+         WHERE created_at < CURRENT_TIMESTAMP - make_interval(secs => $1)
+         RETURNING id`,
+        [seconds]
+      );
+      return { success: true, data: { deletedCount: result.rows.length } };
+    } catch (error) {
+      console.error("❌ Error deleting realtime messages:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+}
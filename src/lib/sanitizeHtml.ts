@@ -40,6 +40,18 @@ export const EDITOR_SANITIZE_CONFIG: Config = {
     "summary",
     "video",
     "button",
+    "table",
+    "thead",
+    "tbody",
+    "tr",
+    "th",
+    "td",
+    "pre",
+    "code",
+    // KaTeX rendering of formulas
+    "svg",
+    "path",
+    "line",
   ],
   ALLOWED_ATTR: [
     "href",
@@ -60,6 +72,23 @@ export const EDITOR_SANITIZE_CONFIG: Config = {
     "type",
     "contenteditable",
     "data-selected-file",
+    "colspan",
+    "rowspan",
+    "data-checked",
+    "data-info",
+    "data-latex",
+    "aria-hidden",
+    "xmlns",
+    "width",
+    "height",
+    "viewBox",
+    "preserveAspectRatio",
+    "d",
+    "x1",
+    "x2",
+    "y1",
+    "y2",
+    "stroke-width",
   ],
 };
 
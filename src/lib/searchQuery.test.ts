@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  describeNoteFilters,
+  mergeNoteFilters,
+  parseSearchQuery,
+  removeNoteFilter,
+  removeSearchToken,
+  tokenizeSearchQuery,
+  type NoteFilters,
+} from "./searchQuery";
+
+describe("parseSearchQuery", () => {
+  it("reads quoted operator values and exact phrases", () => {
+    const parsed = parseSearchQuery('folder:"Q3 plans" "exact phrase" budget');
+    expect(parsed.folderName).toBe("Q3 plans");
+    expect(parsed.phrases).toEqual(["exact phrase"]);
+    expect(parsed.terms).toEqual(["budget"]);
+    expect(parsed.text).toBe('"exact phrase" budget');
+  });
+
+  it("keeps a single quoted word of a folder whole", () => {
+    const parsed = parseSearchQuery('folder:"Q3"');
+    expect(parsed.folderName).toBe("Q3");
+    expect(parsed.operators).toMatchObject([{ operator: "folder", value: "Q3", quoted: true, valid: true }]);
+  });
+
+  it("runs an unterminated quote to the end of the query", () => {
+    const tokens = tokenizeSearchQuery('tag:work "half typed phrase');
+    expect(tokens).toHaveLength(2);
+    expect(tokens[1]).toMatchObject({ value: "half typed phrase", quoted: true });
+  });
+
+  it("excludes negated words and phrases", () => {
+    const parsed = parseSearchQuery('report -draft -"old version"');
+    expect(parsed.terms).toEqual(["report"]);
+    expect(parsed.excluded).toEqual(["draft", "old version"]);
+    expect(parsed.text).toBe('report -draft -"old version"');
+  });
+
+  it("searches unknown operators as text", () => {
+    const parsed = parseSearchQuery("color:red meeting");
+    expect(parsed.operators).toEqual([]);
+    expect(parsed.terms).toEqual(["color:red", "meeting"]);
+    expect(parsed.filters).toEqual({ tags: [] });
+  });
+
+  it("searches invalid dates as text instead of filtering on them", () => {
+    const parsed = parseSearchQuery("before:yesterday after:2026-02-30 before:2026-01-15");
+    expect(parsed.terms).toEqual(["before:yesterday", "after:2026-02-30"]);
+    expect(parsed.filters.dateTo).toBe("2026-01-15");
+    expect(parsed.filters.dateFrom).toBeUndefined();
+    expect(parsed.operators.map((token) => token.valid)).toEqual([false, false, true]);
+  });
+
+  it("ignores an operator whose value is still being typed", () => {
+    const parsed = parseSearchQuery("notes tag:");
+    expect(parsed.terms).toEqual(["notes"]);
+    expect(parsed.operators).toMatchObject([{ operator: "tag", value: "", valid: false }]);
+  });
+
+  it("adds up repeated tags, once each whatever their case", () => {
+    const parsed = parseSearchQuery("tag:work tag:urgent tag:Work");
+    expect(parsed.filters.tags).toEqual(["work", "urgent"]);
+  });
+
+  it("reads the other operators into filters", () => {
+    const parsed = parseSearchQuery("author:alice shared:no has:image has:code is:favorite");
+    expect(parsed.filters).toEqual({
+      tags: [],
+      author: "alice",
+      shared: "private",
+      has: ["image", "code"],
+      favorite: true,
+    });
+  });
+});
+
+describe("filter chips", () => {
+  const base: NoteFilters = { tags: ["work"], author: "bob", has: ["link"] };
+
+  it("merges query operators over the modal filters", () => {
+    const parsed = parseSearchQuery("tag:Work tag:urgent author:alice has:image before:2026-01-15");
+    expect(mergeNoteFilters(base, parsed.filters)).toEqual({
+      dateFrom: undefined,
+      dateTo: "2026-01-15",
+      author: "alice",
+      shared: undefined,
+      folderId: undefined,
+      tags: ["work", "urgent"],
+      has: ["link", "image"],
+      favorite: undefined,
+    });
+  });
+
+  it("describes merged filters as chips that each remove their own filter", () => {
+    const merged = mergeNoteFilters(
+      { ...base, folderId: 3 },
+      parseSearchQuery("tag:urgent is:favorite after:2025-06-01").filters
+    );
+    const chips = describeNoteFilters(merged, new Map([[3, "Q3"]]));
+    expect(chips.map((chip) => chip.label)).toEqual([
+      "tag: work",
+      "tag: urgent",
+      "author: bob",
+      "folder: Q3",
+      "after 2025-06-01",
+      "has: link",
+      "favorites",
+    ]);
+
+    const remaining = chips.reduce((filters, chip) => removeNoteFilter(filters, chip.key), merged);
+    expect(describeNoteFilters(remaining)).toEqual([]);
+    expect(remaining.tags).toEqual([]);
+  });
+
+  it("removes the operator of a chip from the query text", () => {
+    const query = 'tag:work folder:"Q3 plans" budget';
+    const [, folder] = parseSearchQuery(query).operators;
+    const next = removeSearchToken(query, folder);
+    expect(next).toBe("tag:work budget");
+    expect(parseSearchQuery(next).folderName).toBeUndefined();
+  });
+});
@@ -0,0 +1,445 @@
+// lib/searchQuery.ts
+// Search bar query language: `tag:work author:alice shared:yes folder:"Q3" before:2026-01-01
+// after:2025-06-01 has:image is:favorite "exact phrase" -excluded`. Operators become note
+// filters; the remaining words are searched in the text of the notes.
+
+import { getChecklistProgress } from "./checklist";
+
+export type SharedFilter = "shared" | "private";
+
+export const NOTE_CONTENT_KINDS = ["image", "link", "file", "checklist", "drawing", "code"] as const;
+export type NoteContentKind = (typeof NOTE_CONTENT_KINDS)[number];
+
+export interface NoteFilters {
+  dateFrom?: string;
+  dateTo?: string;
+  author?: string;
+  shared?: SharedFilter;
+  folderId?: number;
+  tags: string[];
+  has?: NoteContentKind[];
+  favorite?: boolean;
+}
+
+export const SEARCH_OPERATORS = ["tag", "author", "folder", "shared", "has", "is", "before", "after"] as const;
+export type SearchOperator = (typeof SEARCH_OPERATORS)[number];
+
+export const SEARCH_OPERATOR_DESCRIPTIONS: Record<SearchOperator, string> = {
+  tag: "Notes with this tag",
+  author: "Notes written by",
+  folder: "Notes in this folder",
+  shared: "yes or no",
+  has: NOTE_CONTENT_KINDS.join(", "),
+  is: "favorite, shared or private",
+  before: "Updated before a date (YYYY-MM-DD)",
+  after: "Updated after a date (YYYY-MM-DD)",
+};
+
+export interface SearchQueryToken {
+  raw: string;
+  start: number;
+  end: number;
+  // Set for `key:value` tokens with a known key
+  operator?: SearchOperator;
+  value: string;
+  negated: boolean;
+  quoted: boolean;
+  // False for operators whose value isn't understood (or is still being typed)
+  valid: boolean;
+}
+
+export interface ParsedSearchQuery {
+  // Words left for full-text search, with "phrases" and -exclusions
+  text: string;
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  filters: NoteFilters;
+  // Folders are named in queries; their ids are resolved against the user's folders
+  folderName?: string;
+  operators: SearchQueryToken[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SHARED_VALUES: Record<string, SharedFilter> = {
+  yes: "shared",
+  true: "shared",
+  shared: "shared",
+  no: "private",
+  false: "private",
+  private: "private",
+};
+
+const CONTENT_PATTERNS: Record<Exclude<NoteContentKind, "checklist">, RegExp> = {
+  image: /<img\b|!\[[^\]]*\]\([^)]+\)/i,
+  link: /<a\s[^>]*href|(?<!!)\[[^\]]*\]\([^)]+\)|\[\[[^\]]+\]\]/i,
+  file: /wysiwyg-file-attachment/,
+  drawing: /data-drawing|```drawing/,
+  code: /<pre\b|<code\b|```(?!drawing)/i,
+};
+
+function isSearchOperator(value: string): value is SearchOperator {
+  return (SEARCH_OPERATORS as readonly string[]).includes(value);
+}
+
+function isNoteContentKind(value: string): value is NoteContentKind {
+  return (NOTE_CONTENT_KINDS as readonly string[]).includes(value);
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  // Rejects days past the end of the month, which Date rolls over into the next one
+  const date = new Date(value);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function unquote(value: string): { value: string; quoted: boolean } {
+  if (!value.startsWith('"')) return { value, quoted: false };
+  return { value: value.slice(1, value.endsWith('"') && value.length > 1 ? -1 : undefined), quoted: true };
+}
+
+/**
+ * Quotes a value containing spaces or quotes, to be typed after an operator.
+ */
+export function quoteSearchValue(value: string): string {
+  const cleaned = value.replace(/"/g, "").trim();
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Splits a query into tokens separated by spaces; quoted parts ("exact phrase", folder:"Q3
+ * plans") are kept whole, an unterminated quote runs to the end of the query.
+ */
+export function tokenizeSearchQuery(input: string): SearchQueryToken[] {
+  const tokens: SearchQueryToken[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+    const start = index;
+    let inQuotes = false;
+    while (index < input.length && (inQuotes || !/\s/.test(input[index]))) {
+      if (input[index] === '"') inQuotes = !inQuotes;
+      index++;
+    }
+    tokens.push(classifyToken(input.slice(start, index), start, index));
+  }
+
+  return tokens;
+}
+
+function classifyToken(raw: string, start: number, end: number): SearchQueryToken {
+  const negated = raw.length > 1 && raw.startsWith("-");
+  const body = negated ? raw.slice(1) : raw;
+  const colon = body.indexOf(":");
+  const key = colon > 0 && !body.startsWith('"') ? body.slice(0, colon).toLowerCase() : "";
+
+  if (!negated && isSearchOperator(key)) {
+    const { value, quoted } = unquote(body.slice(colon + 1));
+    return { raw, start, end, operator: key, value: value.trim(), negated, quoted, valid: isValidOperatorValue(key, value.trim()) };
+  }
+
+  const { value, quoted } = unquote(body);
+  return { raw, start, end, value, negated, quoted, valid: true };
+}
+
+function isValidOperatorValue(operator: SearchOperator, value: string): boolean {
+  const lower = value.toLowerCase();
+  switch (operator) {
+    case "shared":
+      return lower in SHARED_VALUES;
+    case "has":
+      return isNoteContentKind(lower);
+    case "is":
+      return lower === "favorite" || lower === "favourite" || lower === "shared" || lower === "private";
+    case "before":
+    case "after":
+      return isValidDate(value);
+    default:
+      return value.length > 0;
+  }
+}
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: NoteFilters = { tags: [] };
+  const terms: string[] = [];
+  const phrases: string[] = [];
+  const excluded: string[] = [];
+  const textParts: string[] = [];
+  const operators: SearchQueryToken[] = [];
+  let folderName: string | undefined;
+
+  for (const token of tokenizeSearchQuery(input)) {
+    if (token.operator) {
+      operators.push(token);
+      // A value that isn't understood is searched as text; an empty one is still being typed
+      if (!token.valid) {
+        if (token.value) {
+          terms.push(token.raw);
+          textParts.push(token.raw);
+        }
+        continue;
+      }
+      const lower = token.value.toLowerCase();
+      switch (token.operator) {
+        case "tag":
+          if (!filters.tags.some((tag) => tag.toLowerCase() === lower)) filters.tags.push(token.value);
+          break;
+        case "author":
+          filters.author = token.value;
+          break;
+        case "folder":
+          folderName = token.value;
+          break;
+        case "shared":
+          filters.shared = SHARED_VALUES[lower];
+          break;
+        case "has":
+          filters.has = Array.from(new Set([...(filters.has ?? []), lower as NoteContentKind]));
+          break;
+        case "is":
+          if (lower === "shared" || lower === "private") filters.shared = lower;
+          else filters.favorite = true;
+          break;
+        case "before":
+          filters.dateTo = token.value;
+          break;
+        case "after":
+          filters.dateFrom = token.value;
+          break;
+      }
+      continue;
+    }
+
+    const value = token.value.trim();
+    if (!value) continue;
+    if (token.negated) {
+      excluded.push(value);
+      textParts.push(token.quoted ? `-"${value}"` : `-${value}`);
+    } else if (token.quoted) {
+      phrases.push(value);
+      textParts.push(`"${value}"`);
+    } else {
+      terms.push(value);
+      textParts.push(value);
+    }
+  }
+
+  return { text: textParts.join(" "), terms, phrases, excluded, filters, folderName, operators };
+}
+
+/**
+ * The query without one of its tokens, as when removing a filter chip.
+ */
+export function removeSearchToken(input: string, token: Pick<SearchQueryToken, "start" | "end">): string {
+  return `${input.slice(0, token.start)} ${input.slice(token.end)}`.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Filters of the filter modal with the operators of a query applied on top: tags and content
+ * kinds add up, the other operators replace the modal's values.
+ */
+export function mergeNoteFilters(base: NoteFilters, query: NoteFilters): NoteFilters {
+  const tags = [...base.tags];
+  for (const tag of query.tags) {
+    if (!tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+  }
+  const has = Array.from(new Set([...(base.has ?? []), ...(query.has ?? [])]));
+  return {
+    dateFrom: query.dateFrom ?? base.dateFrom,
+    dateTo: query.dateTo ?? base.dateTo,
+    author: query.author ?? base.author,
+    shared: query.shared ?? base.shared,
+    folderId: query.folderId ?? base.folderId,
+    tags,
+    has: has.length > 0 ? has : undefined,
+    favorite: query.favorite || base.favorite || undefined,
+  };
+}
+
+/**
+ * NoteFilters from untrusted data (stored or sent by a client), dropping invalid fields.
+ */
+export function sanitizeNoteFilters(raw: unknown): NoteFilters {
+  const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {};
+  const text = (value: unknown, max: number) =>
+    typeof value === "string" && value.trim() ? value.trim().slice(0, max) : undefined;
+  const date = (value: unknown) => (typeof value === "string" && isValidDate(value) ? value : undefined);
+
+  const tags = Array.isArray(source.tags)
+    ? Array.from(new Set(source.tags.map((tag) => text(tag, 100)).filter((tag): tag is string => Boolean(tag)))).slice(0, 20)
+    : [];
+  const has = Array.isArray(source.has)
+    ? Array.from(new Set(source.has.filter((kind): kind is NoteContentKind => typeof kind === "string" && isNoteContentKind(kind))))
+    : [];
+  const folderId = typeof source.folderId === "number" && Number.isInteger(source.folderId) && source.folderId > 0
+    ? source.folderId
+    : undefined;
+
+  return {
+    dateFrom: date(source.dateFrom),
+    dateTo: date(source.dateTo),
+    author: text(source.author, 100),
+    shared: source.shared === "shared" || source.shared === "private" ? source.shared : undefined,
+    folderId,
+    tags,
+    has: has.length > 0 ? has : undefined,
+    favorite: source.favorite === true || undefined,
+  };
+}
+
+/**
+ * Whether a note has every tag of `tags`, ignoring case.
+ */
+export function noteHasTags(noteTags: string[], tags: string[]): boolean {
+  const lower = noteTags.map((tag) => tag?.toLowerCase()).filter(Boolean);
+  return tags.every((tag) => lower.includes(tag.toLowerCase()));
+}
+
+/**
+ * Whether the title, tags or text of a note contain the words and phrases of a query and none of
+ * its exclusions. `onlyExclusions` is for notes already matched by the full-text search.
+ */
+export function noteMatchesText(
+  note: { title?: string | null; tags?: string[] | null; content?: string | null },
+  query: Pick<ParsedSearchQuery, "terms" | "phrases" | "excluded">,
+  onlyExclusions = false
+): boolean {
+  const content = typeof note.content === "string" ? note.content.replace(/<[^>]*>/g, " ") : "";
+  const haystack = [note.title ?? "", ...(note.tags ?? []), content].join(" ").toLowerCase();
+  const required = onlyExclusions ? [] : [...query.terms, ...query.phrases];
+  return required.every((word) => haystack.includes(word.toLowerCase()))
+    && !query.excluded.some((word) => haystack.includes(word.toLowerCase()));
+}
+
+/**
+ * Whether the text of a note contains the given kind of content.
+ */
+export function noteHasContent(content: string, kind: NoteContentKind): boolean {
+  if (!content) return false;
+  if (kind === "checklist") return getChecklistProgress(content) !== null;
+  return CONTENT_PATTERNS[kind].test(content);
+}
+
+export interface SearchSuggestionSources {
+  tags: string[];
+  folders: string[];
+  authors: string[];
+}
+
+export interface SearchSuggestion {
+  label: string;
+  description?: string;
+  // Text replacing the token being typed
+  replacement: string;
+  start: number;
+  end: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+function staticValues(operator: SearchOperator): string[] {
+  switch (operator) {
+    case "shared":
+      return ["yes", "no"];
+    case "has":
+      return [...NOTE_CONTENT_KINDS];
+    case "is":
+      return ["favorite", "shared", "private"];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Completions for the token ending at `caret`: operator names while typing a word, then values
+ * for tag:, folder:, author: and the operators with fixed values.
+ */
+export function getSearchSuggestions(input: string, caret: number, sources: SearchSuggestionSources): SearchSuggestion[] {
+  const token = tokenizeSearchQuery(input).find((candidate) => candidate.start < caret && candidate.end === caret);
+  if (!token || token.negated) return [];
+
+  if (!token.operator) {
+    if (token.quoted || token.raw.includes(":")) return [];
+    const prefix = token.raw.toLowerCase();
+    return SEARCH_OPERATORS.filter((operator) => operator.startsWith(prefix) && operator !== prefix)
+      .map((operator) => ({
+        label: `${operator}:`,
+        description: SEARCH_OPERATOR_DESCRIPTIONS[operator],
+        replacement: `${operator}:`,
+        start: token.start,
+        end: token.end,
+      }));
+  }
+
+  const operator = token.operator;
+  const values =
+    operator === "tag" ? sources.tags
+    : operator === "folder" ? sources.folders
+    : operator === "author" ? sources.authors
+    : staticValues(operator);
+  const typed = token.value.toLowerCase();
+
+  return values
+    .filter((value) => {
+      const lower = value.toLowerCase();
+      return lower !== typed && lower.includes(typed);
+    })
+    .sort((a, b) => Number(!a.toLowerCase().startsWith(typed)) - Number(!b.toLowerCase().startsWith(typed)))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((value) => ({
+      label: value,
+      replacement: `${operator}:${quoteSearchValue(value)} `,
+      start: token.start,
+      end: token.end,
+    }));
+}
+
+/**
+ * The query with a suggestion applied, and where the caret goes.
+ */
+export function applySearchSuggestion(input: string, suggestion: SearchSuggestion): { text: string; caret: number } {
+  const before = input.slice(0, suggestion.start) + suggestion.replacement;
+  const after = input.slice(suggestion.end);
+  const text = before + (before.endsWith(" ") ? after.replace(/^\s+/, "") : after);
+  return { text, caret: before.length };
+}
+
+// Dispatched on window when smart folders are created, changed or deleted
+export const SMART_FOLDERS_CHANGED_EVENT = "notus:smart-folders-changed";
+
+export interface NoteFilterChip {
+  // Identifies the filter for removeNoteFilter: a field name, or tag:<tag> / has:<kind>
+  key: string;
+  label: string;
+}
+
+/**
+ * Readable labels of the filters set in `filters`.
+ */
+export function describeNoteFilters(filters: NoteFilters, folderNames?: Map<number, string>): NoteFilterChip[] {
+  const chips: NoteFilterChip[] = [];
+  for (const tag of filters.tags) chips.push({ key: `tag:${tag}`, label: `tag: ${tag}` });
+  if (filters.author) chips.push({ key: "author", label: `author: ${filters.author}` });
+  if (filters.folderId) chips.push({ key: "folderId", label: `folder: ${folderNames?.get(filters.folderId) ?? `#${filters.folderId}`}` });
+  if (filters.shared) chips.push({ key: "shared", label: filters.shared === "shared" ? "shared" : "private" });
+  if (filters.dateFrom) chips.push({ key: "dateFrom", label: `after ${filters.dateFrom}` });
+  if (filters.dateTo) chips.push({ key: "dateTo", label: `before ${filters.dateTo}` });
+  for (const kind of filters.has ?? []) chips.push({ key: `has:${kind}`, label: `has: ${kind}` });
+  if (filters.favorite) chips.push({ key: "favorite", label: "favorites" });
+  return chips;
+}
+
+export function removeNoteFilter(filters: NoteFilters, key: string): NoteFilters {
+  if (key.startsWith("tag:")) {
+    return { ...filters, tags: filters.tags.filter((tag) => tag !== key.slice(4)) };
+  }
+  if (key.startsWith("has:")) {
+    const has = (filters.has ?? []).filter((kind) => kind !== key.slice(4));
+    return { ...filters, has: has.length > 0 ? has : undefined };
+  }
+  return { ...filters, [key]: undefined };
+}
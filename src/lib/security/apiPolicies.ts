@@ -3,6 +3,8 @@ import type { NextRequest } from "next/server";
 import { getToken } from "next-auth/jwt";
 import { DocumentService } from "../services/DocumentService";
 import { prisma } from "../prisma";
+import { MAX_ATTACHMENT_SIZE, isAttachmentId } from "../attachments";
+import { AttachmentService } from "../services/AttachmentService";
 
 type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS" | "HEAD";
 
@@ -28,6 +30,9 @@ export interface RoutePolicy {
 
 const DEFAULT_JSON_BODY_LIMIT = 512 * 1024; // 512 KB
 const documentAccessService = new DocumentService();
+const attachmentAccessService = new AttachmentService();
+// Multipart overhead on top of the file itself
+const ATTACHMENT_UPLOAD_BODY_LIMIT = MAX_ATTACHMENT_SIZE + 1024 * 1024;
 
 interface AuthContext {
   userId: number | null;
@@ -361,6 +366,22 @@ export const apiRoutePolicies: RoutePolicy[] = [
     matcher: /^\/api\/auth(?:\/.*)?$/,
     methods: ["GET", "POST"],
   },
+  {
+    id: "attachments-upload",
+    description: "Upload a file attached to a note",
+    matcher: /^\/api\/attachments$/,
+    methods: ["POST"],
+    requireAuth: true,
+    enforce: enforceAttachmentUpload,
+  },
+  {
+    id: "attachments-download",
+    description: "Read a file attached to a note",
+    matcher: /^\/api\/attachments\/[^/]+$/,
+    methods: ["GET"],
+    requireAuth: true,
+    enforce: enforceAttachmentAccessFromPath,
+  },
   {
     id: "socket-handshake",
     description: "Socket.IO server initialization",
@@ -445,6 +466,86 @@ async function enforceDocumentAccessFromQuery(context: PolicyContext) {
   return null;
 }
 
+// Uploading needs edit access to the note; a note that isn't saved yet has no documentId
+async function enforceAttachmentUpload(context: PolicyContext) {
+  const authContext = context.authContext;
+  if (!authContext?.userId) {
+    return NextResponse.json(
+      { success: false, error: "Access denied" },
+      { status: 401 }
+    );
+  }
+
+  const contentLength = Number(context.request.headers.get("content-length"));
+  if (Number.isFinite(contentLength) && contentLength > ATTACHMENT_UPLOAD_BODY_LIMIT) {
+    return NextResponse.json(
+      { success: false, error: "The file is too large. Maximum size: 25MB" },
+      { status: 413 }
+    );
+  }
+
+  const { searchParams } = new URL(context.request.url);
+  if (!searchParams.has("documentId")) {
+    return null;
+  }
+
+  const documentId = parseDocumentIdFromParams(searchParams, ["documentId"]);
+  if (!documentId) {
+    return NextResponse.json(
+      { success: false, error: "Access denied" },
+      { status: 400 }
+    );
+  }
+
+  const document = await prisma.document.findFirst({
+    where: {
+      id: documentId,
+      OR: [
+        { user_id: authContext.userId },
+        ...(authContext.email
+          ? [{ Share: { some: { email: { equals: authContext.email, mode: "insensitive" }, permission: true } } }]
+          : []),
+      ],
+    },
+    select: { id: true },
+  });
+
+  if (!document) {
+    return NextResponse.json(
+      { success: false, error: "Access denied" },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+async function enforceAttachmentAccessFromPath(context: PolicyContext) {
+  const match = /^\/api\/attachments\/([^/]+)$/.exec(context.pathname);
+  const attachmentId = match?.[1];
+  if (!attachmentId || !isAttachmentId(attachmentId)) {
+    return NextResponse.json(
+      { success: false, error: "Access denied" },
+      { status: 404 }
+    );
+  }
+
+  const authContext = context.authContext;
+  const hasAccess = authContext
+    ? await attachmentAccessService.userCanAccessAttachment(attachmentId.toLowerCase(), authContext)
+    : false;
+
+  if (!hasAccess) {
+    // Same answer for a missing attachment, so that ids can't be probed
+    return NextResponse.json(
+      { success: false, error: "Access denied" },
+      { status: 404 }
+    );
+  }
+
+  return null;
+}
+
 async function enforceFolderOwnershipFromPath(context: PolicyContext) {
   if (!context.authContext?.userId) {
     return NextResponse.json(
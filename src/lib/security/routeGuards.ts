@@ -2,10 +2,11 @@ import { NextResponse } from "next/server";
 import { auth } from "../../../auth";
 import { DocumentService } from "../services/DocumentService";
 import { UserService } from "../services/UserService";
-import { prisma } from "../prisma";
+import { FolderService } from "../services/FolderService";
 
 const documentService = new DocumentService();
 const userService = new UserService();
+const folderService = new FolderService();
 
 export interface AuthResult {
   userId: number;
@@ -134,12 +135,10 @@ export async function requireFolderOwnership(
     );
   }
 
-  // Using prisma.folder
-  const folder = await prisma.folder.findFirst({
-    where: { id: folderId, user_id: userId },
-  });
+  // The folder and all the folders above it must belong to the user
+  const isOwner = await folderService.isFolderOwnedBy(folderId, userId);
 
-  if (!folder) {
+  if (!isOwner) {
     return NextResponse.json(
       { success: false, error: "Access denied" },
       { status: 403 }
@@ -0,0 +1,107 @@
+import type { IncomingMessage } from "node:http";
+import type { NextApiRequest } from "next";
+import { getToken } from "next-auth/jwt";
+import { DocumentService } from "../services/DocumentService";
+
+export interface SocketIdentity {
+  userId: number;
+  email: string;
+  username: string;
+  isAdmin: boolean;
+}
+
+/**
+ * What a socket may do in a document room.
+ * Read-only sharers (`Share.permission = false`) receive updates but cannot send edits.
+ */
+export type RoomAccess = "owner" | "editor" | "viewer";
+
+const documentAccessService = new DocumentService();
+
+function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const part of header.split(";")) {
+    const separator = part.indexOf("=");
+    if (separator === -1) continue;
+    const name = part.slice(0, separator).trim();
+    if (!name || name in cookies) continue;
+    const value = part.slice(separator + 1).trim();
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  }
+  return cookies;
+}
+
+/**
+ * Decodes the NextAuth session carried by the cookies of the socket handshake.
+ */
+export async function authenticateSocketRequest(request: IncomingMessage): Promise<SocketIdentity | null> {
+  const secret = process.env.AUTH_SECRET;
+
+  if (!secret) {
+    console.error("[socketAuth] Missing AUTH_SECRET: impossible to decode session.");
+    return null;
+  }
+
+  try {
+    const req = {
+      headers: request.headers,
+      cookies: parseCookieHeader(request.headers.cookie),
+    } as unknown as NextApiRequest;
+
+    const token = await getToken({ req, secret });
+    if (!token) {
+      return null;
+    }
+
+    const claims = token as Record<string, unknown>;
+    const rawId = claims.id ?? token.sub ?? null;
+    const userId = typeof rawId === "number" ? rawId : typeof rawId === "string" ? Number(rawId) : Number.NaN;
+    const email = typeof token.email === "string" ? token.email.toLowerCase().trim() : "";
+
+    if (!Number.isFinite(userId) || userId <= 0 || !email) {
+      return null;
+    }
+
+    const username = typeof claims.username === "string" ? claims.username.trim() : "";
+
+    return {
+      userId,
+      email,
+      username: username || email.split("@")[0],
+      isAdmin: claims.isAdmin === true,
+    };
+  } catch (error) {
+    console.error("[socketAuth] Error decoding NextAuth token:", error);
+    return null;
+  }
+}
+
+/**
+ * Resolves the access of an authenticated user to the document behind a room (room id = document id).
+ * Returns null when the user is neither the owner nor a sharer of the document.
+ */
+export async function resolveRoomAccess(roomId: string, identity: SocketIdentity | null): Promise<RoomAccess | null> {
+  const documentId = Number(roomId);
+  if (!identity || !Number.isInteger(documentId) || documentId <= 0) {
+    return null;
+  }
+
+  const hasAccess = await documentAccessService.userHasAccessToDocument(documentId, identity.userId, identity.email);
+  if (!hasAccess) {
+    return null;
+  }
+
+  const ownerResult = await documentAccessService.ownerIdForDocument(documentId);
+  if (ownerResult.success && ownerResult.data?.ownerId === identity.userId) {
+    return "owner";
+  }
+
+  const shareResult = await documentAccessService.getSharePermission(documentId, identity.email);
+  return shareResult.success && shareResult.data?.permission === true ? "editor" : "viewer";
+}
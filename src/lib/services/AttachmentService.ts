@@ -0,0 +1,279 @@
+import { createHash } from "crypto";
+import { prisma } from "../prisma";
+import { getBlobStore } from "../storage/BlobStore";
+import {
+  MIN_EXTRACTED_DATA_URL_LENGTH,
+  attachmentUrl,
+  createBase64DataUrlPattern,
+  findAttachmentIds,
+  type UploadedAttachment,
+} from "../attachments";
+
+interface AttachmentRecord {
+  id: string;
+  sha256: string;
+  size: number;
+  mime_type: string;
+  file_name: string;
+  user_id: number | null;
+  document_id: number | null;
+  created_at: Date;
+}
+
+interface AttachmentResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface CreateAttachmentData {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+  userId: number | null;
+  documentId: number | null;
+}
+
+interface AttachmentViewer {
+  userId: number | null;
+  email: string | null;
+  isAdmin: boolean;
+}
+
+const MIME_TYPE_PATTERN = /^[\w.+-]+\/[\w.+-]+$/;
+
+function normalizeFileName(name: string): string {
+  // Keep the base name only, without control characters
+  const base = name.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f]/g, "").trim();
+  return cleaned.slice(0, 255) || "file";
+}
+
+function normalizeMimeType(type: string): string {
+  const cleaned = type.toLowerCase().trim();
+  return MIME_TYPE_PATTERN.test(cleaned) ? cleaned : "application/octet-stream";
+}
+
+function extensionFor(mimeType: string): string {
+  const subtype = mimeType.split("/")[1] ?? "";
+  const known: Record<string, string> = { jpeg: "jpg", "svg+xml": "svg", mpeg: "mp3", "octet-stream": "bin" };
+  return known[subtype] ?? (subtype.replace(/[^a-z0-9]/g, "") || "bin");
+}
+
+export function toUploadedAttachment(attachment: AttachmentRecord): UploadedAttachment {
+  return {
+    id: attachment.id,
+    url: attachmentUrl(attachment.id),
+    name: attachment.file_name,
+    type: attachment.mime_type,
+    size: attachment.size,
+  };
+}
+
+export class AttachmentService {
+  /**
+   * Stores `data` and returns its attachment. The same bytes uploaded again for the same note
+   * (or, before the note is saved, by the same user) give back the existing attachment.
+   */
+  async createAttachment({ data, fileName, mimeType, userId, documentId }: CreateAttachmentData): Promise<AttachmentResult<AttachmentRecord>> {
+    try {
+      const sha256 = createHash("sha256").update(data).digest("hex");
+      await getBlobStore().put(sha256, data);
+
+      const existing: AttachmentRecord | null = await prisma.attachment.findFirst({
+        where: documentId
+          ? { sha256, document_id: documentId }
+          : { sha256, document_id: null, user_id: userId },
+        orderBy: { created_at: "asc" },
+      });
+      if (existing) {
+        return { success: true, data: existing };
+      }
+
+      const attachment: AttachmentRecord = await prisma.attachment.create({
+        data: {
+          sha256,
+          size: data.length,
+          mime_type: normalizeMimeType(mimeType),
+          file_name: normalizeFileName(fileName),
+          user_id: userId,
+          document_id: documentId,
+        },
+      });
+      return { success: true, data: attachment };
+    } catch (error) {
+      console.error("❌ Error creating attachment:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async getAttachment(id: string): Promise<AttachmentResult<AttachmentRecord>> {
+    try {
+      const attachment: AttachmentRecord | null = await prisma.attachment.findUnique({ where: { id } });
+      if (!attachment) {
+        return { success: false, error: "Attachment not found" };
+      }
+      return { success: true, data: attachment };
+    } catch (error) {
+      console.error("❌ Error retrieving attachment:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async readAttachment(id: string): Promise<AttachmentResult<{ attachment: AttachmentRecord; data: Buffer }>> {
+    const found = await this.getAttachment(id);
+    if (!found.success || !found.data) {
+      return { success: false, error: found.error };
+    }
+    try {
+      const data = await getBlobStore().get(found.data.sha256);
+      if (!data) {
+        return { success: false, error: "Attachment content not found" };
+      }
+      return { success: true, data: { attachment: found.data, data } };
+    } catch (error) {
+      console.error("❌ Error reading attachment:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * An attachment can be read by its uploader, by the users who can open its note and by the
+   * users who can open a note it was linked to (see recordAttachmentLinks).
+   */
+  async userCanAccessAttachment(id: string, viewer: AttachmentViewer): Promise<boolean> {
+    if (!viewer.userId && !viewer.email) return false;
+
+    try {
+      const attachment: AttachmentRecord | null = await prisma.attachment.findUnique({ where: { id } });
+      if (!attachment) return false;
+      if (viewer.isAdmin) return true;
+      if (viewer.userId && attachment.user_id === viewer.userId) return true;
+
+      const accessibleNote = {
+        OR: [
+          ...(viewer.userId ? [{ user_id: viewer.userId }] : []),
+          ...(viewer.email ? [{ Share: { some: { email: { equals: viewer.email, mode: "insensitive" } } } }] : []),
+        ],
+      };
+      const attachmentNote = {
+        OR: [
+          ...(attachment.document_id ? [{ id: attachment.document_id }] : []),
+          { attachment_links: { some: { attachment_id: attachment.id } } },
+        ],
+      };
+
+      const note = await prisma.document.findFirst({
+        where: { AND: [accessibleNote, attachmentNote] },
+        select: { id: true },
+      });
+      return Boolean(note);
+    } catch (error) {
+      console.error("❌ Error checking attachment access:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Links the attachments of other notes referenced by `content` to the note `documentId`, so
+   * that the users who can open it can read them. Only the attachments `editor` can read
+   * already are linked: pasting an attachment URL into a note doesn't grant access to it.
+   * Links are kept when the content stops referencing them, for the versions of the history.
+   */
+  async recordAttachmentLinks(documentId: number, content: string, editor: AttachmentViewer): Promise<AttachmentResult<{ linkedCount: number }>> {
+    try {
+      const ids = findAttachmentIds(content);
+      if (ids.length === 0) {
+        return { success: true, data: { linkedCount: 0 } };
+      }
+
+      const foreign: Array<{ id: string }> = await prisma.attachment.findMany({
+        where: {
+          id: { in: ids },
+          OR: [{ document_id: null }, { document_id: { not: documentId } }],
+          links: { none: { document_id: documentId } },
+        },
+        select: { id: true },
+      });
+      const linkedIds: string[] = [];
+      for (const { id } of foreign) {
+        if (await this.userCanAccessAttachment(id, editor)) linkedIds.push(id);
+      }
+      if (linkedIds.length === 0) {
+        return { success: true, data: { linkedCount: 0 } };
+      }
+
+      const result = await prisma.attachmentLink.createMany({
+        data: linkedIds.map((id) => ({ attachment_id: id, document_id: documentId })),
+        skipDuplicates: true,
+      });
+      return { success: true, data: { linkedCount: result.count } };
+    } catch (error) {
+      console.error("❌ Error linking attachments:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Gives the attachments uploaded for a note before it was saved to the note, once it is.
+   */
+  async claimAttachmentsForDocument(documentId: number, userId: number, content: string): Promise<AttachmentResult<{ claimedCount: number }>> {
+    try {
+      const ids = findAttachmentIds(content);
+      if (ids.length === 0) {
+        return { success: true, data: { claimedCount: 0 } };
+      }
+      const result = await prisma.attachment.updateMany({
+        where: { id: { in: ids }, user_id: userId, document_id: null },
+        data: { document_id: documentId },
+      });
+      return { success: true, data: { claimedCount: result.count } };
+    } catch (error) {
+      console.error("❌ Error claiming attachments:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Replaces the base64 data URLs of `content` with attachments of the note `documentId`.
+   * Identical data URLs become the same attachment.
+   */
+  async extractDataUrls(
+    content: string,
+    documentId: number | null,
+    userId: number | null
+  ): Promise<AttachmentResult<{ content: string; extractedCount: number }>> {
+    const urls = new Map<string, string>();
+    let extractedCount = 0;
+
+    try {
+      for (const match of content.matchAll(createBase64DataUrlPattern())) {
+        const [dataUrl, mimeType, , base64] = match;
+        if (dataUrl.length < MIN_EXTRACTED_DATA_URL_LENGTH || urls.has(dataUrl)) continue;
+
+        const type = normalizeMimeType(mimeType);
+        const created = await this.createAttachment({
+          data: Buffer.from(base64, "base64"),
+          fileName: `attachment.${extensionFor(type)}`,
+          mimeType: type,
+          userId,
+          documentId,
+        });
+        if (!created.success || !created.data) {
+          return { success: false, error: created.error };
+        }
+        urls.set(dataUrl, attachmentUrl(created.data.id));
+        extractedCount++;
+      }
+
+      if (urls.size === 0) {
+        return { success: true, data: { content, extractedCount: 0 } };
+      }
+      const replaced = content.replace(createBase64DataUrlPattern(), (dataUrl) => urls.get(dataUrl) ?? dataUrl);
+      return { success: true, data: { content: replaced, extractedCount } };
+    } catch (error) {
+      console.error("❌ Error extracting data URLs:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { prisma } from "../prisma";
+import { MAX_FOLDER_DEPTH } from "../folderTree";
+
+interface FolderAncestor {
+  id: number;
+  user_id: number;
+  parent_id: number | null;
+  name: string;
+}
+
+interface FolderResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+// The folder and its parents, from the folder up; stops after MAX_FOLDER_DEPTH levels
+const ANCESTRY_QUERY = `
+  WITH RECURSIVE ancestry AS (
+    SELECT id, user_id, parent_id, name, 0 AS depth FROM folders WHERE id = $1
+    UNION ALL
+    SELECT f.id, f.user_id, f.parent_id, f.name, a.depth + 1
+    FROM folders f
+    JOIN ancestry a ON f.id = a.parent_id
+    WHERE a.depth < $2
+  )
+  SELECT id, user_id, parent_id, name FROM ancestry ORDER BY depth DESC
+`;
+
+// The folder and its descendants owned by the user
+const SUBTREE_QUERY = `
+  WITH RECURSIVE subtree AS (
+    SELECT id, 0 AS depth FROM folders WHERE id = $1 AND user_id = $2
+    UNION
+    SELECT f.id, s.depth + 1
+    FROM folders f
+    JOIN subtree s ON f.parent_id = s.id
+    WHERE f.user_id = $2 AND s.depth < $3
+  )
+  SELECT DISTINCT id FROM subtree
+`;
+
+// Number of levels below the folder: 0 for a folder without subfolders
+const SUBTREE_HEIGHT_QUERY = `
+  WITH RECURSIVE subtree AS (
+    SELECT id, 0 AS depth FROM folders WHERE id = $1
+    UNION
+    SELECT f.id, s.depth + 1
+    FROM folders f
+    JOIN subtree s ON f.parent_id = s.id
+    WHERE s.depth < $2
+  )
+  SELECT MAX(depth)::int AS height FROM subtree
+`;
+
+// Moves of one user's folders are run one at a time: two concurrent moves (A into B, B into A)
+// each pass their own cycle check otherwise
+const LOCK_USER_FOLDERS_QUERY = `SELECT id FROM folders WHERE user_id = $1 ORDER BY id FOR UPDATE`;
+
+function isOwnedChain(path: FolderAncestor[], userId: number): boolean {
+  return path.length > 0 && path[0].parent_id === null && path.every((folder) => folder.user_id === userId);
+}
+
+export class FolderService {
+  /**
+   * The folders from the root down to `folderId` included. Empty when the folder doesn't exist.
+   */
+  async getFolderAncestry(folderId: number): Promise<FolderResult<FolderAncestor[]>> {
+    try {
+      const rows: FolderAncestor[] = await prisma.$queryRawUnsafe(ANCESTRY_QUERY, folderId, MAX_FOLDER_DEPTH);
+      return { success: true, data: rows };
+    } catch (error) {
+      console.error("❌ Error retrieving folder ancestry:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Whether the user owns the folder and every folder above it, up to a root folder.
+   * A chain that goes through someone else's folder, or never reaches the root, is refused.
+   */
+  async isFolderOwnedBy(folderId: number, userId: number): Promise<boolean> {
+    if (!Number.isInteger(folderId) || folderId <= 0) return false;
+    const ancestry = await this.getFolderAncestry(folderId);
+    return isOwnedChain(ancestry.data ?? [], userId);
+  }
+
+  async getSubtreeFolderIds(folderId: number, userId: number): Promise<FolderResult<number[]>> {
+    try {
+      const rows: Array<{ id: number }> = await prisma.$queryRawUnsafe(SUBTREE_QUERY, folderId, userId, MAX_FOLDER_DEPTH);
+      return { success: true, data: rows.map((row) => row.id) };
+    } catch (error) {
+      console.error("❌ Error retrieving folder subtree:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Moves a folder under `parentId`, or to the root when null. Both folders must belong to the
+   * user, the new parent can't be the folder itself or one of its descendants, and the deepest
+   * subfolder must stay within MAX_FOLDER_DEPTH levels.
+   */
+  async moveFolder(folderId: number, parentId: number | null, userId: number): Promise<FolderResult<null>> {
+    try {
+      const refusal: string | null = await prisma.$transaction(async (tx: typeof prisma) => {
+        await tx.$queryRawUnsafe(LOCK_USER_FOLDERS_QUERY, userId);
+
+        const folderPath: FolderAncestor[] = await tx.$queryRawUnsafe(ANCESTRY_QUERY, folderId, MAX_FOLDER_DEPTH);
+        if (!isOwnedChain(folderPath, userId)) {
+          return "Folder not found or access denied";
+        }
+        if (parentId === null) {
+          await tx.folder.update({ where: { id: folderId }, data: { parent_id: null } });
+          return null;
+        }
+
+        const parentPath: FolderAncestor[] = await tx.$queryRawUnsafe(ANCESTRY_QUERY, parentId, MAX_FOLDER_DEPTH);
+        if (!isOwnedChain(parentPath, userId)) {
+          return "Destination folder not found or access denied";
+        }
+        if (parentPath.some((folder) => folder.id === folderId)) {
+          return "A folder can't be moved into itself or one of its subfolders";
+        }
+        const [{ height }]: Array<{ height: number }> = await tx.$queryRawUnsafe(SUBTREE_HEIGHT_QUERY, folderId, MAX_FOLDER_DEPTH);
+        if (parentPath.length + 1 + height > MAX_FOLDER_DEPTH) {
+          return "Folders are nested too deeply";
+        }
+
+        await tx.folder.update({ where: { id: folderId }, data: { parent_id: parentId } });
+        return null;
+      });
+
+      return refusal ? { success: false, error: refusal } : { success: true, data: null };
+    } catch (error) {
+      console.error("❌ Error moving folder:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Deletes a folder with its subfolders and moves the notes filed in them to the trash.
+   * Notes also filed in a folder outside of the deleted ones are kept there.
+   */
+  async deleteFolderToTrash(folderId: number, userId: number): Promise<FolderResult<{ trashedCount: number }>> {
+    try {
+      if (!(await this.isFolderOwnedBy(folderId, userId))) {
+        return { success: false, error: "Folder not found or access denied" };
+      }
+      const subtree = await this.getSubtreeFolderIds(folderId, userId);
+      if (!subtree.success || !subtree.data) {
+        return { success: false, error: subtree.error };
+      }
+      const folderIds = subtree.data;
+
+      const trashedCount = await prisma.$transaction(async (tx: typeof prisma) => {
+        const documents: Array<{
+          id: number;
+          user_id: number;
+          title: string;
+          content: string;
+          tags: string[];
+          created_at: Date;
+          updated_at: Date;
+        }> = await tx.document.findMany({
+          where: {
+            user_id: userId,
+            folder_documents: { some: { folder_id: { in: folderIds } } },
+            NOT: { folder_documents: { some: { folder_id: { notIn: folderIds } } } },
+          },
+        });
+
+        if (documents.length > 0) {
+          const deletedAt = new Date();
+          await tx.trashDocument.createMany({
+            data: documents.map((doc) => ({
+              user_id: doc.user_id,
+              title: doc.title,
+              content: doc.content,
+              tags: doc.tags,
+              created_at: doc.created_at,
+              updated_at: doc.updated_at,
+              deleted_at: deletedAt,
+              original_id: doc.id,
+            })),
+          });
+          await tx.document.deleteMany({ where: { id: { in: documents.map((doc) => doc.id) }, user_id: userId } });
+        }
+
+        // Subfolders go with their parent (ON DELETE CASCADE)
+        await tx.folder.delete({ where: { id: folderId } });
+        return documents.length;
+      });
+
+      return { success: true, data: { trashedCount } };
+    } catch (error) {
+      console.error("❌ Error deleting folder:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import { prisma } from "../prisma";
+import { MAX_SEARCH_QUERY_LENGTH } from "../noteSearch";
+import {
+  mergeNoteFilters,
+  noteHasContent,
+  noteHasTags,
+  noteMatchesText,
+  parseSearchQuery,
+  sanitizeNoteFilters,
+  type NoteFilters,
+} from "../searchQuery";
+
+export interface SavedSearchRecord {
+  id: number;
+  user_id: number;
+  name: string;
+  query: string;
+  filters: unknown;
+  pinned: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface SavedSearchResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface SavedSearchInput {
+  name?: string;
+  query?: string;
+  filters?: unknown;
+  pinned?: boolean;
+}
+
+interface SearchViewer {
+  userId: number;
+  email: string | null;
+}
+
+export const MAX_SAVED_SEARCHES = 50;
+const MAX_NAME_LENGTH = 100;
+
+// Notes the viewer can open whose text matches the words of a query (see searchActions)
+const TEXT_MATCH_QUERY = `
+  SELECT ds.document_id AS id
+  FROM document_search ds
+  JOIN documents d ON d.id = ds.document_id
+  CROSS JOIN websearch_to_tsquery(notus_search_config(), $1) AS query
+  WHERE (
+      d.user_id = $2
+      OR EXISTS (SELECT 1 FROM shares s WHERE s.id_doc = d.id AND lower(s.email) = lower($3))
+    )
+    AND (ds.search_vector @@ query OR ds.title % $1 OR $1 <% ds.body)
+`;
+
+function validateInput(input: SavedSearchInput, partial: boolean): string | null {
+  if (input.name !== undefined || !partial) {
+    const name = input.name?.trim() ?? "";
+    if (!name) return "Name is required";
+    if (name.length > MAX_NAME_LENGTH) return `Name must be at most ${MAX_NAME_LENGTH} characters`;
+  }
+  if (input.query !== undefined && (typeof input.query !== "string" || input.query.length > MAX_SEARCH_QUERY_LENGTH)) {
+    return "Invalid query";
+  }
+  if (input.pinned !== undefined && typeof input.pinned !== "boolean") {
+    return "Invalid pinned value";
+  }
+  return null;
+}
+
+function isEmptySearch(query: string, filters: NoteFilters): boolean {
+  const parsed = parseSearchQuery(query);
+  const merged = mergeNoteFilters(filters, parsed.filters);
+  return !(
+    parsed.text ||
+    parsed.folderName ||
+    merged.dateFrom ||
+    merged.dateTo ||
+    merged.author ||
+    merged.shared ||
+    merged.folderId ||
+    merged.favorite ||
+    merged.has ||
+    merged.tags.length > 0
+  );
+}
+
+export class SavedSearchService {
+  async listSavedSearches(userId: number, options: { pinnedOnly?: boolean } = {}): Promise<SavedSearchResult<SavedSearchRecord[]>> {
+    try {
+      const searches: SavedSearchRecord[] = await prisma.savedSearch.findMany({
+        where: { user_id: userId, ...(options.pinnedOnly ? { pinned: true } : {}) },
+        orderBy: [{ pinned: "desc" }, { name: "asc" }],
+      });
+      return { success: true, data: searches };
+    } catch (error) {
+      console.error("❌ Error retrieving saved searches:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async getSavedSearch(id: number, userId: number): Promise<SavedSearchResult<SavedSearchRecord>> {
+    try {
+      const search: SavedSearchRecord | null = await prisma.savedSearch.findFirst({ where: { id, user_id: userId } });
+      if (!search) {
+        return { success: false, error: "Smart folder not found" };
+      }
+      return { success: true, data: search };
+    } catch (error) {
+      console.error("❌ Error retrieving saved search:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async createSavedSearch(userId: number, input: SavedSearchInput): Promise<SavedSearchResult<SavedSearchRecord>> {
+    const invalid = validateInput(input, false);
+    if (invalid) return { success: false, error: invalid };
+
+    const query = input.query?.trim() ?? "";
+    const filters = sanitizeNoteFilters(input.filters);
+    if (isEmptySearch(query, filters)) {
+      return { success: false, error: "Add a search or a filter to the smart folder" };
+    }
+
+    try {
+      const count = await prisma.savedSearch.count({ where: { user_id: userId } });
+      if (count >= MAX_SAVED_SEARCHES) {
+        return { success: false, error: `You can have at most ${MAX_SAVED_SEARCHES} smart folders` };
+      }
+      const search: SavedSearchRecord = await prisma.savedSearch.create({
+        data: {
+          user_id: userId,
+          name: input.name!.trim(),
+          query,
+          filters,
+          pinned: input.pinned ?? false,
+        },
+      });
+      return { success: true, data: search };
+    } catch (error) {
+      console.error("❌ Error creating saved search:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async updateSavedSearch(id: number, userId: number, input: SavedSearchInput): Promise<SavedSearchResult<SavedSearchRecord>> {
+    const invalid = validateInput(input, true);
+    if (invalid) return { success: false, error: invalid };
+
+    const existing = await this.getSavedSearch(id, userId);
+    if (!existing.success || !existing.data) {
+      return { success: false, error: existing.error };
+    }
+
+    const query = input.query !== undefined ? input.query.trim() : existing.data.query;
+    const filters = sanitizeNoteFilters(input.filters !== undefined ? input.filters : existing.data.filters);
+    if (isEmptySearch(query, filters)) {
+      return { success: false, error: "Add a search or a filter to the smart folder" };
+    }
+
+    try {
+      const search: SavedSearchRecord = await prisma.savedSearch.update({
+        where: { id },
+        data: {
+          ...(input.name !== undefined ? { name: input.name.trim() } : {}),
+          ...(input.pinned !== undefined ? { pinned: input.pinned } : {}),
+          query,
+          filters,
+        },
+      });
+      return { success: true, data: search };
+    } catch (error) {
+      console.error("❌ Error updating saved search:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  async deleteSavedSearch(id: number, userId: number): Promise<SavedSearchResult<null>> {
+    try {
+      const result = await prisma.savedSearch.deleteMany({ where: { id, user_id: userId } });
+      if (result.count === 0) {
+        return { success: false, error: "Smart folder not found" };
+      }
+      return { success: true, data: null };
+    } catch (error) {
+      console.error("❌ Error deleting saved search:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+
+  /**
+   * Ids of the notes the viewer can open that match a saved search, most recently updated first.
+   * Filters that the database can evaluate are applied in the query; tags (ignoring case),
+   * content kinds and excluded words are checked on the candidates, as the search bar does.
+   */
+  async findMatchingDocumentIds(search: Pick<SavedSearchRecord, "query" | "filters">, viewer: SearchViewer): Promise<SavedSearchResult<number[]>> {
+    try {
+      const parsed = parseSearchQuery(search.query);
+
+      let queryFolderId: number | undefined;
+      if (parsed.folderName) {
+        const folder = await prisma.folder.findFirst({
+          where: { user_id: viewer.userId, name: { equals: parsed.folderName, mode: "insensitive" } },
+          select: { id: true },
+        });
+        // A folder that doesn't exist matches no note
+        if (!folder) return { success: true, data: [] };
+        queryFolderId = folder.id;
+      }
+      const filters = mergeNoteFilters(sanitizeNoteFilters(search.filters), { ...parsed.filters, folderId: queryFolderId });
+
+      let textMatchIds: number[] | null = null;
+      if (parsed.terms.length + parsed.phrases.length > 0) {
+        const rows: Array<{ id: number }> = await prisma.$queryRawUnsafe(TEXT_MATCH_QUERY, parsed.text, viewer.userId, viewer.email);
+        textMatchIds = rows.map((row) => row.id);
+        if (textMatchIds.length === 0) return { success: true, data: [] };
+      }
+
+      const sharedWithViewer = (extra: object = {}) =>
+        viewer.email ? [{ Share: { some: { email: { equals: viewer.email, mode: "insensitive" }, ...extra } } }] : [];
+      const conditions: object[] = [{ OR: [{ user_id: viewer.userId }, ...sharedWithViewer()] }];
+      if (textMatchIds) conditions.push({ id: { in: textMatchIds } });
+      if (filters.dateFrom) conditions.push({ updated_at: { gte: new Date(filters.dateFrom) } });
+      if (filters.dateTo) conditions.push({ updated_at: { lte: new Date(filters.dateTo) } });
+      if (filters.folderId) conditions.push({ folder_documents: { some: { folder_id: filters.folderId } } });
+      if (filters.author) {
+        const contains = { contains: filters.author, mode: "insensitive" };
+        conditions.push({ user: { OR: [{ first_name: contains }, { last_name: contains }, { username: contains }] } });
+      }
+      if (filters.favorite) {
+        conditions.push({ OR: [{ user_id: viewer.userId, is_favorite: true }, ...sharedWithViewer({ is_favorite: true })] });
+      }
+      if (filters.shared === "shared") {
+        conditions.push({ OR: [{ Share: { some: {} } }, { user_id: { not: viewer.userId } }] });
+      } else if (filters.shared === "private") {
+        conditions.push({ user_id: viewer.userId, Share: { none: {} } });
+      }
+
+      const needsContent = (filters.has?.length ?? 0) > 0 || parsed.excluded.length > 0;
+      const documents: Array<{ id: number; title: string; tags: string[]; content?: string }> = await prisma.document.findMany({
+        where: { AND: conditions },
+        select: { id: true, title: true, tags: true, ...(needsContent ? { content: true } : {}) },
+        orderBy: { updated_at: "desc" },
+      });
+
+      const ids = documents
+        .filter((doc) =>
+          noteHasTags(doc.tags ?? [], filters.tags) &&
+          (filters.has ?? []).every((kind) => noteHasContent(doc.content ?? "", kind)) &&
+          noteMatchesText(doc, parsed, true)
+        )
+        .map((doc) => doc.id);
+      return { success: true, data: ids };
+    } catch (error) {
+      console.error("❌ Error evaluating saved search:", error);
+      return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+    }
+  }
+}
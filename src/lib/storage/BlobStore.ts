@@ -0,0 +1,33 @@
+import { LocalBlobStore } from "./LocalBlobStore";
+
+/**
+ * Content-addressed storage for attachment bytes: a blob is written under the SHA-256 of its
+ * content, so writing the same bytes twice stores them once.
+ */
+export interface BlobStore {
+  has(key: string): Promise<boolean>;
+  put(key: string, data: Buffer): Promise<void>;
+  // Null when there is no blob under this key
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+let blobStore: BlobStore | null = null;
+
+/**
+ * Backend chosen by ATTACHMENT_STORAGE. Only "local" (the default) is built in; another backend
+ * implements BlobStore and is added here.
+ */
+export function getBlobStore(): BlobStore {
+  if (blobStore) return blobStore;
+
+  const backend = (process.env.ATTACHMENT_STORAGE || "local").toLowerCase();
+  switch (backend) {
+    case "local":
+      blobStore = new LocalBlobStore(process.env.ATTACHMENT_STORAGE_DIR || "storage/attachments");
+      break;
+    default:
+      throw new Error(`Unknown attachment storage backend: ${backend}`);
+  }
+  return blobStore;
+}
@@ -0,0 +1,61 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { BlobStore } from "./BlobStore";
+
+const BLOB_KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * Blobs as files of a local directory, fanned out by the first characters of their key.
+ * With several app instances, the directory has to be shared between them.
+ */
+export class LocalBlobStore implements BlobStore {
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  private pathFor(key: string): string {
+    if (!BLOB_KEY_PATTERN.test(key)) {
+      throw new Error("Invalid blob key");
+    }
+    return path.join(this.root, key.slice(0, 2), key.slice(2, 4), key);
+  }
+
+  async has(key: string): Promise<boolean> {
+    try {
+      await fs.access(this.pathFor(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const target = this.pathFor(key);
+    if (await this.has(key)) return;
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    // Written aside then renamed, so that a blob is never read half-written
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, target);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.pathFor(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== "ENOENT") throw error;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { diffInline, diffSideBySide, diffWords } from "./textDiff";
+
+function rebuild(segments: Array<{ type: string; text: string }>, side: "before" | "after"): string {
+  const skipped = side === "before" ? "insert" : "delete";
+  return segments.filter((segment) => segment.type !== skipped).map((segment) => segment.text).join("");
+}
+
+describe("diffWords", () => {
+  it("compares whole words", () => {
+    expect(diffWords("the quick fox", "the slow fox")).toEqual([
+      { type: "equal", text: "the " },
+      { type: "delete", text: "quick" },
+      { type: "insert", text: "slow" },
+      { type: "equal", text: " fox" },
+    ]);
+  });
+
+  it("rebuilds both texts when there are more distinct words than token codes", () => {
+    const before = Array.from({ length: 70000 }, (_, i) => `w${i}`).join(" ");
+    const after = before.replace("w10 ", "changed ");
+    const segments = diffWords(before, after);
+    expect(rebuild(segments, "before")).toBe(before);
+    expect(rebuild(segments, "after")).toBe(after);
+    expect(segments.filter((segment) => segment.type !== "equal")).toHaveLength(2);
+  });
+});
+
+describe("diffSideBySide", () => {
+  it("pairs a removed line with the line added in its place", () => {
+    const rows = diffSideBySide("a\nb\nc", "a\nB\nc");
+    expect(rows).toHaveLength(3);
+    expect(rows[1].left).toMatchObject({ number: 2, text: "b", type: "delete" });
+    expect(rows[1].right).toMatchObject({ number: 2, text: "B", type: "insert" });
+  });
+
+  it("handles texts with more than 55k distinct lines", () => {
+    const lines = Array.from({ length: 60000 }, (_, i) => `line ${i}`);
+    const before = lines.join("\n");
+    const after = [...lines.slice(0, 58000), "edited", ...lines.slice(58001)].join("\n");
+
+    const rows = diffSideBySide(before, after);
+    const left = rows.flatMap((row) => (row.left ? [row.left.text] : []));
+    const right = rows.flatMap((row) => (row.right ? [row.right.text] : []));
+    expect(left).toEqual(before.split("\n"));
+    expect(right).toEqual(after.split("\n"));
+    expect(rows.filter((row) => row.left?.type !== "equal").map((row) => row.left?.text)).toEqual(["line 58000"]);
+  });
+});
+
+describe("diffInline", () => {
+  it("shows added and removed lines once", () => {
+    expect(diffInline("a\nb", "a\nc\nd").map((line) => line.type)).toEqual(["equal", "modified", "insert"]);
+  });
+});
@@ -0,0 +1,206 @@
+import DiffMatchPatch from "diff-match-patch";
+
+/**
+ * Line and word level diffs of markdown texts, built on diff-match-patch.
+ * Used by the history sidebar to compare any two versions of a note.
+ */
+
+export type DiffSegmentType = "equal" | "insert" | "delete";
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface DiffLine {
+  // 1-based line number on its side
+  number: number;
+  text: string;
+  type: DiffSegmentType;
+  // Word-level detail for lines that were modified rather than added or removed
+  segments: DiffSegment[];
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export interface InlineDiffLine {
+  oldNumber: number | null;
+  newNumber: number | null;
+  type: DiffSegmentType | "modified";
+  segments: DiffSegment[];
+}
+
+// Words, whitespace runs and markdown markers are compared as whole tokens
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+|\*\*|__|~~|`+|#+|-\s\[[ xX]\]|./gu;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+// Token codes are single UTF-16 units outside the surrogate range, which diff-match-patch
+// would otherwise split or mangle
+const SURROGATE_START = 0xd800;
+const SURROGATE_COUNT = 0x800;
+const MAX_TOKEN_INDEX = 0xffff - SURROGATE_COUNT;
+
+function tokenChar(index: number): string {
+  return String.fromCharCode(index < SURROGATE_START ? index : index + SURROGATE_COUNT);
+}
+
+function tokenIndex(char: string): number {
+  const code = char.charCodeAt(0);
+  return code < SURROGATE_START ? code : code - SURROGATE_COUNT;
+}
+
+/**
+ * Maps each distinct token to a single character so that diff-match-patch compares tokens.
+ * Once the codes run out, the rest of a list is encoded as one token (the last two codes are
+ * kept for those).
+ */
+function encodeTokens(a: string[], b: string[]): { encodedA: string; encodedB: string; tokens: string[] } {
+  const tokens: string[] = [""];
+  const index = new Map<string, number>();
+  const encode = (list: string[]) => {
+    let encoded = "";
+    for (let i = 0; i < list.length; i += 1) {
+      const isFull = tokens.length >= MAX_TOKEN_INDEX - 1;
+      const token = isFull ? list.slice(i).join("") : list[i];
+      let code = index.get(token);
+      if (code === undefined) {
+        code = tokens.length;
+        tokens.push(token);
+        index.set(token, code);
+      }
+      encoded += tokenChar(code);
+      if (isFull) break;
+    }
+    return encoded;
+  };
+  return { encodedA: encode(a), encodedB: encode(b), tokens };
+}
+
+function decodeTokens(diffs: DiffMatchPatch.Diff[], tokens: string[]): DiffMatchPatch.Diff[] {
+  return diffs.map(([operation, encoded]): DiffMatchPatch.Diff => [
+    operation,
+    Array.from(encoded, (char) => tokens[tokenIndex(char)]).join(""),
+  ]);
+}
+
+function toSegments(diffs: DiffMatchPatch.Diff[]): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  for (const [operation, text] of diffs) {
+    if (!text) continue;
+    const type: DiffSegmentType =
+      operation === DiffMatchPatch.DIFF_INSERT ? "insert" : operation === DiffMatchPatch.DIFF_DELETE ? "delete" : "equal";
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Word-level diff of two strings.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) return before ? [{ type: "equal", text: before }] : [];
+  const dmp = new DiffMatchPatch();
+  const { encodedA, encodedB, tokens } = encodeTokens(tokenize(before), tokenize(after));
+  const diffs = dmp.diff_main(encodedA, encodedB, false);
+  dmp.diff_cleanupSemantic(diffs);
+  return toSegments(decodeTokens(diffs, tokens));
+}
+
+/**
+ * Line-level diff: runs of equal, removed and added lines.
+ */
+function diffLineRuns(before: string, after: string): Array<{ type: DiffSegmentType; lines: string[] }> {
+  const dmp = new DiffMatchPatch();
+  const splitLines = (text: string) => `${text}\n`.match(/[^\n]*\n/g) ?? [];
+  const { encodedA, encodedB, tokens } = encodeTokens(splitLines(before), splitLines(after));
+  const diffs = dmp.diff_main(encodedA, encodedB, false);
+  dmp.diff_cleanupSemantic(diffs);
+
+  return toSegments(decodeTokens(diffs, tokens)).map((segment) => ({
+    type: segment.type,
+    lines: segment.text.replace(/\n$/, "").split("\n"),
+  }));
+}
+
+/**
+ * Side-by-side rows: removed lines on the left, added lines on the right.
+ * A removed line followed by an added one is shown as a modification of it, with word-level detail.
+ */
+export function diffSideBySide(before: string, after: string): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  const runs = diffLineRuns(before, after);
+  let oldNumber = 0;
+  let newNumber = 0;
+
+  for (let i = 0; i < runs.length; i += 1) {
+    const run = runs[i];
+    if (run.type === "equal") {
+      for (const text of run.lines) {
+        oldNumber += 1;
+        newNumber += 1;
+        const segments: DiffSegment[] = [{ type: "equal", text }];
+        rows.push({
+          left: { number: oldNumber, text, type: "equal", segments },
+          right: { number: newNumber, text, type: "equal", segments },
+        });
+      }
+      continue;
+    }
+
+    const removed = run.type === "delete" ? run.lines : [];
+    const nextRun = runs[i + 1];
+    const added = run.type === "insert" ? run.lines : nextRun?.type === "insert" ? nextRun.lines : [];
+    if (run.type === "delete" && nextRun?.type === "insert") i += 1;
+
+    const count = Math.max(removed.length, added.length);
+    for (let index = 0; index < count; index += 1) {
+      const oldText = removed[index];
+      const newText = added[index];
+      if (oldText !== undefined && newText !== undefined) {
+        const words = diffWords(oldText, newText);
+        oldNumber += 1;
+        newNumber += 1;
+        rows.push({
+          left: { number: oldNumber, text: oldText, type: "delete", segments: words.filter((s) => s.type !== "insert") },
+          right: { number: newNumber, text: newText, type: "insert", segments: words.filter((s) => s.type !== "delete") },
+        });
+      } else if (oldText !== undefined) {
+        oldNumber += 1;
+        rows.push({ left: { number: oldNumber, text: oldText, type: "delete", segments: [{ type: "delete", text: oldText }] }, right: null });
+      } else if (newText !== undefined) {
+        newNumber += 1;
+        rows.push({ left: null, right: { number: newNumber, text: newText, type: "insert", segments: [{ type: "insert", text: newText }] } });
+      }
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Unified view: modified lines appear once, with removed and added words inline.
+ */
+export function diffInline(before: string, after: string): InlineDiffLine[] {
+  return diffSideBySide(before, after).map(({ left, right }): InlineDiffLine => {
+    if (left && right) {
+      return left.type === "equal"
+        ? { oldNumber: left.number, newNumber: right.number, type: "equal", segments: left.segments }
+        : { oldNumber: left.number, newNumber: right.number, type: "modified", segments: diffWords(left.text, right.text) };
+    }
+    if (left) {
+      return { oldNumber: left.number, newNumber: null, type: "delete", segments: left.segments };
+    }
+    return { oldNumber: null, newNumber: right?.number ?? null, type: "insert", segments: right?.segments ?? [] };
+  });
+}
@@ -161,6 +161,8 @@ export interface DocumentHistoryEntry {
   snapshot_after: string;
   diff_added?: string | null;
   diff_removed?: string | null;
+  label?: string | null;
+  pinned?: boolean;
   created_at: Date;
   // Joined user information (optional)
   user?: {
@@ -173,6 +175,26 @@ export interface DocumentHistoryEntry {
   } | null;
 }
 
+// History entry as listed by getDocumentHistoryAction: snapshots are loaded one version at a time
+export type DocumentHistorySummary = Omit<DocumentHistoryEntry, "snapshot_before" | "snapshot_after">;
+
+// History entry saved by someone else, as listed by getDocumentSyncStateAction
+export interface DocumentRemoteChange {
+  id: number;
+  author: string;
+  createdAt: string;
+}
+
+// Document as saved on the server, which offline edits are replayed against
+export interface DocumentSyncState {
+  text: string;
+  title: string;
+  tags: string[];
+  updatedAt: string;
+  latestHistoryId: number | null;
+  remoteChanges: DocumentRemoteChange[];
+}
+
 export interface TrashDocument {
   id: number;
   original_id?: number | null;
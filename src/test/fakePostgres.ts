@@ -0,0 +1,117 @@
+// test/fakePostgres.ts
+// In-memory stand-in for the Postgres features the realtime fan-out relies on: LISTEN/NOTIFY and
+// the realtime_messages table. Every module instance of a test shares one database, like the
+// server instances of a deployment do, so it lives on globalThis.
+import { EventEmitter } from "node:events";
+
+interface StoredMessage {
+  id: number;
+  payload: string;
+  createdAt: number;
+}
+
+export interface FakeDocument {
+  id: number;
+  user_id: number;
+  title: string;
+  content: string;
+  tags: string[];
+}
+
+export class FakePostgres {
+  readonly messages: StoredMessage[] = [];
+  readonly documents = new Map<number, FakeDocument>();
+  // Each NOTIFY, in commit order
+  readonly notifications: Array<{ channel: string; payload: string }> = [];
+  private readonly listeners = new Map<FakeClient, Set<string>>();
+  private nextMessageId = 1;
+  private delivery: Promise<void> = Promise.resolve();
+
+  async query(text: string, params: unknown[] = []): Promise<{ rows: unknown[]; rowCount: number }> {
+    const sql = text.replace(/\s+/g, " ").trim();
+
+    if (sql.startsWith("SELECT pg_notify")) {
+      this.notify(String(params[0]), String(params[1]));
+      return { rows: [{}], rowCount: 1 };
+    }
+    if (sql.startsWith("INSERT INTO realtime_messages")) {
+      const message = { id: this.nextMessageId++, payload: String(params[0]), createdAt: Date.now() };
+      this.messages.push(message);
+      return { rows: [{ id: String(message.id) }], rowCount: 1 };
+    }
+    if (sql.startsWith("SELECT payload FROM realtime_messages")) {
+      const found = this.messages.find((message) => String(message.id) === String(params[0]));
+      return found ? { rows: [{ payload: found.payload }], rowCount: 1 } : { rows: [], rowCount: 0 };
+    }
+    if (sql.startsWith("DELETE FROM realtime_messages")) {
+      const limit = Date.now() - Number(params[0]) * 1000;
+      const deleted = this.messages.filter((message) => message.createdAt < limit);
+      for (const message of deleted) this.messages.splice(this.messages.indexOf(message), 1);
+      return { rows: deleted.map((message) => ({ id: String(message.id) })), rowCount: deleted.length };
+    }
+    if (sql.startsWith("CREATE")) {
+      return { rows: [], rowCount: 0 };
+    }
+    throw new Error(`Unsupported query: ${sql}`);
+  }
+
+  listen(client: FakeClient, channel: string): void {
+    const channels = this.listeners.get(client) ?? new Set<string>();
+    channels.add(channel);
+    this.listeners.set(client, channels);
+  }
+
+  unlisten(client: FakeClient): void {
+    this.listeners.delete(client);
+  }
+
+  // Notifications reach every listener after the notifying query returns, in commit order
+  private notify(channel: string, payload: string): void {
+    this.notifications.push({ channel, payload });
+    this.delivery = this.delivery.then(async () => {
+      await new Promise((resolve) => setImmediate(resolve));
+      for (const [client, channels] of this.listeners) {
+        if (channels.has(channel)) client.emit("notification", { channel, payload });
+      }
+    });
+  }
+
+  reset(): void {
+    this.messages.length = 0;
+    this.notifications.length = 0;
+    this.documents.clear();
+    this.listeners.clear();
+  }
+}
+
+export class FakeClient extends EventEmitter {
+  async connect(): Promise<void> {}
+
+  async query(text: string): Promise<{ rows: unknown[]; rowCount: number }> {
+    const listen = /^LISTEN (\w+)$/.exec(text.trim());
+    if (!listen) return getFakePostgres().query(text);
+    getFakePostgres().listen(this, listen[1]);
+    return { rows: [], rowCount: 0 };
+  }
+
+  async end(): Promise<void> {
+    getFakePostgres().unlisten(this);
+    this.emit("end");
+  }
+}
+
+export class FakePool extends EventEmitter {
+  query(text: string, params?: unknown[]) {
+    return getFakePostgres().query(text, params);
+  }
+}
+
+const globalForFakePostgres = globalThis as unknown as { fakePostgres?: FakePostgres };
+
+export function getFakePostgres(): FakePostgres {
+  globalForFakePostgres.fakePostgres ??= new FakePostgres();
+  return globalForFakePostgres.fakePostgres;
+}
+
+// Module replacing "pg": `vi.mock("pg", () => fakePgModule)`
+export const fakePgModule = { Client: FakeClient, Pool: FakePool, default: { Client: FakeClient, Pool: FakePool } };
@@ -6,6 +6,7 @@ declare global {
     canWysiwygUndo?: () => boolean;
     canWysiwygRedo?: () => boolean;
     applyWysiwygFormatting?: (command: string, value?: string) => void;
+    getWysiwygMarkdown?: () => string | null;
     getCurrentImageForEditing?: () => { src: string; naturalWidth: number; naturalHeight: number; styleWidth: string; styleHeight: string } | null;
     applyImageEdit?: (payload: { src?: string; widthPercent?: number; widthPx?: number }) => void;
     openImageEditModal?: () => void;